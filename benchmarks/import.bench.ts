@@ -0,0 +1,61 @@
+// @vitest-environment node
+/**
+ * 导入 5000 条密码的耗时基准
+ * 运行：npm run bench
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { bench, describe, vi } from 'vitest';
+
+const userDataDir = vi.hoisted(() => {
+  const nodeFs = require('fs') as typeof import('fs');
+  const nodeOs = require('os') as typeof import('os');
+  const nodePath = require('path') as typeof import('path');
+  return nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), 'pwmgr-bench-'));
+});
+
+vi.mock('electron', () => ({
+  app: { getPath: () => userDataDir },
+  dialog: {},
+}));
+
+import { initDatabase, closeDatabase } from '../electron/main/storage/db';
+import { setDerivedKey } from '../electron/main/crypto';
+import { executeImport } from '../electron/main/import';
+import type { ImportEntry } from '../electron/main/storage/models';
+
+const ENTRY_COUNT = 5000;
+
+const entries: ImportEntry[] = Array.from({ length: ENTRY_COUNT }, (_, i) => ({
+  rowNumber: i + 2,
+  title: `站点 ${i}`,
+  username: `user${i}@example.com`,
+  password: crypto.randomBytes(12).toString('base64'),
+  url: `https://site${i}.example.com`,
+  notes: i % 10 === 0 ? '导入测试备注' : undefined,
+  category: ['工作', '个人', '金融'][i % 3],
+}));
+
+/**
+ * 重建空密码库
+ */
+async function resetVault(): Promise<void> {
+  closeDatabase();
+  fs.rmSync(path.join(userDataDir, 'vault.db'), { force: true });
+  await initDatabase();
+  setDerivedKey(crypto.randomBytes(32));
+}
+
+describe(`导入 ${ENTRY_COUNT} 条密码`, () => {
+  bench(
+    '新建密码库并执行导入',
+    async () => {
+      await resetVault();
+      executeImport(entries);
+    },
+    { iterations: 3, warmupIterations: 0, time: 0 }
+  );
+});
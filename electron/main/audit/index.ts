@@ -0,0 +1,294 @@
+/**
+ * 安全审计
+ * 在主进程中扫描解密后的条目，找出弱密码、已泄露、重复使用和相似的密码、长期未更新的密码、
+ * 使用 http:// 的网址以及支持但未保存两步验证的网站；报告中不包含密码本身
+ */
+
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { listEntries } from '../storage/entries';
+import { PasswordEntry } from '../storage/models';
+import { estimateStrength } from '../strength';
+import { getBreachStatus, isPasswordBreached } from '../breach';
+import { supportsTwoFactor } from './two-factor-domains';
+
+export type AuditIssueType = 'weak' | 'breached' | 'reused' | 'similar' | 'stale' | 'insecure-url' | 'missing-2fa';
+
+export interface AuditIssue {
+  type: AuditIssueType;
+  relatedIds?: string[];  // 重复或相似密码的其他条目
+  days?: number;          // 密码未更新的天数
+}
+
+export interface AuditEntryResult {
+  entryId: string;
+  title: string;
+  username: string;
+  url?: string;
+  score: number;  // 0-100
+  issues: AuditIssue[];
+}
+
+export interface AuditReport {
+  score: number;          // 整体得分 0-100，为所有检查条目得分的平均值
+  scannedCount: number;
+  counts: Record<AuditIssueType, number>;
+  entries: AuditEntryResult[];  // 只包含有问题的条目，得分低的在前
+  staleDays: number;
+  breachChecked: boolean;  // 是否已导入泄露密码库并完成检查
+  masterPasswordBreached: boolean | null;  // 主密码是否出现在泄露密码库中
+  generatedAt: string;
+}
+
+export interface AuditConfig {
+  staleDays: number;  // 密码超过多少天未更新视为过期
+}
+
+// 配置文件名
+const CONFIG_FILE = 'audit_config.json';
+
+const DEFAULT_CONFIG: AuditConfig = {
+  staleDays: 365,
+};
+
+// 各类问题的扣分
+const PENALTIES: Record<AuditIssueType, number> = {
+  weak: 40,
+  breached: 40,
+  reused: 30,
+  similar: 15,
+  stale: 10,
+  'insecure-url': 10,
+  'missing-2fa': 10,
+};
+
+// 相似密码：至少这么长才比较编辑距离，编辑距离不超过 MAX_EDIT_DISTANCE 视为相似
+const MIN_SIMILAR_LENGTH = 8;
+const MAX_EDIT_DISTANCE = 2;
+// 去掉数字和符号后的字母部分相同、且至少这么长时也视为相似（如 Summer2023! 和 summer2024）
+const MIN_STEM_LENGTH = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 获取配置文件路径
+ */
+function getConfigPath(): string {
+  return path.join(app.getPath('userData'), CONFIG_FILE);
+}
+
+/**
+ * 加载审计配置
+ */
+export function loadAuditConfig(): AuditConfig {
+  try {
+    const filePath = getConfigPath();
+    if (fs.existsSync(filePath)) {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return { ...DEFAULT_CONFIG, ...saved };
+    }
+  } catch (error) {
+    console.error('Failed to load audit config:', error);
+  }
+  return { ...DEFAULT_CONFIG };
+}
+
+/**
+ * 更新审计配置
+ */
+export function updateAuditConfig(updates: Partial<AuditConfig>): AuditConfig {
+  const updated = { ...loadAuditConfig(), ...updates };
+  updated.staleDays = Math.max(1, Math.floor(updated.staleDays));
+
+  fs.writeFileSync(getConfigPath(), JSON.stringify(updated, null, 2), 'utf8');
+  return updated;
+}
+
+/**
+ * 扫描所有条目（不含回收站），生成审计报告
+ */
+export function runSecurityAudit(): AuditReport {
+  return auditEntries(listEntries(), loadAuditConfig());
+}
+
+/**
+ * 审计指定条目
+ */
+export function auditEntries(entries: PasswordEntry[], config: AuditConfig, now: Date = new Date()): AuditReport {
+  const issues = new Map<string, AuditIssue[]>();
+  const addIssue = (id: string, issue: AuditIssue) => {
+    const list = issues.get(id) ?? [];
+    list.push(issue);
+    issues.set(id, list);
+  };
+
+  // 有密码的条目参与密码相关的检查
+  const withPassword = entries.filter((entry) => entry.password);
+  const scanned = entries.filter((entry) => entry.password || isLogin(entry));
+
+  // 按密码分组（以哈希为键，避免长时间持有密码的副本）
+  const groups = new Map<string, { password: string; ids: string[] }>();
+  for (const entry of withPassword) {
+    const key = crypto.createHash('sha256').update(entry.password).digest('hex');
+    const group = groups.get(key);
+    if (group) {
+      group.ids.push(entry.id);
+    } else {
+      groups.set(key, { password: entry.password, ids: [entry.id] });
+    }
+  }
+  const uniqueGroups = [...groups.values()];
+  const breach = getBreachStatus();
+  const breachChecked = breach.available;
+
+  for (const group of uniqueGroups) {
+    // 弱密码
+    if (!estimateStrength(group.password).isAcceptable) {
+      group.ids.forEach((id) => addIssue(id, { type: 'weak' }));
+    }
+    // 已泄露
+    if (breachChecked && isPasswordBreached(group.password)) {
+      group.ids.forEach((id) => addIssue(id, { type: 'breached' }));
+    }
+    // 重复使用
+    if (group.ids.length > 1) {
+      group.ids.forEach((id) => addIssue(id, { type: 'reused', relatedIds: group.ids.filter((other) => other !== id) }));
+    }
+  }
+
+  // 相似密码（不同但只有少量差别）
+  const similar = findSimilarGroups(uniqueGroups);
+  similar.forEach((relatedIds, id) => addIssue(id, { type: 'similar', relatedIds }));
+
+  // 长期未更新
+  const staleBefore = now.getTime() - config.staleDays * DAY_MS;
+  for (const entry of withPassword) {
+    const updatedAt = new Date(entry.updatedAt).getTime();
+    if (updatedAt < staleBefore) {
+      addIssue(entry.id, { type: 'stale', days: Math.floor((now.getTime() - updatedAt) / DAY_MS) });
+    }
+  }
+
+  // 网址相关的检查只针对登录条目
+  for (const entry of entries.filter(isLogin)) {
+    const url = parseUrl(entry.url);
+    if (!url) continue;
+    if (url.protocol === 'http:') {
+      addIssue(entry.id, { type: 'insecure-url' });
+    }
+    if (supportsTwoFactor(url.hostname) && !hasTwoFactor(entry)) {
+      addIssue(entry.id, { type: 'missing-2fa' });
+    }
+  }
+
+  const counts: Record<AuditIssueType, number> = {
+    weak: 0, breached: 0, reused: 0, similar: 0, stale: 0, 'insecure-url': 0, 'missing-2fa': 0,
+  };
+  const results: AuditEntryResult[] = [];
+  let totalScore = 0;
+  for (const entry of scanned) {
+    const entryIssues = issues.get(entry.id) ?? [];
+    const score = Math.max(0, 100 - entryIssues.reduce((sum, issue) => sum + PENALTIES[issue.type], 0));
+    totalScore += score;
+    if (entryIssues.length === 0) continue;
+
+    entryIssues.forEach((issue) => counts[issue.type]++);
+    results.push({
+      entryId: entry.id,
+      title: entry.title,
+      username: entry.username,
+      url: entry.url,
+      score,
+      issues: entryIssues,
+    });
+  }
+  results.sort((a, b) => a.score - b.score || a.title.localeCompare(b.title));
+
+  return {
+    score: scanned.length > 0 ? Math.round(totalScore / scanned.length) : 100,
+    scannedCount: scanned.length,
+    counts,
+    entries: results,
+    staleDays: config.staleDays,
+    breachChecked,
+    masterPasswordBreached: breach.masterPasswordBreached,
+    generatedAt: now.toISOString(),
+  };
+}
+
+function isLogin(entry: PasswordEntry): boolean {
+  return (entry.type ?? 'login') === 'login';
+}
+
+/**
+ * 解析网址，没有协议时按 https 处理
+ */
+function parseUrl(value?: string): URL | null {
+  const text = value?.trim();
+  if (!text) return null;
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 条目是否保存了两步验证密钥
+ */
+function hasTwoFactor(entry: PasswordEntry): boolean {
+  return !!entry.otpauth || (entry.customFields ?? []).some((field) => field.type === 'totp' && field.value.trim());
+}
+
+/**
+ * 找出相似但不相同的密码，返回每个条目对应的相似条目
+ */
+function findSimilarGroups(groups: Array<{ password: string; ids: string[] }>): Map<string, string[]> {
+  const related = new Map<string, Set<string>>();
+  const link = (a: { ids: string[] }, b: { ids: string[] }) => {
+    for (const id of a.ids) {
+      const set = related.get(id) ?? new Set<string>();
+      b.ids.forEach((other) => set.add(other));
+      related.set(id, set);
+    }
+  };
+
+  const stems = groups.map((group) => group.password.toLowerCase().replace(/[^a-z]/g, ''));
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      const a = groups[i].password;
+      const b = groups[j].password;
+      const sameStem = stems[i].length >= MIN_STEM_LENGTH && stems[i] === stems[j];
+      const close = Math.min(a.length, b.length) >= MIN_SIMILAR_LENGTH &&
+        Math.abs(a.length - b.length) <= MAX_EDIT_DISTANCE &&
+        editDistance(a, b, MAX_EDIT_DISTANCE) <= MAX_EDIT_DISTANCE;
+      if (sameStem || close) {
+        link(groups[i], groups[j]);
+        link(groups[j], groups[i]);
+      }
+    }
+  }
+
+  return new Map([...related].map(([id, set]) => [id, [...set]]));
+}
+
+/**
+ * 编辑距离（超过 max 时提前返回 max + 1）
+ */
+function editDistance(a: string, b: string, max: number): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,84 @@
+/**
+ * 支持两步验证（TOTP 验证器）的常见网站
+ * 条目网址属于这些域名（或其子域名）但没有保存验证码密钥时提示启用两步验证
+ */
+
+export const TWO_FACTOR_DOMAINS: readonly string[] = [
+  // 国际
+  'google.com',
+  'microsoft.com',
+  'live.com',
+  'apple.com',
+  'icloud.com',
+  'amazon.com',
+  'aws.amazon.com',
+  'github.com',
+  'gitlab.com',
+  'bitbucket.org',
+  'facebook.com',
+  'instagram.com',
+  'twitter.com',
+  'x.com',
+  'linkedin.com',
+  'reddit.com',
+  'discord.com',
+  'slack.com',
+  'dropbox.com',
+  'paypal.com',
+  'stripe.com',
+  'cloudflare.com',
+  'digitalocean.com',
+  'heroku.com',
+  'npmjs.com',
+  'docker.com',
+  'atlassian.com',
+  'notion.so',
+  'zoom.us',
+  'twitch.tv',
+  'steampowered.com',
+  'epicgames.com',
+  'battle.net',
+  'nintendo.com',
+  'playstation.com',
+  'binance.com',
+  'coinbase.com',
+  'kraken.com',
+  'okx.com',
+  'proton.me',
+  'protonmail.com',
+  'fastmail.com',
+  'yahoo.com',
+  'wordpress.com',
+  'shopify.com',
+  'namecheap.com',
+  'godaddy.com',
+  'openai.com',
+  'figma.com',
+  'adobe.com',
+  'salesforce.com',
+  'hubspot.com',
+  'mailchimp.com',
+  'tiktok.com',
+  'snapchat.com',
+  // 国内
+  'aliyun.com',
+  'cloud.tencent.com',
+  'huaweicloud.com',
+  'qiniu.com',
+  'ucloud.cn',
+  'jdcloud.com',
+  'volcengine.com',
+  'gitee.com',
+  'coding.net',
+  'bilibili.com',
+  'mi.com',
+  'huawei.com',
+];
+
+/**
+ * 主机名是否属于支持两步验证的网站
+ */
+export function supportsTwoFactor(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return TWO_FACTOR_DOMAINS.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
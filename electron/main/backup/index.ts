@@ -8,9 +8,24 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import { app, dialog } from 'electron';
 import { v4 as uuidv4 } from 'uuid';
-import { getDatabase, saveDatabase, execute, query, initDatabase } from '../storage/db';
+import {
+  exportDatabaseFile,
+  unsealWithCurrentKey,
+  saveDatabase,
+  writeFileAtomic,
+  execute,
+  query,
+  queryOne,
+  initDatabase,
+  createMigrationDriver,
+  getDatabasePath,
+} from '../storage/db';
+import { getVaultDataDir } from '../storage/vaults';
+import { isSealed } from '../storage/sealed';
+import { clearDerivedKey, decryptWithSessionKey } from '../crypto';
+import { getSchemaVersion, assertSchemaSupported } from '../storage/migrations';
 import { BackupInfo } from '../storage/models';
-import initSqlJs from 'sql.js';
+import initSqlJs, { Database } from 'sql.js';
 
 // 备份文件魔数
 const BACKUP_MAGIC = 'PWMGR_BACKUP_V1';
@@ -29,7 +44,7 @@ export interface BackupPreviewData {
  * 获取备份目录
  */
 function getBackupDir(): string {
-  const backupDir = path.join(app.getPath('userData'), 'backups');
+  const backupDir = path.join(getVaultDataDir(), 'backups');
   if (!fs.existsSync(backupDir)) {
     fs.mkdirSync(backupDir, { recursive: true });
   }
@@ -43,15 +58,53 @@ function calculateChecksum(data: Buffer): string {
   return crypto.createHash('sha256').update(data).digest('hex');
 }
 
+/**
+ * 在备份数据库上执行带参数的查询
+ */
+function queryBackupDb<T>(backupDb: Database, sql: string, params: (string | number | null)[] = []): T[] {
+  const stmt = backupDb.prepare(sql);
+  stmt.bind(params);
+  const results: T[] = [];
+  while (stmt.step()) {
+    results.push(stmt.getAsObject() as T);
+  }
+  stmt.free();
+  return results;
+}
+
+/**
+ * 读取备份中的数据库镜像，整库加密的备份使用当前密码库的密钥解密
+ */
+function readBackupImage(dbData: Buffer): Buffer {
+  if (!isSealed(dbData)) return dbData;
+  try {
+    return unsealWithCurrentKey(dbData);
+  } catch {
+    throw new Error('备份来自其他密码库或主密码已修改，无法读取备份内容');
+  }
+}
+
+/**
+ * 检查备份中的条目能否用当前会话密钥解密（没有条目时视为可以）
+ * 迁移到数据密钥之前的备份使用主密码派生的密钥加密，同样无法合并
+ */
+function canDecryptBackupEntries(backupDb: Database): boolean {
+  const sample = queryBackupDb<{ encrypted_data: string }>(backupDb, 'SELECT encrypted_data FROM password_entries LIMIT 1');
+  if (sample.length === 0) return true;
+  try {
+    decryptWithSessionKey(JSON.parse(sample[0].encrypted_data));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * 创建备份
  */
 export async function createBackup(backupType: 'manual' | 'auto' = 'manual'): Promise<BackupInfo> {
-  const db = getDatabase();
-  
-  // 导出数据库
-  const dbData = db.export();
-  const dbBuffer = Buffer.from(dbData);
+  // 导出数据库（整库加密的密码库导出加密后的文件）
+  const dbBuffer = exportDatabaseFile();
   
   // 创建备份数据包
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -155,11 +208,14 @@ export async function previewBackup(filePath: string): Promise<BackupPreviewData
   
   // 使用 sql.js 打开备份数据库
   const SQL = await initSqlJs();
-  const backupDb = new SQL.Database(dbData);
+  const backupDb = new SQL.Database(readBackupImage(dbData));
   
   try {
-    // 查询条目数量和列表
-    const entriesResult = backupDb.exec('SELECT title, username, url FROM password_entries LIMIT 100');
+    // 查询条目数量和列表，不计回收站中的条目（旧版本备份没有 deleted_at 列）
+    const hasDeletedAt = queryBackupDb<{ name: string }>(backupDb, 'PRAGMA table_info(password_entries)')
+      .some(column => column.name === 'deleted_at');
+    const activeFilter = hasDeletedAt ? ' WHERE deleted_at IS NULL' : '';
+    const entriesResult = backupDb.exec(`SELECT title, username, url FROM password_entries${activeFilter} LIMIT 100`);
     const entries = entriesResult.length > 0 
       ? entriesResult[0].values.map(row => ({
           title: row[0] as string,
@@ -168,7 +224,7 @@ export async function previewBackup(filePath: string): Promise<BackupPreviewData
         }))
       : [];
     
-    const entriesCountResult = backupDb.exec('SELECT COUNT(*) FROM password_entries');
+    const entriesCountResult = backupDb.exec(`SELECT COUNT(*) FROM password_entries${activeFilter}`);
     const entriesCount = entriesCountResult.length > 0 ? Number(entriesCountResult[0].values[0][0]) : 0;
     
     // 查询分类
@@ -233,106 +289,158 @@ export async function restoreBackup(backupPath?: string, mode: 'overwrite' | 'me
   const data = fs.readFileSync(filePath);
   const dbData = data.slice(BACKUP_MAGIC.length + 64);
   
+  // 更新版本应用创建的备份无法打开，恢复前先检查
+  // 其他主密码加密的备份此时无法解密，在解锁时由迁移检查
+  const SQL = await initSqlJs();
+  let image: Buffer | null = null;
+  try {
+    image = readBackupImage(dbData);
+  } catch {
+    image = null;
+  }
+  if (image) {
+    const schemaCheckDb = new SQL.Database(image);
+    try {
+      assertSchemaSupported(await getSchemaVersion(createMigrationDriver(schemaCheckDb)));
+    } finally {
+      schemaCheckDb.close();
+    }
+  }
+  
   if (mode === 'overwrite') {
     // 覆盖模式：直接替换数据库
-    const currentDbPath = path.join(app.getPath('userData'), 'vault.db');
+    const currentDbPath = getDatabasePath();
+    saveDatabase();
     if (fs.existsSync(currentDbPath)) {
       const backupCurrentPath = currentDbPath + '.before_restore';
       fs.copyFileSync(currentDbPath, backupCurrentPath);
     }
     
-    fs.writeFileSync(currentDbPath, dbData);
+    writeFileAtomic(currentDbPath, dbData);
     
-    // 重新初始化数据库
+    // 重新初始化数据库，恢复的数据可能使用其他主密码，需要重新登录
+    clearDerivedKey();
     await initDatabase();
     
     return { added: 0, skipped: 0 };
   } else {
     // 增量模式：合并数据
-    const SQL = await initSqlJs();
-    const backupDb = new SQL.Database(dbData);
+    // 条目和附件使用数据密钥加密，只能合并数据密钥相同的备份
+    if (!image) {
+      throw new Error('备份来自其他密码库或主密码已修改，无法合并，请使用覆盖恢复');
+    }
+    const backupDb = new SQL.Database(image);
     
     let added = 0;
     let skipped = 0;
     
     try {
-      // 获取备份中的所有条目
-      const entriesResult = backupDb.exec(`
-        SELECT id, title, username, password, url, notes, category_id, icon, favorite, created_at, updated_at 
-        FROM password_entries
-      `);
-      
-      if (entriesResult.length > 0) {
-        const columns = ['id', 'title', 'username', 'password', 'url', 'notes', 'category_id', 'icon', 'favorite', 'created_at', 'updated_at'];
-        
-        for (const row of entriesResult[0].values) {
-          const entry: Record<string, unknown> = {};
-          columns.forEach((col, i) => {
-            entry[col] = row[i];
-          });
-          
-          // 检查是否已存在（按标题和用户名判断）
-          const existing = query<{ id: string }>(
-            'SELECT id FROM password_entries WHERE title = ? AND username = ?',
-            [entry.title as string, entry.username as string]
-          );
-          
-          if (existing.length === 0) {
-            // 不存在，插入新条目
-            execute(
-              `INSERT INTO password_entries (id, title, username, password, url, notes, category_id, icon, favorite, created_at, updated_at)
-               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-              [
-                uuidv4(), // 使用新 ID
-                entry.title,
-                entry.username,
-                entry.password,
-                entry.url,
-                entry.notes,
-                entry.category_id,
-                entry.icon,
-                entry.favorite,
-                entry.created_at,
-                entry.updated_at,
-              ]
-            );
-            added++;
-          } else {
-            skipped++;
-          }
-        }
+      if (!canDecryptBackupEntries(backupDb)) {
+        throw new Error('备份来自其他密码库或主密码已修改，无法合并，请使用覆盖恢复');
       }
       
-      // 合并分类（如果不存在则添加）
-      const categoriesResult = backupDb.exec('SELECT name, icon, color, sort_order, is_default FROM categories');
+      const hasTable = (name: string) =>
+        queryBackupDb(backupDb, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [name]).length > 0;
+      const now = new Date().toISOString();
+      
+      // 合并分类（按名称匹配，记录备份中的分类 ID 对应的本地 ID）
+      const categoryIds = new Map<string, string>();
+      const categoriesResult = backupDb.exec('SELECT id, name, icon, color, sort_order, is_default FROM categories');
       if (categoriesResult.length > 0) {
         for (const row of categoriesResult[0].values) {
-          const [name, icon, color, sortOrder, isDefault] = row;
-          const existing = query<{ id: string }>('SELECT id FROM categories WHERE name = ?', [name as string]);
-          if (existing.length === 0) {
+          const [id, name, icon, color, sortOrder, isDefault] = row;
+          const existing = queryOne<{ id: string }>('SELECT id FROM categories WHERE name = ?', [name as string]);
+          if (existing) {
+            categoryIds.set(id as string, existing.id);
+          } else {
+            const newId = uuidv4();
             execute(
-              'INSERT INTO categories (id, name, icon, color, sort_order, is_default) VALUES (?, ?, ?, ?, ?, ?)',
-              [uuidv4(), name, icon, color, sortOrder, isDefault]
+              'INSERT INTO categories (id, name, icon, color, sort_order, is_default, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+              [newId, name, icon, color, sortOrder, isDefault, now]
             );
+            categoryIds.set(id as string, newId);
           }
         }
       }
       
-      // 合并标签（如果不存在则添加）
-      const tagsResult = backupDb.exec('SELECT name, color FROM tags');
+      // 合并标签（按名称匹配）
+      const tagIds = new Map<string, string>();
+      const tagsResult = backupDb.exec('SELECT id, name, color FROM tags');
       if (tagsResult.length > 0) {
         for (const row of tagsResult[0].values) {
-          const [name, color] = row;
-          const existing = query<{ id: string }>('SELECT id FROM tags WHERE name = ?', [name as string]);
-          if (existing.length === 0) {
+          const [id, name, color] = row;
+          const existing = queryOne<{ id: string }>('SELECT id FROM tags WHERE name = ?', [name as string]);
+          if (existing) {
+            tagIds.set(id as string, existing.id);
+          } else {
+            const newId = uuidv4();
             execute(
-              'INSERT INTO tags (id, name, color) VALUES (?, ?, ?)',
-              [uuidv4(), name, color]
+              'INSERT INTO tags (id, name, color, created_at) VALUES (?, ?, ?, ?)',
+              [newId, name, color, now]
             );
+            tagIds.set(id as string, newId);
           }
         }
       }
       
+      // 合并条目（按 ID 判断是否已存在），连同回收站状态、标签关联和附件一起复制
+      const hasDeletedAt = queryBackupDb<{ name: string }>(backupDb, 'PRAGMA table_info(password_entries)')
+        .some(column => column.name === 'deleted_at');
+      const entriesResult = backupDb.exec(
+        `SELECT id, encrypted_data, category_id, favorite, created_at, updated_at, ${hasDeletedAt ? 'deleted_at' : 'NULL'}
+         FROM password_entries`
+      );
+      if (entriesResult.length > 0) {
+        for (const row of entriesResult[0].values) {
+          const [id, encryptedData, categoryId, favorite, createdAt, updatedAt, deletedAt] = row;
+          
+          const existing = queryOne<{ id: string }>('SELECT id FROM password_entries WHERE id = ?', [id as string]);
+          if (existing) {
+            skipped++;
+            continue;
+          }
+          
+          execute(
+            `INSERT INTO password_entries (id, encrypted_data, category_id, favorite, created_at, updated_at, deleted_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, encryptedData, categoryId ? categoryIds.get(categoryId as string) ?? null : null, favorite, createdAt, updatedAt, deletedAt]
+          );
+          
+          const entryTags = queryBackupDb<{ tag_id: string }>(
+            backupDb, 'SELECT tag_id FROM entry_tags WHERE entry_id = ?', [id as string]
+          );
+          for (const { tag_id } of entryTags) {
+            const localTagId = tagIds.get(tag_id);
+            if (localTagId) {
+              execute('INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) VALUES (?, ?)', [id, localTagId]);
+            }
+          }
+          
+          if (hasTable('attachments')) {
+            const attachments = queryBackupDb<{
+              id: string;
+              encrypted_meta: string;
+              encrypted_data: string;
+              size: number;
+              created_at: string;
+            }>(
+              backupDb,
+              'SELECT id, encrypted_meta, encrypted_data, size, created_at FROM attachments WHERE entry_id = ?',
+              [id as string]
+            );
+            for (const attachment of attachments) {
+              execute(
+                `INSERT OR IGNORE INTO attachments (id, entry_id, encrypted_meta, encrypted_data, size, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [attachment.id, id, attachment.encrypted_meta, attachment.encrypted_data, attachment.size, attachment.created_at]
+              );
+            }
+          }
+          
+          added++;
+        }
+      }
+      
       // 保存数据库
       saveDatabase();
       
@@ -385,6 +493,13 @@ export function deleteBackup(backupId: string): void {
   execute('DELETE FROM backups WHERE id = ?', [backupId]);
 }
 
+/**
+ * 删除当前密码库的全部本地备份文件（清除密码库时调用）
+ */
+export function deleteLocalBackups(): void {
+  fs.rmSync(path.join(getVaultDataDir(), 'backups'), { recursive: true, force: true });
+}
+
 /**
  * 清理旧备份（保留指定数量）
  */
@@ -0,0 +1,202 @@
+/**
+ * 泄露密码的紧凑索引（分块布隆过滤器）
+ * 按 SHA-1 的高位把过滤器分成若干块，每个哈希只落在一个块内：
+ * 从排序的哈希文件生成时逐块写出，查询时只读取一个块，都不需要把整个索引读入内存
+ *
+ * 文件格式：32 字节文件头 + blockCount 个 blockBytes 字节的块
+ *   0  magic "PMBLOOM1"
+ *   8  uint8  prefixBits（块数 = 2^prefixBits）
+ *   9  uint8  hashCount（每个哈希设置的位数）
+ *   12 uint32 blockBytes
+ *   16 uint64 entryCount
+ */
+
+import fs from 'fs';
+import readline from 'readline';
+
+export const BLOOM_MAGIC = 'PMBLOOM1';
+const HEADER_SIZE = 32;
+
+// 每个哈希占用的位数和设置的位数，误报率约 0.05%
+const BITS_PER_ENTRY = 16;
+const HASH_COUNT = 11;
+// 块数上限，以及划分块时每块的最小字节数
+const MAX_PREFIX_BITS = 16;
+const MIN_BLOCK_BYTES = 4096;
+// 按文件大小估算条目数时每行的最短字节数（40 位哈希 + 换行）
+const MIN_LINE_BYTES = 41;
+
+export interface BloomHeader {
+  prefixBits: number;
+  hashCount: number;
+  blockBytes: number;
+  entryCount: number;
+}
+
+export interface BuildProgress {
+  processedBytes: number;
+  totalBytes: number;
+}
+
+/**
+ * 读取并校验索引文件头
+ */
+export function readBloomHeader(filePath: string): BloomHeader {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const header = Buffer.alloc(HEADER_SIZE);
+    if (fs.readSync(fd, header, 0, HEADER_SIZE, 0) < HEADER_SIZE || header.toString('latin1', 0, 8) !== BLOOM_MAGIC) {
+      throw new Error('不是有效的泄露密码索引文件');
+    }
+    const parsed: BloomHeader = {
+      prefixBits: header.readUInt8(8),
+      hashCount: header.readUInt8(9),
+      blockBytes: header.readUInt32BE(12),
+      entryCount: Number(header.readBigUInt64BE(16)),
+    };
+    const expectedSize = HEADER_SIZE + 2 ** parsed.prefixBits * parsed.blockBytes;
+    if (parsed.prefixBits > MAX_PREFIX_BITS || parsed.hashCount === 0 || parsed.blockBytes === 0 || fs.fstatSync(fd).size !== expectedSize) {
+      throw new Error('泄露密码索引文件已损坏');
+    }
+    return parsed;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * 哈希所在的块
+ */
+function getBlockIndex(hash: Buffer, prefixBits: number): number {
+  return prefixBits === 0 ? 0 : hash.readUInt32BE(0) >>> (32 - prefixBits);
+}
+
+/**
+ * 哈希在块内设置的位（双重哈希，使用块号之外的字节）
+ */
+function getBitPositions(hash: Buffer, hashCount: number, blockBits: number): number[] {
+  const h1 = hash.readUInt32BE(4);
+  const h2 = (hash.readUInt32BE(8) | 1) >>> 0;
+  const positions: number[] = [];
+  for (let i = 0; i < hashCount; i++) {
+    positions.push((h1 + i * h2) % blockBits);
+  }
+  return positions;
+}
+
+/**
+ * 在索引中查找 SHA-1 哈希（可能误报，不会漏报）
+ */
+export function searchBloomIndex(filePath: string, sha1: string): boolean {
+  const header = readBloomHeader(filePath);
+  const hash = Buffer.from(sha1, 'hex');
+  const blockIndex = getBlockIndex(hash, header.prefixBits);
+
+  const block = Buffer.alloc(header.blockBytes);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, block, 0, header.blockBytes, HEADER_SIZE + blockIndex * header.blockBytes);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return getBitPositions(hash, header.hashCount, header.blockBytes * 8)
+    .every((bit) => (block[bit >> 3] & (1 << (bit & 7))) !== 0);
+}
+
+/**
+ * 从按哈希排序的 SHA-1 文件生成索引
+ * 先写入临时文件，完成后再替换目标文件
+ */
+export async function buildBloomIndex(
+  sourcePath: string,
+  targetPath: string,
+  onProgress?: (progress: BuildProgress) => void
+): Promise<BloomHeader> {
+  const totalBytes = fs.statSync(sourcePath).size;
+
+  // 按文件大小估算条目数（偏多，误报率只会更低），再决定分块
+  const estimatedEntries = Math.max(1, Math.ceil(totalBytes / MIN_LINE_BYTES));
+  const totalBytesNeeded = Math.ceil((estimatedEntries * BITS_PER_ENTRY) / 8);
+  let prefixBits = 0;
+  while (prefixBits < MAX_PREFIX_BITS && totalBytesNeeded / 2 ** (prefixBits + 1) >= MIN_BLOCK_BYTES) {
+    prefixBits++;
+  }
+  const blockCount = 2 ** prefixBits;
+  const blockBytes = Math.max(8, Math.ceil(totalBytesNeeded / blockCount / 8) * 8);
+  const blockBits = blockBytes * 8;
+
+  const tempPath = `${targetPath}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  const input = fs.createReadStream(sourcePath, { encoding: 'latin1' });
+  let entryCount = 0;
+  try {
+    // 预先分配整个文件，未写入的块保持全零
+    fs.ftruncateSync(fd, HEADER_SIZE + blockCount * blockBytes);
+
+    let currentBlock = 0;
+    let block = Buffer.alloc(blockBytes);
+    let previous = '';
+    let processedBytes = 0;
+    let lastReport = 0;
+
+    const flush = () => {
+      fs.writeSync(fd, block, 0, blockBytes, HEADER_SIZE + currentBlock * blockBytes);
+    };
+
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    for await (const line of lines) {
+      processedBytes += line.length + 1;
+      const hex = line.slice(0, 40).toUpperCase();
+      if (!hex) continue;
+      if (!/^[0-9A-F]{40}$/.test(hex)) {
+        throw new Error(`第 ${entryCount + 1} 行不是有效的 SHA-1 哈希`);
+      }
+      if (hex < previous) {
+        throw new Error('哈希文件需要按哈希升序排列，请下载 "ordered by hash" 版本');
+      }
+      if (hex === previous) continue;
+      previous = hex;
+
+      const hash = Buffer.from(hex, 'hex');
+      const blockIndex = getBlockIndex(hash, prefixBits);
+      if (blockIndex !== currentBlock) {
+        flush();
+        currentBlock = blockIndex;
+        block = Buffer.alloc(blockBytes);
+      }
+      for (const bit of getBitPositions(hash, HASH_COUNT, blockBits)) {
+        block[bit >> 3] |= 1 << (bit & 7);
+      }
+      entryCount++;
+
+      if (onProgress && processedBytes - lastReport >= 16 * 1024 * 1024) {
+        lastReport = processedBytes;
+        onProgress({ processedBytes, totalBytes });
+      }
+    }
+    if (entryCount === 0) {
+      throw new Error('哈希文件中没有任何条目');
+    }
+    flush();
+
+    const header = Buffer.alloc(HEADER_SIZE);
+    header.write(BLOOM_MAGIC, 0, 'latin1');
+    header.writeUInt8(prefixBits, 8);
+    header.writeUInt8(HASH_COUNT, 9);
+    header.writeUInt32BE(blockBytes, 12);
+    header.writeBigUInt64BE(BigInt(entryCount), 16);
+    fs.writeSync(fd, header, 0, HEADER_SIZE, 0);
+    fs.fsyncSync(fd);
+  } catch (error) {
+    input.destroy();
+    fs.closeSync(fd);
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+  fs.closeSync(fd);
+  fs.renameSync(tempPath, targetPath);
+  onProgress?.({ processedBytes: totalBytes, totalBytes });
+
+  return { prefixBits, hashCount: HASH_COUNT, blockBytes, entryCount };
+}
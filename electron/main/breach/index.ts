@@ -0,0 +1,176 @@
+/**
+ * 离线泄露密码检查
+ * 密码不会发送到任何地方：在本地的 Have I Been Pwned 格式哈希文件或由其生成的紧凑索引中查找密码的 SHA-1
+ */
+
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { BLOOM_MAGIC, buildBloomIndex, readBloomHeader, searchBloomIndex, BuildProgress } from './bloom';
+import { searchSortedFile, validateSortedFile } from './sorted-file';
+
+export type { BuildProgress } from './bloom';
+
+/**
+ * 泄露密码库
+ * sorted: 直接使用按哈希排序的文本文件（精确，需要保留原文件）
+ * index: 紧凑索引，保存在数据目录中（极少量误报）
+ */
+export interface BreachSource {
+  kind: 'sorted' | 'index';
+  path: string;
+  name: string;         // 导入的文件名
+  size: number;         // 字节
+  entryCount?: number;  // 索引中的哈希数
+  importedAt: string;
+}
+
+export interface BreachStatus {
+  source: BreachSource | null;
+  available: boolean;                     // 文件是否仍然存在
+  masterPasswordBreached: boolean | null; // null 表示未检查（导入后需要重新解锁）
+}
+
+export type BreachImportMode = 'reference' | 'index';
+
+// 配置文件名和索引文件名
+const CONFIG_FILE = 'breach_config.json';
+const INDEX_FILE = 'breach_index.bloom';
+
+// 最近一次解锁时主密码的检查结果，只保存结果不保存密码
+let masterPasswordBreached: boolean | null = null;
+let isImporting = false;
+
+function getConfigPath(): string {
+  return path.join(app.getPath('userData'), CONFIG_FILE);
+}
+
+function getIndexPath(): string {
+  return path.join(app.getPath('userData'), INDEX_FILE);
+}
+
+/**
+ * 读取当前的泄露密码库
+ */
+export function getBreachSource(): BreachSource | null {
+  try {
+    const filePath = getConfigPath();
+    if (fs.existsSync(filePath)) {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')).source ?? null;
+    }
+  } catch (error) {
+    console.error('Failed to load breach config:', error);
+  }
+  return null;
+}
+
+function saveBreachSource(source: BreachSource | null): void {
+  fs.writeFileSync(getConfigPath(), JSON.stringify({ source }, null, 2), 'utf8');
+}
+
+/**
+ * 获取泄露检查状态
+ */
+export function getBreachStatus(): BreachStatus {
+  const source = getBreachSource();
+  return {
+    source,
+    available: !!source && fs.existsSync(source.path),
+    masterPasswordBreached: source ? masterPasswordBreached : null,
+  };
+}
+
+/**
+ * 导入泄露密码库
+ * 已生成的索引文件直接复制；哈希文件按 mode 直接引用或生成紧凑索引
+ */
+export async function importBreachSource(
+  filePath: string,
+  mode: BreachImportMode,
+  onProgress?: (progress: BuildProgress) => void
+): Promise<BreachSource> {
+  if (isImporting) {
+    throw new Error('正在导入泄露密码库，请稍候');
+  }
+  isImporting = true;
+  try {
+    const indexPath = getIndexPath();
+    const source: BreachSource = {
+      kind: 'index',
+      path: indexPath,
+      name: path.basename(filePath),
+      size: fs.statSync(filePath).size,
+      importedAt: new Date().toISOString(),
+    };
+
+    if (isBloomIndex(filePath)) {
+      source.entryCount = readBloomHeader(filePath).entryCount;
+      const tempPath = `${indexPath}.tmp`;
+      await fs.promises.copyFile(filePath, tempPath);
+      fs.renameSync(tempPath, indexPath);
+    } else {
+      validateSortedFile(filePath);
+      if (mode === 'reference') {
+        source.kind = 'sorted';
+        source.path = filePath;
+        fs.rmSync(indexPath, { force: true });
+      } else {
+        source.entryCount = (await buildBloomIndex(filePath, indexPath, onProgress)).entryCount;
+      }
+    }
+    if (source.kind === 'index') {
+      source.size = fs.statSync(indexPath).size;
+    }
+
+    saveBreachSource(source);
+    masterPasswordBreached = null;
+    return source;
+  } finally {
+    isImporting = false;
+  }
+}
+
+/**
+ * 移除泄露密码库
+ */
+export function removeBreachSource(): void {
+  fs.rmSync(getIndexPath(), { force: true });
+  saveBreachSource(null);
+  masterPasswordBreached = null;
+}
+
+function isBloomIndex(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const magic = Buffer.alloc(BLOOM_MAGIC.length);
+    fs.readSync(fd, magic, 0, magic.length, 0);
+    return magic.toString('latin1') === BLOOM_MAGIC;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * 检查单个密码，未导入泄露密码库（或文件已不存在）时返回 null
+ */
+export function isPasswordBreached(password: string): boolean | null {
+  if (!password) return false;
+  const source = getBreachSource();
+  if (!source || !fs.existsSync(source.path)) return null;
+
+  const sha1 = crypto.createHash('sha1').update(password, 'utf8').digest('hex');
+  return source.kind === 'sorted' ? searchSortedFile(source.path, sha1) : searchBloomIndex(source.path, sha1);
+}
+
+/**
+ * 解锁或修改主密码时检查主密码，失败时不影响解锁
+ */
+export function checkMasterPassword(password: string): void {
+  try {
+    masterPasswordBreached = isPasswordBreached(password);
+  } catch (error) {
+    console.error('Failed to check master password against breach corpus:', error);
+    masterPasswordBreached = null;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * 按哈希排序的泄露密码文件（Have I Been Pwned 格式）
+ * 每行一个 SHA-1 十六进制哈希，可带 ":次数" 后缀；直接在磁盘上二分查找，不读入整个文件
+ */
+
+import fs from 'fs';
+
+// 单行的最大长度（HIBP 的行约 45 字节，留足余量）
+const MAX_LINE_LENGTH = 256;
+
+const HASH_LINE_PATTERN = /^[0-9A-Fa-f]{40}(:\d+)?\r?$/;
+
+interface Line {
+  hash: string;  // 大写十六进制
+  end: number;   // 下一行的起始位置
+}
+
+/**
+ * 读取起始位置不小于 pos 的第一行
+ */
+function readLineFrom(fd: number, size: number, pos: number): Line | null {
+  const buffer = Buffer.alloc(MAX_LINE_LENGTH * 2);
+  const offset = Math.max(0, pos - 1);
+  const length = fs.readSync(fd, buffer, 0, buffer.length, offset);
+  const text = buffer.subarray(0, length).toString('latin1');
+
+  // pos 为 0 时从文件开头开始，否则跳到 pos - 1 之后的第一个换行
+  let start = 0;
+  if (pos > 0) {
+    const newline = text.indexOf('\n');
+    if (newline === -1) return null;
+    start = newline + 1;
+  }
+  if (offset + start >= size) return null;
+
+  const newline = text.indexOf('\n', start);
+  const line = newline === -1 ? text.slice(start) : text.slice(start, newline);
+  return {
+    hash: line.slice(0, 40).toUpperCase(),
+    end: newline === -1 ? size : offset + newline + 1,
+  };
+}
+
+/**
+ * 在排序文件中查找 SHA-1 哈希
+ */
+export function searchSortedFile(filePath: string, sha1: string): boolean {
+  const target = sha1.toUpperCase();
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const size = fs.fstatSync(fd).size;
+    // 不变量：目标行（如果存在）的起始位置在 [lo, hi) 内
+    let lo = 0;
+    let hi = size;
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      const line = readLineFrom(fd, size, mid);
+      if (!line || line.hash > target) {
+        hi = mid;
+      } else if (line.hash < target) {
+        lo = line.end;
+      } else {
+        return true;
+      }
+    }
+    return false;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * 检查文件是否为按哈希排序的 SHA-1 列表（抽样检查，不读取整个文件）
+ */
+export function validateSortedFile(filePath: string): void {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const size = fs.fstatSync(fd).size;
+    const head = Buffer.alloc(MAX_LINE_LENGTH);
+    const length = fs.readSync(fd, head, 0, head.length, 0);
+    const firstLine = head.subarray(0, length).toString('latin1').split('\n')[0];
+    if (!HASH_LINE_PATTERN.test(firstLine)) {
+      throw new Error('不是有效的 SHA-1 哈希文件，每行应为 40 位十六进制哈希，可带 ":次数"');
+    }
+
+    // 在文件中均匀取样，确认哈希按升序排列
+    let previous = firstLine.slice(0, 40).toUpperCase();
+    const samples = 64;
+    for (let i = 1; i <= samples; i++) {
+      const line = readLineFrom(fd, size, Math.floor((size * i) / (samples + 1)));
+      if (!line) break;
+      if (!/^[0-9A-F]{40}$/.test(line.hash)) {
+        throw new Error('不是有效的 SHA-1 哈希文件，每行应为 40 位十六进制哈希，可带 ":次数"');
+      }
+      if (line.hash < previous) {
+        throw new Error('哈希文件需要按哈希升序排列，请下载 "ordered by hash" 版本');
+      }
+      previous = line.hash;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
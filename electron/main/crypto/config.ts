@@ -1,110 +1,72 @@
 /**
  * 加密配置模块
- * 管理 PBKDF2 迭代次数等安全参数
+ * 管理密码库的密钥派生算法和参数（保存在 vault_meta.kdf_params）
  */
 
-import { query, execute, queryOne } from '../storage/db';
-
-// 配置版本
-const CONFIG_VERSION = 2;
-
-// 默认迭代次数（OWASP 2023 推荐）
-const DEFAULT_ITERATIONS = 600000;
-
-// 旧版本迭代次数（用于升级检测）
-const LEGACY_ITERATIONS = 100000;
-
-// 迭代次数范围
-const MIN_ITERATIONS = 100000;
-const MAX_ITERATIONS = 2000000;
-
-export interface CryptoConfig {
-  version: number;
-  iterations: number;
-  createdAt: string;
-  updatedAt: string;
-}
+import { queryOne, execute } from '../storage/db';
+import {
+  parseKdfParams,
+  DEFAULT_KDF_PARAMS,
+  DEFAULT_ITERATIONS,
+  LEGACY_ITERATIONS,
+  MIN_ARGON2_MEMORY_KIB,
+  MIN_ARGON2_ITERATIONS,
+  type KdfParams,
+} from './kdf';
 
 export interface SecurityInfo {
-  iterations: number;
-  version: number;
+  kdf: KdfParams;
   securityLevel: 'low' | 'medium' | 'high';
   needsUpgrade: boolean;
   derivationTimeMs?: number;
 }
 
 /**
- * 获取加密配置
+ * 获取当前密码库的密钥派生参数
+ * 没有保存参数的旧版本数据按 vault_meta.version 推断（1 为 100,000 次，2 及以上为 600,000 次）
  */
-export function getCryptoConfig(): CryptoConfig {
-  // 从 vault_meta 表读取配置
-  const row = queryOne<{ version: number }>('SELECT version FROM vault_meta WHERE id = 1');
-  
-  if (row) {
-    // 根据版本判断迭代次数
-    if (row.version >= 2) {
-      return {
-        version: row.version,
-        iterations: DEFAULT_ITERATIONS,
-        createdAt: '',
-        updatedAt: ''
-      };
-    } else {
-      // 旧版本数据库
-      return {
-        version: 1,
-        iterations: LEGACY_ITERATIONS,
-        createdAt: '',
-        updatedAt: ''
-      };
-    }
-  }
-  
+export function getKdfParams(): KdfParams {
+  const row = queryOne<{ version: number; kdf_params: string | null }>(
+    'SELECT version, kdf_params FROM vault_meta WHERE id = 1'
+  );
+
   // 新数据库，使用默认配置
-  return {
-    version: CONFIG_VERSION,
-    iterations: DEFAULT_ITERATIONS,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString()
-  };
-}
+  if (!row) {
+    return { ...DEFAULT_KDF_PARAMS };
+  }
 
-/**
- * 获取当前迭代次数
- */
-export function getIterations(): number {
-  return getCryptoConfig().iterations;
+  if (row.kdf_params) {
+    return parseKdfParams(JSON.parse(row.kdf_params));
+  }
+  return { algorithm: 'pbkdf2-sha256', iterations: row.version >= 2 ? DEFAULT_ITERATIONS : LEGACY_ITERATIONS };
 }
 
 /**
- * 设置迭代次数（通过更新 vault_meta 版本）
+ * 保存密钥派生参数（调用方负责同时更新盐值、验证哈希和包装的数据密钥）
  */
-export function setIterations(iterations: number): void {
-  if (iterations < MIN_ITERATIONS || iterations > MAX_ITERATIONS) {
-    throw new Error(`迭代次数必须在 ${MIN_ITERATIONS} 到 ${MAX_ITERATIONS} 之间`);
-  }
-  
-  // 更新版本号来标记使用新迭代次数
+export function saveKdfParams(params: KdfParams): void {
   execute(
-    'UPDATE vault_meta SET version = ?, updated_at = ? WHERE id = 1',
-    [CONFIG_VERSION, new Date().toISOString()]
+    'UPDATE vault_meta SET kdf_params = ?, updated_at = ? WHERE id = 1',
+    [JSON.stringify(parseKdfParams(params)), new Date().toISOString()]
   );
 }
 
 /**
- * 检查是否需要升级
+ * 检查是否需要升级（PBKDF2 迭代次数低于推荐值）
  */
-export function needsUpgrade(): boolean {
-  const config = getCryptoConfig();
-  return config.iterations < DEFAULT_ITERATIONS;
+export function needsUpgrade(params: KdfParams = getKdfParams()): boolean {
+  return params.algorithm === 'pbkdf2-sha256' && params.iterations < DEFAULT_ITERATIONS;
 }
 
 /**
  * 获取安全等级
  */
-function getSecurityLevel(iterations: number): 'low' | 'medium' | 'high' {
-  if (iterations < 300000) return 'low';
-  if (iterations < 600000) return 'medium';
+function getSecurityLevel(params: KdfParams): 'low' | 'medium' | 'high' {
+  if (params.algorithm === 'argon2id') {
+    return params.memoryKiB >= MIN_ARGON2_MEMORY_KIB && params.iterations >= MIN_ARGON2_ITERATIONS ? 'high' : 'medium';
+  }
+  if (params.iterations < 300000) return 'low';
+  if (params.iterations < DEFAULT_ITERATIONS) return 'medium';
   return 'high';
 }
 
@@ -112,32 +74,13 @@ function getSecurityLevel(iterations: number): 'low' | 'medium' | 'high' {
  * 获取安全信息
  */
 export function getSecurityInfo(): SecurityInfo {
-  const config = getCryptoConfig();
+  const kdf = getKdfParams();
   return {
-    iterations: config.iterations,
-    version: config.version,
-    securityLevel: getSecurityLevel(config.iterations),
-    needsUpgrade: needsUpgrade()
+    kdf,
+    securityLevel: getSecurityLevel(kdf),
+    needsUpgrade: needsUpgrade(kdf),
   };
 }
 
-/**
- * 保存加密配置（更新版本和迭代次数）
- */
-export function saveCryptoConfig(config: CryptoConfig): void {
-  execute(
-    'UPDATE vault_meta SET version = ?, updated_at = ? WHERE id = 1',
-    [config.version, config.updatedAt || new Date().toISOString()]
-  );
-}
-
-/**
- * 初始化新数据库的加密配置
- */
-export function initCryptoConfig(): void {
-  // 配置在 vault_meta 表中通过 version 字段管理
-  // 新数据库创建时会自动设置 version = 2
-}
-
-// 导出常量
-export { DEFAULT_ITERATIONS, LEGACY_ITERATIONS, MIN_ITERATIONS, MAX_ITERATIONS };
+// 导出常量和类型
+export * from './kdf';
@@ -1,11 +1,23 @@
 /**
  * 加密模块实现
- * 使用 Node.js crypto 模块实现 AES-256-GCM 加密和 PBKDF2 密钥派生
+ * 使用 Node.js crypto 模块实现 AES-256-GCM 加密，密钥派生支持 PBKDF2 和 Argon2id
  */
 
 import crypto from 'crypto';
 import { EncryptedData } from '../storage/models';
-import { getIterations, DEFAULT_ITERATIONS } from './config';
+import { getKdfParams } from './config';
+import { composeKeyInput } from './key-file';
+import {
+  deriveKeyWithParams,
+  parseKdfParams,
+  DEFAULT_KDF_PARAMS,
+  BASE_ARGON2_PARAMS,
+  DEFAULT_ITERATIONS,
+  MAX_ITERATIONS,
+  MAX_ARGON2_ITERATIONS,
+  type KdfAlgorithm,
+  type KdfParams,
+} from './kdf';
 
 // 加密配置常量
 const ALGORITHM = 'aes-256-gcm';
@@ -13,12 +25,14 @@ const KEY_LENGTH = 32; // 256 bits
 const NONCE_LENGTH = 12; // 96 bits for GCM
 const TAG_LENGTH = 16; // 128 bits
 const SALT_LENGTH = 32; // 256 bits
-const PBKDF2_DIGEST = 'sha256';
+
+// 自动校准时 Argon2id 内存成本的上限（超过后只增加迭代轮数）
+const CALIBRATION_MAX_MEMORY_KIB = 65536;
+// 自动校准默认的目标解锁耗时
+export const DEFAULT_TARGET_UNLOCK_MS = 1000;
 
 // 内存中的派生密钥（解锁后保存）
 let derivedKey: Buffer | null = null;
-// 当前会话使用的迭代次数
-let currentIterations: number | null = null;
 
 /**
  * 生成随机盐值
@@ -28,72 +42,130 @@ export function generateSalt(): string {
 }
 
 /**
- * 使用 PBKDF2 从主密码派生密钥
+ * 从主密码派生密钥
  * @param password 主密码
  * @param salt 盐值
- * @param iterations 迭代次数（可选，默认从配置读取）
- */
-export function deriveKey(password: string, salt: string, iterations?: number): Buffer {
-  const saltBuffer = Buffer.from(salt, 'base64');
-  const iter = iterations ?? getIterationsForDerivation();
-  return crypto.pbkdf2Sync(
-    password,
-    saltBuffer,
-    iter,
-    KEY_LENGTH,
-    PBKDF2_DIGEST
-  );
+ * @param params 密钥派生参数（可选，默认从配置读取）
+ * @param keyFile 密钥文件密钥（可选，与主密码组合成复合密钥）
+ */
+export function deriveKey(password: string, salt: string, params?: KdfParams, keyFile?: Buffer | null): Buffer {
+  const input = keyFile ? composeKeyInput(password, keyFile) : password;
+  try {
+    return deriveKeyWithParams(input, Buffer.from(salt, 'base64'), params ?? getParamsForDerivation());
+  } finally {
+    if (Buffer.isBuffer(input)) input.fill(0);
+  }
 }
 
 /**
- * 获取用于密钥派生的迭代次数
+ * 获取用于密钥派生的参数
  */
-function getIterationsForDerivation(): number {
+function getParamsForDerivation(): KdfParams {
   try {
-    return getIterations();
+    return getKdfParams();
   } catch {
     // 数据库未初始化时使用默认值
-    return DEFAULT_ITERATIONS;
+    return { ...DEFAULT_KDF_PARAMS };
   }
 }
 
 /**
  * 测量密钥派生耗时
- * @param iterations 迭代次数
+ * @param params 密钥派生参数
  * @returns 耗时（毫秒）
  */
-export function measureDerivationTime(iterations: number): number {
+export function measureDerivationTime(params: KdfParams): number {
   const testPassword = 'test_password_for_timing';
   const testSalt = generateSalt();
   
   const start = performance.now();
-  deriveKey(testPassword, testSalt, iterations);
+  deriveKey(testPassword, testSalt, params);
   const end = performance.now();
   
   return Math.round(end - start);
 }
 
+/**
+ * 按本机性能校准密钥派生参数，使解锁耗时接近目标值
+ * PBKDF2 按耗时等比增加迭代次数；Argon2id 先增加内存成本，到达上限后再增加迭代轮数
+ * 结果不会低于推荐的最低参数
+ * @param algorithm 算法
+ * @param targetMs 目标耗时（毫秒）
+ */
+export function calibrateKdfParams(algorithm: KdfAlgorithm, targetMs: number = DEFAULT_TARGET_UNLOCK_MS): KdfParams {
+  if (algorithm === 'pbkdf2-sha256') {
+    const sample = 100000;
+    const elapsed = Math.max(1, measureDerivationTime({ algorithm, iterations: sample }));
+    const scaled = Math.round((sample * targetMs) / elapsed / 10000) * 10000;
+    return parseKdfParams({ algorithm, iterations: Math.min(MAX_ITERATIONS, Math.max(DEFAULT_ITERATIONS, scaled)) });
+  }
+
+  const base = BASE_ARGON2_PARAMS;
+  const elapsed = Math.max(1, measureDerivationTime(base));
+  const ratio = targetMs / elapsed;
+  if (ratio <= 1) {
+    return { ...base };
+  }
+
+  // 内存成本按 1 MiB 对齐
+  const memoryKiB = Math.min(CALIBRATION_MAX_MEMORY_KIB, Math.floor((base.memoryKiB * ratio) / 1024) * 1024);
+  const memoryRatio = memoryKiB / base.memoryKiB;
+  const iterations = Math.min(
+    MAX_ARGON2_ITERATIONS,
+    Math.max(base.iterations, Math.round((base.iterations * ratio) / memoryRatio))
+  );
+  return parseKdfParams({ ...base, memoryKiB: Math.max(base.memoryKiB, memoryKiB), iterations });
+}
+
 /**
  * 生成验证哈希（用于验证主密码是否正确）
  * 使用双重哈希：先派生密钥，再对密钥进行哈希
  * @param password 主密码
  * @param salt 盐值
- * @param iterations 迭代次数（可选）
+ * @param params 密钥派生参数（可选）
+ * @param keyFile 密钥文件密钥（可选）
+ */
+export function generateVerificationHash(password: string, salt: string, params?: KdfParams, keyFile?: Buffer | null): string {
+  const key = deriveKey(password, salt, params, keyFile);
+  try {
+    return getVerificationHash(key);
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * 由已派生的密钥计算验证哈希
  */
-export function generateVerificationHash(password: string, salt: string, iterations?: number): string {
-  const key = deriveKey(password, salt, iterations);
+export function getVerificationHash(key: Buffer): string {
   return crypto.createHash('sha256').update(key).digest('base64');
 }
 
+/**
+ * 检查已派生的密钥是否与存储的验证哈希匹配（派生一次即可同时验证和使用密钥）
+ */
+export function matchesVerificationHash(key: Buffer, storedHash: string): boolean {
+  const hash = Buffer.from(getVerificationHash(key), 'base64');
+  const stored = Buffer.from(storedHash, 'base64');
+  return hash.length === stored.length && crypto.timingSafeEqual(hash, stored);
+}
+
 /**
  * 验证主密码
  * @param password 主密码
  * @param salt 盐值
  * @param storedHash 存储的哈希
- * @param iterations 迭代次数（可选）
+ * @param params 密钥派生参数（可选）
+ * @param keyFile 密钥文件密钥（可选）
  */
-export function verifyPassword(password: string, salt: string, storedHash: string, iterations?: number): boolean {
-  const hash = generateVerificationHash(password, salt, iterations);
+export function verifyPassword(
+  password: string,
+  salt: string,
+  storedHash: string,
+  params?: KdfParams,
+  keyFile?: Buffer | null
+): boolean {
+  const hash = generateVerificationHash(password, salt, params, keyFile);
   return crypto.timingSafeEqual(
     Buffer.from(hash, 'base64'),
     Buffer.from(storedHash, 'base64')
@@ -162,14 +234,38 @@ export function decryptObject<T>(encryptedData: EncryptedData, key: Buffer): T {
 }
 
 
+/**
+ * 生成随机的数据密钥
+ * 条目等数据使用数据密钥加密，数据密钥由主密码派生的密钥包装后保存
+ */
+export function generateDataKey(): Buffer {
+  return crypto.randomBytes(KEY_LENGTH);
+}
+
+/**
+ * 用主密码派生的密钥包装数据密钥
+ */
+export function wrapKey(dataKey: Buffer, wrappingKey: Buffer): string {
+  return JSON.stringify(encrypt(dataKey.toString('base64'), wrappingKey));
+}
+
+/**
+ * 解开包装的数据密钥，密钥错误或数据损坏时抛出异常
+ */
+export function unwrapKey(wrappedKey: string, wrappingKey: Buffer): Buffer {
+  const dataKey = Buffer.from(decrypt(JSON.parse(wrappedKey), wrappingKey), 'base64');
+  if (dataKey.length !== KEY_LENGTH) {
+    throw new Error('数据密钥已损坏');
+  }
+  return dataKey;
+}
+
 /**
  * 设置当前会话的派生密钥（解锁密码库时调用）
  * @param key 派生密钥
- * @param iterations 使用的迭代次数（可选）
  */
-export function setDerivedKey(key: Buffer, iterations?: number): void {
+export function setDerivedKey(key: Buffer): void {
   derivedKey = key;
-  currentIterations = iterations ?? null;
 }
 
 /**
@@ -182,13 +278,6 @@ export function getDerivedKey(): Buffer {
   return derivedKey;
 }
 
-/**
- * 获取当前会话使用的迭代次数
- */
-export function getCurrentIterations(): number | null {
-  return currentIterations;
-}
-
 /**
  * 清除派生密钥（锁定密码库时调用）
  */
@@ -198,7 +287,6 @@ export function clearDerivedKey(): void {
     derivedKey.fill(0);
     derivedKey = null;
   }
-  currentIterations = null;
 }
 
 /**
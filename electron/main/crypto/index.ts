@@ -5,4 +5,5 @@
 
 export * from './crypto';
 export * from './config';
-export * from './password-strength';
+export * from './key-file';
+export * from './recovery-key';
@@ -0,0 +1,101 @@
+/**
+ * 密钥派生函数
+ * 支持 PBKDF2-SHA256 和 Argon2id，参数随密码库显式保存（vault_meta.kdf_params 和整库加密文件头部）
+ *
+ * 本模块不依赖数据库，整库加密文件解析头部时也会用到
+ */
+
+import crypto from 'crypto';
+import { argon2id } from '@noble/hashes/argon2';
+
+export type KdfAlgorithm = 'pbkdf2-sha256' | 'argon2id';
+
+export interface Pbkdf2Params {
+  algorithm: 'pbkdf2-sha256';
+  iterations: number;
+}
+
+export interface Argon2idParams {
+  algorithm: 'argon2id';
+  iterations: number;   // 迭代轮数（时间成本）
+  memoryKiB: number;    // 内存成本
+  parallelism: number;  // 并行度
+}
+
+export type KdfParams = Pbkdf2Params | Argon2idParams;
+
+const KEY_LENGTH = 32; // 256 bits
+
+// PBKDF2 迭代次数（OWASP 2023 推荐 600,000）
+export const DEFAULT_ITERATIONS = 600000;
+export const LEGACY_ITERATIONS = 100000;
+export const MIN_ITERATIONS = 100000;
+export const MAX_ITERATIONS = 10000000;
+
+// Argon2id 参数范围（下限为 OWASP 推荐的最低配置：19 MiB、2 轮、1 线程）
+export const MIN_ARGON2_MEMORY_KIB = 19456;
+export const MAX_ARGON2_MEMORY_KIB = 262144;
+export const MIN_ARGON2_ITERATIONS = 2;
+export const MAX_ARGON2_ITERATIONS = 20;
+export const MAX_ARGON2_PARALLELISM = 4;
+
+// 新密码库的默认参数
+export const DEFAULT_KDF_PARAMS: KdfParams = { algorithm: 'pbkdf2-sha256', iterations: DEFAULT_ITERATIONS };
+
+// Argon2id 校准的起点
+export const BASE_ARGON2_PARAMS: Argon2idParams = {
+  algorithm: 'argon2id',
+  iterations: MIN_ARGON2_ITERATIONS,
+  memoryKiB: MIN_ARGON2_MEMORY_KIB,
+  parallelism: 1,
+};
+
+/**
+ * 检查并规范化密钥派生参数，不支持的算法或超出范围时抛出异常
+ * 参数来自文件头部等不可信来源，过大的内存成本会导致解锁时耗尽内存
+ */
+export function parseKdfParams(value: unknown): KdfParams {
+  const params = value as Partial<Record<string, unknown>> | null;
+  const isInt = (n: unknown, min: number, max: number): n is number =>
+    typeof n === 'number' && Number.isInteger(n) && n >= min && n <= max;
+
+  if (params?.algorithm === 'pbkdf2-sha256' && isInt(params.iterations, MIN_ITERATIONS, MAX_ITERATIONS)) {
+    return { algorithm: 'pbkdf2-sha256', iterations: params.iterations };
+  }
+  if (
+    params?.algorithm === 'argon2id' &&
+    isInt(params.iterations, MIN_ARGON2_ITERATIONS, MAX_ARGON2_ITERATIONS) &&
+    isInt(params.memoryKiB, MIN_ARGON2_MEMORY_KIB, MAX_ARGON2_MEMORY_KIB) &&
+    isInt(params.parallelism, 1, MAX_ARGON2_PARALLELISM)
+  ) {
+    return {
+      algorithm: 'argon2id',
+      iterations: params.iterations,
+      memoryKiB: params.memoryKiB,
+      parallelism: params.parallelism,
+    };
+  }
+  throw new Error('不支持的密钥派生参数');
+}
+
+/**
+ * 比较两组参数是否相同
+ */
+export function isSameKdfParams(a: KdfParams, b: KdfParams): boolean {
+  return JSON.stringify(parseKdfParams(a)) === JSON.stringify(parseKdfParams(b));
+}
+
+/**
+ * 按参数从主密码（或与密钥文件组合后的复合密钥）派生 256 位密钥
+ */
+export function deriveKeyWithParams(password: string | Buffer, salt: Buffer, params: KdfParams): Buffer {
+  if (params.algorithm === 'argon2id') {
+    return Buffer.from(argon2id(password, salt, {
+      t: params.iterations,
+      m: params.memoryKiB,
+      p: params.parallelism,
+      dkLen: KEY_LENGTH,
+    }));
+  }
+  return crypto.pbkdf2Sync(password, salt, params.iterations, KEY_LENGTH, 'sha256');
+}
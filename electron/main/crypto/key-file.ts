@@ -0,0 +1,134 @@
+/**
+ * 密钥文件
+ * 密钥文件与主密码组合成复合密钥：SHA-256(SHA-256(主密码) || 密钥文件密钥) 作为密钥派生函数的输入
+ *
+ * 兼容 KeePass 的密钥文件格式：
+ * - XML 2.0：<Data Hash="..."> 中为十六进制密钥，Hash 为 SHA-256 前 4 字节
+ * - XML 1.0：<Data> 中为 Base64 密钥
+ * - 32 字节二进制文件或 64 个十六进制字符的文本文件直接作为密钥
+ * - 其他任意文件取 SHA-256
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+
+// 默认扩展名（与 KeePass 2.x 一致）
+export const KEY_FILE_EXTENSION = 'keyx';
+
+const KEY_LENGTH = 32;
+
+/**
+ * 生成新的密钥文件内容（KeePass XML 2.0 格式）
+ */
+export function generateKeyFile(): string {
+  const key = crypto.randomBytes(KEY_LENGTH);
+  const hex = key.toString('hex').toUpperCase();
+  const hash = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8).toUpperCase();
+  key.fill(0);
+
+  // 每 8 个字符一组，每行 4 组
+  const groups = hex.match(/.{8}/g) ?? [];
+  const lines = [groups.slice(0, 4).join(' '), groups.slice(4).join(' ')];
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<KeyFile>',
+    '\t<Meta>',
+    '\t\t<Version>2.0</Version>',
+    '\t</Meta>',
+    '\t<Key>',
+    `\t\t<Data Hash="${hash}">`,
+    ...lines.map((line) => `\t\t\t${line}`),
+    '\t\t</Data>',
+    '\t</Key>',
+    '</KeyFile>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * 生成新的密钥文件并写入指定路径
+ */
+export function writeKeyFile(filePath: string): void {
+  fs.writeFileSync(filePath, generateKeyFile(), { encoding: 'utf8', mode: 0o600 });
+}
+
+/**
+ * 从文件内容得到 32 字节的密钥文件密钥
+ */
+export function parseKeyFile(data: Buffer): Buffer {
+  if (data.length === 0) {
+    throw new Error('密钥文件为空');
+  }
+
+  const xmlKey = parseXmlKeyFile(data);
+  if (xmlKey) {
+    return xmlKey;
+  }
+
+  if (data.length === KEY_LENGTH) {
+    return Buffer.from(data);
+  }
+
+  if (data.length === KEY_LENGTH * 2 && /^[0-9a-fA-F]+$/.test(data.toString('latin1'))) {
+    return Buffer.from(data.toString('latin1'), 'hex');
+  }
+
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+/**
+ * 解析 KeePass XML 密钥文件，不是 XML 密钥文件时返回 null
+ */
+function parseXmlKeyFile(data: Buffer): Buffer | null {
+  const text = data.toString('utf8');
+  if (!/<KeyFile[\s>]/.test(text)) {
+    return null;
+  }
+
+  const version = text.match(/<Version>\s*([\d.]+)\s*<\/Version>/)?.[1] ?? '1.0';
+  const match = text.match(/<Data(?:\s+Hash="([0-9a-fA-F]*)")?\s*>([\s\S]*?)<\/Data>/);
+  if (!match) {
+    throw new Error('密钥文件格式无效');
+  }
+
+  if (version.startsWith('2.')) {
+    const hex = match[2].replace(/\s+/g, '');
+    if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length % 2 !== 0) {
+      throw new Error('密钥文件格式无效');
+    }
+    const key = Buffer.from(hex, 'hex');
+    const hash = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+    if (match[1] && match[1].toLowerCase() !== hash) {
+      throw new Error('密钥文件校验失败，文件可能已损坏');
+    }
+    return key;
+  }
+
+  if (version.startsWith('1.')) {
+    return Buffer.from(match[2].trim(), 'base64');
+  }
+
+  throw new Error('不支持的密钥文件版本');
+}
+
+/**
+ * 读取密钥文件
+ */
+export function readKeyFile(filePath: string): Buffer {
+  let data: Buffer;
+  try {
+    data = fs.readFileSync(filePath);
+  } catch {
+    throw new Error('无法读取密钥文件');
+  }
+  return parseKeyFile(data);
+}
+
+/**
+ * 组合主密码和密钥文件密钥，作为密钥派生函数的输入
+ */
+export function composeKeyInput(password: string, keyFileKey: Buffer): Buffer {
+  const passwordHash = crypto.createHash('sha256').update(password, 'utf8').digest();
+  return crypto.createHash('sha256').update(Buffer.concat([passwordHash, keyFileKey])).digest();
+}
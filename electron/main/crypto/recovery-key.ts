@@ -0,0 +1,137 @@
+/**
+ * 恢复密钥
+ * 随机 256 位密钥，独立于主密码包装密码库的密钥，忘记主密码时用于设置新的主密码
+ * 可以用 Shamir 秘密共享拆分为 k/n 份，分别交给不同的人保管
+ *
+ * 文本格式为 Base32（每 4 个字符一组），末尾带 2 字节 SHA-256 校验，输入错误时给出提示：
+ * - 恢复密钥：32 字节密钥
+ * - 恢复份额：还原所需份数(1) + 份额编号(1) + 32 字节份额
+ */
+
+import crypto from 'crypto';
+import { splitSecret, combineShares } from './shamir';
+
+export const RECOVERY_KEY_LENGTH = 32;
+
+// 最多拆分的份数
+export const MAX_RECOVERY_SHARES = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const CHECKSUM_LENGTH = 2;
+const SHARE_LENGTH = RECOVERY_KEY_LENGTH + 2;
+
+/**
+ * 生成恢复密钥
+ */
+export function generateRecoveryKey(): Buffer {
+  return crypto.randomBytes(RECOVERY_KEY_LENGTH);
+}
+
+/**
+ * 格式化恢复密钥
+ */
+export function formatRecoveryKey(key: Buffer): string {
+  return encode(key);
+}
+
+/**
+ * 把恢复密钥拆分为 count 份，任意 threshold 份即可还原
+ */
+export function splitRecoveryKey(key: Buffer, threshold: number, count: number): string[] {
+  if (count > MAX_RECOVERY_SHARES) {
+    throw new Error('份数设置无效');
+  }
+  return splitSecret(key, threshold, count).map((share) => {
+    const text = encode(Buffer.concat([Buffer.from([threshold]), share]));
+    share.fill(0);
+    return text;
+  });
+}
+
+/**
+ * 从用户输入得到恢复密钥：一个完整的恢复密钥，或达到还原份数的恢复份额
+ */
+export function parseRecoveryInput(inputs: string[]): Buffer {
+  const payloads = inputs.filter((input) => input.trim()).map(decode);
+  if (payloads.length === 0) {
+    throw new Error('请输入恢复密钥');
+  }
+
+  if (payloads.length === 1 && payloads[0].length === RECOVERY_KEY_LENGTH) {
+    return payloads[0];
+  }
+  if (payloads.some((payload) => payload.length !== SHARE_LENGTH)) {
+    throw new Error('恢复密钥格式有误，请检查输入');
+  }
+
+  const threshold = payloads[0][0];
+  if (payloads.some((payload) => payload[0] !== threshold)) {
+    throw new Error('恢复份额不属于同一次拆分');
+  }
+  const shares = payloads.map((payload) => payload.subarray(1));
+  if (new Set(shares.map((share) => share[0])).size !== shares.length) {
+    throw new Error('输入了重复的恢复份额');
+  }
+  if (shares.length < threshold) {
+    throw new Error(`恢复份额不足，需要任意 ${threshold} 份`);
+  }
+
+  const key = combineShares(shares.slice(0, threshold));
+  payloads.forEach((payload) => payload.fill(0));
+  return key;
+}
+
+/**
+ * 编码为带校验的 Base32 文本
+ */
+function encode(payload: Buffer): string {
+  const data = Buffer.concat([payload, checksum(payload)]);
+  let result = '';
+  let bits = 0;
+  let value = 0;
+  for (const byte of data) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      result += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    result += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return result.match(/.{1,4}/g)!.join('-');
+}
+
+/**
+ * 解码并校验，忽略分隔符和大小写，容忍把 O、I 误写为 0、1
+ */
+function decode(text: string): Buffer {
+  const chars = text.toUpperCase().replace(/[\s-]/g, '').replace(/0/g, 'O').replace(/1/g, 'I');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of chars) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error('恢复密钥格式有误，请检查输入');
+    }
+    value = ((value << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  const data = Buffer.from(bytes);
+  const payload = data.subarray(0, data.length - CHECKSUM_LENGTH);
+  if (data.length <= CHECKSUM_LENGTH || !checksum(payload).equals(data.subarray(payload.length))) {
+    throw new Error('恢复密钥格式有误，请检查输入');
+  }
+  return Buffer.from(payload);
+}
+
+function checksum(payload: Buffer): Buffer {
+  return crypto.createHash('sha256').update(payload).digest().subarray(0, CHECKSUM_LENGTH);
+}
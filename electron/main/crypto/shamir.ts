@@ -0,0 +1,100 @@
+/**
+ * Shamir 秘密共享
+ * 在 GF(256) 上逐字节拆分秘密，任意 threshold 份即可还原，少于 threshold 份得不到任何信息
+ *
+ * 每份的第一个字节为横坐标 x（1 ~ 255），其后为与秘密等长的纵坐标
+ */
+
+import crypto from 'crypto';
+
+// GF(256) 的指数表和对数表（既约多项式 x^8 + x^4 + x^3 + x + 1，生成元 3）
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+(() => {
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    // 乘以生成元 3：value * 2 + value
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < EXP.length; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function mul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * 拆分秘密
+ * @param threshold 还原所需的最少份数（2 ~ count）
+ * @param count 份数（不超过 255）
+ */
+export function splitSecret(secret: Buffer, threshold: number, count: number): Buffer[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || threshold > count || count > 255) {
+    throw new Error('份数设置无效');
+  }
+
+  const shares = Array.from({ length: count }, (_, i) => {
+    const share = Buffer.alloc(secret.length + 1);
+    share[0] = i + 1;
+    return share;
+  });
+
+  // 每个字节使用独立的随机多项式，常数项为秘密
+  const coefficients = Buffer.alloc(threshold);
+  for (let byte = 0; byte < secret.length; byte++) {
+    crypto.randomFillSync(coefficients);
+    coefficients[0] = secret[byte];
+    for (const share of shares) {
+      // 秦九韶算法求多项式在 x 处的值
+      let y = 0;
+      for (let i = threshold - 1; i >= 0; i--) {
+        y = mul(y, share[0]) ^ coefficients[i];
+      }
+      share[byte + 1] = y;
+    }
+  }
+  coefficients.fill(0);
+  return shares;
+}
+
+/**
+ * 用拉格朗日插值还原秘密（传入的份数需达到拆分时的 threshold，否则得到错误的结果）
+ */
+export function combineShares(shares: Buffer[]): Buffer {
+  if (shares.length === 0) {
+    throw new Error('没有可用的份额');
+  }
+  const length = shares[0].length - 1;
+  const xs = shares.map((share) => share[0]);
+  if (shares.some((share) => share.length !== length + 1) || xs.some((x) => x === 0) || new Set(xs).size !== xs.length) {
+    throw new Error('份额无效或重复');
+  }
+
+  const secret = Buffer.alloc(length);
+  for (let byte = 0; byte < length; byte++) {
+    let value = 0;
+    for (let i = 0; i < shares.length; i++) {
+      // 拉格朗日基函数在 0 处的值：∏ x_j / (x_j - x_i)，GF(256) 中减法即异或
+      let basis = 1;
+      for (let j = 0; j < shares.length; j++) {
+        if (i !== j) {
+          basis = mul(basis, div(xs[j], xs[j] ^ xs[i]));
+        }
+      }
+      value ^= mul(shares[i][byte + 1], basis);
+    }
+    secret[byte] = value;
+  }
+  return secret;
+}
@@ -0,0 +1,121 @@
+/**
+ * 应急包
+ * 把恢复密钥（或各份恢复份额）渲染为可离线打印的 HTML / PDF，附二维码
+ * 拆分为多份时每份单独一页，便于分别打印交给不同的人保管
+ */
+
+import { BrowserWindow } from 'electron';
+import fs from 'fs';
+import * as QRCode from 'qrcode';
+import { EmergencyKit } from '../storage/models';
+
+export type EmergencyKitFormat = 'html' | 'pdf';
+
+/**
+ * 转义 HTML 特殊字符
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const STYLE = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111; }
+  .page { padding: 40px 48px; page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; }
+  .meta { color: #555; font-size: 13px; margin-bottom: 24px; }
+  .card { border: 2px solid #111; border-radius: 12px; padding: 24px; display: flex; gap: 24px; align-items: center; }
+  .card img { width: 180px; height: 180px; flex-shrink: 0; }
+  .label { font-size: 13px; color: #555; margin-bottom: 8px; }
+  .code { font-family: "SFMono-Regular", Consolas, monospace; font-size: 18px; line-height: 1.8; word-break: break-all; letter-spacing: 1px; }
+  .field { margin-top: 24px; font-size: 14px; }
+  .field .line { border-bottom: 1px solid #999; height: 32px; }
+  ol { font-size: 14px; line-height: 1.8; padding-left: 20px; }
+  .warning { margin-top: 24px; padding: 12px 16px; background: #fff4e5; border: 1px solid #f5a623; border-radius: 8px; font-size: 13px; line-height: 1.6; }
+`;
+
+/**
+ * 渲染应急包 HTML（样式和二维码都内联，不依赖网络）
+ */
+export async function renderEmergencyKit(kit: EmergencyKit): Promise<string> {
+  const createdAt = new Date(kit.createdAt).toLocaleString('zh-CN');
+  const vaultName = escapeHtml(kit.vaultName);
+  const split = kit.threshold > 1;
+
+  const pages = await Promise.all(kit.codes.map(async (code, index) => {
+    const qrCode = await QRCode.toDataURL(code, { width: 360, margin: 1, errorCorrectionLevel: 'M' });
+    const title = split ? `恢复份额 ${index + 1} / ${kit.codes.length}` : '恢复密钥';
+    const steps = split
+      ? `<li>收集任意 ${kit.threshold} 份恢复份额（本份额之外还需要 ${kit.threshold - 1} 份）。</li>
+         <li>打开密码管理器，在解锁页面选择"使用恢复密钥"，逐份输入或粘贴恢复份额。</li>`
+      : '<li>打开密码管理器，在解锁页面选择"使用恢复密钥"，输入上方的恢复密钥。</li>';
+
+    return `
+      <section class="page">
+        <h1>应急恢复包</h1>
+        <div class="meta">密码库：${vaultName} · 创建时间：${escapeHtml(createdAt)}</div>
+        <div class="card">
+          <img src="${qrCode}" alt="${title}" />
+          <div>
+            <div class="label">${title}</div>
+            <div class="code">${escapeHtml(code)}</div>
+          </div>
+        </div>
+        <div class="field">
+          <div class="label">主密码（可选，手写）</div>
+          <div class="line"></div>
+        </div>
+        <h2>忘记主密码时</h2>
+        <ol>
+          ${steps}
+          <li>设置新的主密码后即可解锁，条目等数据保持不变。恢复密钥在恢复后仍然有效。</li>
+        </ol>
+        <div class="warning">
+          持有${split ? `任意 ${kit.threshold} 份恢复份额` : '恢复密钥'}的人无需主密码即可打开此密码库。请打印后妥善保管，不要拍照或保存在联网的设备上。
+          重新生成或移除恢复密钥后，本页将失效。
+        </div>
+      </section>`;
+  }));
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="utf-8" />
+  <title>应急恢复包 - ${vaultName}</title>
+  <style>${STYLE}</style>
+</head>
+<body>${pages.join('')}
+</body>
+</html>
+`;
+}
+
+/**
+ * 把应急包保存为 HTML 或 PDF 文件
+ */
+export async function writeEmergencyKit(kit: EmergencyKit, filePath: string, format: EmergencyKitFormat): Promise<void> {
+  const html = await renderEmergencyKit(kit);
+  if (format === 'html') {
+    fs.writeFileSync(filePath, html, { encoding: 'utf8', mode: 0o600 });
+    return;
+  }
+
+  // 在不显示的窗口中渲染后打印为 PDF，页面内容不需要脚本
+  const window = new BrowserWindow({
+    show: false,
+    webPreferences: { javascript: false, contextIsolation: true, nodeIntegration: false },
+  });
+  try {
+    await window.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+    const pdf = await window.webContents.printToPDF({ pageSize: 'A4', printBackground: true });
+    fs.writeFileSync(filePath, pdf, { mode: 0o600 });
+  } finally {
+    window.destroy();
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * 无状态派生密码
+ * 由派生主密码、站点、登录名、计数器和密码规则计算出密码，条目只保存参数，
+ * 在没有密码库的设备上按同样的算法也能重新算出密码。
+ * 不依赖 Node，PBKDF2 由调用方提供，主进程和移动端共用，两端必须得到相同的结果。
+ *
+ * 算法 v1：
+ * 1. 参数规范化：主密码做 NFC 规范化；站点按 normalizeDomain 处理；登录名去掉首尾空白；
+ *    计数器为正整数；规则按 normalizePolicyRules 处理，长度限制在规则范围内，
+ *    且不少于必需字符类型所需的位数。
+ * 2. 盐为以下 JSON 数组（无空白，标准转义）的 UTF-8 编码：
+ *    ["pm-derive", 1, 站点, 登录名, 计数器, 长度, 小写, 大写, 数字, 符号, 可用符号, 首字符, 连续重复]
+ *    其中 小写/大写/数字/符号 为 required、allowed 或 forbidden。
+ * 3. 密钥为 PBKDF2-HMAC-SHA256(主密码 UTF-8, 盐, 100000 次)，
+ *    长度为 32 × ceil((7 × 长度 + 64) / 256) 字节，按大端序视为一个大整数 E。
+ * 4. 从左到右逐位取字符：可用字符 = 小写、大写、数字、符号中未禁止的字符（按此顺序，符号按规则中的顺序）；
+ *    第 0 位有首字符要求时只用首字符允许的字符；
+ *    若尚未出现的必需类型数等于剩余位数，只用这些类型的字符（第 0 位取与首字符字符集的交集）；
+ *    若左侧同一字符已连续出现到上限，排除该字符。
+ *    从候选字符中取第 (E mod 候选数) 个，然后 E = floor(E / 候选数)。
+ * 修改以上任何一步都会改变已有条目的密码，只能以新版本号加入，旧版本保持不变。
+ */
+
+import type {
+  DerivationParams,
+  PolicyCharClass,
+  PolicyFirstChar,
+} from '../storage/models';
+import {
+  POLICY_CHAR_CLASSES,
+  clampPolicyLength,
+  getPolicyProblems,
+  normalizeDomain,
+  normalizePolicyRules,
+} from './policy';
+
+/** PBKDF2-HMAC-SHA256，字符串按 UTF-8 编码 */
+export type Pbkdf2Sha256 = (password: string, salt: string, iterations: number, keyLength: number) => Promise<Uint8Array>;
+
+export const DERIVATION_VERSION = 1;
+export const DERIVATION_ITERATIONS = 100000;
+
+const CLASS_CHARS: Record<Exclude<PolicyCharClass, 'symbols'>, string> = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789',
+};
+
+const FIRST_CHAR_CLASSES: Record<Exclude<PolicyFirstChar, 'any'>, PolicyCharClass[]> = {
+  letter: ['lowercase', 'uppercase'],
+  uppercase: ['uppercase'],
+  lowercase: ['lowercase'],
+  alphanumeric: ['lowercase', 'uppercase', 'digits'],
+};
+
+/**
+ * 两端共用的测试向量，任何一端的实现改动后都必须仍然得到这些结果
+ */
+export const DERIVATION_TEST_VECTORS: Array<{ secret: string; params: DerivationParams; password: string }> = [
+  {
+    secret: 'correct horse battery staple',
+    params: {
+      version: 1,
+      site: 'example.com',
+      login: 'alice@example.com',
+      counter: 1,
+      length: 16,
+      rules: {
+        minLength: 8,
+        maxLength: 64,
+        classes: { lowercase: 'required', uppercase: 'required', digits: 'required', symbols: 'allowed' },
+        symbols: '!@#$%^&*()_+-=[]{}|;:,.<>?',
+        firstChar: 'any',
+        maxConsecutive: 0,
+      },
+    },
+    password: 'lgB_ZGVtx46[Y.oj',
+  },
+  {
+    secret: 'correct horse battery staple',
+    params: {
+      version: 1,
+      site: 'example.com',
+      login: 'alice@example.com',
+      counter: 2,
+      length: 16,
+      rules: {
+        minLength: 8,
+        maxLength: 64,
+        classes: { lowercase: 'required', uppercase: 'required', digits: 'required', symbols: 'allowed' },
+        symbols: '!@#$%^&*()_+-=[]{}|;:,.<>?',
+        firstChar: 'any',
+        maxConsecutive: 0,
+      },
+    },
+    password: 'RyJw*p<9dfCyiZDn',
+  },
+  {
+    secret: '我的派生主密码',
+    params: {
+      version: 1,
+      site: 'icbc.com.cn',
+      login: '张三',
+      counter: 1,
+      length: 6,
+      rules: {
+        minLength: 6,
+        maxLength: 6,
+        classes: { lowercase: 'forbidden', uppercase: 'forbidden', digits: 'required', symbols: 'forbidden' },
+        symbols: '',
+        firstChar: 'any',
+        maxConsecutive: 1,
+      },
+    },
+    password: '835963',
+  },
+  {
+    secret: 'Tr0ub4dor&3',
+    params: {
+      version: 1,
+      site: 'gov.cn',
+      login: 'user01',
+      counter: 7,
+      length: 40,
+      rules: {
+        minLength: 8,
+        maxLength: 40,
+        classes: { lowercase: 'required', uppercase: 'required', digits: 'required', symbols: 'required' },
+        symbols: '_-@',
+        firstChar: 'uppercase',
+        maxConsecutive: 2,
+      },
+    },
+    password: 'XlMoDcAPyqfEq3Rin5kmJZeweoEIFKujSrdCIKv_',
+  },
+];
+
+/**
+ * 规范化派生参数，用于处理来自渲染进程或数据库的参数
+ */
+export function normalizeDerivationParams(params: Partial<DerivationParams> | undefined): DerivationParams {
+  const rules = normalizePolicyRules(params?.rules);
+  return {
+    version: DERIVATION_VERSION,
+    site: normalizeDomain(String(params?.site ?? '')),
+    login: String(params?.login ?? '').trim(),
+    counter: Math.max(1, Math.floor(Number(params?.counter)) || 1),
+    length: clampPolicyLength(rules, Number(params?.length)),
+    rules,
+  };
+}
+
+/**
+ * 检查派生参数，返回所有问题，没有问题时为空数组
+ */
+export function getDerivationProblems(params: DerivationParams): string[] {
+  const problems: string[] = [];
+  if (params.version !== DERIVATION_VERSION) problems.push(`不支持的派生算法版本 ${params.version}`);
+  if (!params.site) problems.push('请输入站点');
+  return [...problems, ...getPolicyProblems(params.rules)];
+}
+
+/**
+ * 按算法 v1 计算派生密码
+ */
+export async function derivePassword(
+  secret: string,
+  input: DerivationParams,
+  pbkdf2: Pbkdf2Sha256
+): Promise<string> {
+  if (!secret) {
+    throw new Error('请输入派生主密码');
+  }
+  const params = normalizeDerivationParams(input);
+  if (input.version !== DERIVATION_VERSION) {
+    throw new Error(`不支持的派生算法版本 ${input.version}`);
+  }
+  const problems = getDerivationProblems(params);
+  if (problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+
+  const { rules } = params;
+  const classes: Partial<Record<PolicyCharClass, string[]>> = {};
+  for (const cls of POLICY_CHAR_CLASSES) {
+    if (rules.classes[cls] !== 'forbidden') {
+      classes[cls] = [...(cls === 'symbols' ? rules.symbols : CLASS_CHARS[cls])];
+    }
+  }
+  const all = POLICY_CHAR_CLASSES.flatMap((cls) => classes[cls] ?? []);
+  const first = rules.firstChar === 'any'
+    ? null
+    : FIRST_CHAR_CLASSES[rules.firstChar].flatMap((cls) => classes[cls] ?? []);
+  const required = POLICY_CHAR_CLASSES.filter((cls) => rules.classes[cls] === 'required');
+
+  // 保证所有必需类型都能放下，与 generatePolicyPassword 的最小长度一致
+  const covered = first ? required.filter((cls) => first.every((c) => classes[cls]!.includes(c))) : [];
+  const size = Math.max(params.length, required.length - covered.length + (first ? 1 : 0));
+
+  const salt = JSON.stringify([
+    'pm-derive', DERIVATION_VERSION, params.site, params.login, params.counter, size,
+    rules.classes.lowercase, rules.classes.uppercase, rules.classes.digits, rules.classes.symbols,
+    rules.symbols, rules.firstChar, rules.maxConsecutive,
+  ]);
+  const keyLength = 32 * Math.ceil((7 * size + 64) / 256);
+  const key = await pbkdf2(secret.normalize('NFC'), salt, DERIVATION_ITERATIONS, keyLength);
+
+  let entropy = 0n;
+  for (const byte of key) {
+    entropy = (entropy << 8n) | BigInt(byte);
+  }
+
+  const chars: string[] = [];
+  for (let i = 0; i < size; i++) {
+    const missing = required.filter((cls) => !chars.some((c) => classes[cls]!.includes(c)));
+    let pool = i === 0 && first ? first : all;
+    if (missing.length === size - i) {
+      const forced = missing.flatMap((cls) => classes[cls]!);
+      pool = pool.filter((c) => forced.includes(c));
+    }
+    if (rules.maxConsecutive > 0 && i >= rules.maxConsecutive) {
+      const previous = chars[i - 1];
+      if (chars.slice(i - rules.maxConsecutive, i).every((c) => c === previous)) {
+        pool = pool.filter((c) => c !== previous);
+      }
+    }
+
+    const count = BigInt(pool.length);
+    chars.push(pool[Number(entropy % count)]);
+    entropy /= count;
+  }
+  return chars.join('');
+}
+
+/**
+ * 用测试向量检查当前平台的实现，返回不一致的向量序号
+ */
+export async function verifyDerivationVectors(pbkdf2: Pbkdf2Sha256): Promise<number[]> {
+  const failures: number[] = [];
+  for (const [index, vector] of DERIVATION_TEST_VECTORS.entries()) {
+    if (await derivePassword(vector.secret, vector.params, pbkdf2) !== vector.password) {
+      failures.push(index);
+    }
+  }
+  return failures;
+}
+
+/**
+ * 派生参数的简要说明，如 "example.com · alice · 第 2 版"
+ */
+export function describeDerivation(params: DerivationParams): string {
+  return [params.site, params.login, `第 ${params.counter} 版`].filter(Boolean).join(' · ');
+}
@@ -1,10 +1,14 @@
 /**
  * 密码生成器模块
- * 提供安全随机密码生成和强度计算功能
+ * 提供安全随机密码和密码短语生成功能
  */
 
 import crypto from 'crypto';
-import { PasswordConfig } from '../storage/models';
+import { promisify } from 'util';
+import { DerivationParams, PasswordConfig } from '../storage/models';
+import { generatePassphrase } from './passphrase';
+import { generatePolicyPassword, normalizePolicyRules } from './policy';
+import { Pbkdf2Sha256, derivePassword, verifyDerivationVectors } from './derivation';
 
 // 字符集
 const UPPERCASE = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
@@ -19,6 +23,18 @@ const AMBIGUOUS = 'O0Il1';
  * 生成安全随机密码
  */
 export function generatePassword(config: PasswordConfig): string {
+  if (config.mode === 'passphrase') {
+    return generatePassphrase(config.passphrase, (max) => crypto.randomInt(0, max));
+  }
+  if (config.policy) {
+    return generatePolicyPassword(
+      normalizePolicyRules(config.policy),
+      config.length,
+      (max) => crypto.randomInt(0, max),
+      config.excludeAmbiguous
+    );
+  }
+
   let charset = '';
   const requiredChars: string[] = [];
 
@@ -94,101 +110,24 @@ function shuffleArray<T>(array: T[]): T[] {
   return result;
 }
 
-/**
- * 密码强度等级
- */
-export type StrengthLevel = 'very-weak' | 'weak' | 'fair' | 'strong' | 'very-strong';
+const pbkdf2 = promisify(crypto.pbkdf2);
+const pbkdf2Sha256: Pbkdf2Sha256 = (password, salt, iterations, keyLength) =>
+  pbkdf2(password, salt, iterations, keyLength, 'sha256');
 
-/**
- * 密码强度结果
- */
-export interface StrengthResult {
-  score: number;      // 0-100
-  level: StrengthLevel;
-  feedback: string[];
-}
+let derivationVerified = false;
 
 /**
- * 计算密码强度
+ * 计算派生密码，首次使用时先用测试向量自检，结果不一致时拒绝计算
  */
-export function calculateStrength(password: string): StrengthResult {
-  let score = 0;
-  const feedback: string[] = [];
-
-  // 长度评分 (最高 30 分)
-  if (password.length >= 16) {
-    score += 30;
-  } else if (password.length >= 12) {
-    score += 25;
-  } else if (password.length >= 8) {
-    score += 15;
-  } else if (password.length >= 6) {
-    score += 10;
-  } else {
-    feedback.push('密码太短，建议至少 8 个字符');
-  }
-
-  // 字符多样性评分 (最高 40 分)
-  const hasUpper = /[A-Z]/.test(password);
-  const hasLower = /[a-z]/.test(password);
-  const hasNumber = /[0-9]/.test(password);
-  const hasSpecial = /[^A-Za-z0-9]/.test(password);
-
-  if (hasUpper) score += 10;
-  else feedback.push('添加大写字母可增强安全性');
-
-  if (hasLower) score += 10;
-  else feedback.push('添加小写字母可增强安全性');
-
-  if (hasNumber) score += 10;
-  else feedback.push('添加数字可增强安全性');
-
-  if (hasSpecial) score += 10;
-  else feedback.push('添加特殊字符可增强安全性');
-
-  // 复杂度评分 (最高 30 分)
-  const uniqueChars = new Set(password).size;
-  const uniqueRatio = uniqueChars / password.length;
-
-  if (uniqueRatio >= 0.8) {
-    score += 30;
-  } else if (uniqueRatio >= 0.6) {
-    score += 20;
-  } else if (uniqueRatio >= 0.4) {
-    score += 10;
-  } else {
-    feedback.push('避免重复字符');
-  }
-
-  // 检查常见模式
-  if (/^[a-z]+$|^[A-Z]+$|^[0-9]+$/.test(password)) {
-    score -= 20;
-    feedback.push('避免只使用单一类型的字符');
-  }
-
-  if (/(.)\1{2,}/.test(password)) {
-    score -= 10;
-    feedback.push('避免连续重复的字符');
-  }
-
-  // 确保分数在 0-100 范围内
-  score = Math.max(0, Math.min(100, score));
-
-  // 确定强度等级
-  let level: StrengthLevel;
-  if (score >= 80) {
-    level = 'very-strong';
-  } else if (score >= 60) {
-    level = 'strong';
-  } else if (score >= 40) {
-    level = 'fair';
-  } else if (score >= 20) {
-    level = 'weak';
-  } else {
-    level = 'very-weak';
+export async function deriveEntryPassword(secret: string, params: DerivationParams): Promise<string> {
+  if (!derivationVerified) {
+    const failures = await verifyDerivationVectors(pbkdf2Sha256);
+    if (failures.length > 0) {
+      throw new Error('派生算法自检失败，无法计算派生密码');
+    }
+    derivationVerified = true;
   }
-
-  return { score, level, feedback };
+  return derivePassword(secret, params, pbkdf2Sha256);
 }
 
 /**
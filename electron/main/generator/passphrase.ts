@@ -0,0 +1,128 @@
+/**
+ * 密码短语生成（diceware）
+ * 不依赖 Node，随机数由调用方提供，主进程和移动端共用
+ */
+
+import type { PassphraseConfig, PassphraseWordlist } from '../storage/models';
+import { EFF_LARGE } from './wordlists/eff-large';
+import { EFF_SHORT } from './wordlists/eff-short';
+import { PINYIN } from './wordlists/pinyin';
+
+// 返回 [0, max) 范围内均匀分布的安全随机整数
+export type RandomInt = (max: number) => number;
+
+export const MIN_PASSPHRASE_WORDS = 3;
+export const MAX_PASSPHRASE_WORDS = 12;
+
+// 插入的符号，避开容易被网站拒绝的引号和空白
+export const PASSPHRASE_SYMBOLS = '!@#$%^&*?';
+
+export const DEFAULT_PASSPHRASE_CONFIG: PassphraseConfig = {
+  wordlist: 'eff-large',
+  wordCount: 5,
+  separator: '.',
+  capitalization: 'capitalize',
+  includeNumber: true,
+  includeSymbol: false,
+};
+
+const SOURCES: Record<PassphraseWordlist, string> = {
+  'eff-large': EFF_LARGE,
+  'eff-short': EFF_SHORT,
+  pinyin: PINYIN,
+};
+
+// 骰子词表的单词数，熵的计算依赖词表完整
+const EXPECTED_SIZES: Partial<Record<PassphraseWordlist, number>> = {
+  'eff-large': 7776,
+  'eff-short': 1296,
+};
+
+const cache = new Map<PassphraseWordlist, readonly string[]>();
+
+/**
+ * 获取词表（首次使用时解析，跳过 EFF 词表中的骰子编号）
+ */
+export function getWordlist(name: PassphraseWordlist): readonly string[] {
+  const key = name in SOURCES ? name : 'eff-large';
+  let words = cache.get(key);
+  if (!words) {
+    words = SOURCES[key].split(/\s+/).filter(word => word && !/^[1-6]+$/.test(word));
+    const expected = EXPECTED_SIZES[key];
+    if (expected !== undefined && words.length !== expected) {
+      throw new Error(`词表 ${key} 应有 ${expected} 个单词，实际为 ${words.length} 个`);
+    }
+    cache.set(key, words);
+  }
+  return words;
+}
+
+function normalizeConfig(config: Partial<PassphraseConfig> | undefined): PassphraseConfig {
+  const merged = { ...DEFAULT_PASSPHRASE_CONFIG, ...config };
+  const wordCount = Math.round(Number(merged.wordCount)) || DEFAULT_PASSPHRASE_CONFIG.wordCount;
+  return {
+    ...merged,
+    wordlist: merged.wordlist in SOURCES ? merged.wordlist : DEFAULT_PASSPHRASE_CONFIG.wordlist,
+    wordCount: Math.min(MAX_PASSPHRASE_WORDS, Math.max(MIN_PASSPHRASE_WORDS, wordCount)),
+    separator: isValidSeparator(merged.separator) ? String(merged.separator ?? '') : DEFAULT_PASSPHRASE_CONFIG.separator,
+  };
+}
+
+// EFF 词表中有 drop-down、yo-yo 等带连字符的单词，用 - 分隔会让短语无法按单词拆回，因此不允许
+function isValidSeparator(separator: unknown): boolean {
+  return !String(separator ?? '').includes('-');
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * 生成密码短语
+ */
+export function generatePassphrase(config: Partial<PassphraseConfig> | undefined, randomInt: RandomInt): string {
+  const options = normalizeConfig(config);
+  const wordlist = getWordlist(options.wordlist);
+
+  const words = Array.from({ length: options.wordCount }, () => {
+    const word = wordlist[randomInt(wordlist.length)];
+    switch (options.capitalization) {
+      case 'upper':
+        return word.toUpperCase();
+      case 'capitalize':
+        return capitalize(word);
+      case 'random':
+        return randomInt(2) === 1 ? capitalize(word) : word;
+      default:
+        return word;
+    }
+  });
+
+  if (options.includeNumber) {
+    words[randomInt(words.length)] += String(randomInt(10));
+  }
+  if (options.includeSymbol) {
+    words[randomInt(words.length)] += PASSPHRASE_SYMBOLS[randomInt(PASSPHRASE_SYMBOLS.length)];
+  }
+
+  return words.join(options.separator);
+}
+
+/**
+ * 密码短语的熵（位），假设攻击者知道词表和全部生成规则
+ */
+export function getPassphraseEntropy(config: Partial<PassphraseConfig> | undefined): number {
+  const options = normalizeConfig(config);
+  const wordCount = options.wordCount;
+  let bits = wordCount * Math.log2(getWordlist(options.wordlist).length);
+  if (options.capitalization === 'random') {
+    bits += wordCount;
+  }
+  if (options.includeNumber) {
+    bits += Math.log2(10 * wordCount);
+  }
+  if (options.includeSymbol) {
+    bits += Math.log2(PASSPHRASE_SYMBOLS.length * wordCount);
+  }
+  return bits;
+}
@@ -0,0 +1,318 @@
+/**
+ * 网站密码规则
+ * 校验规则是否可以满足、按规则生成密码、检查已有密码是否符合规则、按网址匹配规则
+ * 不依赖 Node，随机数由调用方提供，主进程、渲染进程和移动端共用
+ */
+
+import type {
+  PasswordPolicy,
+  PasswordPolicyRules,
+  PolicyCharClass,
+  PolicyFirstChar,
+} from '../storage/models';
+import type { RandomInt } from './passphrase';
+
+export const MAX_POLICY_LENGTH = 128;
+
+export const DEFAULT_POLICY_SYMBOLS = '!@#$%^&*()_+-=[]{}|;:,.<>?';
+
+export const DEFAULT_POLICY_RULES: PasswordPolicyRules = {
+  minLength: 8,
+  maxLength: 64,
+  classes: { lowercase: 'required', uppercase: 'required', digits: 'required', symbols: 'allowed' },
+  symbols: DEFAULT_POLICY_SYMBOLS,
+  firstChar: 'any',
+  maxConsecutive: 0,
+};
+
+export const POLICY_CHAR_CLASSES: PolicyCharClass[] = ['lowercase', 'uppercase', 'digits', 'symbols'];
+
+export const POLICY_CLASS_LABELS: Record<PolicyCharClass, string> = {
+  lowercase: '小写字母',
+  uppercase: '大写字母',
+  digits: '数字',
+  symbols: '符号',
+};
+
+export const POLICY_FIRST_CHAR_LABELS: Record<PolicyFirstChar, string> = {
+  any: '不限',
+  letter: '字母',
+  uppercase: '大写字母',
+  lowercase: '小写字母',
+  alphanumeric: '字母或数字',
+};
+
+const CLASS_CHARS: Record<Exclude<PolicyCharClass, 'symbols'>, string> = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789',
+};
+
+const FIRST_CHAR_CLASSES: Record<Exclude<PolicyFirstChar, 'any'>, PolicyCharClass[]> = {
+  letter: ['lowercase', 'uppercase'],
+  uppercase: ['uppercase'],
+  lowercase: ['lowercase'],
+  alphanumeric: ['lowercase', 'uppercase', 'digits'],
+};
+
+// 易混淆字符，与随机密码生成保持一致
+const AMBIGUOUS = 'O0Il1';
+
+interface PolicyPools {
+  classes: Partial<Record<PolicyCharClass, string[]>>;  // 未被禁止的字符类型
+  all: string[];
+  first: string[] | null;  // 首字符可用的字符，不限制时为 null
+}
+
+/**
+ * 补全缺失的字段并规范化数值，用于处理来自渲染进程或数据库的规则
+ */
+export function normalizePolicyRules(rules: Partial<PasswordPolicyRules> | undefined): PasswordPolicyRules {
+  const merged = { ...DEFAULT_POLICY_RULES, ...rules };
+  const classes = { ...DEFAULT_POLICY_RULES.classes, ...merged.classes };
+  return {
+    minLength: Math.round(Number(merged.minLength)) || 0,
+    maxLength: Math.round(Number(merged.maxLength)) || 0,
+    classes,
+    symbols: [...new Set(String(merged.symbols ?? ''))].join(''),
+    firstChar: merged.firstChar in POLICY_FIRST_CHAR_LABELS ? merged.firstChar : 'any',
+    maxConsecutive: Math.max(0, Math.round(Number(merged.maxConsecutive)) || 0),
+  };
+}
+
+function buildPools(rules: PasswordPolicyRules, excludeAmbiguous: boolean): PolicyPools {
+  const classes: PolicyPools['classes'] = {};
+  for (const cls of POLICY_CHAR_CLASSES) {
+    if (rules.classes[cls] === 'forbidden') continue;
+    const chars = cls === 'symbols' ? rules.symbols : CLASS_CHARS[cls];
+    classes[cls] = [...chars].filter((c) => !(excludeAmbiguous && AMBIGUOUS.includes(c)));
+  }
+
+  const all = POLICY_CHAR_CLASSES.flatMap((cls) => classes[cls] ?? []);
+  const first = rules.firstChar === 'any'
+    ? null
+    : FIRST_CHAR_CLASSES[rules.firstChar].flatMap((cls) => classes[cls] ?? []);
+  return { classes, all, first };
+}
+
+/**
+ * 需要单独占一个位置的必需字符类型
+ * 首字符的可用字符都属于某个必需类型时，首字符已经满足该类型
+ */
+function getReservedClasses(rules: PasswordPolicyRules, pools: PolicyPools): PolicyCharClass[] {
+  return POLICY_CHAR_CLASSES.filter((cls) => {
+    if (rules.classes[cls] !== 'required') return false;
+    const pool = pools.classes[cls] ?? [];
+    return !(pools.first && pools.first.every((c) => pool.includes(c)));
+  });
+}
+
+/**
+ * 检查规则能否被满足，返回所有问题，没有问题时为空数组
+ * generatePolicyPassword 只在这里没有问题时生成，以下检查保证生成过程一定成功
+ */
+export function getPolicyProblems(rules: PasswordPolicyRules, excludeAmbiguous = false): string[] {
+  const problems: string[] = [];
+  if (rules.minLength < 1) problems.push('最短长度至少为 1 位');
+  if (rules.maxLength > MAX_POLICY_LENGTH) problems.push(`最长长度不能超过 ${MAX_POLICY_LENGTH} 位`);
+  if (rules.minLength > rules.maxLength) problems.push('最短长度不能大于最长长度');
+
+  if (rules.classes.symbols !== 'forbidden') {
+    if (!rules.symbols) {
+      problems.push('允许使用符号时需要填写可用的符号');
+    } else if (/[^\x21-\x7e]|[A-Za-z0-9]/.test(rules.symbols)) {
+      problems.push('符号只能是字母和数字以外的可见 ASCII 字符');
+    }
+  }
+
+  const pools = buildPools(rules, excludeAmbiguous);
+  if (pools.all.length === 0) {
+    problems.push('至少需要允许一种字符类型');
+    return problems;
+  }
+  if (pools.first && pools.first.length === 0) {
+    problems.push(`首字符要求为${POLICY_FIRST_CHAR_LABELS[rules.firstChar]}，但这类字符不允许使用`);
+  }
+
+  const minimum = getReservedClasses(rules, pools).length + (pools.first ? 1 : 0);
+  if (minimum > rules.maxLength) {
+    problems.push(`最长长度至少要 ${minimum} 位才能包含所有必需的字符类型`);
+  }
+
+  // 填充时每个位置最多排除左右相邻的两个字符
+  if (rules.maxConsecutive > 0) {
+    if (pools.all.length < 3 || (pools.first && pools.first.length < 2)) {
+      problems.push('可用字符太少，无法满足连续重复的限制');
+    }
+  }
+  return problems;
+}
+
+/**
+ * 把期望的长度限制在规则允许的范围内
+ */
+export function clampPolicyLength(rules: PasswordPolicyRules, length: number): number {
+  return Math.min(rules.maxLength, Math.max(rules.minLength, Math.round(length) || rules.minLength));
+}
+
+/**
+ * 按规则生成密码
+ * 先给每个必需字符类型随机分配一个位置，再填首字符和其余位置；
+ * 填每个位置时排除会让连续重复超过上限的字符
+ */
+export function generatePolicyPassword(
+  rules: PasswordPolicyRules,
+  length: number,
+  randomInt: RandomInt,
+  excludeAmbiguous = false
+): string {
+  const problems = getPolicyProblems(rules, excludeAmbiguous);
+  if (problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+
+  const pools = buildPools(rules, excludeAmbiguous);
+  const reserved = getReservedClasses(rules, pools);
+  const offset = pools.first ? 1 : 0;
+  const size = Math.max(clampPolicyLength(rules, length), reserved.length + offset);
+  const chars: string[] = new Array(size).fill('');
+
+  const place = (index: number, pool: string[]) => {
+    const candidates = rules.maxConsecutive > 0
+      ? pool.filter((c) => runLength(chars, index, c) < rules.maxConsecutive)
+      : pool;
+    chars[index] = candidates[randomInt(candidates.length)];
+  };
+
+  // 从可用位置中随机选出必需字符类型的位置（部分 Fisher-Yates 洗牌）
+  const positions = Array.from({ length: size - offset }, (_, i) => i + offset);
+  reserved.forEach((cls, k) => {
+    const j = k + randomInt(positions.length - k);
+    [positions[k], positions[j]] = [positions[j], positions[k]];
+    place(positions[k], pools.classes[cls]!);
+  });
+
+  if (pools.first) place(0, pools.first);
+  for (let i = 0; i < size; i++) {
+    if (!chars[i]) place(i, pools.all);
+  }
+  return chars.join('');
+}
+
+/**
+ * 在 index 处放入 char 后，char 连续出现的次数减一（即两侧已有的连续个数之和）
+ */
+function runLength(chars: string[], index: number, char: string): number {
+  let count = 0;
+  for (let i = index - 1; i >= 0 && chars[i] === char; i--) count++;
+  for (let i = index + 1; i < chars.length && chars[i] === char; i++) count++;
+  return count;
+}
+
+/**
+ * 检查密码是否符合规则，返回不符合的地方，符合时为空数组
+ */
+export function checkPasswordPolicy(password: string, rules: PasswordPolicyRules): string[] {
+  const violations: string[] = [];
+  const chars = [...password];
+  if (chars.length < rules.minLength) violations.push(`长度不能少于 ${rules.minLength} 位`);
+  if (chars.length > rules.maxLength) violations.push(`长度不能超过 ${rules.maxLength} 位`);
+
+  const pools = buildPools(rules, false);
+  const invalid = [...new Set(chars.filter((c) => !pools.all.includes(c)))];
+  if (invalid.length > 0) {
+    violations.push(`不允许使用字符 ${invalid.slice(0, 5).join(' ')}`);
+  }
+
+  for (const cls of POLICY_CHAR_CLASSES) {
+    if (rules.classes[cls] === 'required' && !chars.some((c) => pools.classes[cls]?.includes(c))) {
+      violations.push(`需要包含${POLICY_CLASS_LABELS[cls]}`);
+    }
+  }
+
+  if (pools.first && chars.length > 0 && !pools.first.includes(chars[0])) {
+    violations.push(`首字符必须是${POLICY_FIRST_CHAR_LABELS[rules.firstChar]}`);
+  }
+
+  if (rules.maxConsecutive > 0) {
+    let run = 0;
+    for (let i = 0; i < chars.length; i++) {
+      run = i > 0 && chars[i] === chars[i - 1] ? run + 1 : 1;
+      if (run > rules.maxConsecutive) {
+        violations.push(`同一字符最多连续出现 ${rules.maxConsecutive} 次`);
+        break;
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * 规则的简要说明，如 "8-12 位 · 必须包含小写字母、数字 · 不允许符号"
+ */
+export function describePolicyRules(rules: PasswordPolicyRules): string {
+  const parts = [rules.minLength === rules.maxLength ? `${rules.minLength} 位` : `${rules.minLength}-${rules.maxLength} 位`];
+  const required = POLICY_CHAR_CLASSES.filter((cls) => rules.classes[cls] === 'required');
+  const forbidden = POLICY_CHAR_CLASSES.filter((cls) => rules.classes[cls] === 'forbidden');
+  if (required.length > 0) parts.push(`必须包含${required.map((cls) => POLICY_CLASS_LABELS[cls]).join('、')}`);
+  if (forbidden.length > 0) parts.push(`不允许${forbidden.map((cls) => POLICY_CLASS_LABELS[cls]).join('、')}`);
+  if (rules.classes.symbols !== 'forbidden') parts.push(`符号限 ${rules.symbols}`);
+  if (rules.firstChar !== 'any') parts.push(`首字符为${POLICY_FIRST_CHAR_LABELS[rules.firstChar]}`);
+  if (rules.maxConsecutive > 0) parts.push(`同一字符最多连续 ${rules.maxConsecutive} 次`);
+  return parts.join(' · ');
+}
+
+/**
+ * 提取网址中的主机名，不使用 URL 以便在 React Native 中运行
+ */
+function extractHost(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .split(/[/?#]/)[0]
+    .replace(/^.*@/, '')
+    .replace(/:\d*$/, '')
+    .replace(/\.$/, '');
+}
+
+/**
+ * 规范化规则中的域名：去掉协议、路径、端口和开头的 www. 或 *.
+ */
+export function normalizeDomain(domain: string): string {
+  return extractHost(domain).replace(/^(\*|www)\./, '');
+}
+
+/**
+ * 按网址查找规则，域名及其子域名都匹配，多个规则匹配时取域名最长的
+ */
+export function findPolicyForUrl(policies: PasswordPolicy[], url: string | undefined): PasswordPolicy | null {
+  const host = url ? extractHost(url) : '';
+  if (!host) return null;
+
+  let best: PasswordPolicy | null = null;
+  let bestLength = 0;
+  for (const policy of policies) {
+    for (const domain of policy.domains) {
+      if ((host === domain || host.endsWith(`.${domain}`)) && domain.length > bestLength) {
+        best = policy;
+        bestLength = domain.length;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * 获取条目适用的规则：优先使用条目指定的规则，其次按网址匹配
+ */
+export function resolveEntryPolicy(
+  policies: PasswordPolicy[],
+  entry: { policyId?: string; url?: string }
+): PasswordPolicy | null {
+  if (entry.policyId) {
+    const assigned = policies.find((p) => p.id === entry.policyId);
+    if (assigned) return assigned;
+  }
+  return findPolicyForUrl(policies, entry.url);
+}
@@ -0,0 +1,94 @@
+/**
+ * 拼音词表：常见的双音节和三音节词语，不带声调
+ * 每个单词约 10.2 位熵
+ */
+
+export const PINYIN = `
+aihao aiqing aixin anjing anpai anquan anwei anzhuang aomen aoyun baba bahe baifen baihe baihuo
+bailing baishu baitian baixue banfa bangmang bangqiu bangwan bangyang banji banzhang baobei baofeng
+baogao baohu baoxian baozhi baozhuang baozi beibao beijiao beijing beike beiyong beizi bendi benke
+benpao benzi bianche bianhua bianji bianjie bianpao bianxie biaoge biaoqing biaoyan bieren bingqilin
+bingtang binguan bingxiang bingxue bishui bixu biye bizhi bizi bobing bocai bofang bohe bolan boli
+bowen bowu buchang buding budui bufa buliao buzhou caidan caifeng caihong caiquan caise caishen
+caiwu caiyuan cangku canguan canjia caochang caodi caomei caoyuan caozuo cebian cehua ceshi chabei
+chadian chahua chajia changcheng changfang changge changjia changjing changpao changtu chanpin
+chaoliu chaoshi chaozuo chayuan chazi chengbao chengdu chenggong chengnuo chengshi chengyu chengzi
+chenshan chezhan chezi chibang chidao chifan chizi chongdian chongwu chuanbo chuanghu chuangkou
+chuangye chuanqi chuanshuo chuantong chuanzhang chuchai chufa chuji chulai chunjie chuntian chunyu
+chuxi chuyin cidian ciqi conglin congming congqian cuiniao cuncun cunqian cunzhuang dabao dabian
+dadi dadou dahai daibiao daima daizi dajia dajie danche danci dangao dangdi dangran danran daolu
+daoyan daoyu dapeng daqiao dasha daxia daxiang daxue dayang dayu dazhong deguo dengdai dengji
+denglong dengpao dengshan diandeng dianhua diannao dianshi dianti dianying dianzi diaoke diaosu
+diaoyu diban didi didian diezi difang dingdan diqiu ditie ditu dizhi dongbei dongfang donghua
+dongjing dongtian dongwu dongxi doufu doujiang douya duanwu duanxin dufu duihuan duilian duiwu dujia
+dumu duomian dushu duzhe erduo erhu erji ertong fabu fadian fahui fanchuan fandian fangjian
+fangxiang fangzhou fangzi fanqie fanwei fanyi fayin feicui feiji feiteng feixiang feixing fenbi
+fengbao fengche fengfu fengjing fengling fengmi fengshan fengshou fengye fengyun fengzheng fenhong
+fenmo fenqi fenshu fubai fudao fujin fuqi fuqin furong fushi fuwu fuxi fuxing fuzhuang gaibian
+ganbei gangqin ganjue ganlan gaoshan gaosu gaotie gaoxing gaoyuan gaozhong gebi gege gelou genben
+gengxin gequ gongan gongchang gongche gongfu gonggao gongju gongke gongshi gongxi gongyuan gongzhu
+gongzuo gouwu gouzao guangbo guangchang guangdong guanghui guangming guangxian guanjian guanmen
+guanxi guanzhong guanzi gudian guding guifei guihua guilin guitai guizi gulang guobao guoji guojia
+guoqi guowang guoxue guoyuan guozhi gushi haibao haibian haicao haidao haigui haimian haiwan haixian
+haiyan haiyang haizi hangban hangye hangzhou hanjia hanyu hanzi haode haokan haoma haoting haoyou
+hebian hecha hehua heiban heise hemian hepan heping heshui hetong hezi hongbao hongcha hongdou
+hongse hongyan houhua houniao houtian houzi huaban huabei huacha huadan huaduo huahua huajia huanan
+huanghe huanghun huangjin huanjing huanle huanying huashan huashi huaxue huayuan huazhuang huichang
+huida huihua huijia huiyan huiyi hujiao hulian hulu hunli huoban huochai huoche huoguo huojian
+huoshan huoxing huoyan hupo huzhao huzhu jiandan jianghu jiangjun jiangli jiangnan jiangpin
+jiangshan jiangshi jiangxi jiankang jianpan jianshen jianzhu jianzi jiaoao jiaojuan jiaoliu jiaoshi
+jiaotang jiaotong jiaowai jiaoyu jiaozhu jiaozi jiating jiaxiang jiayou jiazhang jichang jidan jidi
+jieguo jiehun jiejie jiemu jieri jiesuan jietou jieyue jiguang jihe jihua jijie jilu jingcha jingji
+jingju jingling jingpin jingse jinguo jingxi jingzi jinhua jinkou jinlai jinpai jinqiu jinse jinshu
+jintian jinyu jinzi jiqi jiqiren jishu jiudian jiujiu jiuyuan jiuzhou jiyi jizhe juanbi juchang
+juchu jueding juese julebu julong junzi juzi kafei kaiche kaifang kaiguan kaishi kaixin kandian
+kangtai kanshu kaopu kaoshang kaoshi kaoya kecheng kecun kehu keren ketang kexue kongjian konglong
+kongqi kongtiao kongzi koudai kouhao kuaicao kuaidi kuaiji kuaile kuaisu kuaizi kuangquan kuanguang
+kuangye kuchi kunchong kuoda laba labi lache lajiao langhua langman lanqiu lanse lantian laohu
+laojia laoren laoshi laoshu laoye leida leiyu lengmian lengshui lianai liangcai liangshi liangtian
+lianhua lianjie lianmeng lianpu lianxi liaojie liaotian lichang lifa liji lingdang lingdao lingjian
+lingxing lingxiu lingyang linju lishi liubai liulan liushi liushui liuxing liwu longjing longmen
+longzhou loufang loushang lubian lucao lucheng luguo lujing luntan luoshi luotuo luye lvse lvshi
+lvxing lvyou mafan maiyi mangguo mangmang manman maobi maojin maoxian maoyi maozi mayi meigui meihao
+meihua meili meishi meishu meitian meizi mengxiang menkou menpiao menwei mianbao mianhua mianshi
+miantiao miaoshu mifan mihuang mimi mingbai mingpian mingtian mingxing mingzi minjian minzu mishi
+mitao moban mofang mogu moli moshi moshu mubiao mudan mudi muge muqin mutou muyu nainai nanbian
+nanfang nanhai nanjing naodai naozhong neihan neirong nengli niandai nianhua nianji niaochao
+ningjing niunai niuniu niuzai nongchang nongmin nongye nuanqi nuli nuoyan nvhai nvshi oulian oumei
+ouzhou paidui paihang paiqiu paizhao pangxie panshan panzi paobu paoche paopao peiban peijian
+pengpai pengyou pianhao piaoliang piaoxue pibao pijiu pingan pingguo pinglun pingtai pingyuan
+pingzheng pingzi pinpai pipa pixie pubu pudong pugong putao putong qianbao qianbi qiangbi qiangwei
+qianjia qianjin qianmian qianshui qiaokeli qiaoliang qiaomen qicai qiche qidai qifu qihou qiji
+qingcao qingchun qingdao qinggan qingkuang qingming qingnian qingshan qingtian qingwa qingxi qinlao
+qipao qiqiu qishi qiuqian qiutian qiyuan quanjia quanli quanqiu quanshi quanxin queren qunzi quyi
+ranhou ranliao redai reqing reshui rexian riben richang riji rili riluo rongshu rongyao rongyi rouhe
+rouruan ruanjian ruguo ruifeng saipao sanbu sanjiao sanmao sanming sanwen sanya saodi senbai senlin
+shafa shaizi shaji shamo shandong shangban shangdian shanghai shangke shangwu shangyi shanhu shanlin
+shanmai shanqu shanshui shantou shanyang shaobing shaonian shatan shengdan shenghua shenghui
+shenghuo shengming shengri shengyin shengzhang shenlin shenmi shenqi shenti shenyang shenzhen
+shibing shibo shichang shidai shigong shiguang shiji shijian shijie shiping shiqi shiqing shitou
+shiwu shiyan shizhong shizi shoubiao shoudu shougong shouji shoutao shouxin shouzhi shuangshou
+shuangxi shubao shucai shudian shufa shuibei shuidao shuiguo shuijiao shuilu shuimo shuiping
+shuixian shuiyin shujia shulin shuma shumu shunli shuohua shuoming shuxue sichou siji sijia sixiang
+siyuan songbai songshu suanfa suanmei suanpan suibian suiji suiyue sunzi suoyou suzhou taibei
+taifeng taiji taiping taiyang tangguo tanghu tangshi tangyuan tanqin taocan taohua taolun taoyuan
+tianhe tianjin tiankong tianmi tianqi tianshi tiantang tiantian tianxia tianye tianyuan tiaowu
+tiaozhan tiedao tielu tingche tingyuan tiyu tizi tongnian tongxin tongxue tongzhi toufa toupiao
+toutiao tuanjie tuanti tuanyuan tudou tuhua tushu tuzi waibian waiguo waimai waipo waitao wanfan
+wangluo wangqiu wanju wanmei wanqiu wanshang wanxi wawa weiba weibo weidao weilai weixiao weixin
+weixing wenchang wenhua wenjian wennuan wenzhang wenzi wochuang woniu wuba wudao wuhan wuhui wuli
+wuxi wuzi xiachu xiaguang xiancheng xiangcai xiangcun xianggang xiangjiao xiangle xiangpi xiangqi
+xiangshan xiangshui xiangtian xiangtu xiangyun xiangzi xianhua xiaobai xiaoban xiaocao xiaochou
+xiaodao xiaohua xiaojie xiaolu xiaomai xiaomei xiaoniao xiaoshi xiaoshuo xiaoxue xiaoyu xiaoyuan
+xiashan xiatian xiawu xiayu xibei xiehou xiezi xigua xiguan xihu xijie xiju xilan xingfu xingli
+xingqi xingxing xinnian xinshou xinwen xinxi xinxian xinyong xinyuan xinyue xiongdi xiongmao xiuli
+xiuxi xiyang xizao xuanlv xuanze xuebao xuehua xuejie xueqiu xueshan xuesheng xuexiao xuezhe xunlian
+yaban yagao yangguang yanglao yangmao yangrou yangshu yanhua yanhuo yanjing yanjiu yanse yanzhi
+yaolan yaoshi yazi yeban yehua yejing yeqiu yezi yifu yinghua yingtao yingxiong yingyu yingzi
+yinhang yinliao yinyuan yinyue yiqi yisheng yishu yiwan yiyuan yizi yongqi youhua youju youpiao
+youren youxi youxiu youyong yuanbao yuandan yuanding yuanfen yuanlin yuanshi yuanwang yuanxiao
+yuanyin yuanzi yuedu yuehui yuelan yueliang yueqiu yumao yundong yunduo yunhai yunnan yunqi yuqi
+yurong yuwang yuyan zaijian zaocan zaochen zazhi zengjia zhangjia zhanting zhaohu zhaopian zhaoxiang
+zhenxin zhenzhu zhiwu zhiyuan zhongguo zhongqiu zhongwen zhongwu zhoumo zhuangtai zhuanjia zhufu
+zhuozi zhuti zhuyi zidian ziran zixingche ziyou zongzi zuichun zuowei zuowen zuoye zuqiu zuqun
+`;
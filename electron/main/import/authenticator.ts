@@ -0,0 +1,215 @@
+/**
+ * Google 身份验证器迁移
+ * 把迁移二维码中的两步验证密钥附加到匹配的登录条目或新建条目，以及把条目的两步验证导出为迁移二维码
+ */
+
+import * as crypto from 'crypto';
+import * as QRCode from 'qrcode';
+import { listEntries, getEntry, createEntry, updateEntry } from '../storage/entries';
+import { listCategories } from '../storage/categories';
+import { transaction, saveDatabase } from '../storage/db';
+import {
+  PasswordEntry,
+  AuthenticatorCandidate,
+  AuthenticatorExport,
+  AuthenticatorImportItem,
+  AuthenticatorScanResult,
+} from '../storage/models';
+import { OtpParams, describeOtp, formatOtpAuthUri, parseOtpAuthUri } from '../totp/otp';
+import { formatMigrationUris, getMigrationProblem, isMigrationUri, parseMigrationUri } from '../totp/migration';
+
+/**
+ * 解析扫描或粘贴得到的内容，支持迁移链接和单个 otpauth 链接
+ * 每个账号附带可附加的已有条目，并给出默认操作
+ */
+export function scanAuthenticatorPayload(text: string): AuthenticatorScanResult {
+  const value = text.trim();
+  if (!value) {
+    throw new Error('没有可导入的内容');
+  }
+
+  let accounts: OtpParams[];
+  let result: Omit<AuthenticatorScanResult, 'items'>;
+  if (isMigrationUri(value)) {
+    const batch = parseMigrationUri(value);
+    accounts = batch.accounts;
+    result = { skipped: batch.skipped, batchId: batch.batchId, batchIndex: batch.batchIndex, batchSize: batch.batchSize };
+  } else if (/^(otpauth|steam):\/\//i.test(value)) {
+    accounts = [parseOtpAuthUri(value)];
+    result = { skipped: [], batchId: 0, batchIndex: 0, batchSize: 1 };
+  } else {
+    throw new Error('无法识别的内容，请使用 otpauth-migration:// 或 otpauth:// 链接');
+  }
+
+  const logins = listEntries().filter(entry => (entry.type || 'login') === 'login');
+  return { ...result, items: accounts.map(params => planImport(params, logins)) };
+}
+
+/**
+ * 按用户确认后的操作导入，附加到已有条目时不覆盖已有的两步验证
+ */
+export function executeAuthenticatorImport(items: AuthenticatorImportItem[]): { created: number; attached: number; failed: number } {
+  let created = 0;
+  let attached = 0;
+  let failed = 0;
+
+  const defaultCategoryId = listCategories().find(c => c.isDefault)?.id;
+
+  transaction(() => {
+    for (const item of items) {
+      try {
+        const params = parseOtpAuthUri(item.otpauth);
+        if (item.action === 'attach') {
+          const entry = item.entryId ? getEntry(item.entryId) : null;
+          if (!entry || (entry.type || 'login') !== 'login' || entry.otpauth) {
+            failed++;
+            continue;
+          }
+          updateEntry({ ...entry, otpauth: formatOtpAuthUri(params) });
+          attached++;
+        } else if (item.action === 'create') {
+          createEntry({
+            type: 'login',
+            title: params.issuer || params.account || '两步验证',
+            username: params.account,
+            password: '',
+            categoryId: defaultCategoryId,
+            tags: [],
+            favorite: false,
+            otpauth: formatOtpAuthUri(params),
+          });
+          created++;
+        }
+      } catch {
+        failed++;
+      }
+    }
+  });
+  saveDatabase();
+
+  return { created, attached, failed };
+}
+
+/**
+ * 把登录条目的两步验证导出为迁移二维码，不指定条目时导出全部
+ * 迁移格式不支持的参数（Steam 令牌、7 位验证码、非 30 秒步长）跳过并说明原因
+ */
+export async function exportAuthenticatorMigration(entryIds?: string[]): Promise<AuthenticatorExport> {
+  const selected = entryIds ? new Set(entryIds) : null;
+  const accounts: OtpParams[] = [];
+  const skipped: AuthenticatorExport['skipped'] = [];
+
+  for (const entry of listEntries()) {
+    if (!entry.otpauth || (selected && !selected.has(entry.id))) continue;
+
+    let params: OtpParams;
+    try {
+      params = parseOtpAuthUri(entry.otpauth);
+    } catch (error) {
+      skipped.push({ title: entry.title, reason: (error as Error).message });
+      continue;
+    }
+    const problem = getMigrationProblem(params);
+    if (problem) {
+      skipped.push({ title: entry.title, reason: problem });
+      continue;
+    }
+    // 没有签发方和账号时用条目信息补全，便于在身份验证器中辨认
+    accounts.push({
+      ...params,
+      issuer: params.issuer || entry.title,
+      account: params.account || entry.username,
+    });
+  }
+
+  if (accounts.length === 0) {
+    return { pages: [], exported: 0, skipped };
+  }
+
+  const uris = formatMigrationUris(accounts, crypto.randomInt(1, 0x7fffffff));
+  const pages = await Promise.all(
+    uris.map(uri => QRCode.toDataURL(uri, { width: 360, margin: 2, errorCorrectionLevel: 'M' }))
+  );
+  return { pages, exported: accounts.length, skipped };
+}
+
+/**
+ * 为单个账号查找可附加的登录条目并决定默认操作
+ */
+function planImport(params: OtpParams, logins: PasswordEntry[]): AuthenticatorImportItem {
+  const item: AuthenticatorImportItem = {
+    otpauth: formatOtpAuthUri(params),
+    issuer: params.issuer,
+    account: params.account,
+    description: describeOtp(params),
+    action: 'create',
+    candidates: [],
+  };
+
+  // 已保存相同密钥时默认跳过
+  const duplicate = logins.find(entry => {
+    try {
+      return !!entry.otpauth && parseOtpAuthUri(entry.otpauth).secret === params.secret;
+    } catch {
+      return false;
+    }
+  });
+  if (duplicate) {
+    item.action = 'skip';
+    item.duplicateOf = duplicate.title;
+    return item;
+  }
+
+  const scored = logins
+    .filter(entry => !entry.otpauth)
+    .map(entry => ({ entry, score: matchScore(params, entry) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  item.candidates = scored.map(({ entry }): AuthenticatorCandidate => ({
+    id: entry.id,
+    title: entry.title,
+    username: entry.username,
+  }));
+  if (scored.length > 0) {
+    item.action = 'attach';
+    item.entryId = scored[0].entry.id;
+  }
+  return item;
+}
+
+/**
+ * 匹配程度：签发方和账号都匹配为 3，只有签发方匹配为 2，没有签发方时账号匹配为 1，不匹配为 0
+ */
+function matchScore(params: OtpParams, entry: PasswordEntry): number {
+  const issuer = normalizeName(params.issuer);
+  const account = params.account.trim().toLowerCase();
+  const username = entry.username.trim().toLowerCase();
+  const accountMatches = !!account && account === username;
+
+  if (!issuer) {
+    return accountMatches ? 1 : 0;
+  }
+
+  const title = normalizeName(entry.title);
+  const host = normalizeName(extractHost(entry.url) ?? '');
+  const issuerMatches =
+    title.includes(issuer) || (title.length >= 3 && issuer.includes(title)) || host.includes(issuer);
+  if (!issuerMatches || (account && username && !accountMatches)) {
+    return 0;
+  }
+  return accountMatches ? 3 : 2;
+}
+
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9一-龥]/g, '');
+}
+
+function extractHost(url?: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `https://${url}`).hostname;
+  } catch {
+    return null;
+  }
+}
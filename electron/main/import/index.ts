@@ -7,9 +7,11 @@ import * as XLSX from 'xlsx';
 import * as fs from 'fs';
 import * as path from 'path';
 import { app, dialog } from 'electron';
-import { ImportEntry, ImportResult, ImportError } from '../storage/models';
-import { listEntries } from '../storage/entries';
+import { v4 as uuidv4 } from 'uuid';
+import { ImportEntry, ImportResult, ImportError, CustomField, CustomFieldType } from '../storage/models';
+import { listEntries, createEntry } from '../storage/entries';
 import { listCategories, createCategory } from '../storage/categories';
+import { transaction, saveDatabase } from '../storage/db';
 
 // Excel 模板列定义（添加分类列）
 const TEMPLATE_COLUMNS = ['标题', '用户名', '密码', '网址', '备注', '分类'];
@@ -30,6 +32,50 @@ const BROWSER_FORMATS: Record<string, { columns: string[]; mapping: Record<strin
   },
 };
 
+// 通用格式中已识别的列名，其余列作为自定义字段导入
+const KNOWN_COLUMNS = new Set([
+  '标题', 'title', 'name',
+  '用户名', 'username', 'user',
+  '密码', 'password',
+  '网址', 'url', 'website',
+  '备注', 'notes', 'note',
+  '分类', 'category', 'folder', 'group',
+]);
+
+// 列名包含这些关键词时按隐藏字段导入
+const HIDDEN_COLUMN_KEYWORDS = ['pin', 'secret', 'key', 'token', 'cvv', '密钥', '口令', '答案'];
+
+/**
+ * 根据列名和值推断自定义字段类型
+ */
+function inferFieldType(label: string, value: string): CustomFieldType {
+  const lowerLabel = label.toLowerCase();
+  if (lowerLabel.includes('totp') || lowerLabel.includes('otp')) return 'totp';
+  if (HIDDEN_COLUMN_KEYWORDS.some(k => lowerLabel.includes(k))) return 'hidden';
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return 'email';
+  if (/^https?:\/\//i.test(value)) return 'url';
+  return 'text';
+}
+
+/**
+ * 将未识别的列转换为自定义字段
+ */
+function collectCustomFields(headers: string[], values: unknown[]): CustomField[] | undefined {
+  const fields: CustomField[] = [];
+
+  headers.forEach((header, idx) => {
+    const label = header.trim();
+    if (!label || KNOWN_COLUMNS.has(label.toLowerCase())) return;
+
+    const value = values[idx] != null ? String(values[idx]).trim() : '';
+    if (!value) return;
+
+    fields.push({ id: uuidv4(), label, type: inferFieldType(label, value), value });
+  });
+
+  return fields.length > 0 ? fields : undefined;
+}
+
 /**
  * 生成 Excel 导入模板
  */
@@ -119,7 +165,8 @@ function parseExcel(filePath: string): ImportEntry[] {
   
   // 获取表头
   const headerRow = data[0] as unknown[];
-  const headers = headerRow.map(h => String(h || '').trim().toLowerCase());
+  const rawHeaders = headerRow.map(h => String(h || '').trim());
+  const headers = rawHeaders.map(h => h.toLowerCase());
   const entries: ImportEntry[] = [];
   
   // 列索引映射
@@ -150,6 +197,7 @@ function parseExcel(filePath: string): ImportEntry[] {
         url,
         notes,
         category,
+        customFields: collectCustomFields(rawHeaders, row),
         rowNumber: i + 1,
       });
     }
@@ -197,7 +245,8 @@ function parseCSV(filePath: string, format: string): ImportEntry[] {
     return result;
   };
   
-  const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase());
+  const rawHeaders = parseCSVLine(lines[0]);
+  const headers = rawHeaders.map(h => h.toLowerCase());
   const entries: ImportEntry[] = [];
   
   // 获取格式映射
@@ -221,6 +270,7 @@ function parseCSV(filePath: string, format: string): ImportEntry[] {
     let url = '';
     let notes = '';
     let category: string | undefined;
+    let customFields: CustomField[] | undefined;
     
     if (formatConfig) {
       // 使用浏览器格式映射
@@ -250,6 +300,8 @@ function parseCSV(filePath: string, format: string): ImportEntry[] {
       if (categoryIdx >= 0 && values[categoryIdx]) {
         category = values[categoryIdx].trim() || undefined;
       }
+
+      customFields = collectCustomFields(rawHeaders, values);
     }
     
     if (title || username || password) {
@@ -260,6 +312,7 @@ function parseCSV(filePath: string, format: string): ImportEntry[] {
         url: url || undefined,
         notes: notes || undefined,
         category,
+        customFields,
         rowNumber: i + 1,
       });
     }
@@ -453,8 +506,6 @@ export function importFile(filePath: string, format?: string): ImportResult & {
  * 执行导入（在用户确认后调用）
  */
 export function executeImport(entries: ImportEntry[]): { success: number; failed: number; categoriesCreated: number } {
-  const { createEntry } = require('../storage/entries');
-  
   let success = 0;
   let failed = 0;
   
@@ -464,42 +515,49 @@ export function executeImport(entries: ImportEntry[]): { success: number; failed
     .map(e => e.category!.trim());
   const uniqueCategoryNames = [...new Set(categoryNames)];
   
-  // 确保分类存在并获取映射
-  const categoryMap = ensureCategories(uniqueCategoryNames);
-  const categoriesCreated = uniqueCategoryNames.filter(name => {
-    const existingCategories = listCategories();
-    return !existingCategories.some(c => c.name.toLowerCase() === name.toLowerCase());
-  }).length;
-  
-  // 获取默认分类ID
-  const defaultCategory = listCategories().find(c => c.isDefault);
-  const defaultCategoryId = defaultCategory?.id;
-  
-  for (const entry of entries) {
-    try {
-      // 确定分类ID
-      let categoryId: string | undefined;
-      if (entry.category && entry.category.trim()) {
-        categoryId = categoryMap.get(entry.category.trim().toLowerCase());
-      } else {
-        categoryId = defaultCategoryId;
+  // 分类和条目在同一事务中写入，结束后统一写盘
+  const categoriesCreated = transaction(() => {
+    // 确保分类存在并获取映射
+    const categoryMap = ensureCategories(uniqueCategoryNames);
+    const created = uniqueCategoryNames.filter(name => {
+      const existingCategories = listCategories();
+      return !existingCategories.some(c => c.name.toLowerCase() === name.toLowerCase());
+    }).length;
+    
+    // 获取默认分类ID
+    const defaultCategory = listCategories().find(c => c.isDefault);
+    const defaultCategoryId = defaultCategory?.id;
+    
+    for (const entry of entries) {
+      try {
+        // 确定分类ID
+        let categoryId: string | undefined;
+        if (entry.category && entry.category.trim()) {
+          categoryId = categoryMap.get(entry.category.trim().toLowerCase());
+        } else {
+          categoryId = defaultCategoryId;
+        }
+        
+        createEntry({
+          title: entry.title,
+          username: entry.username,
+          password: entry.password,
+          url: entry.url,
+          notes: entry.notes,
+          categoryId,
+          tags: [],
+          customFields: entry.customFields,
+          favorite: false,
+        });
+        success++;
+      } catch {
+        failed++;
       }
-      
-      createEntry({
-        title: entry.title,
-        username: entry.username,
-        password: entry.password,
-        url: entry.url,
-        notes: entry.notes,
-        categoryId,
-        tags: [],
-        favorite: false,
-      });
-      success++;
-    } catch {
-      failed++;
     }
-  }
+    
+    return created;
+  });
+  saveDatabase();
   
   return { success, failed, categoriesCreated };
 }
@@ -1,7 +1,9 @@
 import { app, BrowserWindow, powerMonitor, ipcMain, dialog } from 'electron';
 import path from 'path';
-import { registerIpcHandlers } from './ipc';
+import { registerIpcHandlers, switchToVault, listTrayOtpEntries, copyEntryOtp } from './ipc';
 import { lockVault } from './storage/vault';
+import { saveDatabase } from './storage/db';
+import { getCurrentVault, setCurrentAutoLock } from './storage/vaults';
 import { isUnlocked } from './crypto';
 import { getSyncManager } from './sync/sync-manager';
 
@@ -23,8 +25,7 @@ const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 let mainWindow: BrowserWindow | null = null;
 let isQuitting = false;
 
-// 自动锁定配置
-let autoLockTimeout = 5 * 60 * 1000; // 默认5分钟
+// 自动锁定计时器（超时时间按密码库分别保存）
 let idleTimer: NodeJS.Timeout | null = null;
 let lastActivityTime = Date.now();
 
@@ -38,6 +39,7 @@ function resetIdleTimer() {
     clearTimeout(idleTimer);
   }
   
+  const autoLockTimeout = getCurrentVault().autoLockMinutes * 60 * 1000;
   if (autoLockTimeout > 0 && isUnlocked()) {
     idleTimer = setTimeout(() => {
       triggerAutoLock();
@@ -51,16 +53,17 @@ function resetIdleTimer() {
 function triggerAutoLock() {
   if (isUnlocked()) {
     lockVault();
+    trayModule.updateMenu();
     // 通知渲染进程
     mainWindow?.webContents.send('vault-locked');
   }
 }
 
 /**
- * 设置自动锁定超时时间
+ * 设置当前密码库的自动锁定超时时间
  */
 function setAutoLockTimeout(minutes: number) {
-  autoLockTimeout = minutes * 60 * 1000;
+  setCurrentAutoLock(minutes);
   resetIdleTimer();
 }
 
@@ -86,7 +89,7 @@ function initIdleDetection() {
   });
 
   ipcMain.handle('get-auto-lock-timeout', () => {
-    return autoLockTimeout / 60000; // 返回分钟数
+    return getCurrentVault().autoLockMinutes;
   });
 
   ipcMain.handle('reset-idle-timer', () => {
@@ -235,8 +238,14 @@ function createWindow() {
 
 // 应用准备就绪
 app.whenReady().then(async () => {
-  // 注册 IPC 处理器
-  await registerIpcHandlers();
+  // 注册 IPC 处理器（数据库无法打开时提示并退出，例如由更新版本创建的密码库）
+  try {
+    await registerIpcHandlers();
+  } catch (error) {
+    dialog.showErrorBox('无法打开密码库', (error as Error).message);
+    app.quit();
+    return;
+  }
   
   // 注册新模块的 IPC 处理器
   registerShortcutIPC();
@@ -278,6 +287,8 @@ app.on('will-quit', () => {
   shortcutModule.cleanup();
   // 销毁托盘
   trayModule.destroy();
+  // 写入尚未落盘的修改
+  saveDatabase();
 });
 
 /**
@@ -297,6 +308,15 @@ function initTray(): void {
       // 截图功能 - 从剪贴板获取图片并进行 OCR
       mainWindow?.webContents.send('trigger-screenshot-ocr');
     },
+    getOtpEntries: listTrayOtpEntries,
+    onCopyOtp: (id: string) => {
+      try {
+        const { title, remaining } = copyEntryOtp(id);
+        trayModule.showNotification('已复制验证码', `${title} 的验证码 ${remaining} 秒后过期`);
+      } catch (error) {
+        trayModule.showNotification('复制验证码失败', (error as Error).message);
+      }
+    },
     onOpenMainWindow: () => {
       if (mainWindow) {
         if (mainWindow.isMinimized()) {
@@ -313,6 +333,19 @@ function initTray(): void {
         mainWindow.webContents.send('open-settings');
       }
     },
+    onSwitchVault: (id: string) => {
+      switchToVault(id)
+        .then(() => {
+          if (mainWindow) {
+            if (mainWindow.isMinimized()) {
+              mainWindow.restore();
+            }
+            mainWindow.show();
+            mainWindow.focus();
+          }
+        })
+        .catch((error) => dialog.showErrorBox('切换密码库失败', (error as Error).message));
+    },
     onExit: () => {
       isQuitting = true;
       app.quit();
@@ -3,11 +3,12 @@
  * 注册所有 IPC 通信处理函数
  */
 
-import { ipcMain, dialog, clipboard } from 'electron';
+import { ipcMain, dialog, clipboard, BrowserWindow } from 'electron';
 import { initDatabase, isVaultInitialized } from '../storage/db';
 import {
   setupVault,
   unlockVault,
+  verifyUnlockCode,
   lockVault,
   changeMasterPassword,
   verifyMasterPassword,
@@ -16,16 +17,50 @@ import {
   getVaultSecurityInfo,
   checkSecurityUpgrade,
   upgradeSecurityParams,
+  switchVault,
+  throttledVerify,
+  isKeyFileRequired,
+  setKeyFile,
+  getRecoveryKeyStatus,
+  createRecoveryKey,
+  removeRecoveryKey,
+  recoverVault,
 } from '../storage/vault';
+import { listVaults, createVault, renameVault, removeVault, getCurrentVault } from '../storage/vaults';
+import {
+  loadUnlockGuardConfig,
+  updateUnlockGuardConfig,
+  listUnlockJournal,
+  getUnlockSummary,
+  UnlockGuardConfig,
+} from '../storage/unlock-guard';
 import {
   createEntry,
+  getEntry,
   listEntries,
   updateEntry,
   deleteEntry,
   searchEntries,
   getEntriesByCategory,
   getEntriesByTag,
+  restoreEntryRevision,
+  restoreEntry,
+  purgeEntry,
+  listTrashedEntries,
+  advanceOtpCounter,
 } from '../storage/entries';
+import { listRevisions, loadHistoryConfig, updateHistoryConfig, HistoryConfig } from '../storage/history';
+import { createWifiQR } from '../storage/item-types';
+import {
+  addAttachmentFromFile,
+  listAttachments,
+  getAttachment,
+  previewAttachment,
+  exportAttachment,
+  deleteAttachment,
+} from '../storage/attachments';
+import { Attachment, EmergencyKit, AuthenticatorImportItem } from '../storage/models';
+import { loadTrashConfig, updateTrashConfig, purgeExpiredTrash, emptyTrash, TrashConfig } from '../storage/trash';
 import {
   createCategory,
   listCategories,
@@ -38,22 +73,42 @@ import {
   updateTag,
   deleteTag,
 } from '../storage/tags';
-import { generatePassword, calculateStrength } from '../generator';
-import { isUnlocked } from '../crypto';
-import { checkPasswordStrength } from '../crypto/password-strength';
+import { createPolicy, listPolicies, updatePolicy, deletePolicy } from '../storage/policies';
+import {
+  recordGeneratedPassword,
+  listGeneratedPasswords,
+  deleteGeneratedPassword,
+  clearGeneratorHistory,
+  pruneGeneratorHistory,
+  loadGeneratorHistoryConfig,
+  updateGeneratorHistoryConfig,
+  GeneratorHistoryConfig,
+} from '../storage/generator-history';
+import { generatePassword, deriveEntryPassword } from '../generator';
+import { isUnlocked, writeKeyFile, KEY_FILE_EXTENSION, type KdfAlgorithm } from '../crypto';
 import { downloadTemplate, importFile, detectFormat, executeImport } from '../import';
+import { scanAuthenticatorPayload, executeAuthenticatorImport, exportAuthenticatorMigration } from '../import/authenticator';
+import screenshotModule from '../screenshot';
 import { createBackup, restoreBackup, listBackups, verifyBackup, previewBackup } from '../backup';
-import { setupTotp, enableTotp, disableTotp, verifyTotp, verifyRecoveryCode, isTotpEnabled } from '../totp';
+import { setupTotp, enableTotp, disableTotp, verifyTotp, verifyRecoveryCode, isTotpEnabled, generateEntryOtp } from '../totp';
+import { getOtpRemainingSeconds, parseOtpAuthUri } from '../totp/otp';
 import { createShareQR, destroyShare, getShareRemainingTime } from '../qrshare';
+import { writeEmergencyKit, type EmergencyKitFormat } from '../emergency-kit';
+import { runSecurityAudit, loadAuditConfig, updateAuditConfig, AuditConfig } from '../audit';
+import { getBreachStatus, importBreachSource, removeBreachSource, isPasswordBreached, checkMasterPassword, type BreachImportMode } from '../breach';
 import { getSyncManager } from '../sync/sync-manager';
 import { getSyncAuthManager } from '../sync/auth';
 import { SyncConfig } from '../sync/types';
 import { getSmartIcon, matchIconByKeyword } from '../favicon';
 import { batchMoveCategory, batchAddTags, batchRemoveTags, batchDelete } from '../storage/batch';
+import { updateMenu as updateTrayMenu, type TrayOtpEntry } from '../tray';
 
 // 剪贴板清除定时器
 let clipboardTimer: NodeJS.Timeout | null = null;
 
+// 托盘菜单中的验证码条目，获取时需要解密全部条目，因此只在条目变化时重建
+let trayOtpEntries: TrayOtpEntry[] | null = null;
+
 /**
  * 标记本地数据已更改（用于同步状态跟踪）
  */
@@ -66,43 +121,171 @@ function markDataChanged(): void {
   }
 }
 
+/**
+ * 标记条目已更改，并重建托盘菜单中的验证码列表
+ */
+function markEntriesChanged(): void {
+  markDataChanged();
+  refreshTrayOtpEntries();
+}
+
+/**
+ * 重新读取托盘菜单中的验证码条目并刷新托盘菜单
+ */
+function refreshTrayOtpEntries(): void {
+  trayOtpEntries = null;
+  updateTrayMenu();
+}
+
+/**
+ * 写入剪贴板，clearAfter 秒后内容未被替换时自动清除
+ */
+function writeClipboard(text: string, clearAfter: number): void {
+  clipboard.writeText(text);
+
+  // 清除之前的定时器
+  if (clipboardTimer) {
+    clearTimeout(clipboardTimer);
+  }
+
+  // 设置自动清除
+  if (clearAfter > 0) {
+    clipboardTimer = setTimeout(() => {
+      // 只有当剪贴板内容仍是我们复制的内容时才清除
+      if (clipboard.readText() === text) {
+        clipboard.clear();
+      }
+      clipboardTimer = null;
+    }, clearAfter * 1000);
+  }
+}
+
+/**
+ * 托盘菜单中可以复制验证码的条目，锁定时为空
+ * HOTP 每次使用都要推进计数器，只在详情页中操作
+ */
+export function listTrayOtpEntries(): TrayOtpEntry[] {
+  if (!isUnlocked()) {
+    trayOtpEntries = null;
+    return [];
+  }
+  if (trayOtpEntries) return trayOtpEntries;
+  try {
+    // 条目中保存的是规范化后的 URI，HOTP 以 otpauth://hotp/ 开头
+    trayOtpEntries = listEntries()
+      .filter((entry) => entry.otpauth && !entry.otpauth.startsWith('otpauth://hotp/'))
+      .map((entry) => ({ id: entry.id, label: entry.username ? `${entry.title}（${entry.username}）` : entry.title }));
+    return trayOtpEntries;
+  } catch (error) {
+    console.error('Failed to list entries for tray:', error);
+    return [];
+  }
+}
+
+/**
+ * 复制条目的当前验证码，返回条目标题和验证码剩余的有效秒数
+ */
+export function copyEntryOtp(id: string): { title: string; remaining: number } {
+  const entry = getEntry(id);
+  if (!entry?.otpauth) {
+    throw new Error('条目没有设置两步验证');
+  }
+  writeClipboard(generateEntryOtp(entry.otpauth), 30);
+  return { title: entry.title, remaining: getOtpRemainingSeconds(parseOtpAuthUri(entry.otpauth)) };
+}
+
+/**
+ * 切换密码库，并通知渲染进程回到登录界面、刷新托盘菜单
+ */
+export async function switchToVault(id: string): Promise<void> {
+  await switchVault(id);
+  BrowserWindow.getAllWindows().forEach(win => win.webContents.send('vault-switched'));
+  updateTrayMenu();
+}
+
+/**
+ * 解锁完成后清理回收站中过期的条目和过期的密码生成历史，并重建托盘菜单中的验证码列表
+ */
+function onVaultUnlocked(): void {
+  const purged = purgeExpiredTrash() + pruneGeneratorHistory();
+  if (purged > 0) {
+    markDataChanged();
+  }
+  refreshTrayOtpEntries();
+}
+
 /**
  * 注册所有 IPC 处理器
  */
 export async function registerIpcHandlers(): Promise<void> {
-  // 初始化数据库
-  await initDatabase();
+  // 初始化数据库，主文件损坏时询问是否从上一次保存的副本恢复
+  await initDatabase({
+    confirmRecovery: async (reason) => {
+      const result = await dialog.showMessageBox({
+        type: 'warning',
+        buttons: ['恢复', '退出'],
+        defaultId: 0,
+        cancelId: 1,
+        title: '密码库文件已损坏',
+        message: '密码库文件无法打开，可能是上次保存时意外中断',
+        detail: `错误信息：${reason}\n\n是否从上一次成功保存的副本恢复？最后一次保存前的少量修改可能会丢失，损坏的文件会保留在数据目录中。`,
+      });
+      return result.response === 0;
+    },
+  });
 
   // ========== 认证相关 ==========
-  ipcMain.handle('setup-vault', async (_event, password: string) => {
+  ipcMain.handle('setup-vault', async (_event, password: string, keyFilePath?: string) => {
     try {
-      setupVault(password);
+      setupVault(password, keyFilePath);
+      checkMasterPassword(password);
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   });
 
-  ipcMain.handle('unlock-vault', async (_event, password: string) => {
+  ipcMain.handle('unlock-vault', async (_event, password: string, keyFilePath?: string) => {
     try {
-      const success = unlockVault(password);
-      if (!success) {
+      const status = await unlockVault(password, keyFilePath);
+      if (status === 'invalid') {
         return { success: false, error: '密码错误' };
       }
+      checkMasterPassword(password);
+      if (status === 'totp-required') {
+        return { success: false, totpRequired: true };
+      }
+      onVaultUnlocked();
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   });
 
+  // 解锁第二步：TOTP 验证码或恢复码，抛出异常时需要重新输入主密码
+  ipcMain.handle('verify-unlock-code', async (_event, code: string, isRecoveryCode: boolean) => {
+    try {
+      const status = await verifyUnlockCode(code, isRecoveryCode);
+      if (status !== 'unlocked') {
+        return { success: false, error: isRecoveryCode ? '恢复码无效' : '验证码错误' };
+      }
+      onVaultUnlocked();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message, passwordRequired: true };
+    }
+  });
+
   ipcMain.handle('lock-vault', async () => {
     lockVault();
+    updateTrayMenu();
     return { success: true };
   });
 
   ipcMain.handle('change-master-password', async (_event, oldPwd: string, newPwd: string) => {
     try {
       changeMasterPassword(oldPwd, newPwd);
+      checkMasterPassword(newPwd);
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -119,7 +302,112 @@ export async function registerIpcHandlers(): Promise<void> {
 
   ipcMain.handle('verify-master-password', async (_event, password: string) => {
     try {
-      return { success: verifyMasterPassword(password) };
+      return { success: await verifyMasterPassword(password) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // ========== 密钥文件 ==========
+  ipcMain.handle('key-file:required', async () => {
+    try {
+      return isKeyFileRequired();
+    } catch (error) {
+      return false;
+    }
+  });
+
+  ipcMain.handle('key-file:generate', async () => {
+    try {
+      const result = await dialog.showSaveDialog({
+        title: '保存密钥文件',
+        defaultPath: `${getCurrentVault().name}.${KEY_FILE_EXTENSION}`,
+        filters: [{ name: '密钥文件', extensions: [KEY_FILE_EXTENSION] }],
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, error: '用户取消' };
+      }
+
+      writeKeyFile(result.filePath);
+      return { success: true, filePath: result.filePath };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('key-file:select', async () => {
+    const result = await dialog.showOpenDialog({
+      title: '选择密钥文件',
+      properties: ['openFile'],
+      filters: [
+        { name: '密钥文件', extensions: [KEY_FILE_EXTENSION, 'key', 'xml'] },
+        { name: '所有文件', extensions: ['*'] },
+      ],
+    });
+    return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+  });
+
+  ipcMain.handle('key-file:set', async (_event, password: string, keyFilePath: string | null) => {
+    try {
+      setKeyFile(password, keyFilePath);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // ========== 恢复密钥 ==========
+  ipcMain.handle('recovery-key:status', async () => {
+    try {
+      return getRecoveryKeyStatus();
+    } catch (error) {
+      return { enabled: false, createdAt: null };
+    }
+  });
+
+  ipcMain.handle('recovery-key:create', async (_event, password: string, options?: { shares?: number; threshold?: number }) => {
+    try {
+      const kit = createRecoveryKey(password, options);
+      return { success: true, kit };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('recovery-key:remove', async (_event, password: string) => {
+    try {
+      removeRecoveryKey(password);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('recovery-key:recover', async (_event, codes: string[], newPassword: string) => {
+    try {
+      await recoverVault(codes, newPassword);
+      checkMasterPassword(newPassword);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('recovery-key:save-kit', async (_event, kit: EmergencyKit, format: EmergencyKitFormat) => {
+    try {
+      const result = await dialog.showSaveDialog({
+        title: '保存应急恢复包',
+        defaultPath: `${kit.vaultName}-应急恢复包.${format}`,
+        filters: [format === 'pdf' ? { name: 'PDF 文件', extensions: ['pdf'] } : { name: '网页文件', extensions: ['html'] }],
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, error: '用户取消' };
+      }
+
+      await writeEmergencyKit(kit, result.filePath, format);
+      return { success: true, filePath: result.filePath };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
@@ -136,44 +424,118 @@ export async function registerIpcHandlers(): Promise<void> {
 
   ipcMain.handle('reset-vault', async () => {
     try {
-      resetVault();
+      await resetVault();
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   });
 
-  // ========== 安全参数 ==========
-  ipcMain.handle('get-security-info', async () => {
+  // ========== 解锁保护 ==========
+  ipcMain.handle('unlock-guard:get-config', async () => {
     try {
-      return getVaultSecurityInfo();
+      return { success: true, config: loadUnlockGuardConfig() };
     } catch (error) {
-      return { iterations: 0, version: 0, securityLevel: 'low', needsUpgrade: false, derivationTimeMs: 0 };
+      return { success: false, error: (error as Error).message };
     }
   });
 
-  ipcMain.handle('check-security-upgrade', async () => {
+  ipcMain.handle('unlock-guard:set-config', async (_event, config: Partial<UnlockGuardConfig>) => {
     try {
-      return checkSecurityUpgrade();
+      if (!isUnlocked()) {
+        throw new Error('密码库已锁定');
+      }
+      return { success: true, config: updateUnlockGuardConfig(config) };
     } catch (error) {
-      return false;
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('unlock-guard:journal', async () => {
+    try {
+      return listUnlockJournal();
+    } catch (error) {
+      console.error('List unlock journal error:', error);
+      return [];
     }
   });
 
-  ipcMain.handle('upgrade-security', async (_event, password: string, iterations?: number) => {
+  ipcMain.handle('unlock-guard:summary', async () => {
+    return getUnlockSummary();
+  });
+
+  // ========== 多密码库 ==========
+  ipcMain.handle('vaults:list', async () => {
+    return listVaults();
+  });
+
+  ipcMain.handle('vaults:create', async (_event, name: string) => {
     try {
-      upgradeSecurityParams(password, iterations);
+      const vault = createVault(name);
+      updateTrayMenu();
+      return { success: true, vault };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('vaults:rename', async (_event, id: string, name: string) => {
+    try {
+      const vault = renameVault(id, name);
+      updateTrayMenu();
+      return { success: true, vault };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('vaults:remove', async (_event, id: string) => {
+    try {
+      removeVault(id);
+      updateTrayMenu();
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   });
 
-  ipcMain.handle('check-password-strength', async (_event, password: string) => {
+  ipcMain.handle('vaults:switch', async (_event, id: string) => {
     try {
-      return checkPasswordStrength(password);
+      await switchToVault(id);
+      return { success: true };
     } catch (error) {
-      return { score: 0, level: 'very-weak', feedback: [], isAcceptable: false };
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // ========== 安全参数 ==========
+  ipcMain.handle('get-security-info', async () => {
+    try {
+      return getVaultSecurityInfo();
+    } catch (error) {
+      return {
+        kdf: { algorithm: 'pbkdf2-sha256', iterations: 0 },
+        securityLevel: 'low',
+        needsUpgrade: false,
+        derivationTimeMs: 0,
+      };
+    }
+  });
+
+  ipcMain.handle('check-security-upgrade', async () => {
+    try {
+      return checkSecurityUpgrade();
+    } catch (error) {
+      return false;
+    }
+  });
+
+  ipcMain.handle('upgrade-security', async (_event, password: string, options?: { algorithm?: KdfAlgorithm; targetMs?: number }) => {
+    try {
+      const kdf = upgradeSecurityParams(password, options);
+      return { success: true, kdf };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
     }
   });
 
@@ -182,7 +544,7 @@ export async function registerIpcHandlers(): Promise<void> {
   ipcMain.handle('create-entry', async (_event, entry: unknown) => {
     try {
       const id = createEntry(entry as Parameters<typeof createEntry>[0]);
-      markDataChanged();
+      markEntriesChanged();
       return { success: true, id };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -192,7 +554,7 @@ export async function registerIpcHandlers(): Promise<void> {
   ipcMain.handle('update-entry', async (_event, entry: unknown) => {
     try {
       updateEntry(entry as Parameters<typeof updateEntry>[0]);
-      markDataChanged();
+      markEntriesChanged();
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -202,7 +564,7 @@ export async function registerIpcHandlers(): Promise<void> {
   ipcMain.handle('delete-entry', async (_event, id: string) => {
     try {
       deleteEntry(id);
-      markDataChanged();
+      markEntriesChanged();
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -241,6 +603,125 @@ export async function registerIpcHandlers(): Promise<void> {
     }
   });
 
+  ipcMain.handle('entries:wifi-qr', async (_event, entryId: string) => {
+    try {
+      const entry = getEntry(entryId);
+      if (!entry) {
+        return { success: false, error: '条目不存在' };
+      }
+      return { success: true, qrCodeBase64: await createWifiQR(entry) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // ========== 历史版本 ==========
+  ipcMain.handle('entries:list-revisions', async (_event, entryId: string) => {
+    try {
+      return listRevisions(entryId);
+    } catch (error) {
+      return [];
+    }
+  });
+
+  ipcMain.handle('entries:restore-revision', async (_event, revisionId: string) => {
+    try {
+      const entry = restoreEntryRevision(revisionId);
+      markEntriesChanged();
+      return { success: true, entry };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('entries:get-history-config', async () => {
+    try {
+      return { success: true, config: loadHistoryConfig() };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('entries:set-history-config', async (_event, config: Partial<HistoryConfig>) => {
+    try {
+      return { success: true, config: updateHistoryConfig(config) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // ========== 附件 ==========
+  ipcMain.handle('attachments:add', async (_event, entryId: string) => {
+    try {
+      const result = await dialog.showOpenDialog({
+        title: '添加附件',
+        properties: ['openFile', 'multiSelections'],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, error: '用户取消' };
+      }
+
+      const attachments: Attachment[] = [];
+      for (const filePath of result.filePaths) {
+        attachments.push(addAttachmentFromFile(entryId, filePath));
+      }
+      markDataChanged();
+      return { success: true, attachments };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('attachments:list', async (_event, entryId: string) => {
+    try {
+      return listAttachments(entryId);
+    } catch (error) {
+      return [];
+    }
+  });
+
+  ipcMain.handle('attachments:preview', async (_event, id: string) => {
+    try {
+      return { success: true, preview: previewAttachment(id) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('attachments:export', async (_event, id: string) => {
+    try {
+      const attachment = getAttachment(id);
+      if (!attachment) {
+        return { success: false, error: '附件不存在' };
+      }
+
+      const result = await dialog.showSaveDialog({
+        title: '导出附件',
+        defaultPath: attachment.name,
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, error: '用户取消' };
+      }
+
+      exportAttachment(id, result.filePath);
+      return { success: true, filePath: result.filePath };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('attachments:delete', async (_event, id: string) => {
+    try {
+      deleteAttachment(id);
+      markDataChanged();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // ========== 批量操作 ==========
   ipcMain.handle('entries:batch-move-category', async (_event, ids: string[], categoryId: string | null) => {
     try {
@@ -282,7 +763,7 @@ export async function registerIpcHandlers(): Promise<void> {
     try {
       const result = batchDelete(ids);
       if (result.success > 0) {
-        markDataChanged();
+        markEntriesChanged();
       }
       return result;
     } catch (error) {
@@ -290,6 +771,145 @@ export async function registerIpcHandlers(): Promise<void> {
     }
   });
 
+  // ========== 回收站 ==========
+  ipcMain.handle('trash:list', async () => {
+    try {
+      if (purgeExpiredTrash() > 0) {
+        markDataChanged();
+      }
+      return listTrashedEntries();
+    } catch (error) {
+      return [];
+    }
+  });
+
+  ipcMain.handle('trash:restore', async (_event, id: string) => {
+    try {
+      restoreEntry(id);
+      markEntriesChanged();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('trash:purge', async (_event, id: string) => {
+    try {
+      purgeEntry(id);
+      markDataChanged();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('trash:empty', async () => {
+    try {
+      const count = emptyTrash();
+      if (count > 0) {
+        markDataChanged();
+      }
+      return { success: true, count };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('trash:get-config', async () => {
+    try {
+      return { success: true, config: loadTrashConfig() };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('trash:set-config', async (_event, config: Partial<TrashConfig>) => {
+    try {
+      const updated = updateTrashConfig(config);
+      markDataChanged();
+      return { success: true, config: updated };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // ========== 安全审计 ==========
+  ipcMain.handle('audit:run', async () => {
+    try {
+      return { success: true, report: runSecurityAudit() };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('audit:get-config', async () => {
+    try {
+      return { success: true, config: loadAuditConfig() };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('audit:set-config', async (_event, config: Partial<AuditConfig>) => {
+    try {
+      return { success: true, config: updateAuditConfig(config) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // ========== 泄露密码检查 ==========
+  ipcMain.handle('breach:status', async () => {
+    try {
+      return { success: true, status: getBreachStatus() };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('breach:select-file', async () => {
+    const result = await dialog.showOpenDialog({
+      title: '选择泄露密码库',
+      properties: ['openFile'],
+      filters: [
+        { name: 'SHA-1 哈希文件或索引', extensions: ['txt', 'bloom'] },
+        { name: '所有文件', extensions: ['*'] },
+      ],
+    });
+    return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+  });
+
+  // 生成索引可能需要较长时间，期间通过 breach:progress 通知进度
+  ipcMain.handle('breach:import', async (event, filePath: string, mode: BreachImportMode) => {
+    try {
+      const source = await importBreachSource(filePath, mode, (progress) => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send('breach:progress', progress);
+        }
+      });
+      return { success: true, source };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('breach:remove', async () => {
+    try {
+      removeBreachSource();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('breach:check', async (_event, password: string) => {
+    try {
+      return { success: true, breached: isPasswordBreached(password) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // ========== 分类 ==========
   ipcMain.handle('create-category', async (_event, category: unknown) => {
     try {
@@ -369,6 +989,45 @@ export async function registerIpcHandlers(): Promise<void> {
     }
   });
 
+  // ========== 密码规则 ==========
+  ipcMain.handle('policies:list', async () => {
+    try {
+      return listPolicies();
+    } catch (error) {
+      return [];
+    }
+  });
+
+  ipcMain.handle('policies:create', async (_event, policy: unknown) => {
+    try {
+      const id = createPolicy(policy as Parameters<typeof createPolicy>[0]);
+      markDataChanged();
+      return { success: true, id };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('policies:update', async (_event, policy: unknown) => {
+    try {
+      updatePolicy(policy as Parameters<typeof updatePolicy>[0]);
+      markDataChanged();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('policies:delete', async (_event, id: string) => {
+    try {
+      deletePolicy(id);
+      markDataChanged();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // ========== 密码生成 ==========
   ipcMain.handle('generate-password', async (_event, config: unknown) => {
     try {
@@ -378,11 +1037,88 @@ export async function registerIpcHandlers(): Promise<void> {
     }
   });
 
-  ipcMain.handle('calculate-strength', async (_event, password: string) => {
+  ipcMain.handle('derive-password', async (_event, secret: string, params: unknown) => {
+    try {
+      const password = await deriveEntryPassword(secret, params as Parameters<typeof deriveEntryPassword>[1]);
+      return { success: true, password };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // ========== 条目两步验证 ==========
+  ipcMain.handle('generate-otp-code', async (_event, otpauth: string) => {
+    try {
+      return { success: true, code: generateEntryOtp(otpauth) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('entries:advance-otp-counter', async (_event, id: string) => {
+    try {
+      const entry = advanceOtpCounter(id);
+      markDataChanged();
+      return { success: true, entry };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // ========== 密码生成历史 ==========
+  ipcMain.handle('generator-history:list', async () => {
+    try {
+      return listGeneratedPasswords();
+    } catch (error) {
+      return [];
+    }
+  });
+
+  ipcMain.handle('generator-history:add', async (_event, password: string, context?: string) => {
+    try {
+      recordGeneratedPassword(password, context);
+      markDataChanged();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('generator-history:delete', async (_event, id: string) => {
+    try {
+      deleteGeneratedPassword(id);
+      markDataChanged();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('generator-history:clear', async () => {
+    try {
+      clearGeneratorHistory();
+      markDataChanged();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('generator-history:get-config', async () => {
     try {
-      return calculateStrength(password);
+      return { success: true, config: loadGeneratorHistoryConfig() };
     } catch (error) {
-      return { score: 0, level: 'very-weak', feedback: [] };
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('generator-history:set-config', async (_event, config: Partial<GeneratorHistoryConfig>) => {
+    try {
+      const updated = updateGeneratorHistoryConfig(config);
+      markDataChanged();
+      return { success: true, config: updated };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
     }
   });
 
@@ -416,7 +1152,7 @@ export async function registerIpcHandlers(): Promise<void> {
     try {
       const result = executeImport(entries as Parameters<typeof executeImport>[0]);
       if (result.success > 0) {
-        markDataChanged();
+        markEntriesChanged();
       }
       return result;
     } catch (error) {
@@ -424,6 +1160,57 @@ export async function registerIpcHandlers(): Promise<void> {
     }
   });
 
+  // ========== Google 身份验证器迁移 ==========
+  ipcMain.handle('authenticator:scan-text', async (_event, text: string) => {
+    try {
+      return { success: true, result: scanAuthenticatorPayload(text) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // 从图片文件、剪贴板截图或屏幕截图中识别二维码
+  ipcMain.handle('authenticator:scan-image', async (_event, source: 'file' | 'clipboard' | 'screen', filePath?: string) => {
+    try {
+      const capture = source === 'file'
+        ? await screenshotModule.loadFromFile(filePath || '')
+        : source === 'clipboard'
+          ? await screenshotModule.getFromClipboard()
+          : await screenshotModule.captureRegion();
+      if (!capture.success || !capture.imageBuffer) {
+        return { success: false, error: capture.error || '获取图片失败' };
+      }
+
+      const text = screenshotModule.decodeQrCode(capture.imageBuffer);
+      if (!text) {
+        return { success: false, error: '图片中没有找到二维码' };
+      }
+      return { success: true, result: scanAuthenticatorPayload(text) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('authenticator:import', async (_event, items: AuthenticatorImportItem[]) => {
+    try {
+      const result = executeAuthenticatorImport(items);
+      if (result.created > 0 || result.attached > 0) {
+        markEntriesChanged();
+      }
+      return { success: true, ...result };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('authenticator:export', async (_event, entryIds?: string[]) => {
+    try {
+      return { success: true, export: await exportAuthenticatorMigration(entryIds) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // ========== 备份 ==========
   ipcMain.handle('create-backup', async (_event, backupType?: 'manual' | 'auto') => {
     try {
@@ -447,6 +1234,7 @@ export async function registerIpcHandlers(): Promise<void> {
   ipcMain.handle('restore-backup', async (_event, backupPath?: string) => {
     try {
       await restoreBackup(backupPath);
+      refreshTrayOtpEntries();
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -489,6 +1277,7 @@ export async function registerIpcHandlers(): Promise<void> {
   ipcMain.handle('restore-backup-with-mode', async (_event, backupPath: string, mode: 'overwrite' | 'merge') => {
     try {
       const result = await restoreBackup(backupPath, mode);
+      refreshTrayOtpEntries();
       return { success: true, ...result };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -516,7 +1305,7 @@ export async function registerIpcHandlers(): Promise<void> {
 
   ipcMain.handle('verify-totp', async (_event, code: string) => {
     try {
-      const valid = verifyTotp(code);
+      const valid = await throttledVerify('totp', () => verifyTotp(code));
       return { success: valid };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -525,7 +1314,7 @@ export async function registerIpcHandlers(): Promise<void> {
 
   ipcMain.handle('verify-recovery-code', async (_event, code: string) => {
     try {
-      const valid = verifyRecoveryCode(code);
+      const valid = await throttledVerify('recovery-code', () => verifyRecoveryCode(code));
       return { success: valid };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -577,24 +1366,7 @@ export async function registerIpcHandlers(): Promise<void> {
 
   // ========== 剪贴板 ==========
   ipcMain.handle('copy-to-clipboard', async (_event, text: string, clearAfter: number) => {
-    clipboard.writeText(text);
-    
-    // 清除之前的定时器
-    if (clipboardTimer) {
-      clearTimeout(clipboardTimer);
-    }
-    
-    // 设置自动清除
-    if (clearAfter > 0) {
-      clipboardTimer = setTimeout(() => {
-        // 只有当剪贴板内容仍是我们复制的内容时才清除
-        if (clipboard.readText() === text) {
-          clipboard.clear();
-        }
-        clipboardTimer = null;
-      }, clearAfter * 1000);
-    }
-    
+    writeClipboard(text, clearAfter);
     return { success: true };
   });
 
@@ -666,7 +1438,9 @@ export async function registerIpcHandlers(): Promise<void> {
   ipcMain.handle('sync:confirm-restore', async (_event, masterPassword: string) => {
     try {
       const syncManager = getSyncManager();
-      return await syncManager.confirmRestore(masterPassword);
+      const result = await syncManager.confirmRestore(masterPassword);
+      refreshTrayOtpEntries();
+      return result;
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
@@ -743,7 +1517,9 @@ export async function registerIpcHandlers(): Promise<void> {
       }
       
       const syncManager = getSyncManager();
-      return await syncManager.importSyncFile(result.filePaths[0]);
+      const restored = await syncManager.importSyncFile(result.filePaths[0]);
+      refreshTrayOtpEntries();
+      return restored;
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
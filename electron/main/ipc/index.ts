@@ -2,4 +2,4 @@
  * IPC 模块
  */
 
-export { registerIpcHandlers } from './handlers';
+export { registerIpcHandlers, switchToVault, listTrayOtpEntries, copyEntryOtp } from './handlers';
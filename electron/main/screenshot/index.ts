@@ -3,9 +3,10 @@
  * 截图捕获模块 - 管理屏幕截图和图片处理
  */
 
-import { clipboard, desktopCapturer, screen } from 'electron';
+import { clipboard, desktopCapturer, nativeImage, screen } from 'electron';
 import fs from 'fs';
 import path from 'path';
+import jsQR from 'jsqr';
 
 export interface CaptureResult {
   success: boolean;
@@ -69,6 +70,28 @@ export function getImageFormat(buffer: Buffer): string | null {
   return null;
 }
 
+/**
+ * 识别图片中的二维码，返回二维码内容，没有找到时返回 null
+ */
+export function decodeQrCode(buffer: Buffer): string | null {
+  const image = nativeImage.createFromBuffer(buffer);
+  if (image.isEmpty()) {
+    return null;
+  }
+
+  // nativeImage 的位图为 BGRA，jsQR 需要 RGBA
+  const { width, height } = image.getSize();
+  const pixels = new Uint8ClampedArray(image.toBitmap());
+  for (let i = 0; i < pixels.length; i += 4) {
+    const blue = pixels[i];
+    pixels[i] = pixels[i + 2];
+    pixels[i + 2] = blue;
+  }
+
+  const result = jsQR(pixels, width, height, { inversionAttempts: 'attemptBoth' });
+  return result?.data || null;
+}
+
 /**
  * 从剪贴板获取图片
  */
@@ -202,6 +225,7 @@ export async function captureFullScreen(): Promise<CaptureResult> {
 export default {
   validateImage,
   getImageFormat,
+  decodeQrCode,
   getFromClipboard,
   loadFromFile,
   captureRegion,
@@ -0,0 +1,252 @@
+/**
+ * 条目附件
+ * 文件内容和元数据使用会话密钥分别加密，存放在 attachments 表中，
+ * 因此会随数据库一起进入备份和同步数据包
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { execute, query, queryOne } from './db';
+import { Attachment, EncryptedData } from './models';
+import {
+  encryptObjectWithSessionKey,
+  decryptObjectWithSessionKey,
+  encryptWithSessionKey,
+  decryptWithSessionKey,
+} from '../crypto';
+
+// 单个附件大小上限（10 MB）
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// 所有附件总大小上限（100 MB），数据库整体加载在内存中，不宜过大
+export const MAX_TOTAL_ATTACHMENT_SIZE = 100 * 1024 * 1024;
+
+// 文本预览的最大长度
+const MAX_TEXT_PREVIEW_SIZE = 256 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.pem': 'application/x-pem-file',
+  '.crt': 'application/x-x509-ca-cert',
+  '.cer': 'application/x-x509-ca-cert',
+  '.key': 'application/x-pem-file',
+  '.p12': 'application/x-pkcs12',
+  '.pfx': 'application/x-pkcs12',
+  '.zip': 'application/zip',
+};
+
+// 可以按文本方式预览的类型
+const TEXT_MIME_TYPES = new Set([
+  'application/json',
+  'application/xml',
+  'application/x-pem-file',
+  'application/x-x509-ca-cert',
+]);
+
+interface AttachmentMeta {
+  name: string;
+  mimeType: string;
+}
+
+interface AttachmentRow {
+  id: string;
+  entry_id: string;
+  encrypted_meta: string;
+  encrypted_data: string;
+  size: number;
+  created_at: string;
+}
+
+export interface AttachmentPreview {
+  mimeType: string;
+  dataUrl?: string;  // 图片和 PDF
+  text?: string;     // 文本类文件
+  truncated?: boolean;
+}
+
+/**
+ * 根据扩展名推断 MIME 类型
+ */
+function getMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * 检查附件大小限制
+ */
+function checkSizeLimit(size: number): void {
+  if (size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`附件不能超过 ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`);
+  }
+
+  const row = queryOne<{ total: number | null }>('SELECT SUM(size) AS total FROM attachments');
+  if ((row?.total || 0) + size > MAX_TOTAL_ATTACHMENT_SIZE) {
+    throw new Error(`附件总大小不能超过 ${MAX_TOTAL_ATTACHMENT_SIZE / 1024 / 1024} MB`);
+  }
+}
+
+/**
+ * 添加附件
+ */
+export function addAttachment(entryId: string, name: string, content: Buffer): Attachment {
+  const entry = queryOne<{ id: string }>('SELECT id FROM password_entries WHERE id = ?', [entryId]);
+  if (!entry) {
+    throw new Error('条目不存在');
+  }
+
+  checkSizeLimit(content.length);
+
+  const attachment: Attachment = {
+    id: uuidv4(),
+    entryId,
+    name: path.basename(name),
+    mimeType: getMimeType(name),
+    size: content.length,
+    createdAt: new Date().toISOString(),
+  };
+
+  const meta: AttachmentMeta = { name: attachment.name, mimeType: attachment.mimeType };
+  const encryptedMeta = encryptObjectWithSessionKey(meta);
+  const encryptedData = encryptWithSessionKey(content.toString('base64'));
+
+  execute(
+    `INSERT INTO attachments (id, entry_id, encrypted_meta, encrypted_data, size, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      attachment.id,
+      entryId,
+      JSON.stringify(encryptedMeta),
+      JSON.stringify(encryptedData),
+      attachment.size,
+      attachment.createdAt,
+    ]
+  );
+
+  return attachment;
+}
+
+/**
+ * 从本地文件添加附件（读取前先检查大小）
+ */
+export function addAttachmentFromFile(entryId: string, filePath: string): Attachment {
+  const stat = fs.statSync(filePath);
+  if (!stat.isFile()) {
+    throw new Error('只能添加文件');
+  }
+  checkSizeLimit(stat.size);
+
+  return addAttachment(entryId, path.basename(filePath), fs.readFileSync(filePath));
+}
+
+/**
+ * 获取条目的附件列表（不解密文件内容）
+ */
+export function listAttachments(entryId: string): Attachment[] {
+  const rows = query<Omit<AttachmentRow, 'encrypted_data'>>(
+    'SELECT id, entry_id, encrypted_meta, size, created_at FROM attachments WHERE entry_id = ? ORDER BY created_at ASC',
+    [entryId]
+  );
+
+  return rows.map(decryptAttachmentMeta);
+}
+
+/**
+ * 获取单个附件信息
+ */
+export function getAttachment(id: string): Attachment | null {
+  const row = queryOne<Omit<AttachmentRow, 'encrypted_data'>>(
+    'SELECT id, entry_id, encrypted_meta, size, created_at FROM attachments WHERE id = ?',
+    [id]
+  );
+  return row ? decryptAttachmentMeta(row) : null;
+}
+
+/**
+ * 读取并解密附件内容
+ */
+export function readAttachment(id: string): { attachment: Attachment; content: Buffer } {
+  const row = queryOne<AttachmentRow>('SELECT * FROM attachments WHERE id = ?', [id]);
+  if (!row) {
+    throw new Error('附件不存在');
+  }
+
+  const encryptedData: EncryptedData = JSON.parse(row.encrypted_data);
+  const content = Buffer.from(decryptWithSessionKey(encryptedData), 'base64');
+
+  return { attachment: decryptAttachmentMeta(row), content };
+}
+
+/**
+ * 生成附件预览
+ * 图片和 PDF 返回 data URL，文本类文件返回文本内容
+ */
+export function previewAttachment(id: string): AttachmentPreview {
+  const { attachment, content } = readAttachment(id);
+  const { mimeType } = attachment;
+
+  if (mimeType.startsWith('image/') || mimeType === 'application/pdf') {
+    return { mimeType, dataUrl: `data:${mimeType};base64,${content.toString('base64')}` };
+  }
+
+  if (mimeType.startsWith('text/') || TEXT_MIME_TYPES.has(mimeType)) {
+    const truncated = content.length > MAX_TEXT_PREVIEW_SIZE;
+    return {
+      mimeType,
+      text: content.subarray(0, MAX_TEXT_PREVIEW_SIZE).toString('utf8'),
+      truncated,
+    };
+  }
+
+  throw new Error('该文件类型不支持预览');
+}
+
+/**
+ * 导出附件到本地文件
+ */
+export function exportAttachment(id: string, filePath: string): void {
+  const { content } = readAttachment(id);
+  fs.writeFileSync(filePath, content);
+}
+
+/**
+ * 删除附件
+ */
+export function deleteAttachment(id: string): void {
+  execute('DELETE FROM attachments WHERE id = ?', [id]);
+}
+
+/**
+ * 删除条目的全部附件
+ */
+export function deleteEntryAttachments(entryId: string): void {
+  execute('DELETE FROM attachments WHERE entry_id = ?', [entryId]);
+}
+
+/**
+ * 解密附件元数据
+ */
+function decryptAttachmentMeta(row: Omit<AttachmentRow, 'encrypted_data'>): Attachment {
+  const encryptedMeta: EncryptedData = JSON.parse(row.encrypted_meta);
+  const meta = decryptObjectWithSessionKey<AttachmentMeta>(encryptedMeta);
+
+  return {
+    id: row.id,
+    entryId: row.entry_id,
+    name: meta.name,
+    mimeType: meta.mimeType,
+    size: row.size,
+    createdAt: row.created_at,
+  };
+}
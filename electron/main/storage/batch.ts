@@ -3,8 +3,9 @@
  * 支持批量移动分类、添加/移除标签、删除
  */
 
-import { execute, queryOne, saveDatabase } from './db';
+import { execute, queryOne, transaction } from './db';
 import { deleteEntry } from './entries';
+import { recordRevision } from './history';
 
 export interface BatchResult {
   success: number;
@@ -13,140 +14,111 @@ export interface BatchResult {
 }
 
 /**
- * 批量移动到分类
+ * 在同一事务中逐条处理，单条失败只回滚该条的修改
  */
-export function batchMoveCategory(ids: string[], categoryId: string | null): BatchResult {
+function runBatch(ids: string[], handler: (id: string) => void): BatchResult {
   let success = 0;
   let failed = 0;
   const errors: Array<{ id: string; error: string }> = [];
-  const now = new Date().toISOString();
 
-  for (const id of ids) {
-    try {
-      // 检查条目是否存在
-      const entry = queryOne<{ id: string }>('SELECT id FROM password_entries WHERE id = ?', [id]);
-      if (!entry) {
+  transaction(() => {
+    for (const id of ids) {
+      try {
+        transaction(() => handler(id));
+        success++;
+      } catch (error) {
         failed++;
-        errors.push({ id, error: '条目不存在' });
-        continue;
+        errors.push({ id, error: (error as Error).message });
       }
-
-      // 更新分类
-      execute(
-        'UPDATE password_entries SET category_id = ?, updated_at = ? WHERE id = ?',
-        [categoryId, now, id]
-      );
-      success++;
-    } catch (error) {
-      failed++;
-      errors.push({ id, error: (error as Error).message });
     }
-  }
+  });
 
   return { success, failed, errors: errors.length > 0 ? errors : undefined };
 }
 
+/**
+ * 检查条目是否存在
+ */
+function assertEntryExists(id: string): void {
+  const entry = queryOne<{ id: string }>('SELECT id FROM password_entries WHERE id = ?', [id]);
+  if (!entry) {
+    throw new Error('条目不存在');
+  }
+}
+
+/**
+ * 批量移动到分类
+ */
+export function batchMoveCategory(ids: string[], categoryId: string | null): BatchResult {
+  const now = new Date().toISOString();
+
+  return runBatch(ids, (id) => {
+    assertEntryExists(id);
+
+    // 更新分类
+    recordRevision(id);
+    execute(
+      'UPDATE password_entries SET category_id = ?, updated_at = ? WHERE id = ?',
+      [categoryId, now, id]
+    );
+  });
+}
+
 /**
  * 批量添加标签
  */
 export function batchAddTags(ids: string[], tagIds: string[]): BatchResult {
-  let success = 0;
-  let failed = 0;
-  const errors: Array<{ id: string; error: string }> = [];
   const now = new Date().toISOString();
 
-  for (const entryId of ids) {
-    try {
-      // 检查条目是否存在
-      const entry = queryOne<{ id: string }>('SELECT id FROM password_entries WHERE id = ?', [entryId]);
-      if (!entry) {
-        failed++;
-        errors.push({ id: entryId, error: '条目不存在' });
-        continue;
-      }
+  return runBatch(ids, (entryId) => {
+    assertEntryExists(entryId);
 
-      // 添加标签关联
-      for (const tagId of tagIds) {
-        execute(
-          'INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) VALUES (?, ?)',
-          [entryId, tagId]
-        );
-      }
-      
-      // 更新条目时间
+    // 添加标签关联
+    recordRevision(entryId);
+    for (const tagId of tagIds) {
       execute(
-        'UPDATE password_entries SET updated_at = ? WHERE id = ?',
-        [now, entryId]
+        'INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) VALUES (?, ?)',
+        [entryId, tagId]
       );
-      success++;
-    } catch (error) {
-      failed++;
-      errors.push({ id: entryId, error: (error as Error).message });
     }
-  }
 
-  return { success, failed, errors: errors.length > 0 ? errors : undefined };
+    // 更新条目时间
+    execute(
+      'UPDATE password_entries SET updated_at = ? WHERE id = ?',
+      [now, entryId]
+    );
+  });
 }
 
 /**
  * 批量移除标签
  */
 export function batchRemoveTags(ids: string[], tagIds: string[]): BatchResult {
-  let success = 0;
-  let failed = 0;
-  const errors: Array<{ id: string; error: string }> = [];
   const now = new Date().toISOString();
 
-  for (const entryId of ids) {
-    try {
-      // 检查条目是否存在
-      const entry = queryOne<{ id: string }>('SELECT id FROM password_entries WHERE id = ?', [entryId]);
-      if (!entry) {
-        failed++;
-        errors.push({ id: entryId, error: '条目不存在' });
-        continue;
-      }
+  return runBatch(ids, (entryId) => {
+    assertEntryExists(entryId);
 
-      // 移除标签关联
-      for (const tagId of tagIds) {
-        execute(
-          'DELETE FROM entry_tags WHERE entry_id = ? AND tag_id = ?',
-          [entryId, tagId]
-        );
-      }
-      
-      // 更新条目时间
+    // 移除标签关联
+    recordRevision(entryId);
+    for (const tagId of tagIds) {
       execute(
-        'UPDATE password_entries SET updated_at = ? WHERE id = ?',
-        [now, entryId]
+        'DELETE FROM entry_tags WHERE entry_id = ? AND tag_id = ?',
+        [entryId, tagId]
       );
-      success++;
-    } catch (error) {
-      failed++;
-      errors.push({ id: entryId, error: (error as Error).message });
     }
-  }
 
-  return { success, failed, errors: errors.length > 0 ? errors : undefined };
+    // 更新条目时间
+    execute(
+      'UPDATE password_entries SET updated_at = ? WHERE id = ?',
+      [now, entryId]
+    );
+  });
 }
 
 /**
- * 批量删除
+ * 批量删除（移入回收站）
  */
 export function batchDelete(ids: string[]): BatchResult {
-  let success = 0;
-  let failed = 0;
-  const errors: Array<{ id: string; error: string }> = [];
-
-  for (const id of ids) {
-    try {
-      deleteEntry(id);
-      success++;
-    } catch (error) {
-      failed++;
-      errors.push({ id, error: (error as Error).message });
-    }
-  }
-
-  return { success, failed, errors: errors.length > 0 ? errors : undefined };
+  return runBatch(ids, deleteEntry);
 }
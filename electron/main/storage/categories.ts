@@ -119,7 +119,7 @@ export function deleteCategory(id: string, targetCategoryId?: string): void {
  */
 export function getCategoryEntryCount(categoryId: string): number {
   const result = queryOne<{ count: number }>(
-    'SELECT COUNT(*) as count FROM password_entries WHERE category_id = ?',
+    'SELECT COUNT(*) as count FROM password_entries WHERE category_id = ? AND deleted_at IS NULL',
     [categoryId]
   );
   return result?.count || 0;
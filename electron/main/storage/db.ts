@@ -3,28 +3,64 @@
  * 使用 sql.js 进行 SQLite 操作（纯 JavaScript，无需编译）
  */
 
-import initSqlJs, { Database } from 'sql.js';
-import { app } from 'electron';
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
 import * as fs from 'fs';
 import * as path from 'path';
+import { MigrationDriver, runMigrations } from './migrations';
+import { SealedHeader, isSealed, readSealedHeader, sealImage, unsealImage } from './sealed';
+import { getVaultDataDir } from './vaults';
 
 let db: Database | null = null;
 let dbPath: string = '';
 
+// 整库加密：设置密钥后保存时加密整个文件；锁定后数据库关闭，只保留文件头部
+let sealKey: Buffer | null = null;
+let sealHeader: SealedHeader | null = null;
+let lockedHeader: SealedHeader | null = null;
+let recoveryOptions: InitDatabaseOptions = {};
+
+// 写入后延迟写盘的时间，期间的多次写入合并为一次
+const SAVE_DELAY_MS = 300;
+
+let saveTimer: NodeJS.Timeout | null = null;
+let transactionDepth = 0;
+let savePendingAfterCommit = false;
+
 /**
- * 获取数据库文件路径
+ * 获取数据库文件路径（当前密码库）
  */
 function getDbPath(): string {
-  const userDataPath = app.getPath('userData');
-  return path.join(userDataPath, 'vault.db');
+  return path.join(getVaultDataDir(), 'vault.db');
+}
+
+/**
+ * 获取当前打开的数据库文件路径
+ */
+export function getDatabasePath(): string {
+  return dbPath || getDbPath();
+}
+
+export interface InitDatabaseOptions {
+  // 主文件损坏、可以从上一次保存的副本恢复时调用，返回 true 表示确认恢复
+  confirmRecovery?: (reason: string) => boolean | Promise<boolean>;
 }
 
 /**
  * 初始化数据库
+ * 整库加密的密码库在解锁前不打开，由 openSealedDatabase 解密后再执行迁移
  */
-export async function initDatabase(): Promise<void> {
+export async function initDatabase(options: InitDatabaseOptions = {}): Promise<void> {
   const SQL = await initSqlJs();
   dbPath = getDbPath();
+  recoveryOptions = { ...recoveryOptions, ...options };
+
+  // 重新初始化时丢弃之前打开的数据库和密钥（调用方负责先保存）
+  if (db) {
+    db.close();
+    db = null;
+  }
+  clearSealKey();
+  lockedHeader = null;
 
   // 确保目录存在
   const dir = path.dirname(dbPath);
@@ -32,104 +68,329 @@ export async function initDatabase(): Promise<void> {
     fs.mkdirSync(dir, { recursive: true });
   }
 
-  // 如果数据库文件存在，加载它
+  // 清理上次写入中断留下的临时文件
+  fs.rmSync(`${dbPath}.tmp`, { force: true });
+
+  // 如果数据库文件存在，加载它并检查完整性
   if (fs.existsSync(dbPath)) {
-    const fileBuffer = fs.readFileSync(dbPath);
-    db = new SQL.Database(fileBuffer);
+    const data = fs.readFileSync(dbPath);
+    if (isSealed(data)) {
+      lockedHeader = readLockedHeader(data);
+      return;
+    }
+    try {
+      db = openDatabaseImage(SQL, data);
+    } catch (error) {
+      db = await recoverFromPrevious(SQL, (error as Error).message);
+    }
   } else {
     db = new SQL.Database();
   }
 
-  // 创建表结构
-  createTables();
+  // 执行结构迁移，失败时不保留打开的数据库
+  try {
+    await migrateDatabase();
+  } catch (error) {
+    db.close();
+    db = null;
+    throw error;
+  }
 }
 
 /**
- * 创建数据库表
+ * 读取加密文件头部，主文件头部损坏时使用上一次保存的副本的头部
  */
-function createTables(): void {
-  if (!db) throw new Error('Database not initialized');
+function readLockedHeader(data: Buffer): SealedHeader {
+  try {
+    return readSealedHeader(data);
+  } catch (error) {
+    const prevPath = `${dbPath}.prev`;
+    if (fs.existsSync(prevPath)) {
+      try {
+        return readSealedHeader(fs.readFileSync(prevPath));
+      } catch {
+        // 副本同样无法读取
+      }
+    }
+    throw new Error(`密码库文件已损坏（${(error as Error).message}），且没有可用的恢复副本`);
+  }
+}
 
-  // 密码库元数据表
-  db.run(`
-    CREATE TABLE IF NOT EXISTS vault_meta (
-      id INTEGER PRIMARY KEY CHECK (id = 1),
-      salt TEXT NOT NULL,
-      verification_hash TEXT NOT NULL,
-      totp_enabled INTEGER DEFAULT 0,
-      totp_secret_encrypted TEXT,
-      recovery_codes_encrypted TEXT,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL,
-      version INTEGER DEFAULT 1
-    )
-  `);
+/**
+ * 用主密码派生的密钥解密并打开整库加密的数据库，密钥错误时返回 false
+ */
+export async function openSealedDatabase(key: Buffer, header: SealedHeader): Promise<boolean> {
+  if (db || !lockedHeader) return true;
 
+  const SQL = await initSqlJs();
+  const data = fs.readFileSync(dbPath);
 
-  // 分类表
-  db.run(`
-    CREATE TABLE IF NOT EXISTS categories (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      icon TEXT,
-      color TEXT,
-      sort_order INTEGER DEFAULT 0,
-      is_default INTEGER DEFAULT 0,
-      created_at TEXT NOT NULL
-    )
-  `);
+  let image: Buffer | null = null;
+  try {
+    image = unsealImage(data, key);
+  } catch {
+    image = null;
+  }
 
-  // 标签表
-  db.run(`
-    CREATE TABLE IF NOT EXISTS tags (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL UNIQUE,
-      color TEXT,
-      created_at TEXT NOT NULL
-    )
-  `);
+  let database: Database;
+  if (image) {
+    try {
+      database = openDatabaseImage(SQL, image);
+    } catch (error) {
+      database = await recoverFromPrevious(SQL, (error as Error).message, key);
+    }
+  } else {
+    // 主文件无法解密：副本也无法解密说明密码错误，否则主文件已损坏
+    if (!canUnsealPrevious(key)) return false;
+    database = await recoverFromPrevious(SQL, '加密文件校验失败', key);
+  }
 
-  // 密码条目表（加密存储）
-  db.run(`
-    CREATE TABLE IF NOT EXISTS password_entries (
-      id TEXT PRIMARY KEY,
-      encrypted_data TEXT NOT NULL,
-      category_id TEXT,
-      favorite INTEGER DEFAULT 0,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL,
-      FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL
-    )
-  `);
+  db = database;
+  sealKey = Buffer.from(key);
+  sealHeader = { ...header, kdf: { ...header.kdf } };
+  lockedHeader = null;
 
-  // 条目-标签关联表
-  db.run(`
-    CREATE TABLE IF NOT EXISTS entry_tags (
-      entry_id TEXT NOT NULL,
-      tag_id TEXT NOT NULL,
-      PRIMARY KEY (entry_id, tag_id),
-      FOREIGN KEY (entry_id) REFERENCES password_entries(id) ON DELETE CASCADE,
-      FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
-    )
-  `);
+  try {
+    await migrateDatabase();
+  } catch (error) {
+    db.close();
+    db = null;
+    clearSealKey();
+    lockedHeader = { ...header };
+    throw error;
+  }
+  return true;
+}
 
-  // 备份记录表
-  db.run(`
-    CREATE TABLE IF NOT EXISTS backups (
-      id TEXT PRIMARY KEY,
-      file_path TEXT NOT NULL,
-      file_size INTEGER NOT NULL,
-      checksum TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      backup_type TEXT NOT NULL
-    )
-  `);
+/**
+ * 检查上一次保存的副本能否用指定密钥解密
+ */
+function canUnsealPrevious(key: Buffer): boolean {
+  const prevPath = `${dbPath}.prev`;
+  if (!fs.existsSync(prevPath)) return false;
+  try {
+    unsealImage(fs.readFileSync(prevPath), key);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 打开数据库镜像并执行完整性检查，失败时抛出异常
+ */
+function openDatabaseImage(SQL: SqlJsStatic, data: Buffer): Database {
+  const database = new SQL.Database(data);
+  try {
+    const result = database.exec('PRAGMA integrity_check');
+    const status = result.length > 0 ? String(result[0].values[0][0]) : '';
+    if (status !== 'ok') {
+      throw new Error(status || '完整性检查未通过');
+    }
+    return database;
+  } catch (error) {
+    database.close();
+    throw error;
+  }
+}
+
+/**
+ * 主文件无法打开时，经用户确认后从上一次保存的副本恢复
+ * 损坏的文件改名保留，不直接删除
+ */
+async function recoverFromPrevious(SQL: SqlJsStatic, reason: string, key?: Buffer): Promise<Database> {
+  const prevPath = `${dbPath}.prev`;
+
+  let previous: Database;
+  try {
+    if (!fs.existsSync(prevPath)) throw new Error('副本不存在');
+    let data: Buffer = fs.readFileSync(prevPath);
+    if (isSealed(data)) {
+      if (!key) throw new Error('副本已加密');
+      data = unsealImage(data, key);
+    }
+    previous = openDatabaseImage(SQL, data);
+  } catch {
+    throw new Error(`密码库文件已损坏（${reason}），且没有可用的恢复副本`);
+  }
+
+  const confirmed = recoveryOptions.confirmRecovery ? await recoveryOptions.confirmRecovery(reason) : false;
+  if (!confirmed) {
+    previous.close();
+    throw new Error(`密码库文件已损坏（${reason}），已取消恢复`);
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  fs.renameSync(dbPath, `${dbPath}.corrupted_${timestamp}`);
+  fs.copyFileSync(prevPath, dbPath);
+  console.warn(`Database recovered from ${prevPath}: ${reason}`);
+  return previous;
+}
+
+/**
+ * 设置整库加密密钥（解锁、设置或修改主密码后调用）
+ * 密钥或头部变化时立即重写文件并更新上一版本副本，旧格式的密码库由此完成迁移
+ */
+export function setSealKey(key: Buffer, header: SealedHeader): void {
+  const changed = !sealKey || !sealKey.equals(key) ||
+    sealHeader?.salt !== header.salt || JSON.stringify(sealHeader?.kdf) !== JSON.stringify(header.kdf) ||
+    !!sealHeader?.keyFile !== !!header.keyFile || sealHeader?.recovery !== header.recovery;
+
+  clearSealKey();
+  sealKey = Buffer.from(key);
+  sealHeader = { ...header, kdf: { ...header.kdf } };
+
+  if (changed && db && transactionDepth === 0) {
+    saveDatabase();
+    fs.copyFileSync(dbPath, `${dbPath}.prev`);
+    removePlaintextCopies();
+  }
+}
 
-  // 创建索引
-  db.run(`CREATE INDEX IF NOT EXISTS idx_entries_category ON password_entries(category_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_entries_favorite ON password_entries(favorite)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_entry_tags_entry ON entry_tags(entry_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_entry_tags_tag ON entry_tags(tag_id)`);
+/**
+ * 清除内存中的整库加密密钥
+ */
+function clearSealKey(): void {
+  if (sealKey) {
+    sealKey.fill(0);
+    sealKey = null;
+  }
+  sealHeader = null;
+}
+
+/**
+ * 删除数据目录中未加密的数据库副本（迁移到整库加密之前留下的）
+ */
+function removePlaintextCopies(): void {
+  const dir = path.dirname(dbPath);
+  const base = path.basename(dbPath);
+  const migrationDir = path.join(dir, 'migration_backups');
+
+  const candidates = fs.readdirSync(dir)
+    .filter(name => name === `${base}.before_restore` || name.startsWith(`${base}.corrupted_`))
+    .map(name => path.join(dir, name));
+  if (fs.existsSync(migrationDir)) {
+    candidates.push(...fs.readdirSync(migrationDir).map(name => path.join(migrationDir, name)));
+  }
+
+  for (const filePath of candidates) {
+    try {
+      if (!isSealed(fs.readFileSync(filePath))) {
+        fs.rmSync(filePath, { force: true });
+      }
+    } catch (error) {
+      console.error('Failed to remove plaintext copy:', filePath, error);
+    }
+  }
+}
+
+/**
+ * 锁定数据库：写入尚未落盘的修改，整库加密时关闭数据库并清除密钥
+ */
+export function lockDatabase(): void {
+  saveDatabase();
+  if (!sealKey || !db) return;
+
+  db.close();
+  db = null;
+  lockedHeader = sealHeader;
+  clearSealKey();
+}
+
+/**
+ * 数据库是否处于整库加密的锁定状态（需要主密码才能打开）
+ */
+export function getLockedHeader(): SealedHeader | null {
+  return lockedHeader;
+}
+
+/**
+ * 删除密码库文件并重新创建空数据库（忘记主密码时重置）
+ */
+export async function resetDatabaseFile(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  if (db) {
+    db.close();
+    db = null;
+  }
+  transactionDepth = 0;
+  savePendingAfterCommit = false;
+
+  fs.rmSync(dbPath, { force: true });
+  fs.rmSync(`${dbPath}.prev`, { force: true });
+  await initDatabase(recoveryOptions);
+}
+
+/**
+ * 导出当前密码库文件内容（用于备份和同步），整库加密时返回加密后的数据
+ */
+export function exportDatabaseFile(): Buffer {
+  if (!db) {
+    // 锁定状态下磁盘上的加密文件就是最新内容
+    if (lockedHeader) return fs.readFileSync(dbPath);
+    throw new Error('Database not initialized');
+  }
+  const image = db.export();
+  return sealKey && sealHeader ? sealImage(image, sealHeader, sealKey) : Buffer.from(image);
+}
+
+/**
+ * 用当前密码库的密钥解密整库加密的数据（例如备份），未加密的数据原样返回
+ */
+export function unsealWithCurrentKey(data: Buffer): Buffer {
+  if (!isSealed(data)) return data;
+  if (!sealKey) {
+    throw new Error('密码库已锁定');
+  }
+  return unsealImage(data, sealKey);
+}
+
+/**
+ * 创建 sql.js 数据库的迁移驱动
+ */
+export function createMigrationDriver(database: Database): MigrationDriver {
+  return {
+    run: (sql, params = []) => {
+      database.run(sql, params as (string | number | null)[]);
+    },
+    all: <T>(sql: string, params: unknown[] = []) => {
+      const stmt = database.prepare(sql);
+      stmt.bind(params as (string | number | null)[]);
+      const results: T[] = [];
+      while (stmt.step()) {
+        results.push(stmt.getAsObject() as T);
+      }
+      stmt.free();
+      return results;
+    },
+  };
+}
+
+/**
+ * 执行数据库结构迁移
+ */
+async function migrateDatabase(): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  const result = await runMigrations(createMigrationDriver(db), {
+    backup: (fromVersion) => {
+      // 内存数据库与文件内容一致，直接复制数据库文件
+      if (!fs.existsSync(dbPath)) return;
+      const backupDir = path.join(path.dirname(dbPath), 'migration_backups');
+      if (!fs.existsSync(backupDir)) {
+        fs.mkdirSync(backupDir, { recursive: true });
+      }
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      fs.copyFileSync(dbPath, path.join(backupDir, `vault_v${fromVersion}_${timestamp}.db`));
+    },
+  });
+
+  if (result.applied.length > 0) {
+    console.log(`Database migrated from v${result.fromVersion} to v${result.toVersion}`);
+  }
 
   // 插入默认分类（如果不存在）
   insertDefaultCategories();
@@ -138,7 +399,6 @@ function createTables(): void {
   saveDatabase();
 }
 
-
 /**
  * 插入默认分类
  */
@@ -167,13 +427,132 @@ function insertDefaultCategories(): void {
 }
 
 /**
- * 保存数据库到文件
+ * 立即保存数据库到文件（同时写入尚未落盘的修改）
+ * 事务进行中时推迟到提交后保存：sql.js 导出时会重新打开数据库，导致事务丢失
  */
 export function saveDatabase(): void {
   if (!db || !dbPath) return;
-  const data = db.export();
-  const buffer = Buffer.from(data);
-  fs.writeFileSync(dbPath, buffer);
+  if (transactionDepth > 0) {
+    savePendingAfterCommit = true;
+    return;
+  }
+
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  writeFileAtomic(dbPath, exportDatabaseFile(), `${dbPath}.prev`);
+}
+
+/**
+ * 原子写入文件：先写临时文件并 fsync，再重命名覆盖目标文件
+ * 指定 prevPath 时，覆盖前把原文件复制为上一版本副本
+ */
+export function writeFileAtomic(filePath: string, data: Buffer, prevPath?: string): void {
+  const tempPath = `${filePath}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    // writeSync 可能只写入部分数据，writeFileSync 会写完整个缓冲区
+    fs.writeFileSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (prevPath && fs.existsSync(filePath)) {
+    fs.copyFileSync(filePath, prevPath);
+    // 副本落盘后再覆盖原文件，避免断电时副本和主文件都不完整
+    fsyncPath(prevPath, 'r+');
+  }
+  fs.renameSync(tempPath, filePath);
+
+  // 同步目录项，确保重命名落盘（Windows 不支持打开目录）
+  if (process.platform !== 'win32') {
+    fsyncPath(path.dirname(filePath), 'r');
+  }
+}
+
+function fsyncPath(target: string, flags: string): void {
+  const fd = fs.openSync(target, flags);
+  try {
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * 延迟保存数据库，合并短时间内的多次写入
+ */
+function scheduleSave(): void {
+  if (transactionDepth > 0) {
+    savePendingAfterCommit = true;
+    return;
+  }
+  if (saveTimer) return;
+
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saveDatabase();
+  }, SAVE_DELAY_MS);
+}
+
+/**
+ * 开始事务，支持嵌套（内层使用保存点）
+ */
+export function beginTransaction(): void {
+  if (!db) throw new Error('Database not initialized');
+  db.run(`SAVEPOINT tx_${transactionDepth}`);
+  transactionDepth++;
+}
+
+/**
+ * 提交事务，最外层提交后写盘
+ */
+export function commitTransaction(): void {
+  if (!db) throw new Error('Database not initialized');
+  if (transactionDepth === 0) throw new Error('没有进行中的事务');
+
+  transactionDepth--;
+  db.run(`RELEASE SAVEPOINT tx_${transactionDepth}`);
+
+  if (transactionDepth === 0 && savePendingAfterCommit) {
+    savePendingAfterCommit = false;
+    scheduleSave();
+  }
+}
+
+/**
+ * 回滚事务，只撤销当前层的修改
+ */
+export function rollbackTransaction(): void {
+  if (!db) throw new Error('Database not initialized');
+  if (transactionDepth === 0) throw new Error('没有进行中的事务');
+
+  transactionDepth--;
+  db.run(`ROLLBACK TO SAVEPOINT tx_${transactionDepth}`);
+  db.run(`RELEASE SAVEPOINT tx_${transactionDepth}`);
+
+  // 外层事务中已提交的保存点仍需写盘
+  if (transactionDepth === 0 && savePendingAfterCommit) {
+    savePendingAfterCommit = false;
+    scheduleSave();
+  }
+}
+
+/**
+ * 在事务中执行回调，抛出异常时回滚（回调必须是同步函数）
+ */
+export function transaction<T>(callback: () => T): T {
+  beginTransaction();
+  try {
+    const result = callback();
+    commitTransaction();
+    return result;
+  } catch (error) {
+    rollbackTransaction();
+    throw error;
+  }
 }
 
 /**
@@ -189,17 +568,24 @@ export function getDatabase(): Database {
  */
 export function closeDatabase(): void {
   if (db) {
+    if (transactionDepth > 0) {
+      db.run('ROLLBACK');
+      transactionDepth = 0;
+      savePendingAfterCommit = false;
+    }
     saveDatabase();
     db.close();
     db = null;
   }
+  clearSealKey();
+  lockedHeader = null;
 }
 
 /**
  * 检查密码库是否已初始化
  */
 export function isVaultInitialized(): boolean {
-  if (!db) return false;
+  if (!db) return lockedHeader !== null;
   const result = db.exec('SELECT COUNT(*) as count FROM vault_meta');
   return result.length > 0 && result[0].values[0][0] as number > 0;
 }
@@ -220,12 +606,12 @@ export function query<T>(sql: string, params: unknown[] = []): T[] {
 }
 
 /**
- * 执行单条插入/更新/删除
+ * 执行单条插入/更新/删除（延迟写盘）
  */
 export function execute(sql: string, params: unknown[] = []): void {
   if (!db) throw new Error('Database not initialized');
   db.run(sql, params);
-  saveDatabase();
+  scheduleSave();
 }
 
 /**
@@ -3,20 +3,13 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { execute, query, queryOne, saveDatabase } from './db';
-import { PasswordEntry, EncryptedData } from './models';
+import { execute, query, queryOne, transaction } from './db';
+import { PasswordEntry, EncryptedData, EncryptedEntryData, CustomField } from './models';
 import { encryptObjectWithSessionKey, decryptObjectWithSessionKey } from '../crypto';
-
-// 加密存储的条目数据（不包含 id、categoryId、favorite、时间戳）
-interface EncryptedEntryData {
-  title: string;
-  username: string;
-  password: string;
-  url?: string;
-  notes?: string;
-  icon?: string;
-  tags: string[];
-}
+import { recordRevision, getRevision, deleteEntryHistory } from './history';
+import { normalizeEntryByType } from './item-types';
+import { deleteEntryAttachments } from './attachments';
+import { formatOtpAuthUri, parseOtpAuthUri } from '../totp/otp';
 
 /**
  * 创建密码条目
@@ -25,8 +18,12 @@ export function createEntry(entry: Omit<PasswordEntry, 'id' | 'createdAt' | 'upd
   const id = uuidv4();
   const now = new Date().toISOString();
 
+  // 按条目类型校验
+  entry = normalizeEntryByType(entry);
+
   // 加密敏感数据
   const dataToEncrypt: EncryptedEntryData = {
+    type: entry.type,
     title: entry.title,
     username: entry.username,
     password: entry.password,
@@ -34,25 +31,36 @@ export function createEntry(entry: Omit<PasswordEntry, 'id' | 'createdAt' | 'upd
     notes: entry.notes,
     icon: entry.icon,
     tags: entry.tags,
+    customFields: entry.customFields,
+    card: entry.card,
+    identity: entry.identity,
+    sshKey: entry.sshKey,
+    wifi: entry.wifi,
+    policyId: entry.policyId,
+    derivation: entry.derivation,
+    otpauth: entry.otpauth,
   };
 
   const encryptedData = encryptObjectWithSessionKey(dataToEncrypt);
 
-  execute(
-    `INSERT INTO password_entries (id, encrypted_data, category_id, favorite, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?)`,
-    [id, JSON.stringify(encryptedData), entry.categoryId || null, entry.favorite ? 1 : 0, now, now]
-  );
+  // 条目和标签关联在同一事务中写入
+  transaction(() => {
+    execute(
+      `INSERT INTO password_entries (id, encrypted_data, category_id, favorite, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [id, JSON.stringify(encryptedData), entry.categoryId || null, entry.favorite ? 1 : 0, now, now]
+    );
 
-  // 保存标签关联
-  if (entry.tags && entry.tags.length > 0) {
-    for (const tagId of entry.tags) {
-      execute(
-        `INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) VALUES (?, ?)`,
-        [id, tagId]
-      );
+    // 保存标签关联
+    if (entry.tags && entry.tags.length > 0) {
+      for (const tagId of entry.tags) {
+        execute(
+          `INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) VALUES (?, ?)`,
+          [id, tagId]
+        );
+      }
     }
-  }
+  });
 
   return id;
 }
@@ -87,7 +95,7 @@ export function listEntries(): PasswordEntry[] {
     favorite: number;
     created_at: string;
     updated_at: string;
-  }>('SELECT * FROM password_entries ORDER BY updated_at DESC');
+  }>('SELECT * FROM password_entries WHERE deleted_at IS NULL ORDER BY updated_at DESC');
 
   return rows.map(decryptEntry);
 }
@@ -98,8 +106,12 @@ export function listEntries(): PasswordEntry[] {
 export function updateEntry(entry: PasswordEntry): void {
   const now = new Date().toISOString();
 
+  // 按条目类型校验
+  entry = normalizeEntryByType(entry);
+
   // 加密敏感数据
   const dataToEncrypt: EncryptedEntryData = {
+    type: entry.type,
     title: entry.title,
     username: entry.username,
     password: entry.password,
@@ -107,37 +119,156 @@ export function updateEntry(entry: PasswordEntry): void {
     notes: entry.notes,
     icon: entry.icon,
     tags: entry.tags,
+    customFields: entry.customFields,
+    card: entry.card,
+    identity: entry.identity,
+    sshKey: entry.sshKey,
+    wifi: entry.wifi,
+    policyId: entry.policyId,
+    derivation: entry.derivation,
+    otpauth: entry.otpauth,
   };
 
   const encryptedData = encryptObjectWithSessionKey(dataToEncrypt);
 
-  execute(
-    `UPDATE password_entries 
-     SET encrypted_data = ?, category_id = ?, favorite = ?, updated_at = ?
-     WHERE id = ?`,
-    [JSON.stringify(encryptedData), entry.categoryId || null, entry.favorite ? 1 : 0, now, entry.id]
-  );
+  transaction(() => {
+    // 覆盖前保留当前版本
+    recordRevision(entry.id);
 
-  // 更新标签关联
-  execute('DELETE FROM entry_tags WHERE entry_id = ?', [entry.id]);
-  if (entry.tags && entry.tags.length > 0) {
-    for (const tagId of entry.tags) {
-      execute(
-        `INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) VALUES (?, ?)`,
-        [entry.id, tagId]
-      );
+    execute(
+      `UPDATE password_entries 
+       SET encrypted_data = ?, category_id = ?, favorite = ?, updated_at = ?
+       WHERE id = ?`,
+      [JSON.stringify(encryptedData), entry.categoryId || null, entry.favorite ? 1 : 0, now, entry.id]
+    );
+
+    // 更新标签关联
+    execute('DELETE FROM entry_tags WHERE entry_id = ?', [entry.id]);
+    if (entry.tags && entry.tags.length > 0) {
+      for (const tagId of entry.tags) {
+        execute(
+          `INSERT OR IGNORE INTO entry_tags (entry_id, tag_id) VALUES (?, ?)`,
+          [entry.id, tagId]
+        );
+      }
     }
+  });
+}
+
+/**
+ * 推进 HOTP 计数器，返回更新后的条目
+ * 只改写加密数据中的 otpauth，计数器不是用户修改，不记录历史版本，也不更新修改时间
+ */
+export function advanceOtpCounter(id: string): PasswordEntry {
+  const row = queryOne<{
+    id: string;
+    encrypted_data: string;
+    category_id: string | null;
+    favorite: number;
+    created_at: string;
+    updated_at: string;
+  }>('SELECT * FROM password_entries WHERE id = ? AND deleted_at IS NULL', [id]);
+  if (!row) {
+    throw new Error('条目不存在');
   }
+
+  const data = decryptObjectWithSessionKey<EncryptedEntryData>(JSON.parse(row.encrypted_data));
+  const params = data.otpauth ? parseOtpAuthUri(data.otpauth) : null;
+  if (params?.type !== 'hotp') {
+    throw new Error('条目没有设置 HOTP 两步验证');
+  }
+  data.otpauth = formatOtpAuthUri({ ...params, counter: params.counter + 1 });
+
+  const encryptedData = JSON.stringify(encryptObjectWithSessionKey(data));
+  execute('UPDATE password_entries SET encrypted_data = ? WHERE id = ?', [encryptedData, id]);
+  return decryptEntry({ ...row, encrypted_data: encryptedData });
 }
 
 /**
- * 删除密码条目
+ * 删除密码条目（移入回收站）
  */
 export function deleteEntry(id: string): void {
-  execute('DELETE FROM entry_tags WHERE entry_id = ?', [id]);
-  execute('DELETE FROM password_entries WHERE id = ?', [id]);
+  execute(
+    'UPDATE password_entries SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL',
+    [new Date().toISOString(), id]
+  );
+}
+
+/**
+ * 从回收站还原条目
+ */
+export function restoreEntry(id: string): void {
+  const row = queryOne<{ id: string }>(
+    'SELECT id FROM password_entries WHERE id = ? AND deleted_at IS NOT NULL',
+    [id]
+  );
+  if (!row) {
+    throw new Error('回收站中不存在该条目');
+  }
+
+  execute('UPDATE password_entries SET deleted_at = NULL WHERE id = ?', [id]);
+}
+
+/**
+ * 彻底删除条目，连同历史版本、附件和标签关联
+ */
+export function purgeEntry(id: string): void {
+  transaction(() => {
+    deleteEntryHistory(id);
+    deleteEntryAttachments(id);
+    execute('DELETE FROM entry_tags WHERE entry_id = ?', [id]);
+    execute('DELETE FROM password_entries WHERE id = ?', [id]);
+  });
 }
 
+/**
+ * 获取回收站中的条目（最近删除在前）
+ */
+export function listTrashedEntries(): PasswordEntry[] {
+  const rows = query<{
+    id: string;
+    encrypted_data: string;
+    category_id: string | null;
+    favorite: number;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+  }>('SELECT * FROM password_entries WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC');
+
+  return rows.map(decryptEntry);
+}
+
+/**
+ * 恢复条目到指定历史版本
+ * 恢复本身也会生成一条历史记录，可以再次撤销
+ */
+export function restoreEntryRevision(revisionId: string): PasswordEntry {
+  const revision = getRevision(revisionId);
+  if (!revision) {
+    throw new Error('历史版本不存在');
+  }
+
+  const current = getEntry(revision.entryId);
+  if (!current) {
+    throw new Error('条目不存在');
+  }
+
+  // 历史版本所在的分类可能已被删除，此时保留当前分类
+  const categoryId = revision.entry.categoryId;
+  const categoryExists = !categoryId || !!queryOne<{ id: string }>(
+    'SELECT id FROM categories WHERE id = ?',
+    [categoryId]
+  );
+
+  updateEntry({
+    ...revision.entry,
+    id: current.id,
+    categoryId: categoryExists ? categoryId : current.categoryId,
+    createdAt: current.createdAt,
+  });
+
+  return getEntry(current.id)!;
+}
 
 /**
  * 搜索密码条目
@@ -151,10 +282,38 @@ export function searchEntries(keyword: string): PasswordEntry[] {
     entry.title.toLowerCase().includes(lowerKeyword) ||
     entry.username.toLowerCase().includes(lowerKeyword) ||
     (entry.url && entry.url.toLowerCase().includes(lowerKeyword)) ||
-    (entry.notes && entry.notes.toLowerCase().includes(lowerKeyword))
+    (entry.notes && entry.notes.toLowerCase().includes(lowerKeyword)) ||
+    (entry.customFields || []).some(field => customFieldMatches(field, lowerKeyword)) ||
+    typeDetailsMatch(entry, lowerKeyword)
   );
 }
 
+/**
+ * 类型详情中的非敏感字段是否匹配关键词
+ */
+function typeDetailsMatch(entry: PasswordEntry, lowerKeyword: string): boolean {
+  const values = [
+    entry.card?.cardholder,
+    entry.identity?.fullName,
+    entry.identity?.company,
+    entry.identity?.email,
+    entry.identity?.phone,
+    entry.sshKey?.fingerprint,
+    entry.wifi?.ssid,
+  ];
+  return values.some(value => !!value && value.toLowerCase().includes(lowerKeyword));
+}
+
+/**
+ * 自定义字段是否匹配关键词
+ * 隐藏字段和 TOTP 密钥只匹配名称，不匹配值
+ */
+function customFieldMatches(field: CustomField, lowerKeyword: string): boolean {
+  if (field.label.toLowerCase().includes(lowerKeyword)) return true;
+  if (field.type === 'hidden' || field.type === 'totp') return false;
+  return field.value.toLowerCase().includes(lowerKeyword);
+}
+
 /**
  * 按分类筛选条目
  */
@@ -166,7 +325,7 @@ export function getEntriesByCategory(categoryId: string): PasswordEntry[] {
     favorite: number;
     created_at: string;
     updated_at: string;
-  }>('SELECT * FROM password_entries WHERE category_id = ? ORDER BY updated_at DESC', [categoryId]);
+  }>('SELECT * FROM password_entries WHERE category_id = ? AND deleted_at IS NULL ORDER BY updated_at DESC', [categoryId]);
 
   return rows.map(decryptEntry);
 }
@@ -185,7 +344,7 @@ export function getEntriesByTag(tagId: string): PasswordEntry[] {
   }>(`
     SELECT pe.* FROM password_entries pe
     INNER JOIN entry_tags et ON pe.id = et.entry_id
-    WHERE et.tag_id = ?
+    WHERE et.tag_id = ? AND pe.deleted_at IS NULL
     ORDER BY pe.updated_at DESC
   `, [tagId]);
 
@@ -203,7 +362,7 @@ export function getFavoriteEntries(): PasswordEntry[] {
     favorite: number;
     created_at: string;
     updated_at: string;
-  }>('SELECT * FROM password_entries WHERE favorite = 1 ORDER BY updated_at DESC');
+  }>('SELECT * FROM password_entries WHERE favorite = 1 AND deleted_at IS NULL ORDER BY updated_at DESC');
 
   return rows.map(decryptEntry);
 }
@@ -218,12 +377,14 @@ function decryptEntry(row: {
   favorite: number;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null;
 }): PasswordEntry {
   const encryptedData: EncryptedData = JSON.parse(row.encrypted_data);
   const decrypted = decryptObjectWithSessionKey<EncryptedEntryData>(encryptedData);
 
   return {
     id: row.id,
+    type: decrypted.type || 'login',
     title: decrypted.title,
     username: decrypted.username,
     password: decrypted.password,
@@ -232,8 +393,17 @@ function decryptEntry(row: {
     icon: decrypted.icon,
     categoryId: row.category_id || undefined,
     tags: decrypted.tags || [],
+    customFields: decrypted.customFields || [],
+    card: decrypted.card,
+    identity: decrypted.identity,
+    sshKey: decrypted.sshKey,
+    wifi: decrypted.wifi,
+    policyId: decrypted.policyId,
+    derivation: decrypted.derivation,
+    otpauth: decrypted.otpauth,
     favorite: row.favorite === 1,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
+    deletedAt: row.deleted_at || undefined,
   };
 }
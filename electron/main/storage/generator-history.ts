@@ -0,0 +1,174 @@
+/**
+ * 密码生成历史
+ * 从生成器复制或使用过的密码加密保存在密码库中，注册失败时可以找回，按数量和天数自动清理
+ */
+
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { execute, query, queryOne } from './db';
+import { EncryptedData } from './models';
+import { encryptObjectWithSessionKey, decryptObjectWithSessionKey } from '../crypto';
+
+export interface GeneratorHistoryConfig {
+  maxItems: number;    // 最多保留的记录数，0 表示不限
+  maxAgeDays: number;  // 记录最长保留天数，0 表示不限
+}
+
+export interface GeneratedPassword {
+  id: string;
+  password: string;
+  context?: string;  // 生成时的网站或用途
+  createdAt: string;
+}
+
+// 配置文件名
+const CONFIG_FILE = 'generator_history_config.json';
+
+// 默认配置
+const DEFAULT_CONFIG: GeneratorHistoryConfig = {
+  maxItems: 100,
+  maxAgeDays: 30,
+};
+
+interface GeneratedPasswordRow {
+  id: string;
+  encrypted_data: string;
+  created_at: string;
+}
+
+/**
+ * 获取配置文件路径
+ */
+function getConfigPath(): string {
+  return path.join(app.getPath('userData'), CONFIG_FILE);
+}
+
+/**
+ * 加载生成历史配置
+ */
+export function loadGeneratorHistoryConfig(): GeneratorHistoryConfig {
+  try {
+    const filePath = getConfigPath();
+    if (fs.existsSync(filePath)) {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return { ...DEFAULT_CONFIG, ...saved };
+    }
+  } catch (error) {
+    console.error('Failed to load generator history config:', error);
+  }
+  return { ...DEFAULT_CONFIG };
+}
+
+/**
+ * 更新生成历史配置，并按新配置清理
+ */
+export function updateGeneratorHistoryConfig(updates: Partial<GeneratorHistoryConfig>): GeneratorHistoryConfig {
+  const updated = { ...loadGeneratorHistoryConfig(), ...updates };
+  updated.maxItems = Math.max(0, Math.floor(updated.maxItems));
+  updated.maxAgeDays = Math.max(0, Math.floor(updated.maxAgeDays));
+
+  fs.writeFileSync(getConfigPath(), JSON.stringify(updated, null, 2), 'utf8');
+  pruneGeneratorHistory();
+  return updated;
+}
+
+/**
+ * 记录一个生成的密码，与最近一条相同时不重复记录
+ */
+export function recordGeneratedPassword(password: string, context?: string): void {
+  if (!password) return;
+
+  if (isLatestGenerated(password)) return;
+
+  const data = { password, context: context?.trim() || undefined };
+  execute(
+    'INSERT INTO generator_history (id, encrypted_data, created_at) VALUES (?, ?, ?)',
+    [uuidv4(), JSON.stringify(encryptObjectWithSessionKey(data)), new Date().toISOString()]
+  );
+
+  pruneGeneratorHistory();
+}
+
+/**
+ * 是否与最近一条记录相同，最近一条无法解密时照常记录
+ */
+function isLatestGenerated(password: string): boolean {
+  const latest = queryOne<GeneratedPasswordRow>(
+    'SELECT * FROM generator_history ORDER BY created_at DESC, rowid DESC LIMIT 1'
+  );
+  if (!latest) return false;
+  try {
+    return decryptRow(latest).password === password;
+  } catch (error) {
+    console.error('Failed to decrypt latest generated password:', error);
+    return false;
+  }
+}
+
+/**
+ * 获取生成历史（最新的在前），跳过无法解密的记录
+ */
+export function listGeneratedPasswords(): GeneratedPassword[] {
+  return query<GeneratedPasswordRow>('SELECT * FROM generator_history ORDER BY created_at DESC, rowid DESC')
+    .flatMap(row => {
+      try {
+        return [decryptRow(row)];
+      } catch (error) {
+        console.error('Failed to decrypt generated password:', error);
+        return [];
+      }
+    });
+}
+
+/**
+ * 删除一条生成历史
+ */
+export function deleteGeneratedPassword(id: string): void {
+  execute('DELETE FROM generator_history WHERE id = ?', [id]);
+}
+
+/**
+ * 清空生成历史
+ */
+export function clearGeneratorHistory(): void {
+  execute('DELETE FROM generator_history');
+}
+
+/**
+ * 按保留配置清理生成历史，返回删除的记录数
+ */
+export function pruneGeneratorHistory(): number {
+  const config = loadGeneratorHistoryConfig();
+  const before = countGeneratedPasswords();
+
+  if (config.maxAgeDays > 0) {
+    const cutoff = new Date(Date.now() - config.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    execute('DELETE FROM generator_history WHERE created_at < ?', [cutoff]);
+  }
+
+  if (config.maxItems > 0) {
+    execute(
+      `DELETE FROM generator_history WHERE id NOT IN (
+         SELECT id FROM generator_history ORDER BY created_at DESC, rowid DESC LIMIT ?
+       )`,
+      [config.maxItems]
+    );
+  }
+
+  return before - countGeneratedPasswords();
+}
+
+function countGeneratedPasswords(): number {
+  return queryOne<{ count: number }>('SELECT COUNT(*) AS count FROM generator_history')?.count ?? 0;
+}
+
+/**
+ * 解密生成历史
+ */
+function decryptRow(row: GeneratedPasswordRow): GeneratedPassword {
+  const encryptedData: EncryptedData = JSON.parse(row.encrypted_data);
+  const data = decryptObjectWithSessionKey<{ password: string; context?: string }>(encryptedData);
+  return { id: row.id, password: data.password, context: data.context, createdAt: row.created_at };
+}
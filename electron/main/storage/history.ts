@@ -0,0 +1,190 @@
+/**
+ * 条目历史版本
+ * 每次覆盖条目前保存一份加密快照，支持按数量和天数清理
+ */
+
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { execute, query, queryOne } from './db';
+import { EncryptedData, EncryptedEntryData, EntryRevision } from './models';
+import { decryptObjectWithSessionKey } from '../crypto';
+
+export interface HistoryConfig {
+  maxRevisions: number;  // 每个条目最多保留的版本数，0 表示不限
+  maxAgeDays: number;    // 版本最长保留天数，0 表示不限
+}
+
+// 配置文件名
+const CONFIG_FILE = 'history_config.json';
+
+// 默认配置
+const DEFAULT_CONFIG: HistoryConfig = {
+  maxRevisions: 20,
+  maxAgeDays: 365,
+};
+
+interface RevisionRow {
+  id: string;
+  entry_id: string;
+  encrypted_data: string;
+  category_id: string | null;
+  favorite: number;
+  entry_created_at: string;
+  entry_updated_at: string;
+  created_at: string;
+}
+
+/**
+ * 获取配置文件路径
+ */
+function getConfigPath(): string {
+  return path.join(app.getPath('userData'), CONFIG_FILE);
+}
+
+/**
+ * 加载历史保留配置
+ */
+export function loadHistoryConfig(): HistoryConfig {
+  try {
+    const filePath = getConfigPath();
+    if (fs.existsSync(filePath)) {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return { ...DEFAULT_CONFIG, ...saved };
+    }
+  } catch (error) {
+    console.error('Failed to load history config:', error);
+  }
+  return { ...DEFAULT_CONFIG };
+}
+
+/**
+ * 更新历史保留配置，并按新配置清理
+ */
+export function updateHistoryConfig(updates: Partial<HistoryConfig>): HistoryConfig {
+  const updated = { ...loadHistoryConfig(), ...updates };
+  updated.maxRevisions = Math.max(0, Math.floor(updated.maxRevisions));
+  updated.maxAgeDays = Math.max(0, Math.floor(updated.maxAgeDays));
+
+  fs.writeFileSync(getConfigPath(), JSON.stringify(updated, null, 2), 'utf8');
+  pruneHistory();
+  return updated;
+}
+
+/**
+ * 保存条目当前版本（在覆盖之前调用）
+ */
+export function recordRevision(entryId: string): void {
+  const row = queryOne<{
+    encrypted_data: string;
+    category_id: string | null;
+    favorite: number;
+    created_at: string;
+    updated_at: string;
+  }>('SELECT * FROM password_entries WHERE id = ?', [entryId]);
+
+  if (!row) return;
+
+  // 直接复制密文，不需要解密
+  execute(
+    `INSERT INTO entry_history (id, entry_id, encrypted_data, category_id, favorite, entry_created_at, entry_updated_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [uuidv4(), entryId, row.encrypted_data, row.category_id, row.favorite, row.created_at, row.updated_at, new Date().toISOString()]
+  );
+
+  pruneHistory(entryId);
+}
+
+/**
+ * 获取条目的历史版本（最新在前）
+ */
+export function listRevisions(entryId: string): EntryRevision[] {
+  const rows = query<RevisionRow>(
+    'SELECT * FROM entry_history WHERE entry_id = ? ORDER BY created_at DESC, rowid DESC',
+    [entryId]
+  );
+
+  return rows.map(decryptRevision);
+}
+
+/**
+ * 获取单个历史版本
+ */
+export function getRevision(revisionId: string): EntryRevision | null {
+  const row = queryOne<RevisionRow>('SELECT * FROM entry_history WHERE id = ?', [revisionId]);
+  return row ? decryptRevision(row) : null;
+}
+
+/**
+ * 删除条目的全部历史版本
+ */
+export function deleteEntryHistory(entryId: string): void {
+  execute('DELETE FROM entry_history WHERE entry_id = ?', [entryId]);
+}
+
+/**
+ * 按保留配置清理历史版本
+ * 指定 entryId 时，数量限制只作用于该条目
+ */
+export function pruneHistory(entryId?: string): void {
+  const config = loadHistoryConfig();
+
+  if (config.maxAgeDays > 0) {
+    const cutoff = new Date(Date.now() - config.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    execute('DELETE FROM entry_history WHERE created_at < ?', [cutoff]);
+  }
+
+  if (config.maxRevisions > 0) {
+    const entryIds = entryId
+      ? [entryId]
+      : query<{ entry_id: string }>('SELECT DISTINCT entry_id FROM entry_history').map(r => r.entry_id);
+
+    for (const id of entryIds) {
+      execute(
+        `DELETE FROM entry_history WHERE entry_id = ? AND id NOT IN (
+           SELECT id FROM entry_history WHERE entry_id = ?
+           ORDER BY created_at DESC, rowid DESC LIMIT ?
+         )`,
+        [id, id, config.maxRevisions]
+      );
+    }
+  }
+}
+
+/**
+ * 解密历史版本
+ */
+function decryptRevision(row: RevisionRow): EntryRevision {
+  const encryptedData: EncryptedData = JSON.parse(row.encrypted_data);
+  const decrypted = decryptObjectWithSessionKey<EncryptedEntryData>(encryptedData);
+
+  return {
+    id: row.id,
+    entryId: row.entry_id,
+    entry: {
+      id: row.entry_id,
+      type: decrypted.type || 'login',
+      title: decrypted.title,
+      username: decrypted.username,
+      password: decrypted.password,
+      url: decrypted.url,
+      notes: decrypted.notes,
+      icon: decrypted.icon,
+      categoryId: row.category_id || undefined,
+      tags: decrypted.tags || [],
+      customFields: decrypted.customFields || [],
+      card: decrypted.card,
+      identity: decrypted.identity,
+      sshKey: decrypted.sshKey,
+      wifi: decrypted.wifi,
+      policyId: decrypted.policyId,
+      derivation: decrypted.derivation,
+      otpauth: decrypted.otpauth,
+      favorite: row.favorite === 1,
+      createdAt: row.entry_created_at,
+      updatedAt: row.entry_updated_at,
+    },
+    createdAt: row.created_at,
+  };
+}
@@ -4,8 +4,17 @@
  */
 
 export * from './db';
+export * from './migrations';
 export * from './models';
 export * from './entries';
+export * from './history';
+export * from './attachments';
+export * from './trash';
+export * from './item-types';
 export * from './categories';
 export * from './tags';
+export * from './policies';
+export * from './generator-history';
 export * from './vault';
+export * from './vaults';
+export * from './unlock-guard';
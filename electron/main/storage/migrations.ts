@@ -0,0 +1,328 @@
+/**
+ * 数据库结构迁移
+ * 按版本顺序执行迁移，已执行的版本记录在 schema_migrations 表中
+ *
+ * 本模块不依赖 Electron 和具体的 SQLite 实现，桌面端（sql.js）和
+ * 移动端（react-native-sqlite-storage）各自提供 MigrationDriver 后共用同一份迁移列表。
+ * 旧版本数据库没有迁移记录（版本为 0），所有迁移都写成可重复执行的形式。
+ */
+
+export interface MigrationDriver {
+  run(sql: string, params?: unknown[]): void | Promise<void>;
+  all<T>(sql: string, params?: unknown[]): T[] | Promise<T[]>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (driver: MigrationDriver) => Promise<void>;
+}
+
+export interface MigrationOptions {
+  // 迁移已有数据前调用，用于保存迁移前的数据库副本
+  backup?: (fromVersion: number, toVersion: number) => void | Promise<void>;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+}
+
+/**
+ * 依次执行多条语句
+ */
+async function runAll(driver: MigrationDriver, statements: string[]): Promise<void> {
+  for (const sql of statements) {
+    await driver.run(sql);
+  }
+}
+
+/**
+ * 表中缺少指定列时补充该列
+ */
+async function addColumnIfMissing(
+  driver: MigrationDriver,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const columns = await driver.all<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (!columns.some(c => c.name === column)) {
+    await driver.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * 迁移列表，只能在末尾追加，已发布的迁移不要修改
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: '初始结构',
+    up: driver => runAll(driver, [
+      // vault_meta.version 是密钥派生参数版本，与数据库结构版本无关
+      `CREATE TABLE IF NOT EXISTS vault_meta (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        salt TEXT NOT NULL,
+        verification_hash TEXT NOT NULL,
+        totp_enabled INTEGER DEFAULT 0,
+        totp_secret_encrypted TEXT,
+        recovery_codes_encrypted TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        version INTEGER DEFAULT 1
+      )`,
+      `CREATE TABLE IF NOT EXISTS categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        icon TEXT,
+        color TEXT,
+        sort_order INTEGER DEFAULT 0,
+        is_default INTEGER DEFAULT 0,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        color TEXT,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS password_entries (
+        id TEXT PRIMARY KEY,
+        encrypted_data TEXT NOT NULL,
+        category_id TEXT,
+        favorite INTEGER DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS entry_tags (
+        entry_id TEXT NOT NULL,
+        tag_id TEXT NOT NULL,
+        PRIMARY KEY (entry_id, tag_id),
+        FOREIGN KEY (entry_id) REFERENCES password_entries(id) ON DELETE CASCADE,
+        FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS backups (
+        id TEXT PRIMARY KEY,
+        file_path TEXT NOT NULL,
+        file_size INTEGER NOT NULL,
+        checksum TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        backup_type TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_entries_category ON password_entries(category_id)',
+      'CREATE INDEX IF NOT EXISTS idx_entries_favorite ON password_entries(favorite)',
+      'CREATE INDEX IF NOT EXISTS idx_entry_tags_entry ON entry_tags(entry_id)',
+      'CREATE INDEX IF NOT EXISTS idx_entry_tags_tag ON entry_tags(tag_id)',
+    ]),
+  },
+  {
+    version: 2,
+    name: '条目历史版本',
+    up: driver => runAll(driver, [
+      `CREATE TABLE IF NOT EXISTS entry_history (
+        id TEXT PRIMARY KEY,
+        entry_id TEXT NOT NULL,
+        encrypted_data TEXT NOT NULL,
+        category_id TEXT,
+        favorite INTEGER DEFAULT 0,
+        entry_created_at TEXT NOT NULL,
+        entry_updated_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_entry_history_entry ON entry_history(entry_id)',
+    ]),
+  },
+  {
+    version: 3,
+    name: '条目附件',
+    up: driver => runAll(driver, [
+      `CREATE TABLE IF NOT EXISTS attachments (
+        id TEXT PRIMARY KEY,
+        entry_id TEXT NOT NULL,
+        encrypted_meta TEXT NOT NULL,
+        encrypted_data TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (entry_id) REFERENCES password_entries(id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_attachments_entry ON attachments(entry_id)',
+    ]),
+  },
+  {
+    version: 4,
+    name: '回收站',
+    up: async driver => {
+      await addColumnIfMissing(driver, 'password_entries', 'deleted_at', 'TEXT');
+      await driver.run('CREATE INDEX IF NOT EXISTS idx_entries_deleted ON password_entries(deleted_at)');
+    },
+  },
+  {
+    version: 5,
+    name: '解锁记录',
+    up: driver => runAll(driver, [
+      `CREATE TABLE IF NOT EXISTS unlock_journal (
+        id TEXT PRIMARY KEY,
+        encrypted_data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_unlock_journal_created ON unlock_journal(created_at)',
+    ]),
+  },
+  {
+    version: 6,
+    name: '数据密钥',
+    // 已有数据在解锁后用主密码重新加密，迁移本身只增加列
+    up: driver => addColumnIfMissing(driver, 'vault_meta', 'wrapped_key', 'TEXT'),
+  },
+  {
+    version: 7,
+    name: '密钥派生参数',
+    // 之前的迭代次数由 version 推断：1 为 100,000 次，2 及以上为 600,000 次
+    up: async driver => {
+      await addColumnIfMissing(driver, 'vault_meta', 'kdf_params', 'TEXT');
+      await driver.run(
+        `UPDATE vault_meta SET kdf_params = CASE WHEN version >= 2
+           THEN '{"algorithm":"pbkdf2-sha256","iterations":600000}'
+           ELSE '{"algorithm":"pbkdf2-sha256","iterations":100000}' END
+         WHERE kdf_params IS NULL`
+      );
+    },
+  },
+  {
+    version: 8,
+    name: '密钥文件',
+    up: driver => addColumnIfMissing(driver, 'vault_meta', 'key_file_required', 'INTEGER NOT NULL DEFAULT 0'),
+  },
+  {
+    version: 9,
+    name: '恢复密钥',
+    // recovery_key_encrypted 为数据密钥加密的恢复密钥，recovery_wrapped_key 为恢复密钥包装的主密码派生密钥
+    up: async driver => {
+      await addColumnIfMissing(driver, 'vault_meta', 'recovery_key_encrypted', 'TEXT');
+      await addColumnIfMissing(driver, 'vault_meta', 'recovery_wrapped_key', 'TEXT');
+      await addColumnIfMissing(driver, 'vault_meta', 'recovery_created_at', 'TEXT');
+    },
+  },
+  {
+    version: 10,
+    name: '密码规则',
+    // 预置几种常见的网站规则，用户可以修改或删除
+    up: async driver => {
+      await driver.run(`CREATE TABLE IF NOT EXISTS password_policies (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        rules TEXT NOT NULL,
+        domains TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`);
+      const presets: Array<[string, string, string]> = [
+        ['preset-bank', '网上银行（8-12 位字母数字）', '{"minLength":8,"maxLength":12,"classes":{"lowercase":"required","uppercase":"allowed","digits":"required","symbols":"forbidden"},"symbols":"","firstChar":"letter","maxConsecutive":2}'],
+        ['preset-gov', '政务网站（8-16 位，符号限 _-@）', '{"minLength":8,"maxLength":16,"classes":{"lowercase":"required","uppercase":"required","digits":"required","symbols":"required"},"symbols":"_-@","firstChar":"letter","maxConsecutive":2}'],
+        ['preset-max12', '最长 12 位', '{"minLength":8,"maxLength":12,"classes":{"lowercase":"required","uppercase":"required","digits":"required","symbols":"required"},"symbols":"!@#$%&*","firstChar":"any","maxConsecutive":0}'],
+        ['preset-alnum', '仅字母和数字', '{"minLength":8,"maxLength":20,"classes":{"lowercase":"required","uppercase":"required","digits":"required","symbols":"forbidden"},"symbols":"","firstChar":"any","maxConsecutive":0}'],
+        ['preset-pin', '6 位数字支付密码', '{"minLength":6,"maxLength":6,"classes":{"lowercase":"forbidden","uppercase":"forbidden","digits":"required","symbols":"forbidden"},"symbols":"","firstChar":"any","maxConsecutive":1}'],
+      ];
+      const now = new Date().toISOString();
+      for (const [id, name, rules] of presets) {
+        await driver.run(
+          'INSERT OR IGNORE INTO password_policies (id, name, rules, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+          [id, name, rules, now, now]
+        );
+      }
+    },
+  },
+  {
+    version: 11,
+    name: '密码生成历史',
+    up: driver => runAll(driver, [
+      `CREATE TABLE IF NOT EXISTS generator_history (
+        id TEXT PRIMARY KEY,
+        encrypted_data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_generator_history_created ON generator_history(created_at)',
+    ]),
+  },
+];
+
+// 当前代码支持的最高结构版本
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * 获取数据库结构版本，没有迁移记录时为 0
+ */
+export async function getSchemaVersion(driver: MigrationDriver): Promise<number> {
+  const tables = await driver.all<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'"
+  );
+  if (tables.length === 0) return 0;
+
+  const rows = await driver.all<{ version: number | null }>('SELECT MAX(version) AS version FROM schema_migrations');
+  return rows[0]?.version || 0;
+}
+
+/**
+ * 检查数据库结构版本是否被当前版本的应用支持
+ */
+export function assertSchemaSupported(version: number): void {
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `密码库由更新版本的应用创建（数据库版本 ${version}，当前最高支持 ${LATEST_SCHEMA_VERSION}），请升级应用后再打开`
+    );
+  }
+}
+
+/**
+ * 执行尚未执行的迁移
+ * 每个迁移在单独的事务中执行，失败时回滚并停止
+ */
+export async function runMigrations(driver: MigrationDriver, options: MigrationOptions = {}): Promise<MigrationResult> {
+  const fromVersion = await getSchemaVersion(driver);
+  assertSchemaSupported(fromVersion);
+
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+  if (pending.length === 0) {
+    return { fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  // 已有数据时先备份（包括没有迁移记录的旧版本数据库）
+  const existing = await driver.all<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'vault_meta'"
+  );
+  if (existing.length > 0 && options.backup) {
+    await options.backup(fromVersion, LATEST_SCHEMA_VERSION);
+  }
+
+  await driver.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied: number[] = [];
+  for (const migration of pending) {
+    await driver.run('BEGIN TRANSACTION');
+    try {
+      await migration.up(driver);
+      await driver.run(
+        'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, new Date().toISOString()]
+      );
+      await driver.run('COMMIT');
+    } catch (error) {
+      await driver.run('ROLLBACK');
+      throw new Error(
+        `数据库迁移失败（版本 ${migration.version}：${migration.name}）：${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    applied.push(migration.version);
+  }
+
+  return { fromVersion, toVersion: applied[applied.length - 1], applied };
+}
@@ -2,9 +2,48 @@
  * 数据模型定义
  */
 
+// 条目类型
+export type EntryType = 'login' | 'card' | 'identity' | 'note' | 'ssh' | 'wifi';
+
+// 银行卡
+export interface CardDetails {
+  cardholder?: string;
+  number: string;
+  expiry?: string;  // MM/YY
+  cvv?: string;
+  pin?: string;
+}
+
+// 身份信息
+export interface IdentityDetails {
+  fullName?: string;
+  gender?: string;
+  birthday?: string;
+  idNumber?: string;
+  phone?: string;
+  email?: string;
+  company?: string;
+  address?: string;
+}
+
+// SSH 密钥（私钥口令存放在 password 字段）
+export interface SshKeyDetails {
+  publicKey?: string;
+  privateKey?: string;
+  fingerprint?: string;  // 根据公钥计算，SHA256:xxx
+}
+
+// Wi-Fi 网络（网络密码存放在 password 字段）
+export interface WifiDetails {
+  ssid: string;
+  security: 'WPA' | 'WEP' | 'nopass';
+  hidden?: boolean;
+}
+
 // 密码条目
 export interface PasswordEntry {
   id: string;
+  type?: EntryType;  // 缺省为 login
   title: string;
   username: string;
   password: string;
@@ -13,11 +52,69 @@ export interface PasswordEntry {
   categoryId?: string;
   icon?: string;  // 自定义图标（emoji 或 base64 图片）
   tags: string[];
+  customFields?: CustomField[];
+  card?: CardDetails;
+  identity?: IdentityDetails;
+  sshKey?: SshKeyDetails;
+  wifi?: WifiDetails;
+  policyId?: string;  // 指定的密码规则，未指定时按网址匹配
+  derivation?: DerivationParams;  // 派生密码条目，password 为空
+  otpauth?: string;  // 两步验证的 otpauth URI
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;  // 移入回收站的时间
   favorite: boolean;
 }
 
+// 自定义字段类型
+export type CustomFieldType = 'text' | 'hidden' | 'url' | 'email' | 'phone' | 'date' | 'totp';
+
+// 自定义字段
+export interface CustomField {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  value: string;
+}
+
+// 加密存储的条目数据（不包含 id、categoryId、favorite、时间戳）
+export interface EncryptedEntryData {
+  type?: EntryType;
+  title: string;
+  username: string;
+  password: string;
+  url?: string;
+  notes?: string;
+  icon?: string;
+  tags: string[];
+  customFields?: CustomField[];
+  card?: CardDetails;
+  identity?: IdentityDetails;
+  sshKey?: SshKeyDetails;
+  wifi?: WifiDetails;
+  policyId?: string;
+  derivation?: DerivationParams;
+  otpauth?: string;
+}
+
+// 条目历史版本
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  entry: PasswordEntry;  // 被覆盖前的条目快照
+  createdAt: string;     // 被覆盖的时间
+}
+
+// 条目附件（不含文件内容）
+export interface Attachment {
+  id: string;
+  entryId: string;
+  name: string;
+  mimeType: string;
+  size: number;       // 原始文件大小（字节）
+  createdAt: string;
+}
+
 // 分类
 export interface Category {
   id: string;
@@ -43,6 +140,64 @@ export interface PasswordConfig {
   numbers: boolean;
   special: boolean;
   excludeAmbiguous: boolean;
+  mode?: 'random' | 'passphrase';  // 默认 random
+  passphrase?: PassphraseConfig;
+  policy?: PasswordPolicyRules;  // 随机字符模式下按网站规则生成，忽略上面的字符类型选项
+}
+
+// 密码短语词表
+export type PassphraseWordlist = 'eff-large' | 'eff-short' | 'pinyin';
+
+// 密码短语大小写：全小写、全大写、首字母大写、随机首字母大写
+export type PassphraseCapitalization = 'lower' | 'upper' | 'capitalize' | 'random';
+
+// 密码短语生成配置
+export interface PassphraseConfig {
+  wordlist: PassphraseWordlist;
+  wordCount: number;
+  separator: string;
+  capitalization: PassphraseCapitalization;
+  includeNumber: boolean;  // 在随机一个单词后插入一位数字
+  includeSymbol: boolean;  // 在随机一个单词后插入一个符号
+}
+
+// 密码规则中的字符类型
+export type PolicyCharClass = 'lowercase' | 'uppercase' | 'digits' | 'symbols';
+
+// 字符类型要求：必须包含、可以包含、不允许
+export type PolicyClassRule = 'required' | 'allowed' | 'forbidden';
+
+// 首字符要求
+export type PolicyFirstChar = 'any' | 'letter' | 'uppercase' | 'lowercase' | 'alphanumeric';
+
+// 网站的密码规则
+export interface PasswordPolicyRules {
+  minLength: number;
+  maxLength: number;
+  classes: Record<PolicyCharClass, PolicyClassRule>;
+  symbols: string;         // 允许使用的符号
+  firstChar: PolicyFirstChar;
+  maxConsecutive: number;  // 同一字符最多连续出现的次数，0 为不限制
+}
+
+// 密码规则，可以指定给条目，也可以按域名自动匹配
+export interface PasswordPolicy {
+  id: string;
+  name: string;
+  rules: PasswordPolicyRules;
+  domains: string[];  // 匹配这些域名及其子域名
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 派生密码的参数，条目只保存参数，密码由派生主密码实时计算
+export interface DerivationParams {
+  version: number;  // 算法版本
+  site: string;
+  login: string;
+  counter: number;  // 更换密码时加一
+  length: number;
+  rules: PasswordPolicyRules;  // 创建时的规则快照，规则修改后不影响已有条目
 }
 
 // 加密数据包装
@@ -74,9 +229,45 @@ export interface ImportEntry {
   url?: string;
   notes?: string;
   category?: string;  // 分类名称
+  customFields?: CustomField[];  // 未识别的列作为自定义字段导入
   rowNumber: number;
 }
 
+// Google 身份验证器迁移：可附加两步验证的已有条目
+export interface AuthenticatorCandidate {
+  id: string;
+  title: string;
+  username: string;
+}
+
+// Google 身份验证器迁移：待导入的账号
+export interface AuthenticatorImportItem {
+  otpauth: string;              // 规范化的 otpauth URI
+  issuer: string;
+  account: string;
+  description: string;          // 如 "TOTP · SHA1 · 6 位 · 30 秒"
+  action: 'attach' | 'create' | 'skip';
+  entryId?: string;             // action 为 attach 时的目标条目
+  candidates: AuthenticatorCandidate[];
+  duplicateOf?: string;         // 已保存相同密钥的条目标题
+}
+
+// Google 身份验证器迁移：一次扫描的结果
+export interface AuthenticatorScanResult {
+  items: AuthenticatorImportItem[];
+  skipped: string[];            // 无法导入的账号及原因
+  batchId: number;              // 单个 otpauth 链接为 0
+  batchIndex: number;
+  batchSize: number;
+}
+
+// Google 身份验证器迁移：导出的二维码
+export interface AuthenticatorExport {
+  pages: string[];              // 每页一张二维码（base64 图片）
+  exported: number;
+  skipped: Array<{ title: string; reason: string }>;
+}
+
 // 备份信息
 export interface BackupInfo {
   id: string;
@@ -101,7 +292,26 @@ export interface VaultMeta {
   totpEnabled: boolean;
   totpSecretEncrypted?: string;
   recoveryCodesEncrypted?: string;
+  wrappedKey?: string;    // 包装后的数据密钥，旧版本密码库没有
+  keyFileRequired: boolean; // 解锁是否需要密钥文件
+  recoveryKeyEncrypted?: string; // 数据密钥加密的恢复密钥
+  recoveryWrappedKey?: string;   // 恢复密钥包装的主密码派生密钥（同时写入整库加密文件头部）
+  recoveryCreatedAt?: string;
   createdAt: string;
   updatedAt: string;
   version: number;
 }
+
+// 恢复密钥状态（锁定时只知道是否设置，没有创建时间）
+export interface RecoveryKeyStatus {
+  enabled: boolean;
+  createdAt: string | null;
+}
+
+// 应急包内容：未拆分时 codes 只有恢复密钥一项（threshold 为 1），否则为各份恢复份额
+export interface EmergencyKit {
+  vaultName: string;
+  createdAt: string;
+  threshold: number;
+  codes: string[];
+}
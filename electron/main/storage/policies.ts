@@ -0,0 +1,100 @@
+/**
+ * 网站密码规则 CRUD 操作
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { execute, query, queryOne } from './db';
+import { PasswordPolicy } from './models';
+import { getPolicyProblems, normalizeDomain, normalizePolicyRules } from '../generator/policy';
+
+interface PolicyRow {
+  id: string;
+  name: string;
+  rules: string;
+  domains: string;
+  created_at: string;
+  updated_at: string;
+}
+
+type PolicyInput = Pick<PasswordPolicy, 'name' | 'rules' | 'domains'>;
+
+function rowToPolicy(row: PolicyRow): PasswordPolicy {
+  return {
+    id: row.id,
+    name: row.name,
+    rules: normalizePolicyRules(JSON.parse(row.rules)),
+    domains: JSON.parse(row.domains || '[]'),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * 校验并规范化规则，无法满足的规则不保存
+ */
+function normalizePolicy(policy: PolicyInput): PolicyInput {
+  const name = String(policy.name ?? '').trim();
+  if (!name) {
+    throw new Error('请输入规则名称');
+  }
+
+  const rules = normalizePolicyRules(policy.rules);
+  const problems = getPolicyProblems(rules);
+  if (problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+
+  const domains = [...new Set((policy.domains ?? []).map(normalizeDomain).filter(Boolean))];
+  return { name, rules, domains };
+}
+
+/**
+ * 创建规则
+ */
+export function createPolicy(policy: PolicyInput): string {
+  const { name, rules, domains } = normalizePolicy(policy);
+  const id = uuidv4();
+  const now = new Date().toISOString();
+
+  execute(
+    `INSERT INTO password_policies (id, name, rules, domains, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [id, name, JSON.stringify(rules), JSON.stringify(domains), now, now]
+  );
+
+  return id;
+}
+
+/**
+ * 获取所有规则（预置规则在前）
+ */
+export function listPolicies(): PasswordPolicy[] {
+  return query<PolicyRow>('SELECT * FROM password_policies ORDER BY created_at ASC, rowid ASC').map(rowToPolicy);
+}
+
+/**
+ * 获取单个规则
+ */
+export function getPolicy(id: string): PasswordPolicy | null {
+  const row = queryOne<PolicyRow>('SELECT * FROM password_policies WHERE id = ?', [id]);
+  return row ? rowToPolicy(row) : null;
+}
+
+/**
+ * 更新规则
+ */
+export function updatePolicy(policy: PolicyInput & { id: string }): void {
+  const { name, rules, domains } = normalizePolicy(policy);
+  execute(
+    'UPDATE password_policies SET name = ?, rules = ?, domains = ?, updated_at = ? WHERE id = ?',
+    [name, JSON.stringify(rules), JSON.stringify(domains), new Date().toISOString(), policy.id]
+  );
+}
+
+/**
+ * 删除规则
+ * 条目中的 policyId 加密存储无法直接清理，找不到规则时条目会改为按网址匹配
+ */
+export function deletePolicy(id: string): void {
+  execute('DELETE FROM password_policies WHERE id = ?', [id]);
+}
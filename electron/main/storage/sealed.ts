@@ -0,0 +1,108 @@
+/**
+ * 整库加密文件格式
+ * 整个 sql.js 导出镜像使用 AES-256-GCM 加密，文件中只保留派生密钥所需的参数
+ *
+ * 文件结构: MAGIC + 头部长度(4 字节) + 头部 JSON + nonce(12) + tag(16) + 密文
+ * 头部作为附加认证数据参与校验，篡改头部同样会导致解密失败
+ */
+
+import crypto from 'crypto';
+import { parseKdfParams, type KdfParams } from '../crypto/kdf';
+
+// 整库加密文件魔数
+const SEALED_MAGIC = Buffer.from('PWMGR_SEALED_V1');
+
+const ALGORITHM = 'aes-256-gcm';
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export interface SealedHeader {
+  salt: string;       // 主密码派生密钥的盐值（base64）
+  kdf: KdfParams;     // 密钥派生算法和参数
+  keyFile?: boolean;  // 解锁是否需要密钥文件
+  recovery?: string;  // 恢复密钥包装的主密码派生密钥，忘记主密码时用恢复密钥解密
+}
+
+/**
+ * 判断数据是否为整库加密格式
+ */
+export function isSealed(data: Uint8Array): boolean {
+  return data.length > SEALED_MAGIC.length + 4 &&
+    Buffer.from(data.subarray(0, SEALED_MAGIC.length)).equals(SEALED_MAGIC);
+}
+
+/**
+ * 解析文件头部，返回头部和头部结束位置
+ */
+function parseHeader(data: Buffer): { header: SealedHeader; headerBytes: Buffer; offset: number } {
+  if (!isSealed(data)) {
+    throw new Error('不是整库加密格式的文件');
+  }
+
+  const lengthOffset = SEALED_MAGIC.length;
+  const headerLength = data.readUInt32BE(lengthOffset);
+  const headerStart = lengthOffset + 4;
+  const offset = headerStart + headerLength;
+  if (offset + NONCE_LENGTH + TAG_LENGTH > data.length) {
+    throw new Error('加密文件已损坏');
+  }
+
+  const headerBytes = data.subarray(headerStart, offset);
+  const raw = JSON.parse(headerBytes.toString('utf8'));
+  if (typeof raw.salt !== 'string') {
+    throw new Error('加密文件已损坏');
+  }
+  // 旧版本头部只有 PBKDF2 迭代次数
+  const kdf = parseKdfParams(raw.kdf ?? { algorithm: 'pbkdf2-sha256', iterations: raw.iterations });
+  const header: SealedHeader = { salt: raw.salt, kdf, keyFile: raw.keyFile === true };
+  if (typeof raw.recovery === 'string') {
+    header.recovery = raw.recovery;
+  }
+  return { header, headerBytes, offset };
+}
+
+/**
+ * 读取头部（解锁前获取盐值和密钥派生参数）
+ */
+export function readSealedHeader(data: Buffer): SealedHeader {
+  return parseHeader(data).header;
+}
+
+/**
+ * 加密数据库镜像
+ */
+export function sealImage(image: Uint8Array, header: SealedHeader, key: Buffer): Buffer {
+  // 可选字段只在启用时写入，未启用的密码库头部与旧版本相同
+  const fields: SealedHeader = { salt: header.salt, kdf: header.kdf };
+  if (header.keyFile) fields.keyFile = true;
+  if (header.recovery) fields.recovery = header.recovery;
+  const headerBytes = Buffer.from(JSON.stringify(fields), 'utf8');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(headerBytes.length);
+
+  const nonce = crypto.randomBytes(NONCE_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, nonce, { authTagLength: TAG_LENGTH });
+  cipher.setAAD(headerBytes);
+  const ciphertext = Buffer.concat([cipher.update(image), cipher.final()]);
+
+  return Buffer.concat([SEALED_MAGIC, length, headerBytes, nonce, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * 解密数据库镜像，密钥错误或数据被篡改时抛出异常
+ */
+export function unsealImage(data: Buffer, key: Buffer): Buffer {
+  const { headerBytes, offset } = parseHeader(data);
+  const nonce = data.subarray(offset, offset + NONCE_LENGTH);
+  const tag = data.subarray(offset + NONCE_LENGTH, offset + NONCE_LENGTH + TAG_LENGTH);
+  const ciphertext = data.subarray(offset + NONCE_LENGTH + TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, nonce, { authTagLength: TAG_LENGTH });
+  decipher.setAAD(headerBytes);
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new Error('密钥错误或加密文件已损坏');
+  }
+}
@@ -82,7 +82,9 @@ export function deleteTag(id: string): void {
  */
 export function getTagEntryCount(tagId: string): number {
   const result = queryOne<{ count: number }>(
-    'SELECT COUNT(*) as count FROM entry_tags WHERE tag_id = ?',
+    `SELECT COUNT(*) as count FROM entry_tags et
+     INNER JOIN password_entries pe ON pe.id = et.entry_id
+     WHERE et.tag_id = ? AND pe.deleted_at IS NULL`,
     [tagId]
   );
   return result?.count || 0;
@@ -0,0 +1,92 @@
+/**
+ * 回收站
+ * 删除的条目先标记 deleted_at，超过保留天数后自动彻底删除
+ */
+
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { query, transaction } from './db';
+import { purgeEntry } from './entries';
+
+export interface TrashConfig {
+  retentionDays: number;  // 回收站保留天数，0 表示不自动清理
+}
+
+// 配置文件名
+const CONFIG_FILE = 'trash_config.json';
+
+// 默认配置
+const DEFAULT_CONFIG: TrashConfig = {
+  retentionDays: 30,
+};
+
+/**
+ * 获取配置文件路径
+ */
+function getConfigPath(): string {
+  return path.join(app.getPath('userData'), CONFIG_FILE);
+}
+
+/**
+ * 加载回收站配置
+ */
+export function loadTrashConfig(): TrashConfig {
+  try {
+    const filePath = getConfigPath();
+    if (fs.existsSync(filePath)) {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return { ...DEFAULT_CONFIG, ...saved };
+    }
+  } catch (error) {
+    console.error('Failed to load trash config:', error);
+  }
+  return { ...DEFAULT_CONFIG };
+}
+
+/**
+ * 更新回收站配置，并按新配置清理
+ */
+export function updateTrashConfig(updates: Partial<TrashConfig>): TrashConfig {
+  const updated = { ...loadTrashConfig(), ...updates };
+  updated.retentionDays = Math.max(0, Math.floor(updated.retentionDays));
+
+  fs.writeFileSync(getConfigPath(), JSON.stringify(updated, null, 2), 'utf8');
+  purgeExpiredTrash();
+  return updated;
+}
+
+/**
+ * 彻底删除超过保留天数的条目，返回删除数量
+ */
+export function purgeExpiredTrash(): number {
+  const { retentionDays } = loadTrashConfig();
+  if (retentionDays <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const rows = query<{ id: string }>(
+    'SELECT id FROM password_entries WHERE deleted_at IS NOT NULL AND deleted_at < ?',
+    [cutoff]
+  );
+
+  transaction(() => {
+    for (const { id } of rows) {
+      purgeEntry(id);
+    }
+  });
+  return rows.length;
+}
+
+/**
+ * 清空回收站，返回删除数量
+ */
+export function emptyTrash(): number {
+  const rows = query<{ id: string }>('SELECT id FROM password_entries WHERE deleted_at IS NOT NULL');
+
+  transaction(() => {
+    for (const { id } of rows) {
+      purgeEntry(id);
+    }
+  });
+  return rows.length;
+}
@@ -0,0 +1,249 @@
+/**
+ * 解锁保护
+ * 记录连续验证失败的次数，按指数退避限制重试，可选在连续失败达到指定次数后清除本地密码库
+ *
+ * 失败次数保存在密码库目录的 JSON 文件中，锁定状态下也能读写；
+ * 解锁记录加密后保存在数据库中，锁定期间的失败记录在下次解锁时写入
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { query, execute, transaction } from './db';
+import { getVaultDataDir } from './vaults';
+import { encryptObjectWithSessionKey, decryptObjectWithSessionKey } from '../crypto';
+
+export type UnlockMethod = 'password' | 'totp' | 'recovery-code' | 'recovery-key';
+
+export interface UnlockGuardConfig {
+  wipeAfterFailures: number;  // 连续失败多少次后清除本地密码库，0 表示不清除
+}
+
+export interface UnlockJournalEntry {
+  id: string;
+  event: 'success' | 'failure';
+  method: UnlockMethod;
+  createdAt: string;
+}
+
+export interface UnlockSummary {
+  failedAttempts: number;         // 上次解锁以来的失败次数
+  lastFailureAt: string | null;
+  previousUnlockAt: string | null;
+}
+
+interface GuardState {
+  config: UnlockGuardConfig;
+  failedAttempts: number;
+  lastFailureAt: string | null;
+  // 锁定期间的失败记录，解锁后写入加密的解锁记录
+  pendingFailures: Array<{ method: UnlockMethod; at: string }>;
+}
+
+// 状态文件名（位于当前密码库的数据目录）
+const STATE_FILE = 'unlock_guard.json';
+
+// 前几次失败不限制，之后每次失败等待时间翻倍
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+
+// 锁定期间最多暂存的失败记录数和解锁记录保留条数
+const MAX_PENDING_FAILURES = 100;
+const MAX_JOURNAL_ENTRIES = 200;
+
+// 清除策略允许的最小次数，避免误输几次就丢失数据
+export const MIN_WIPE_AFTER_FAILURES = 5;
+
+const DEFAULT_STATE: GuardState = {
+  config: { wipeAfterFailures: 0 },
+  failedAttempts: 0,
+  lastFailureAt: null,
+  pendingFailures: [],
+};
+
+// 最近一次解锁时的摘要，供登录后提示
+let lastSummary: UnlockSummary | null = null;
+
+/**
+ * 获取状态文件路径
+ */
+function getStatePath(): string {
+  return path.join(getVaultDataDir(), STATE_FILE);
+}
+
+/**
+ * 读取状态
+ */
+function loadState(): GuardState {
+  try {
+    const filePath = getStatePath();
+    if (fs.existsSync(filePath)) {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return {
+        ...DEFAULT_STATE,
+        ...saved,
+        config: { ...DEFAULT_STATE.config, ...saved.config },
+        pendingFailures: Array.isArray(saved.pendingFailures) ? saved.pendingFailures : [],
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load unlock guard state:', error);
+  }
+  return { ...DEFAULT_STATE, config: { ...DEFAULT_STATE.config }, pendingFailures: [] };
+}
+
+/**
+ * 保存状态
+ */
+function saveState(state: GuardState): void {
+  const filePath = getStatePath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(state, null, 2), 'utf8');
+}
+
+/**
+ * 连续失败指定次数后需要等待的时间
+ */
+function getBackoffMs(failedAttempts: number): number {
+  if (failedAttempts < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_DELAY_MS);
+}
+
+/**
+ * 获取距离允许下次尝试的剩余时间（毫秒）
+ */
+export function getRetryDelay(): number {
+  const state = loadState();
+  if (!state.lastFailureAt) return 0;
+
+  const backoff = getBackoffMs(state.failedAttempts);
+  const elapsed = Date.now() - new Date(state.lastFailureAt).getTime();
+  // 系统时间被调回时按完整的等待时间计算
+  return Math.max(0, backoff - Math.max(0, elapsed));
+}
+
+/**
+ * 检查当前是否允许验证，退避期间抛出异常
+ */
+export function assertAttemptAllowed(): void {
+  const delay = getRetryDelay();
+  if (delay > 0) {
+    throw new Error(`尝试次数过多，请在 ${Math.ceil(delay / 1000)} 秒后重试`);
+  }
+}
+
+/**
+ * 记录一次验证失败，返回是否达到清除本地密码库的次数
+ */
+export function recordFailedAttempt(method: UnlockMethod): boolean {
+  const state = loadState();
+  const now = new Date().toISOString();
+
+  state.failedAttempts++;
+  state.lastFailureAt = now;
+  state.pendingFailures = [...state.pendingFailures, { method, at: now }].slice(-MAX_PENDING_FAILURES);
+  saveState(state);
+
+  const { wipeAfterFailures } = state.config;
+  return wipeAfterFailures > 0 && state.failedAttempts >= wipeAfterFailures;
+}
+
+/**
+ * 记录一次成功解锁（会话密钥已安装）
+ * 清零失败次数，并把锁定期间的失败和本次解锁写入加密的解锁记录
+ */
+export function recordUnlock(method: UnlockMethod): UnlockSummary {
+  const state = loadState();
+  const now = new Date().toISOString();
+  const previous = listUnlockJournal().find(e => e.event === 'success');
+
+  transaction(() => {
+    for (const failure of state.pendingFailures) {
+      insertJournalEntry('failure', failure.method, failure.at);
+    }
+    insertJournalEntry('success', method, now);
+
+    // 只保留最近的记录
+    execute(
+      `DELETE FROM unlock_journal WHERE id NOT IN (
+        SELECT id FROM unlock_journal ORDER BY created_at DESC LIMIT ?
+      )`,
+      [MAX_JOURNAL_ENTRIES]
+    );
+  });
+
+  lastSummary = {
+    failedAttempts: state.pendingFailures.length,
+    lastFailureAt: state.lastFailureAt,
+    previousUnlockAt: previous?.createdAt ?? null,
+  };
+
+  saveState({ ...state, failedAttempts: 0, lastFailureAt: null, pendingFailures: [] });
+  return lastSummary;
+}
+
+/**
+ * 写入一条解锁记录
+ */
+function insertJournalEntry(event: UnlockJournalEntry['event'], method: UnlockMethod, createdAt: string): void {
+  execute(
+    'INSERT INTO unlock_journal (id, encrypted_data, created_at) VALUES (?, ?, ?)',
+    [uuidv4(), JSON.stringify(encryptObjectWithSessionKey({ event, method })), createdAt]
+  );
+}
+
+/**
+ * 获取解锁记录（最新的在前）
+ */
+export function listUnlockJournal(): UnlockJournalEntry[] {
+  const rows = query<{ id: string; encrypted_data: string; created_at: string }>(
+    'SELECT id, encrypted_data, created_at FROM unlock_journal ORDER BY created_at DESC'
+  );
+
+  return rows.map(row => {
+    const data = decryptObjectWithSessionKey<{ event: UnlockJournalEntry['event']; method: UnlockMethod }>(
+      JSON.parse(row.encrypted_data)
+    );
+    return { id: row.id, event: data.event, method: data.method, createdAt: row.created_at };
+  });
+}
+
+/**
+ * 获取最近一次解锁时的摘要（上次解锁以来的失败次数）
+ */
+export function getUnlockSummary(): UnlockSummary | null {
+  return lastSummary ? { ...lastSummary } : null;
+}
+
+/**
+ * 获取解锁保护配置
+ */
+export function loadUnlockGuardConfig(): UnlockGuardConfig {
+  return loadState().config;
+}
+
+/**
+ * 更新解锁保护配置
+ */
+export function updateUnlockGuardConfig(updates: Partial<UnlockGuardConfig>): UnlockGuardConfig {
+  const state = loadState();
+  const config = { ...state.config, ...updates };
+
+  config.wipeAfterFailures = Math.max(0, Math.floor(config.wipeAfterFailures));
+  if (config.wipeAfterFailures > 0 && config.wipeAfterFailures < MIN_WIPE_AFTER_FAILURES) {
+    throw new Error(`清除密码库的失败次数不能少于 ${MIN_WIPE_AFTER_FAILURES} 次`);
+  }
+
+  saveState({ ...state, config });
+  return config;
+}
+
+/**
+ * 清除失败次数和暂存的失败记录（密码库被清除或重置后调用），保留配置
+ */
+export function resetUnlockGuard(): void {
+  const state = loadState();
+  saveState({ ...DEFAULT_STATE, config: state.config, pendingFailures: [] });
+  lastSummary = null;
+}
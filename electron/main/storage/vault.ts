@@ -3,107 +3,432 @@
  * 处理密码库的初始化、解锁、锁定和主密码修改
  */
 
-import { execute, query, queryOne, saveDatabase, isVaultInitialized } from './db';
-import { VaultMeta } from './models';
+import {
+  execute,
+  query,
+  queryOne,
+  saveDatabase,
+  transaction,
+  isVaultInitialized,
+  getLockedHeader,
+  openSealedDatabase,
+  setSealKey,
+  lockDatabase,
+  resetDatabaseFile,
+  initDatabase,
+} from './db';
+import { getCurrentVault, setCurrentVault } from './vaults';
+import {
+  assertAttemptAllowed,
+  recordFailedAttempt,
+  recordUnlock,
+  resetUnlockGuard,
+  type UnlockMethod,
+} from './unlock-guard';
+import { VaultMeta, RecoveryKeyStatus, EmergencyKit } from './models';
+import { verifyTotp, verifyRecoveryCode } from '../totp';
+import { getSyncAuthManager } from '../sync/auth';
 import {
   generateSalt,
-  generateVerificationHash,
+  getVerificationHash,
   verifyPassword,
   deriveKey,
   setDerivedKey,
+  getDerivedKey,
   clearDerivedKey,
-  encryptWithSessionKey,
-  decryptWithSessionKey,
+  encrypt,
+  decrypt,
+  generateDataKey,
+  wrapKey,
+  unwrapKey,
+  matchesVerificationHash,
   measureDerivationTime,
+  calibrateKdfParams,
+  readKeyFile,
+  generateRecoveryKey,
+  formatRecoveryKey,
+  splitRecoveryKey,
+  parseRecoveryInput,
+  DEFAULT_TARGET_UNLOCK_MS,
+  MAX_RECOVERY_SHARES,
 } from '../crypto';
 import {
-  getCryptoConfig,
-  saveCryptoConfig,
-  initCryptoConfig,
-  getIterations,
+  getKdfParams,
   needsUpgrade,
   getSecurityInfo,
-  DEFAULT_ITERATIONS,
-  type CryptoConfig,
+  isSameKdfParams,
+  DEFAULT_KDF_PARAMS,
+  LEGACY_ITERATIONS,
+  type KdfAlgorithm,
+  type KdfParams,
   type SecurityInfo,
 } from '../crypto/config';
 
+/**
+ * 解锁结果
+ * - unlocked: 已解锁
+ * - totp-required: 主密码正确，需要输入 TOTP 验证码或恢复码
+ * - invalid: 主密码或验证码错误
+ */
+export type UnlockStatus = 'unlocked' | 'totp-required' | 'invalid';
+
+// 等待二次验证的有效期和验证码最多尝试次数
+const PENDING_UNLOCK_TTL_MS = 5 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * 主密码验证通过后得到的密钥
+ * - dataKey: 数据密钥，作为会话密钥加密条目等数据
+ * - passwordKey: 主密码派生的密钥，用于包装数据密钥和整库加密
+ * 旧版本密码库没有数据密钥，数据直接用主密码派生的密钥加密（legacy）
+ */
+interface UnlockKeys {
+  dataKey: Buffer;
+  passwordKey: Buffer;
+  salt: string;
+  kdf: KdfParams;
+  keyFile: Buffer | null;
+  legacy: boolean;
+}
+
+/**
+ * 主密码已验证、等待二次验证的解锁
+ * 密钥只保存在这里，二次验证通过前不会安装为会话密钥
+ */
+interface PendingUnlock extends UnlockKeys {
+  attempts: number;
+  expiresAt: number;
+}
+
+let pendingUnlock: PendingUnlock | null = null;
+
+// 解锁后保留密钥文件密钥（锁定时清除），修改主密码等操作需要与主密码组合
+let sessionKeyFile: Buffer | null = null;
+
 /**
  * 初始化密码库（首次设置主密码）
+ * @param keyFilePath 密钥文件路径（可选，设置后解锁需要同时提供主密码和密钥文件）
  */
-export function setupVault(masterPassword: string): void {
+export function setupVault(masterPassword: string, keyFilePath?: string): void {
   if (isVaultInitialized()) {
     throw new Error('Vault is already initialized');
   }
 
-  // 初始化加密配置
-  initCryptoConfig();
-  
-  const iterations = getIterations();
+  const keyFile = keyFilePath ? readKeyFile(keyFilePath) : null;
+  const kdf = { ...DEFAULT_KDF_PARAMS };
   const salt = generateSalt();
-  const verificationHash = generateVerificationHash(masterPassword, salt, iterations);
+  const passwordKey = deriveKey(masterPassword, salt, kdf, keyFile);
+  const verificationHash = getVerificationHash(passwordKey);
   const now = new Date().toISOString();
 
+  // 生成随机数据密钥，用主密码派生的密钥包装后保存
+  const dataKey = generateDataKey();
+
   execute(
-    `INSERT INTO vault_meta (id, salt, verification_hash, totp_enabled, created_at, updated_at, version)
-     VALUES (1, ?, ?, 0, ?, ?, 1)`,
-    [salt, verificationHash, now, now]
+    `INSERT INTO vault_meta (id, salt, verification_hash, totp_enabled, wrapped_key, kdf_params, key_file_required,
+       created_at, updated_at, version)
+     VALUES (1, ?, ?, 0, ?, ?, ?, ?, ?, 2)`,
+    [salt, verificationHash, wrapKey(dataKey, passwordKey), JSON.stringify(kdf), keyFile ? 1 : 0, now, now]
   );
 
-  // 派生密钥并保存到内存
-  const key = deriveKey(masterPassword, salt, iterations);
-  setDerivedKey(key, iterations);
+  // 数据密钥保存到内存，数据库文件从此用主密码派生的密钥整库加密
+  setDerivedKey(dataKey);
+  setSealKey(passwordKey, { salt, kdf, keyFile: !!keyFile });
+  sessionKeyFile = keyFile;
+  passwordKey.fill(0);
 }
 
 /**
- * 解锁密码库
+ * 解锁密码库（第一步：验证主密码）
+ * 启用 TOTP 时返回 totp-required，需要调用 verifyUnlockCode 完成解锁
+ * @param keyFilePath 密钥文件路径，密码库设置了密钥文件时必须提供
  */
-export function unlockVault(masterPassword: string): boolean {
+export async function unlockVault(masterPassword: string, keyFilePath?: string): Promise<UnlockStatus> {
+  discardPendingUnlock();
+  assertAttemptAllowed();
+
+  const keyFileRequired = isKeyFileRequired();
+  if (keyFileRequired && !keyFilePath) {
+    throw new Error('请选择密钥文件');
+  }
+  const keyFile = keyFileRequired && keyFilePath ? readKeyFile(keyFilePath) : null;
+  try {
+    const status = await unlockWithCompositeKey(masterPassword, keyFile);
+    if (status === 'invalid') keyFile?.fill(0);
+    return status;
+  } catch (error) {
+    keyFile?.fill(0);
+    throw error;
+  }
+}
+
+/**
+ * 用主密码和密钥文件密钥解锁，成功时密钥文件密钥交给会话保存
+ */
+async function unlockWithCompositeKey(masterPassword: string, keyFile: Buffer | null): Promise<UnlockStatus> {
+  // 整库加密的密码库先用文件头部记录的参数派生密钥解密
+  const lockedHeader = getLockedHeader();
+  let sealedKey: Buffer | null = null;
+  if (lockedHeader) {
+    sealedKey = deriveKey(masterPassword, lockedHeader.salt, lockedHeader.kdf, keyFile);
+    if (!(await openSealedDatabase(sealedKey, lockedHeader))) {
+      sealedKey.fill(0);
+      await handleFailedAttempt('password');
+      return 'invalid';
+    }
+  }
+
   const meta = getVaultMeta();
   if (!meta) {
     throw new Error('Vault is not initialized');
   }
 
-  const iterations = getIterations();
-  
-  // 验证主密码
-  if (verifyPassword(masterPassword, meta.salt, meta.verificationHash, iterations)) {
-    // 派生密钥并保存到内存
-    const key = deriveKey(masterPassword, meta.salt, iterations);
-    setDerivedKey(key, iterations);
-    return true;
+  const kdf = getKdfParams();
+
+  // 验证主密码（头部参数与密码库一致时直接复用解密文件的密钥，避免重复派生）
+  const key = sealedKey && lockedHeader?.salt === meta.salt && isSameKdfParams(lockedHeader.kdf, kdf)
+    ? sealedKey
+    : deriveKey(masterPassword, meta.salt, kdf, keyFile);
+  if (key !== sealedKey) {
+    sealedKey?.fill(0);
+  }
+  if (matchesVerificationHash(key, meta.verificationHash)) {
+    return beginUnlock(meta, key, kdf, keyFile);
   }
+  key.fill(0);
 
   // 兼容处理：之前的 bug 导致升级后 version 没更新
   // 如果当前 version=1 但用 100000 次迭代验证失败，尝试用 600000 次迭代验证
-  if (meta.version === 1) {
-    if (verifyPassword(masterPassword, meta.salt, meta.verificationHash, DEFAULT_ITERATIONS)) {
+  if (meta.version === 1 && kdf.algorithm === 'pbkdf2-sha256' && kdf.iterations === LEGACY_ITERATIONS) {
+    const fixedKdf = { ...DEFAULT_KDF_PARAMS };
+    const fixedKey = deriveKey(masterPassword, meta.salt, fixedKdf, keyFile);
+    if (matchesVerificationHash(fixedKey, meta.verificationHash)) {
       // 验证成功，说明是 bug 导致的 version 不一致，修复它
       execute(
-        'UPDATE vault_meta SET version = 2, updated_at = ? WHERE id = 1',
-        [new Date().toISOString()]
+        'UPDATE vault_meta SET version = 2, kdf_params = ?, updated_at = ? WHERE id = 1',
+        [JSON.stringify(fixedKdf), new Date().toISOString()]
       );
-      
-      // 派生密钥并保存到内存
-      const key = deriveKey(masterPassword, meta.salt, DEFAULT_ITERATIONS);
-      setDerivedKey(key, DEFAULT_ITERATIONS);
-      return true;
+      return beginUnlock(meta, fixedKey, fixedKdf, keyFile);
+    }
+    fixedKey.fill(0);
+  }
+
+  // 已解密但验证失败时重新关闭数据库
+  lockDatabase();
+  await handleFailedAttempt('password');
+  return 'invalid';
+}
+
+/**
+ * 主密码验证通过后：解开数据密钥，未启用 TOTP 直接安装会话密钥，否则等待二次验证
+ */
+function beginUnlock(meta: VaultMeta, passwordKey: Buffer, kdf: KdfParams, keyFile: Buffer | null): UnlockStatus {
+  const keys: UnlockKeys = {
+    dataKey: meta.wrappedKey ? unwrapKey(meta.wrappedKey, passwordKey) : Buffer.from(passwordKey),
+    passwordKey,
+    salt: meta.salt,
+    kdf,
+    keyFile,
+    legacy: !meta.wrappedKey,
+  };
+
+  if (!meta.totpEnabled) {
+    installSessionKey(keys);
+    recordUnlock('password');
+    return 'unlocked';
+  }
+
+  pendingUnlock = {
+    ...keys,
+    attempts: 0,
+    expiresAt: Date.now() + PENDING_UNLOCK_TTL_MS,
+  };
+  return 'totp-required';
+}
+
+/**
+ * 安装会话密钥，尚未整库加密或没有数据密钥的旧密码库在此完成迁移
+ */
+function installSessionKey(keys: UnlockKeys): void {
+  setDerivedKey(keys.dataKey);
+  setSealKey(keys.passwordKey, {
+    salt: keys.salt,
+    kdf: keys.kdf,
+    keyFile: !!keys.keyFile,
+    recovery: getRecoverySlot(keys.dataKey, keys.passwordKey),
+  });
+  sessionKeyFile = keys.keyFile;
+
+  if (keys.legacy) {
+    try {
+      migrateToDataKey(keys.passwordKey).fill(0);
+      // 会话密钥已换成新的数据密钥，旧密钥不再使用
+      keys.dataKey.fill(0);
+    } catch (error) {
+      // 迁移失败时继续使用旧密钥，下次解锁时重试
+      console.error('Failed to migrate vault to a data key:', error);
+    }
+  }
+  keys.passwordKey.fill(0);
+}
+
+/**
+ * 迁移旧版本密码库：生成随机数据密钥，把用主密码派生密钥加密的数据重新加密一次，并保存包装后的数据密钥
+ * 调用前会话密钥为主密码派生的密钥，完成后为新的数据密钥；返回数据密钥的副本
+ */
+function migrateToDataKey(passwordKey: Buffer): Buffer {
+  const dataKey = generateDataKey();
+  const meta = getVaultMeta();
+  if (!meta) {
+    throw new Error('Vault is not initialized');
+  }
+
+  transaction(() => {
+    reencryptTable('password_entries', passwordKey, dataKey);
+    reencryptTable('entry_history', passwordKey, dataKey);
+    reencryptTable('attachments', passwordKey, dataKey);
+    reencryptTable('attachments', passwordKey, dataKey, 'encrypted_meta');
+    reencryptTable('unlock_journal', passwordKey, dataKey);
+    reencryptTable('generator_history', passwordKey, dataKey);
+
+    // TOTP 密钥和恢复码同样用会话密钥加密
+    execute(
+      `UPDATE vault_meta SET totp_secret_encrypted = ?, recovery_codes_encrypted = ?, wrapped_key = ?, updated_at = ?
+       WHERE id = 1`,
+      [
+        reencryptValue(meta.totpSecretEncrypted, passwordKey, dataKey),
+        reencryptValue(meta.recoveryCodesEncrypted, passwordKey, dataKey),
+        wrapKey(dataKey, passwordKey),
+        new Date().toISOString(),
+      ]
+    );
+  });
+
+  // 同步 Cookie 保存在数据库之外
+  getSyncAuthManager().reencryptCookie(passwordKey, dataKey);
+
+  setDerivedKey(dataKey);
+  return Buffer.from(dataKey);
+}
+
+/**
+ * 获取数据密钥（返回副本，用完后由调用方清除）
+ * 解锁时迁移失败的旧密码库在此再次迁移
+ */
+function getDataKey(meta: VaultMeta, passwordKey: Buffer): Buffer {
+  if (meta.wrappedKey) {
+    return unwrapKey(meta.wrappedKey, passwordKey);
+  }
+  return migrateToDataKey(passwordKey);
+}
+
+/**
+ * 解锁密码库（第二步：验证 TOTP 验证码或恢复码）
+ * 没有等待中的解锁、已超时或错误次数过多时抛出异常，需要重新输入主密码
+ */
+export async function verifyUnlockCode(code: string, isRecoveryCode: boolean = false): Promise<UnlockStatus> {
+  const pending = pendingUnlock;
+  if (!pending) {
+    throw new Error('请先输入主密码');
+  }
+  if (Date.now() > pending.expiresAt) {
+    lockVault();
+    throw new Error('验证已超时，请重新输入主密码');
+  }
+  assertAttemptAllowed();
+
+  const method: UnlockMethod = isRecoveryCode ? 'recovery-code' : 'totp';
+  const valid = isRecoveryCode
+    ? verifyRecoveryCode(code, pending.dataKey)
+    : verifyTotp(code, pending.dataKey);
+
+  if (!valid) {
+    await handleFailedAttempt(method);
+    pending.attempts++;
+    if (pending.attempts >= MAX_CODE_ATTEMPTS) {
+      lockVault();
+      throw new Error('验证码错误次数过多，请重新输入主密码');
     }
+    return 'invalid';
   }
 
+  pendingUnlock = null;
+  installSessionKey(pending);
+  recordUnlock(method);
+  return 'unlocked';
+}
+
+/**
+ * 带失败次数限制的验证（主密码、TOTP、恢复码）
+ * 退避期间拒绝验证，失败时计数，达到清除策略的次数时清除本地密码库
+ */
+export async function throttledVerify(method: UnlockMethod, verify: () => boolean): Promise<boolean> {
+  assertAttemptAllowed();
+  if (verify()) {
+    return true;
+  }
+  await handleFailedAttempt(method);
   return false;
 }
 
+/**
+ * 记录一次验证失败，达到清除策略的次数时清除本地密码库并抛出异常
+ */
+async function handleFailedAttempt(method: UnlockMethod): Promise<void> {
+  if (recordFailedAttempt(method)) {
+    await wipeLocalVault();
+    throw new Error('连续验证失败次数过多，本地密码库已被清除');
+  }
+}
+
+/**
+ * 清除当前密码库的本地数据（数据库文件和本地备份）
+ */
+async function wipeLocalVault(): Promise<void> {
+  discardPendingUnlock();
+  clearDerivedKey();
+  await resetDatabaseFile();
+
+  const { deleteLocalBackups } = require('../backup');
+  deleteLocalBackups();
+  resetUnlockGuard();
+}
+
+/**
+ * 是否有等待二次验证的解锁
+ */
+export function isUnlockPending(): boolean {
+  return pendingUnlock !== null && Date.now() <= pendingUnlock.expiresAt;
+}
+
+/**
+ * 丢弃等待二次验证的解锁，清除暂存的密钥
+ */
+function discardPendingUnlock(): void {
+  if (pendingUnlock) {
+    pendingUnlock.dataKey.fill(0);
+    pendingUnlock.passwordKey.fill(0);
+    pendingUnlock.keyFile?.fill(0);
+    pendingUnlock = null;
+  }
+}
+
 /**
  * 锁定密码库
  */
 export function lockVault(): void {
+  // 取消等待中的二次验证，写入尚未落盘的修改，整库加密时关闭数据库
+  discardPendingUnlock();
+  lockDatabase();
   clearDerivedKey();
+  sessionKeyFile?.fill(0);
+  sessionKeyFile = null;
 }
 
 
 /**
  * 修改主密码
+ * 只需用新主密码派生的密钥重新包装数据密钥，条目、TOTP 密钥等数据无需重新加密
  */
 export function changeMasterPassword(oldPassword: string, newPassword: string): void {
   const meta = getVaultMeta();
@@ -111,59 +436,63 @@ export function changeMasterPassword(oldPassword: string, newPassword: string):
     throw new Error('Vault is not initialized');
   }
 
-  const iterations = getIterations();
+  const kdf = getKdfParams();
 
   // 验证旧密码
-  if (!verifyPassword(oldPassword, meta.salt, meta.verificationHash, iterations)) {
+  const oldKey = deriveKey(oldPassword, meta.salt, kdf, sessionKeyFile);
+  if (!matchesVerificationHash(oldKey, meta.verificationHash)) {
+    oldKey.fill(0);
     throw new Error('Invalid current password');
   }
 
   // 生成新的盐值和验证哈希
   const newSalt = generateSalt();
-  const newVerificationHash = generateVerificationHash(newPassword, newSalt, iterations);
+  const newKey = deriveKey(newPassword, newSalt, kdf, sessionKeyFile);
+  const newVerificationHash = getVerificationHash(newKey);
   const now = new Date().toISOString();
 
-  // 获取旧密钥
-  const oldKey = deriveKey(oldPassword, meta.salt, iterations);
-  setDerivedKey(oldKey, iterations);
-
-  // 重新加密所有密码条目
-  const entries = query<{ id: string; encrypted_data: string }>(
-    'SELECT id, encrypted_data FROM password_entries'
-  );
+  const dataKey = getDataKey(meta, oldKey);
 
-  // 派生新密钥
-  const newKey = deriveKey(newPassword, newSalt, iterations);
-
-  for (const entry of entries) {
-    // 用旧密钥解密
-    const encryptedData = JSON.parse(entry.encrypted_data);
-    const decrypted = decryptWithSessionKey(encryptedData);
-
-    // 切换到新密钥
-    setDerivedKey(newKey, iterations);
-
-    // 用新密钥加密
-    const newEncrypted = encryptWithSessionKey(decrypted);
-
-    // 更新数据库
+  try {
     execute(
-      'UPDATE password_entries SET encrypted_data = ? WHERE id = ?',
-      [JSON.stringify(newEncrypted), entry.id]
+      `UPDATE vault_meta SET salt = ?, verification_hash = ?, wrapped_key = ?, updated_at = ? WHERE id = 1`,
+      [newSalt, newVerificationHash, wrapKey(dataKey, newKey), now]
     );
-
-    // 切回旧密钥继续处理下一条
-    setDerivedKey(oldKey, iterations);
+    setSealKey(newKey, { salt: newSalt, kdf, keyFile: !!sessionKeyFile, recovery: getRecoverySlot(dataKey, newKey) });
+  } finally {
+    oldKey.fill(0);
+    dataKey.fill(0);
+    newKey.fill(0);
   }
+}
 
-  // 更新密码库元数据
-  execute(
-    `UPDATE vault_meta SET salt = ?, verification_hash = ?, updated_at = ? WHERE id = 1`,
-    [newSalt, newVerificationHash, now]
+/**
+ * 用新密钥重新加密表中的加密列（默认 encrypted_data）
+ */
+function reencryptTable(
+  table: 'password_entries' | 'entry_history' | 'attachments' | 'unlock_journal' | 'generator_history',
+  oldKey: Buffer,
+  newKey: Buffer,
+  column: 'encrypted_data' | 'encrypted_meta' = 'encrypted_data'
+): void {
+  const rows = query<{ id: string; value: string }>(
+    `SELECT id, ${column} AS value FROM ${table}`
   );
 
-  // 设置新密钥
-  setDerivedKey(newKey, iterations);
+  for (const row of rows) {
+    execute(
+      `UPDATE ${table} SET ${column} = ? WHERE id = ?`,
+      [reencryptValue(row.value, oldKey, newKey), row.id]
+    );
+  }
+}
+
+/**
+ * 用新密钥重新加密单个字段（JSON 格式的 EncryptedData），空值原样返回
+ */
+function reencryptValue(value: string | undefined, oldKey: Buffer, newKey: Buffer): string | null {
+  if (!value) return null;
+  return JSON.stringify(encrypt(decrypt(JSON.parse(value), oldKey), newKey));
 }
 
 /**
@@ -176,6 +505,11 @@ export function getVaultMeta(): VaultMeta | null {
     totp_enabled: number;
     totp_secret_encrypted: string | null;
     recovery_codes_encrypted: string | null;
+    wrapped_key: string | null;
+    key_file_required: number;
+    recovery_key_encrypted: string | null;
+    recovery_wrapped_key: string | null;
+    recovery_created_at: string | null;
     created_at: string;
     updated_at: string;
     version: number;
@@ -189,6 +523,11 @@ export function getVaultMeta(): VaultMeta | null {
     totpEnabled: row.totp_enabled === 1,
     totpSecretEncrypted: row.totp_secret_encrypted || undefined,
     recoveryCodesEncrypted: row.recovery_codes_encrypted || undefined,
+    wrappedKey: row.wrapped_key || undefined,
+    keyFileRequired: row.key_file_required === 1,
+    recoveryKeyEncrypted: row.recovery_key_encrypted || undefined,
+    recoveryWrappedKey: row.recovery_wrapped_key || undefined,
+    recoveryCreatedAt: row.recovery_created_at || undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     version: row.version,
@@ -214,15 +553,17 @@ export function updateTotpSettings(
 
 
 /**
- * 验证主密码是否正确
+ * 验证主密码是否正确（计入失败次数）
  */
-export function verifyMasterPassword(password: string): boolean {
+export async function verifyMasterPassword(password: string): Promise<boolean> {
   const meta = getVaultMeta();
   if (!meta) {
     return false;
   }
-  const iterations = getIterations();
-  return verifyPassword(password, meta.salt, meta.verificationHash, iterations);
+  const kdf = getKdfParams();
+  return throttledVerify('password', () =>
+    verifyPassword(password, meta.salt, meta.verificationHash, kdf, sessionKeyFile)
+  );
 }
 
 /**
@@ -230,7 +571,7 @@ export function verifyMasterPassword(password: string): boolean {
  */
 export function getVaultSecurityInfo(): SecurityInfo & { derivationTimeMs: number } {
   const info = getSecurityInfo();
-  const derivationTimeMs = measureDerivationTime(info.iterations);
+  const derivationTimeMs = measureDerivationTime(info.kdf);
   return { ...info, derivationTimeMs };
 }
 
@@ -242,67 +583,308 @@ export function checkSecurityUpgrade(): boolean {
 }
 
 /**
- * 升级安全参数（增加迭代次数）
+ * 调整密钥派生参数（切换算法或按目标解锁耗时重新校准）
+ * 与修改主密码相同，只重新包装数据密钥
+ * @param options.algorithm 算法（默认沿用当前算法）
+ * @param options.targetMs 目标解锁耗时（毫秒）
+ * @returns 新的密钥派生参数
  */
-export function upgradeSecurityParams(masterPassword: string, newIterations: number = DEFAULT_ITERATIONS): void {
+export function upgradeSecurityParams(
+  masterPassword: string,
+  options: { algorithm?: KdfAlgorithm; targetMs?: number } = {}
+): KdfParams {
   const meta = getVaultMeta();
   if (!meta) {
     throw new Error('Vault is not initialized');
   }
 
-  const oldIterations = getIterations();
+  const oldKdf = getKdfParams();
 
-  // 验证主密码（使用旧迭代次数）
-  if (!verifyPassword(masterPassword, meta.salt, meta.verificationHash, oldIterations)) {
+  // 验证主密码（使用旧参数）
+  const oldKey = deriveKey(masterPassword, meta.salt, oldKdf, sessionKeyFile);
+  if (!matchesVerificationHash(oldKey, meta.verificationHash)) {
+    oldKey.fill(0);
     throw new Error('主密码错误');
   }
 
-  // 生成新的盐值和验证哈希（使用新迭代次数）
+  const newKdf = calibrateKdfParams(options.algorithm ?? oldKdf.algorithm, options.targetMs ?? DEFAULT_TARGET_UNLOCK_MS);
+
+  // 生成新的盐值和验证哈希（使用新参数）
   const newSalt = generateSalt();
-  const newVerificationHash = generateVerificationHash(masterPassword, newSalt, newIterations);
+  const newKey = deriveKey(masterPassword, newSalt, newKdf, sessionKeyFile);
+  const newVerificationHash = getVerificationHash(newKey);
   const now = new Date().toISOString();
 
-  // 获取旧密钥
-  const oldKey = deriveKey(masterPassword, meta.salt, oldIterations);
-  setDerivedKey(oldKey, oldIterations);
+  const dataKey = getDataKey(meta, oldKey);
 
-  // 重新加密所有密码条目
-  const entries = query<{ id: string; encrypted_data: string }>(
-    'SELECT id, encrypted_data FROM password_entries'
-  );
+  try {
+    // version 保持为 2，旧版本代码不会再按 100,000 次迭代解锁
+    execute(
+      `UPDATE vault_meta SET salt = ?, verification_hash = ?, wrapped_key = ?, kdf_params = ?, version = 2, updated_at = ?
+       WHERE id = 1`,
+      [newSalt, newVerificationHash, wrapKey(dataKey, newKey), JSON.stringify(newKdf), now]
+    );
+    setSealKey(newKey, {
+      salt: newSalt,
+      kdf: newKdf,
+      keyFile: !!sessionKeyFile,
+      recovery: getRecoverySlot(dataKey, newKey),
+    });
+  } finally {
+    oldKey.fill(0);
+    dataKey.fill(0);
+    newKey.fill(0);
+  }
+  return newKdf;
+}
 
-  // 派生新密钥
-  const newKey = deriveKey(masterPassword, newSalt, newIterations);
+/**
+ * 当前密码库解锁是否需要密钥文件（锁定时从加密文件头部读取）
+ */
+export function isKeyFileRequired(): boolean {
+  const lockedHeader = getLockedHeader();
+  if (lockedHeader) {
+    return !!lockedHeader.keyFile;
+  }
+  return getVaultMeta()?.keyFileRequired ?? false;
+}
 
-  for (const entry of entries) {
-    // 用旧密钥解密
-    const encryptedData = JSON.parse(entry.encrypted_data);
-    const decrypted = decryptWithSessionKey(encryptedData);
+/**
+ * 设置、更换或移除密钥文件
+ * 与修改主密码相同，只重新包装数据密钥，条目等数据无需重新加密
+ * @param keyFilePath 新密钥文件路径，为 null 时移除密钥文件
+ */
+export function setKeyFile(masterPassword: string, keyFilePath: string | null): void {
+  const meta = getVaultMeta();
+  if (!meta) {
+    throw new Error('Vault is not initialized');
+  }
 
-    // 切换到新密钥
-    setDerivedKey(newKey, newIterations);
+  const kdf = getKdfParams();
+  const oldKey = deriveKey(masterPassword, meta.salt, kdf, sessionKeyFile);
+  if (!matchesVerificationHash(oldKey, meta.verificationHash)) {
+    oldKey.fill(0);
+    throw new Error('主密码错误');
+  }
 
-    // 用新密钥加密
-    const newEncrypted = encryptWithSessionKey(decrypted);
+  let keyFile: Buffer | null = null;
+  let dataKey: Buffer | null = null;
+  let newKey: Buffer | null = null;
+  try {
+    keyFile = keyFilePath ? readKeyFile(keyFilePath) : null;
+    dataKey = getDataKey(meta, oldKey);
 
-    // 更新数据库
+    const newSalt = generateSalt();
+    newKey = deriveKey(masterPassword, newSalt, kdf, keyFile);
     execute(
-      'UPDATE password_entries SET encrypted_data = ? WHERE id = ?',
-      [JSON.stringify(newEncrypted), entry.id]
+      `UPDATE vault_meta SET salt = ?, verification_hash = ?, wrapped_key = ?, key_file_required = ?, updated_at = ?
+       WHERE id = 1`,
+      [newSalt, getVerificationHash(newKey), wrapKey(dataKey, newKey), keyFile ? 1 : 0, new Date().toISOString()]
     );
+    setSealKey(newKey, { salt: newSalt, kdf, keyFile: !!keyFile, recovery: getRecoverySlot(dataKey, newKey) });
+
+    sessionKeyFile?.fill(0);
+    sessionKeyFile = keyFile;
+    keyFile = null;
+  } finally {
+    oldKey.fill(0);
+    dataKey?.fill(0);
+    newKey?.fill(0);
+    keyFile?.fill(0);
+  }
+}
+
+/**
+ * 恢复密钥包装的主密码派生密钥（写入整库加密文件头部），未设置恢复密钥时返回 undefined
+ * 保存的包装与当前主密码派生的密钥不一致时（修改主密码、调整参数等之后）重新包装并保存
+ */
+function getRecoverySlot(dataKey: Buffer, passwordKey: Buffer): string | undefined {
+  const meta = getVaultMeta();
+  if (!meta?.recoveryKeyEncrypted) return undefined;
 
-    // 切回旧密钥继续处理下一条
-    setDerivedKey(oldKey, oldIterations);
+  let recoveryKey: Buffer | null = null;
+  try {
+    recoveryKey = Buffer.from(decrypt(JSON.parse(meta.recoveryKeyEncrypted), dataKey), 'base64');
+    if (meta.recoveryWrappedKey && isWrappedKey(meta.recoveryWrappedKey, recoveryKey, passwordKey)) {
+      return meta.recoveryWrappedKey;
+    }
+    const recoveryWrappedKey = wrapKey(passwordKey, recoveryKey);
+    execute('UPDATE vault_meta SET recovery_wrapped_key = ? WHERE id = 1', [recoveryWrappedKey]);
+    return recoveryWrappedKey;
+  } catch (error) {
+    // 恢复密钥不可用时不影响解锁，头部不再包含恢复信息
+    console.error('Failed to update recovery key:', error);
+    return undefined;
+  } finally {
+    recoveryKey?.fill(0);
   }
+}
 
-  // 更新密码库元数据（包括 version 字段，这是关键！）
-  execute(
-    `UPDATE vault_meta SET salt = ?, verification_hash = ?, version = 2, updated_at = ? WHERE id = 1`,
-    [newSalt, newVerificationHash, now]
-  );
+/**
+ * 检查包装的密钥能否用指定密钥解开并得到预期的密钥
+ */
+function isWrappedKey(wrappedKey: string, wrappingKey: Buffer, expected: Buffer): boolean {
+  try {
+    const key = unwrapKey(wrappedKey, wrappingKey);
+    const matched = key.equals(expected);
+    key.fill(0);
+    return matched;
+  } catch {
+    return false;
+  }
+}
 
-  // 设置新密钥
-  setDerivedKey(newKey, newIterations);
+/**
+ * 恢复密钥状态（锁定时从加密文件头部读取）
+ */
+export function getRecoveryKeyStatus(): RecoveryKeyStatus {
+  const lockedHeader = getLockedHeader();
+  if (lockedHeader) {
+    return { enabled: !!lockedHeader.recovery, createdAt: null };
+  }
+  const meta = getVaultMeta();
+  return { enabled: !!meta?.recoveryKeyEncrypted, createdAt: meta?.recoveryCreatedAt ?? null };
+}
+
+/**
+ * 生成恢复密钥（已有时替换，旧的恢复密钥和份额随即失效）
+ * @param options.shares 拆分的份数，默认不拆分
+ * @param options.threshold 还原所需的份数（拆分时默认 2）
+ * @returns 应急包内容，只在此时返回一次，之后无法再次查看
+ */
+export function createRecoveryKey(
+  masterPassword: string,
+  options: { shares?: number; threshold?: number } = {}
+): EmergencyKit {
+  const meta = getVaultMeta();
+  if (!meta) {
+    throw new Error('Vault is not initialized');
+  }
+
+  const shares = options.shares ?? 1;
+  const threshold = shares > 1 ? options.threshold ?? 2 : 1;
+  if (!Number.isInteger(shares) || !Number.isInteger(threshold) || shares < 1 || shares > MAX_RECOVERY_SHARES ||
+    (shares > 1 && (threshold < 2 || threshold > shares))) {
+    throw new Error('份数设置无效');
+  }
+
+  const kdf = getKdfParams();
+  const passwordKey = deriveKey(masterPassword, meta.salt, kdf, sessionKeyFile);
+  if (!matchesVerificationHash(passwordKey, meta.verificationHash)) {
+    passwordKey.fill(0);
+    throw new Error('主密码错误');
+  }
+
+  const recoveryKey = generateRecoveryKey();
+  let dataKey: Buffer | null = null;
+  try {
+    dataKey = getDataKey(meta, passwordKey);
+    const codes = shares > 1 ? splitRecoveryKey(recoveryKey, threshold, shares) : [formatRecoveryKey(recoveryKey)];
+    const recoveryWrappedKey = wrapKey(passwordKey, recoveryKey);
+    const now = new Date().toISOString();
+
+    execute(
+      `UPDATE vault_meta SET recovery_key_encrypted = ?, recovery_wrapped_key = ?, recovery_created_at = ?, updated_at = ?
+       WHERE id = 1`,
+      [JSON.stringify(encrypt(recoveryKey.toString('base64'), dataKey)), recoveryWrappedKey, now, now]
+    );
+    setSealKey(passwordKey, { salt: meta.salt, kdf, keyFile: !!sessionKeyFile, recovery: recoveryWrappedKey });
+
+    return { vaultName: getCurrentVault().name, createdAt: now, threshold, codes };
+  } finally {
+    passwordKey.fill(0);
+    recoveryKey.fill(0);
+    dataKey?.fill(0);
+  }
+}
+
+/**
+ * 移除恢复密钥
+ */
+export function removeRecoveryKey(masterPassword: string): void {
+  const meta = getVaultMeta();
+  if (!meta) {
+    throw new Error('Vault is not initialized');
+  }
+
+  const kdf = getKdfParams();
+  const passwordKey = deriveKey(masterPassword, meta.salt, kdf, sessionKeyFile);
+  try {
+    if (!matchesVerificationHash(passwordKey, meta.verificationHash)) {
+      throw new Error('主密码错误');
+    }
+    execute(
+      `UPDATE vault_meta SET recovery_key_encrypted = NULL, recovery_wrapped_key = NULL, recovery_created_at = NULL,
+       updated_at = ? WHERE id = 1`,
+      [new Date().toISOString()]
+    );
+    setSealKey(passwordKey, { salt: meta.salt, kdf, keyFile: !!sessionKeyFile });
+  } finally {
+    passwordKey.fill(0);
+  }
+}
+
+/**
+ * 忘记主密码时用恢复密钥（或达到份数的恢复份额）解锁并设置新的主密码
+ * 恢复密钥保持不变；密钥文件随之移除，已启用的 TOTP 在恢复时不需要验证
+ */
+export async function recoverVault(codes: string[], newPassword: string): Promise<void> {
+  discardPendingUnlock();
+  assertAttemptAllowed();
+
+  const lockedHeader = getLockedHeader();
+  if (!lockedHeader?.recovery) {
+    throw new Error('当前密码库未设置恢复密钥');
+  }
+
+  const recoveryKey = parseRecoveryInput(codes);
+  let passwordKey: Buffer;
+  try {
+    passwordKey = unwrapKey(lockedHeader.recovery, recoveryKey);
+  } catch {
+    recoveryKey.fill(0);
+    await handleFailedAttempt('recovery-key');
+    throw new Error('恢复密钥错误');
+  }
+
+  let dataKey: Buffer | null = null;
+  let newKey: Buffer | null = null;
+  try {
+    if (!(await openSealedDatabase(passwordKey, lockedHeader))) {
+      throw new Error('恢复密钥与密码库不匹配');
+    }
+    const meta = getVaultMeta();
+    if (!meta) {
+      throw new Error('Vault is not initialized');
+    }
+
+    dataKey = getDataKey(meta, passwordKey);
+    const kdf = getKdfParams();
+    const newSalt = generateSalt();
+    newKey = deriveKey(newPassword, newSalt, kdf);
+    const recoveryWrappedKey = wrapKey(newKey, recoveryKey);
+
+    execute(
+      `UPDATE vault_meta SET salt = ?, verification_hash = ?, wrapped_key = ?, key_file_required = 0,
+       recovery_wrapped_key = ?, updated_at = ? WHERE id = 1`,
+      [newSalt, getVerificationHash(newKey), wrapKey(dataKey, newKey), recoveryWrappedKey, new Date().toISOString()]
+    );
+
+    // 数据密钥交给会话保存
+    setDerivedKey(dataKey);
+    dataKey = null;
+    setSealKey(newKey, { salt: newSalt, kdf, recovery: recoveryWrappedKey });
+    sessionKeyFile = null;
+    recordUnlock('recovery-key');
+  } catch (error) {
+    lockVault();
+    throw error;
+  } finally {
+    passwordKey.fill(0);
+    recoveryKey.fill(0);
+    dataKey?.fill(0);
+    newKey?.fill(0);
+  }
 }
 
 /**
@@ -311,7 +893,7 @@ export function upgradeSecurityParams(masterPassword: string, newIterations: num
  */
 export async function destroyVault(masterPassword: string): Promise<string> {
   // 验证主密码
-  if (!verifyMasterPassword(masterPassword)) {
+  if (!(await verifyMasterPassword(masterPassword))) {
     throw new Error('主密码错误');
   }
 
@@ -320,48 +902,70 @@ export async function destroyVault(masterPassword: string): Promise<string> {
   const backup = await createBackup('manual');
   const backupPath = backup.filePath || backup.path;
 
-  // 清除所有数据
-  execute('DELETE FROM entry_tags');
-  execute('DELETE FROM password_entries');
-  execute('DELETE FROM categories WHERE is_default = 0');
-  execute('DELETE FROM tags');
-  execute('DELETE FROM backups');
-  
-  // 重置 vault_meta（保留结构但清除 TOTP）
-  execute(`
-    UPDATE vault_meta 
-    SET totp_enabled = 0, 
-        totp_secret_encrypted = NULL, 
-        recovery_codes_encrypted = NULL,
-        updated_at = ?
-    WHERE id = 1
-  `, [new Date().toISOString()]);
+  transaction(() => {
+    // 清除所有数据
+    execute('DELETE FROM entry_tags');
+    execute('DELETE FROM entry_history');
+    execute('DELETE FROM attachments');
+    execute('DELETE FROM generator_history');
+    execute('DELETE FROM unlock_journal');
+    execute('DELETE FROM password_entries');
+    execute('DELETE FROM categories WHERE is_default = 0');
+    execute('DELETE FROM tags');
+    execute('DELETE FROM backups');
+    // 规则的适用域名会暴露用户有账号的网站：删除自建规则，清空预置规则的域名
+    execute("DELETE FROM password_policies WHERE id NOT LIKE 'preset-%'");
+    execute("UPDATE password_policies SET domains = '[]'");
+
+    // 重置 vault_meta（保留结构但清除 TOTP）
+    execute(`
+      UPDATE vault_meta 
+      SET totp_enabled = 0, 
+          totp_secret_encrypted = NULL, 
+          recovery_codes_encrypted = NULL,
+          updated_at = ?
+      WHERE id = 1
+    `, [new Date().toISOString()]);
+  });
 
   // 保存数据库
   saveDatabase();
+  resetUnlockGuard();
 
   // 锁定密码库
-  clearDerivedKey();
+  lockVault();
 
   return backupPath;
 }
 
 /**
  * 完全重置密码库（不需要密码验证，用于忘记密码的情况）
- * 删除所有数据，允许重新设置主密码
+ * 删除密码库文件，允许重新设置主密码
  */
-export function resetVault(): void {
-  // 清除所有数据
-  execute('DELETE FROM entry_tags');
-  execute('DELETE FROM password_entries');
-  execute('DELETE FROM categories WHERE is_default = 0');
-  execute('DELETE FROM tags');
-  execute('DELETE FROM backups');
-  execute('DELETE FROM vault_meta');
-
-  // 保存数据库
-  saveDatabase();
+export async function resetVault(): Promise<void> {
+  // 整库加密的文件无法在不解密的情况下清空，直接删除后重新创建
+  await resetDatabaseFile();
+  resetUnlockGuard();
 
   // 锁定密码库
   clearDerivedKey();
 }
+
+/**
+ * 切换到其他密码库：锁定并关闭当前密码库，打开目标密码库后需要重新解锁
+ * 目标密码库无法打开时切回原来的密码库
+ */
+export async function switchVault(id: string): Promise<void> {
+  const previousId = getCurrentVault().id;
+  if (id === previousId) return;
+
+  lockVault();
+  setCurrentVault(id);
+  try {
+    await initDatabase();
+  } catch (error) {
+    setCurrentVault(previousId);
+    await initDatabase();
+    throw error;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * 多密码库管理
+ * 记录所有密码库和当前打开的密码库，每个密码库的数据库、备份和同步配置保存在各自的目录中
+ * 默认密码库沿用数据目录根目录，兼容只有一个密码库的旧版本
+ */
+
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface VaultInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  autoLockMinutes: number;  // 自动锁定时间（分钟），0 表示不自动锁定
+}
+
+export interface VaultList {
+  vaults: VaultInfo[];
+  currentId: string;
+}
+
+// 配置文件名
+const REGISTRY_FILE = 'vaults.json';
+
+// 默认密码库 ID（数据位于数据目录根目录）
+export const DEFAULT_VAULT_ID = 'default';
+
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+const MAX_NAME_LENGTH = 30;
+
+let registry: VaultList | null = null;
+
+/**
+ * 获取配置文件路径
+ */
+function getRegistryPath(): string {
+  return path.join(app.getPath('userData'), REGISTRY_FILE);
+}
+
+/**
+ * 加载密码库列表（首次调用时从文件读取）
+ */
+function loadRegistry(): VaultList {
+  if (registry) return registry;
+
+  let saved: Partial<VaultList> = {};
+  try {
+    const filePath = getRegistryPath();
+    if (fs.existsSync(filePath)) {
+      saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    }
+  } catch (error) {
+    console.error('Failed to load vault registry:', error);
+  }
+
+  const vaults = Array.isArray(saved.vaults) ? saved.vaults : [];
+  if (!vaults.some(v => v.id === DEFAULT_VAULT_ID)) {
+    vaults.unshift({
+      id: DEFAULT_VAULT_ID,
+      name: '默认密码库',
+      createdAt: new Date().toISOString(),
+      autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+    });
+  }
+
+  const currentId = vaults.some(v => v.id === saved.currentId) ? saved.currentId! : DEFAULT_VAULT_ID;
+  registry = { vaults, currentId };
+  return registry;
+}
+
+/**
+ * 保存密码库列表
+ */
+function saveRegistry(): void {
+  fs.writeFileSync(getRegistryPath(), JSON.stringify(loadRegistry(), null, 2), 'utf8');
+}
+
+/**
+ * 查找密码库，不存在时抛出异常
+ */
+function findVault(id: string): VaultInfo {
+  const vault = loadRegistry().vaults.find(v => v.id === id);
+  if (!vault) {
+    throw new Error('密码库不存在');
+  }
+  return vault;
+}
+
+/**
+ * 检查并规范化密码库名称
+ */
+function normalizeName(name: string, excludeId?: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('请输入密码库名称');
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new Error(`密码库名称不能超过 ${MAX_NAME_LENGTH} 个字符`);
+  }
+  const duplicate = loadRegistry().vaults.some(
+    v => v.id !== excludeId && v.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (duplicate) {
+    throw new Error('已存在同名的密码库');
+  }
+  return trimmed;
+}
+
+/**
+ * 获取所有密码库和当前密码库 ID
+ */
+export function listVaults(): VaultList {
+  const { vaults, currentId } = loadRegistry();
+  return { vaults: vaults.map(v => ({ ...v })), currentId };
+}
+
+/**
+ * 获取当前打开的密码库
+ */
+export function getCurrentVault(): VaultInfo {
+  return { ...findVault(loadRegistry().currentId) };
+}
+
+/**
+ * 获取密码库的数据目录（数据库、备份、同步配置）
+ */
+export function getVaultDataDir(id: string = loadRegistry().currentId): string {
+  const userDataPath = app.getPath('userData');
+  return id === DEFAULT_VAULT_ID ? userDataPath : path.join(userDataPath, 'vaults', id);
+}
+
+/**
+ * 新建密码库（只登记和创建目录，主密码在切换后设置）
+ */
+export function createVault(name: string): VaultInfo {
+  const vault: VaultInfo = {
+    id: uuidv4(),
+    name: normalizeName(name),
+    createdAt: new Date().toISOString(),
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+  };
+
+  fs.mkdirSync(getVaultDataDir(vault.id), { recursive: true });
+  loadRegistry().vaults.push(vault);
+  saveRegistry();
+  return { ...vault };
+}
+
+/**
+ * 重命名密码库
+ */
+export function renameVault(id: string, name: string): VaultInfo {
+  const vault = findVault(id);
+  vault.name = normalizeName(name, id);
+  saveRegistry();
+  return { ...vault };
+}
+
+/**
+ * 删除密码库及其全部数据（当前打开的密码库和默认密码库不能删除）
+ */
+export function removeVault(id: string): void {
+  findVault(id);
+  if (id === DEFAULT_VAULT_ID) {
+    throw new Error('默认密码库不能删除');
+  }
+  if (id === loadRegistry().currentId) {
+    throw new Error('不能删除当前打开的密码库，请先切换到其他密码库');
+  }
+
+  fs.rmSync(getVaultDataDir(id), { recursive: true, force: true });
+  const list = loadRegistry();
+  list.vaults = list.vaults.filter(v => v.id !== id);
+  saveRegistry();
+}
+
+/**
+ * 设置当前密码库（调用方负责关闭之前的数据库）
+ */
+export function setCurrentVault(id: string): void {
+  findVault(id);
+  loadRegistry().currentId = id;
+  saveRegistry();
+}
+
+/**
+ * 设置当前密码库的自动锁定时间
+ */
+export function setCurrentAutoLock(minutes: number): void {
+  const vault = findVault(loadRegistry().currentId);
+  vault.autoLockMinutes = Math.max(0, Math.floor(minutes));
+  saveRegistry();
+}
@@ -0,0 +1,128 @@
+/**
+ * 密码强度估算使用的词典，每个列表按常见程度排序，排名越靠前越容易被猜到
+ * 列表只收录常见条目，用于识别模式而不是穷举
+ */
+
+export type DictionaryName = 'passwords' | 'english' | 'names' | 'pinyin' | 'user-inputs';
+
+// 常见密码（含国内常见的数字和拼音密码）
+const PASSWORDS = `
+123456 123456789 password 12345678 111111 qwerty 1234567 12345 1234567890 000000
+123123 abc123 a123456 5201314 666666 888888 password1 iloveyou 123321 654321
+woaini 1qaz2wsx qwerty123 admin 112233 woaini1314 aa123456 qq123456 123qwe 1q2w3e4r
+7758521 dragon monkey letmein 121212 147258 159357 147258369 987654321 qazwsx
+1314520 520520 521521 11111111 88888888 00000000 123654 admin123 password123 welcome
+sunshine princess football baseball master shadow michael superman batman trustno1
+abcd1234 a12345678 zxcvbnm asdfghjkl qwertyuiop 1qazxsw2 zaq12wsx q1w2e3r4 asd123 zxc123
+wang123 li123456 zhang123 liu123 chen123 woaini520 iloveyou1 loveyou love123 aini1314
+hello hello123 nihao nihao123 123abc abc12345 test test123 root guest login
+passw0rd p@ssw0rd p@ssword pa55word mima mima123 wodemima 19900101 19880808 20080808
+qwe123 qweasd qweasdzxc 1a2b3c 7777777 999999 555555 222222 333333 444444
+caonima asdasd zxczxc qaz123 wsx123 123asd 123zxc 1234qwer qwer1234 q123456
+dearbook xiaoming xiaohong baobao laopo laogong beijing shanghai china chinese
+`;
+
+// 常见英文单词
+const ENGLISH = `
+love you the and for with this that from have what your will there about which when
+make like time just know take people year good some could them other than then now
+look only come over think also back after work first well way even want because any
+these give day most us life world house home family friend school money music happy
+summer winter spring autumn monday sunday january july october december morning night
+star sun moon sky blue red green black white orange yellow purple pink silver gold
+dog cat tiger lion bear wolf eagle horse monkey dragon rabbit snake mouse fish bird
+apple banana cherry lemon mango peach coffee chocolate cookie candy sugar honey pizza
+angel devil heaven hell god jesus lucky magic secret dream hope faith peace power king
+queen prince princess lady baby girl boy man woman mother father sister brother
+computer internet google facebook apple windows game player soccer football basketball
+hockey tennis golf guitar piano rock metal jazz dance party movie video photo picture
+welcome hello password login admin user test letter number word phone mobile email
+freedom forever together sweet heart honey darling kitty puppy flower rose lily daisy
+winner champion hunter killer ninja pirate soldier warrior knight master shadow ghost
+spider thunder storm fire water earth wind ice snow rain cloud ocean river mountain
+`;
+
+// 常见英文名和拼音姓氏
+const NAMES = `
+wang li zhang liu chen yang huang zhao wu zhou xu sun ma zhu hu guo he lin gao luo
+zheng liang xie song tang han feng deng cao peng zeng xiao tian dong pan yuan cai
+jiang yu du ye cheng wei su lu ding ren shen yao jin fu zhong cui tan fan shi qian
+michael james john robert david william richard joseph thomas charles daniel matthew
+mary patricia jennifer linda elizabeth susan jessica sarah karen nancy lisa betty
+emma olivia sophia ava isabella mia amelia harper jack harry george oliver noah leo
+anna maria alex chris mike tom tony kevin jason eric andy peter paul mark steven
+lucy lily amy helen grace alice jenny cindy vivian coco tina sandy kelly nicole
+`;
+
+// 常见拼音词语和名字
+const PINYIN = `
+woaini aini nihao wode mima baobao laopo laogong qinai xiaoming xiaohong xiaoli
+zhangwei wangwei wangfang liwei lina zhangmin lijing wangjing liqiang wanglei
+xiaobao xiaobai xiaomi xiaoyu xiaoxiao tiantian kuaile xingfu pingan jiayou
+zhongguo beijing shanghai guangzhou shenzhen hangzhou nanjing wuhan chengdu
+yiqi yongyuan yisheng yishi shengri haoren aiqing tiankong taiyang yueliang
+meimei gege jiejie didi mama baba yeye nainai pengyou xuesheng laoshi
+`;
+
+function toRankedMap(words: string): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const word of words.split(/\s+/)) {
+    if (word && !map.has(word)) {
+      map.set(word, map.size + 1);
+    }
+  }
+  return map;
+}
+
+export const DICTIONARIES: Record<Exclude<DictionaryName, 'user-inputs'>, Map<string, number>> = {
+  passwords: toRankedMap(PASSWORDS),
+  english: toRankedMap(ENGLISH),
+  names: toRankedMap(NAMES),
+  pinyin: toRankedMap(PINYIN),
+};
+
+// 全部拼音音节，用于识别词典之外的拼音组合
+export const PINYIN_SYLLABLES: ReadonlySet<string> = new Set(`
+a ai an ang ao ba bai ban bang bao bei ben beng bi bian biao bie bin bing bo bu
+ca cai can cang cao ce cen ceng cha chai chan chang chao che chen cheng chi chong
+chou chu chua chuai chuan chuang chui chun chuo ci cong cou cu cuan cui cun cuo
+da dai dan dang dao de dei den deng di dia dian diao die ding diu dong dou du duan
+dui dun duo e ei en eng er fa fan fang fei fen feng fo fou fu ga gai gan gang gao
+ge gei gen geng gong gou gu gua guai guan guang gui gun guo ha hai han hang hao he
+hei hen heng hong hou hu hua huai huan huang hui hun huo ji jia jian jiang jiao jie
+jin jing jiong jiu ju juan jue jun ka kai kan kang kao ke ken keng kong kou ku kua
+kuai kuan kuang kui kun kuo la lai lan lang lao le lei leng li lia lian liang liao
+lie lin ling liu long lou lu lv luan lve lun luo ma mai man mang mao me mei men meng
+mi mian miao mie min ming miu mo mou mu na nai nan nang nao ne nei nen neng ni nian
+niang niao nie nin ning niu nong nou nu nv nuan nve nuo o ou pa pai pan pang pao pei
+pen peng pi pian piao pie pin ping po pou pu qi qia qian qiang qiao qie qin qing
+qiong qiu qu quan que qun ran rang rao re ren reng ri rong rou ru ruan rui run ruo
+sa sai san sang sao se sen seng sha shai shan shang shao she shei shen sheng shi
+shou shu shua shuai shuan shuang shui shun shuo si song sou su suan sui sun suo ta
+tai tan tang tao te teng ti tian tiao tie ting tong tou tu tuan tui tun tuo wa wai
+wan wang wei wen weng wo wu xi xia xian xiang xiao xie xin xing xiong xiu xu xuan
+xue xun ya yan yang yao ye yi yin ying yo yong you yu yuan yue yun za zai zan zang
+zao ze zei zen zeng zha zhai zhan zhang zhao zhe zhei zhen zheng zhi zhong zhou zhu
+zhua zhuai zhuan zhuang zhui zhun zhuo zi zong zou zu zuan zui zun zuo
+`.split(/\s+/).filter(Boolean));
+
+// 常见姓氏的拼音（NAMES 中的前半部分），用于估算 "姓 + 名" 形式的拼音
+export const PINYIN_SURNAMES: ReadonlyMap<string, number> = new Map(
+  [...DICTIONARIES.names.keys()].filter((name) => PINYIN_SYLLABLES.has(name)).map((name, index) => [name, index + 1])
+);
+
+// 常见的字母替换（l33t）
+export const L33T_TABLE: Record<string, string[]> = {
+  a: ['4', '@'],
+  b: ['8'],
+  c: ['(', '{', '[', '<'],
+  e: ['3'],
+  g: ['6', '9'],
+  i: ['1', '!', '|'],
+  l: ['1', '|', '7'],
+  o: ['0'],
+  s: ['$', '5'],
+  t: ['+', '7'],
+  x: ['%'],
+  z: ['2'],
+};
@@ -0,0 +1,210 @@
+/**
+ * 密码强度估算模块
+ * 识别密码中的常见模式，估算攻击者需要的猜测次数和破解时间
+ * 不依赖 Electron 或 Node，主进程、渲染进程和移动端共用
+ */
+
+import { Match, omnimatch } from './matching';
+import { mostGuessableMatchSequence } from './scoring';
+
+export type { Match as StrengthMatch, MatchPattern } from './matching';
+
+export type StrengthLevel = 'very-weak' | 'weak' | 'medium' | 'strong' | 'very-strong';
+
+/**
+ * 不同攻击场景下的破解时间（秒）
+ */
+export interface CrackTimes {
+  onlineThrottled: number;    // 在线攻击且有限速：每小时 100 次
+  onlineUnthrottled: number;  // 在线攻击无限速：每秒 10 次
+  offlineSlow: number;        // 离线攻击慢哈希（如 Argon2、PBKDF2）：每秒 1 万次
+  offlineFast: number;        // 离线攻击快哈希（如 MD5）：每秒 100 亿次
+}
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;  // 0=很弱, 1=弱, 2=中等, 3=强, 4=很强
+  level: StrengthLevel;
+  guesses: number;
+  guessesLog10: number;
+  crackTimes: CrackTimes;
+  crackTimeDisplay: string;   // 离线慢哈希场景下的破解时间
+  warning: string;
+  feedback: string[];         // 警告在前，随后是改进建议
+  sequence: Match[];
+  isAcceptable: boolean;      // score >= 2 为可接受
+}
+
+// 超过此长度的部分不再分析，避免长文本的计算量过大
+const MAX_ANALYZED_LENGTH = 100;
+
+const LEVELS: StrengthLevel[] = ['very-weak', 'weak', 'medium', 'strong', 'very-strong'];
+
+/**
+ * 估算密码强度
+ * userInputs 为与用户相关的信息（用户名、网站名等），密码中包含它们会降低强度
+ */
+export function estimateStrength(password: string, userInputs: string[] = []): PasswordStrength {
+  const analyzed = password.slice(0, MAX_ANALYZED_LENGTH);
+  const { guesses, sequence } = guessPassword(analyzed, userInputs);
+  const score = guessesToScore(guesses);
+  const { warning, suggestions } = getFeedback(score, sequence);
+
+  const crackTimes: CrackTimes = {
+    onlineThrottled: guesses / (100 / 3600),
+    onlineUnthrottled: guesses / 10,
+    offlineSlow: guesses / 1e4,
+    offlineFast: guesses / 1e10,
+  };
+
+  return {
+    score,
+    level: LEVELS[score],
+    guesses,
+    guessesLog10: Math.log10(guesses),
+    crackTimes,
+    crackTimeDisplay: formatCrackTime(crackTimes.offlineSlow),
+    warning,
+    feedback: [warning, ...suggestions].filter(Boolean).slice(0, 3),
+    sequence,
+    isAcceptable: score >= 2,
+  };
+}
+
+function guessPassword(password: string, userInputs: string[]) {
+  // 重复模式的单元需要递归估算，如 "abcabc" 中的 "abc"
+  const estimateBase = (token: string) => guessPassword(token, userInputs).guesses;
+  return mostGuessableMatchSequence(password, omnimatch(password, userInputs, estimateBase));
+}
+
+function guessesToScore(guesses: number): PasswordStrength['score'] {
+  if (guesses < 1e3) return 0;
+  if (guesses < 1e6) return 1;
+  if (guesses < 1e8) return 2;
+  if (guesses < 1e10) return 3;
+  return 4;
+}
+
+/**
+ * 把秒数转换为易读的时间
+ */
+export function formatCrackTime(seconds: number): string {
+  const minute = 60;
+  const hour = minute * 60;
+  const day = hour * 24;
+  const month = day * 31;
+  const year = month * 12;
+
+  if (seconds < 1) return '不到 1 秒';
+  if (seconds < minute) return `${Math.round(seconds)} 秒`;
+  if (seconds < hour) return `${Math.round(seconds / minute)} 分钟`;
+  if (seconds < day) return `${Math.round(seconds / hour)} 小时`;
+  if (seconds < month) return `${Math.round(seconds / day)} 天`;
+  if (seconds < year) return `${Math.round(seconds / month)} 个月`;
+  if (seconds < year * 100) return `${Math.round(seconds / year)} 年`;
+  return '数百年以上';
+}
+
+function getFeedback(score: number, sequence: Match[]): { warning: string; suggestions: string[] } {
+  if (sequence.length === 0) {
+    return { warning: '', suggestions: ['使用多个不常见的单词组合，不必使用特殊字符'] };
+  }
+  if (score > 2) return { warning: '', suggestions: [] };
+
+  // 以最长的一段为依据给出提示
+  const longest = sequence.reduce((a, b) => (b.token.length > a.token.length ? b : a));
+  const { warning, suggestions } = getMatchFeedback(longest, sequence.length === 1);
+  return { warning, suggestions: [...suggestions, '再加一两个不常见的单词'] };
+}
+
+function getMatchFeedback(match: Match, isSoleMatch: boolean): { warning: string; suggestions: string[] } {
+  switch (match.pattern) {
+    case 'dictionary':
+      return getDictionaryFeedback(match, isSoleMatch);
+    case 'pinyin':
+      return {
+        warning: match.surnameRank ? '姓名拼音很容易被猜到' : '常见拼音组合很容易被猜到',
+        suggestions: ['避免使用自己或亲友的姓名拼音'],
+      };
+    case 'spatial':
+      return {
+        warning: match.turns === 1 ? '键盘上连续的按键很容易被猜到' : '键盘上的简单路径很容易被猜到',
+        suggestions: ['使用更长、转折更多的键盘路径'],
+      };
+    case 'repeat':
+      return {
+        warning: match.baseToken!.length === 1 ? '重复的字符（如 "aaa"）很容易被猜到' : '重复的片段（如 "abcabc"）只比 "abc" 稍难猜到',
+        suggestions: ['避免重复的单词和字符'],
+      };
+    case 'sequence':
+      return { warning: '连续的字符（如 "abc"、"6543"）很容易被猜到', suggestions: ['避免使用连续的字符'] };
+    case 'date':
+      return {
+        warning: match.month === undefined ? '年份很容易被猜到' : '日期（如生日、纪念日）很容易被猜到',
+        suggestions: ['避免使用与自己相关的日期和年份'],
+      };
+    case 'phone':
+      return { warning: '手机号很容易被猜到', suggestions: ['避免使用手机号等个人信息'] };
+    default:
+      return { warning: '', suggestions: [] };
+  }
+}
+
+function getDictionaryFeedback(match: Match, isSoleMatch: boolean): { warning: string; suggestions: string[] } {
+  let warning = '';
+  if (match.dictionaryName === 'passwords') {
+    warning = isSoleMatch && !match.l33t && !match.reversed
+      ? (match.rank! <= 10 ? '这是最常见的密码之一' : '这是一个常见的弱密码')
+      : '与常见密码非常相似';
+  } else if (match.dictionaryName === 'pinyin') {
+    warning = isSoleMatch ? '单个词语很容易被猜到' : '常见拼音词语很容易被猜到';
+  } else if (match.dictionaryName === 'english') {
+    if (isSoleMatch) warning = '单个词语很容易被猜到';
+  } else if (match.dictionaryName === 'names') {
+    warning = isSoleMatch ? '姓名很容易被猜到' : '常见的姓名很容易被猜到';
+  } else if (match.dictionaryName === 'user-inputs') {
+    warning = '密码中包含用户名或网站名等相关信息';
+  }
+
+  const suggestions: string[] = [];
+  const word = match.token;
+  if (/^[A-Z][^A-Z]+$/.test(word)) {
+    suggestions.push('首字母大写帮助不大');
+  } else if (/^[^a-z]+$/.test(word) && word.toLowerCase() !== word) {
+    suggestions.push('全部大写和全部小写差不多容易猜到');
+  }
+  if (match.reversed && word.length >= 4) {
+    suggestions.push('倒写的单词并不难猜');
+  }
+  if (match.l33t) {
+    suggestions.push('用 "@" 代替 "a" 这类替换并不难猜');
+  }
+  return { warning, suggestions };
+}
+
+/**
+ * 获取强度等级的中文描述
+ */
+export function getStrengthLabel(level: StrengthLevel): string {
+  const labels: Record<StrengthLevel, string> = {
+    'very-weak': '很弱',
+    'weak': '弱',
+    'medium': '中等',
+    'strong': '强',
+    'very-strong': '很强'
+  };
+  return labels[level];
+}
+
+/**
+ * 获取强度等级的颜色
+ */
+export function getStrengthColor(level: StrengthLevel): string {
+  const colors: Record<StrengthLevel, string> = {
+    'very-weak': '#ef4444',  // red
+    'weak': '#f97316',       // orange
+    'medium': '#eab308',     // yellow
+    'strong': '#22c55e',     // green
+    'very-strong': '#10b981' // emerald
+  };
+  return colors[level];
+}
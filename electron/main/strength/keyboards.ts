@@ -0,0 +1,90 @@
+/**
+ * 键盘布局的相邻关系，用于识别 "qwer"、"1qaz"、"7894" 这样的键盘路径
+ */
+
+export interface KeyboardGraph {
+  name: 'qwerty' | 'keypad';
+  // 每个字符相邻的字符及方向
+  neighbors: Map<string, Map<string, string>>;
+  startingPositions: number;
+  averageDegree: number;
+}
+
+interface KeyPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * 根据按键坐标构建相邻关系：同一行相差一个键，或相邻行水平距离不超过 maxSlant
+ */
+function buildGraph(name: KeyboardGraph['name'], rows: string[][], offsets: number[], maxSlant: number): KeyboardGraph {
+  const positions = new Map<string, KeyPosition>();
+  rows.forEach((row, y) => {
+    row.forEach((keys, x) => {
+      for (const key of keys) {
+        positions.set(key, { x: x + offsets[y], y });
+      }
+    });
+  });
+
+  const neighbors = new Map<string, Map<string, string>>();
+  for (const [key, a] of positions) {
+    const adjacent = new Map<string, string>();
+    for (const [other, b] of positions) {
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const sameRow = dy === 0 && Math.abs(dx) === 1;
+      const nextRow = Math.abs(dy) === 1 && Math.abs(dx) <= maxSlant;
+      if (sameRow || nextRow) {
+        adjacent.set(other, `${Math.sign(dx)},${dy}`);
+      }
+    }
+    neighbors.set(key, adjacent);
+  }
+
+  // 同一个按键的大小写或上档字符算作一个位置
+  const keyCount = rows.reduce((sum, row) => sum + row.length, 0);
+  let degreeSum = 0;
+  rows.forEach((row) => row.forEach((keys) => {
+    degreeSum += new Set([...neighbors.get(keys[0])!.keys()].map((key) => findKey(rows, key))).size;
+  }));
+
+  return { name, neighbors, startingPositions: keyCount, averageDegree: degreeSum / keyCount };
+}
+
+function findKey(rows: string[][], char: string): string {
+  for (const row of rows) {
+    for (const keys of row) {
+      if (keys.includes(char)) return keys;
+    }
+  }
+  return char;
+}
+
+// 每个按键写作 "普通字符 + 上档字符"
+const QWERTY_ROWS = [
+  ['`~', '1!', '2@', '3#', '4$', '5%', '6^', '7&', '8*', '9(', '0)', '-_', '=+'],
+  ['qQ', 'wW', 'eE', 'rR', 'tT', 'yY', 'uU', 'iI', 'oO', 'pP', '[{', ']}', '\\|'],
+  ['aA', 'sS', 'dD', 'fF', 'gG', 'hH', 'jJ', 'kK', 'lL', ';:', '\'"'],
+  ['zZ', 'xX', 'cC', 'vV', 'bB', 'nN', 'mM', ',<', '.>', '/?'],
+];
+
+const KEYPAD_ROWS = [
+  ['/', '*', '-'],
+  ['7', '8', '9', '+'],
+  ['4', '5', '6'],
+  ['1', '2', '3'],
+  ['0', '.'],
+];
+
+export const QWERTY = buildGraph('qwerty', QWERTY_ROWS, [0, 1.5, 1.75, 2.25], 0.75);
+export const KEYPAD = buildGraph('keypad', KEYPAD_ROWS, [1, 0, 0, 0, 0], 1);
+
+/**
+ * 字符是否为上档字符（需要按住 Shift）
+ */
+export function isShifted(char: string, graph: KeyboardGraph): boolean {
+  if (graph.name !== 'qwerty') return false;
+  return QWERTY_ROWS.some((row) => row.some((keys) => keys[1] === char));
+}
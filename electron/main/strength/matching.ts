@@ -0,0 +1,437 @@
+/**
+ * 在密码中查找可被猜测的模式：词典词（含倒写和字母替换）、键盘路径、重复、序列、日期、手机号和拼音
+ */
+
+import { DICTIONARIES, DictionaryName, L33T_TABLE, PINYIN_SURNAMES, PINYIN_SYLLABLES } from './dictionaries';
+import { KEYPAD, QWERTY, KeyboardGraph, isShifted } from './keyboards';
+
+export type MatchPattern =
+  | 'dictionary'
+  | 'spatial'
+  | 'repeat'
+  | 'sequence'
+  | 'date'
+  | 'phone'
+  | 'pinyin'
+  | 'bruteforce';
+
+export interface Match {
+  pattern: MatchPattern;
+  i: number;
+  j: number;
+  token: string;
+  guesses?: number;
+  // dictionary
+  matchedWord?: string;
+  rank?: number;
+  dictionaryName?: DictionaryName;
+  reversed?: boolean;
+  l33t?: boolean;
+  sub?: Record<string, string>;  // 替换字符 -> 原字母
+  // spatial
+  graph?: KeyboardGraph['name'];
+  turns?: number;
+  shiftedCount?: number;
+  // repeat
+  baseToken?: string;
+  baseGuesses?: number;
+  repeatCount?: number;
+  // sequence
+  sequenceSpace?: number;
+  ascending?: boolean;
+  // date
+  year?: number;
+  month?: number;
+  day?: number;
+  separator?: string;
+  // pinyin
+  syllables?: string[];
+  surnameRank?: number;
+}
+
+// 词典词的最大长度，超过的子串不再查找
+const MAX_WORD_LENGTH = 24;
+// 字母替换组合的上限
+const MAX_L33T_SUBS = 32;
+// 序列中相邻字符的最大差值
+const MAX_SEQUENCE_DELTA = 5;
+// 两位年份的分界：大于此值视为 19xx
+const TWO_DIGIT_YEAR_PIVOT = 50;
+const MIN_YEAR = 1000;
+const MAX_YEAR = 2050;
+
+// 无分隔符的日期在不同长度下的拆分位置
+const DATE_SPLITS: Record<number, Array<[number, number]>> = {
+  4: [[1, 2], [2, 3]],
+  5: [[1, 3], [2, 3]],
+  6: [[1, 2], [2, 4], [4, 5]],
+  7: [[1, 3], [2, 3], [4, 5], [4, 6]],
+  8: [[2, 4], [4, 6]],
+};
+
+/**
+ * 查找所有模式，按起止位置排序
+ * estimateBase 用于估算重复模式中单元的猜测次数
+ */
+export function omnimatch(password: string, userInputs: string[], estimateBase: (token: string) => number): Match[] {
+  const userDictionary = new Map<string, number>();
+  userInputs
+    .flatMap((input) => input.toLowerCase().split(/[^a-z0-9一-龥]+/))
+    .filter((word) => word.length >= 3)
+    .forEach((word) => userDictionary.has(word) || userDictionary.set(word, userDictionary.size + 1));
+
+  const matches = [
+    ...dictionaryMatch(password, userDictionary),
+    ...reverseDictionaryMatch(password, userDictionary),
+    ...l33tMatch(password, userDictionary),
+    ...spatialMatch(password),
+    ...repeatMatch(password, estimateBase),
+    ...sequenceMatch(password),
+    ...dateMatch(password),
+    ...phoneMatch(password),
+    ...pinyinMatch(password),
+  ];
+  return matches.sort((a, b) => a.i - b.i || a.j - b.j);
+}
+
+function getDictionaries(userDictionary: Map<string, number>): Array<[DictionaryName, Map<string, number>]> {
+  return [...Object.entries(DICTIONARIES) as Array<[DictionaryName, Map<string, number>]>, ['user-inputs', userDictionary]];
+}
+
+function dictionaryMatch(password: string, userDictionary: Map<string, number>): Match[] {
+  const matches: Match[] = [];
+  const lower = password.toLowerCase();
+  const dictionaries = getDictionaries(userDictionary);
+  for (let i = 0; i < lower.length; i++) {
+    for (let j = i; j < Math.min(lower.length, i + MAX_WORD_LENGTH); j++) {
+      const word = lower.slice(i, j + 1);
+      for (const [dictionaryName, dictionary] of dictionaries) {
+        const rank = dictionary.get(word);
+        if (rank !== undefined) {
+          matches.push({ pattern: 'dictionary', i, j, token: password.slice(i, j + 1), matchedWord: word, rank, dictionaryName });
+        }
+      }
+    }
+  }
+  return matches;
+}
+
+function reverseDictionaryMatch(password: string, userDictionary: Map<string, number>): Match[] {
+  const reversed = [...password].reverse().join('');
+  return dictionaryMatch(reversed, userDictionary)
+    .filter((match) => match.token.length > 2)
+    .map((match) => ({
+      ...match,
+      token: [...match.token].reverse().join(''),
+      reversed: true,
+      i: password.length - 1 - match.j,
+      j: password.length - 1 - match.i,
+    }));
+}
+
+/**
+ * 枚举密码中可能的字母替换组合（如 p@ssw0rd -> password）
+ */
+function enumerateL33tSubs(password: string): Array<Record<string, string>> {
+  const candidates = new Map<string, string[]>();
+  for (const [letter, subs] of Object.entries(L33T_TABLE)) {
+    for (const sub of subs) {
+      if (password.includes(sub)) {
+        candidates.set(sub, [...(candidates.get(sub) ?? []), letter]);
+      }
+    }
+  }
+
+  let results: Array<Record<string, string>> = [{}];
+  for (const [sub, letters] of candidates) {
+    const next: Array<Record<string, string>> = [];
+    for (const result of results) {
+      for (const letter of letters) {
+        next.push({ ...result, [sub]: letter });
+        if (next.length >= MAX_L33T_SUBS) break;
+      }
+    }
+    results = next.slice(0, MAX_L33T_SUBS);
+  }
+  return results.filter((result) => Object.keys(result).length > 0);
+}
+
+function l33tMatch(password: string, userDictionary: Map<string, number>): Match[] {
+  const matches: Match[] = [];
+  const seen = new Set<string>();
+  for (const sub of enumerateL33tSubs(password)) {
+    const translated = [...password].map((char) => sub[char] ?? char).join('');
+    for (const match of dictionaryMatch(translated, userDictionary)) {
+      const token = password.slice(match.i, match.j + 1);
+      if (token.toLowerCase() === match.matchedWord || token.length < 2) continue;
+
+      // 只保留这段中实际用到的替换
+      const usedSub: Record<string, string> = {};
+      for (const char of token) {
+        if (sub[char]) usedSub[char] = sub[char];
+      }
+      const key = `${match.i}:${match.j}:${match.dictionaryName}:${match.matchedWord}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      matches.push({ ...match, token, l33t: true, sub: usedSub });
+    }
+  }
+  return matches;
+}
+
+function spatialMatch(password: string): Match[] {
+  return [QWERTY, KEYPAD].flatMap((graph) => spatialMatchGraph(password, graph));
+}
+
+function spatialMatchGraph(password: string, graph: KeyboardGraph): Match[] {
+  const matches: Match[] = [];
+  let i = 0;
+  while (i < password.length - 1) {
+    let j = i + 1;
+    let lastDirection: string | null = null;
+    let turns = 0;
+    let shiftedCount = isShifted(password[i], graph) ? 1 : 0;
+
+    while (j < password.length) {
+      const direction = graph.neighbors.get(password[j - 1])?.get(password[j]);
+      if (direction === undefined) break;
+      if (direction !== lastDirection) {
+        turns++;
+        lastDirection = direction;
+      }
+      if (isShifted(password[j], graph)) shiftedCount++;
+      j++;
+    }
+
+    // 至少 3 个按键才算路径
+    if (j - i > 2) {
+      matches.push({
+        pattern: 'spatial',
+        i,
+        j: j - 1,
+        token: password.slice(i, j),
+        graph: graph.name,
+        turns,
+        shiftedCount,
+      });
+    }
+    i = j;
+  }
+  return matches;
+}
+
+function repeatMatch(password: string, estimateBase: (token: string) => number): Match[] {
+  const matches: Match[] = [];
+  const greedy = /(.+)\1+/g;
+  const lazy = /(.+?)\1+/g;
+  const lazyAnchored = /^(.+?)\1+$/;
+
+  let lastIndex = 0;
+  while (lastIndex < password.length) {
+    greedy.lastIndex = lastIndex;
+    lazy.lastIndex = lastIndex;
+    const greedyMatch = greedy.exec(password);
+    const lazyMatch = lazy.exec(password);
+    if (!greedyMatch || !lazyMatch) break;
+
+    let match: RegExpExecArray;
+    let baseToken: string;
+    if (greedyMatch[0].length > lazyMatch[0].length) {
+      // 例如 "abcabc"：贪婪匹配更长，重复单元再用非贪婪方式找出
+      match = greedyMatch;
+      baseToken = lazyAnchored.exec(match[0])![1];
+    } else {
+      match = lazyMatch;
+      baseToken = match[1];
+    }
+
+    const i = match.index;
+    const j = match.index + match[0].length - 1;
+    matches.push({
+      pattern: 'repeat',
+      i,
+      j,
+      token: match[0],
+      baseToken,
+      baseGuesses: estimateBase(baseToken),
+      repeatCount: match[0].length / baseToken.length,
+    });
+    lastIndex = j + 1;
+  }
+  return matches;
+}
+
+function sequenceMatch(password: string): Match[] {
+  if (password.length < 3) return [];
+  const matches: Match[] = [];
+
+  const update = (i: number, j: number, delta: number) => {
+    if (j - i < 2 || Math.abs(delta) === 0 || Math.abs(delta) > MAX_SEQUENCE_DELTA) return;
+    const token = password.slice(i, j + 1);
+    const sequenceSpace = /^[a-z]+$/.test(token) || /^[A-Z]+$/.test(token) ? 26 : /^\d+$/.test(token) ? 10 : 0;
+    if (sequenceSpace === 0) return;
+    matches.push({ pattern: 'sequence', i, j, token, sequenceSpace, ascending: delta > 0 });
+  };
+
+  let i = 0;
+  let lastDelta: number | null = null;
+  for (let k = 1; k < password.length; k++) {
+    const delta = password.charCodeAt(k) - password.charCodeAt(k - 1);
+    if (lastDelta === null) lastDelta = delta;
+    if (delta === lastDelta) continue;
+    update(i, k - 1, lastDelta);
+    i = k - 1;
+    lastDelta = delta;
+  }
+  update(i, password.length - 1, lastDelta!);
+  return matches;
+}
+
+interface DateCandidate {
+  year?: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * 把三个数字解释为年月日，优先使用离当前年份更近的解释
+ */
+function mapIntsToDate(ints: number[]): DateCandidate | null {
+  if (ints[1] > 31 || ints[1] <= 0) return null;
+  let over12 = 0;
+  let over31 = 0;
+  let under1 = 0;
+  for (const value of ints) {
+    if ((value > 99 && value < MIN_YEAR) || value > MAX_YEAR) return null;
+    if (value > 31) over31++;
+    if (value > 12) over12++;
+    if (value <= 0) under1++;
+  }
+  if (over31 >= 2 || over12 === 3 || under1 >= 2) return null;
+
+  const toDayMonth = (a: number, b: number): { day: number; month: number } | null => {
+    if (a >= 1 && a <= 31 && b >= 1 && b <= 12) return { day: a, month: b };
+    if (b >= 1 && b <= 31 && a >= 1 && a <= 12) return { day: b, month: a };
+    return null;
+  };
+
+  // 四位年份在开头或结尾
+  const splits: Array<[number, number[]]> = [[ints[2], ints.slice(0, 2)], [ints[0], ints.slice(1, 3)]];
+  for (const [year, rest] of splits) {
+    if (year >= MIN_YEAR && year <= MAX_YEAR) {
+      const dm = toDayMonth(rest[0], rest[1]);
+      return dm ? { year, ...dm } : null;
+    }
+  }
+
+  // 两位年份
+  for (const [year, rest] of splits) {
+    const dm = toDayMonth(rest[0], rest[1]);
+    if (dm) {
+      return { year: year > 99 ? year : year > TWO_DIGIT_YEAR_PIVOT ? year + 1900 : year + 2000, ...dm };
+    }
+  }
+  return null;
+}
+
+function dateMatch(password: string): Match[] {
+  const matches: Match[] = [];
+  const referenceYear = new Date().getFullYear();
+  const distance = (candidate: DateCandidate) => Math.abs((candidate.year ?? referenceYear) - referenceYear);
+
+  // 无分隔符：4-8 位数字
+  for (let i = 0; i <= password.length - 4; i++) {
+    for (let j = i + 3; j <= i + 7 && j < password.length; j++) {
+      const token = password.slice(i, j + 1);
+      if (!/^\d+$/.test(token)) break;
+
+      const candidates: DateCandidate[] = [];
+      for (const [k, l] of DATE_SPLITS[token.length] ?? []) {
+        const candidate = mapIntsToDate([token.slice(0, k), token.slice(k, l), token.slice(l)].map(Number));
+        if (candidate) candidates.push(candidate);
+      }
+      // 不带年份的生日（如 0520、1225），月和日都写成两位
+      if (token.length === 4) {
+        const month = Number(token.slice(0, 2));
+        const day = Number(token.slice(2));
+        if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+          candidates.push({ month, day });
+        }
+      }
+      // 单独的年份
+      if (token.length === 4 && /^(19|20)\d\d$/.test(token)) {
+        matches.push({ pattern: 'date', i, j, token, year: Number(token), separator: '' });
+      }
+      if (candidates.length === 0) continue;
+
+      const best = candidates.reduce((a, b) => (distance(b) < distance(a) ? b : a));
+      matches.push({ pattern: 'date', i, j, token, ...best, separator: '' });
+    }
+  }
+
+  // 有分隔符：如 1990-01-01、1/2/90
+  const separated = /(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})/g;
+  for (let i = 0; i <= password.length - 6; i++) {
+    separated.lastIndex = i;
+    const found = separated.exec(password);
+    if (!found || found.index !== i) continue;
+    const candidate = mapIntsToDate([Number(found[1]), Number(found[3]), Number(found[4])]);
+    if (candidate) {
+      matches.push({ pattern: 'date', i, j: i + found[0].length - 1, token: found[0], ...candidate, separator: found[2] });
+    }
+  }
+
+  // 去掉被同类更长日期完全包含的匹配
+  return matches.filter((match) => !matches.some((other) =>
+    other !== match && other.i <= match.i && other.j >= match.j && other.j - other.i > match.j - match.i
+  ));
+}
+
+function phoneMatch(password: string): Match[] {
+  const matches: Match[] = [];
+  // 国内手机号：1 开头的 11 位数字
+  const pattern = /1[3-9]\d{9}/g;
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(password)) !== null) {
+    matches.push({ pattern: 'phone', i: found.index, j: found.index + 10, token: found[0] });
+  }
+  return matches;
+}
+
+function pinyinMatch(password: string): Match[] {
+  const matches: Match[] = [];
+  const lower = password.toLowerCase();
+  for (let i = 0; i < lower.length; i++) {
+    if (!/[a-z]/.test(lower[i])) continue;
+
+    // 从 i 开始按音节拆分，syllables[k] 为到位置 k 为止的拆分
+    const splits = new Map<number, string[]>([[i, []]]);
+    for (let start = i; start < lower.length; start++) {
+      const before = splits.get(start);
+      if (!before) continue;
+      for (let length = 1; length <= 6 && start + length <= lower.length; length++) {
+        const syllable = lower.slice(start, start + length);
+        if (!PINYIN_SYLLABLES.has(syllable)) continue;
+        const end = start + length;
+        const existing = splits.get(end);
+        // 音节数越少越好（zhang 优先于 zh-ang 之类的拆分）
+        if (!existing || existing.length > before.length + 1) {
+          splits.set(end, [...before, syllable]);
+        }
+      }
+    }
+
+    for (const [end, syllables] of splits) {
+      if (syllables.length < 2 || end - i < 4) continue;
+      matches.push({
+        pattern: 'pinyin',
+        i,
+        j: end - 1,
+        token: password.slice(i, end),
+        syllables,
+        surnameRank: PINYIN_SURNAMES.get(syllables[0]),
+      });
+    }
+  }
+  return matches;
+}
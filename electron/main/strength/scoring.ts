@@ -0,0 +1,268 @@
+/**
+ * 估算每个模式的猜测次数，并找出整段密码最容易被猜到的模式组合
+ * 算法参考 zxcvbn：猜测次数 = l! × 各段猜测次数之积 + D^(l-1)
+ */
+
+import { Match } from './matching';
+import { KEYPAD, QWERTY } from './keyboards';
+import { PINYIN_SYLLABLES } from './dictionaries';
+
+const BRUTEFORCE_CARDINALITY = 10;
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10000;
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10;
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50;
+const MIN_YEAR_SPACE = 20;
+// 手机号：针对特定用户的攻击很容易获得
+const PHONE_GUESSES = 1e6;
+
+export interface GuessResult {
+  guesses: number;
+  sequence: Match[];
+}
+
+function nCk(n: number, k: number): number {
+  if (k > n) return 0;
+  if (k === 0) return 1;
+  let result = 1;
+  for (let d = 1; d <= k; d++) {
+    result = (result * n) / d;
+    n--;
+  }
+  return result;
+}
+
+function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+/**
+ * 大小写变化带来的额外猜测次数
+ */
+function uppercaseVariations(token: string): number {
+  if (!/[A-Z]/.test(token) || token.toLowerCase() === token) return 1;
+  // 首字母大写、末字母大写、全部大写都是常见做法
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || /^[^a-z]+$/.test(token)) return 2;
+
+  const upper = [...token].filter((char) => /[A-Z]/.test(char)).length;
+  const lower = [...token].filter((char) => /[a-z]/.test(char)).length;
+  let variations = 0;
+  for (let i = 1; i <= Math.min(upper, lower); i++) {
+    variations += nCk(upper + lower, i);
+  }
+  return variations;
+}
+
+/**
+ * 字母替换带来的额外猜测次数
+ */
+function l33tVariations(match: Match): number {
+  if (!match.l33t || !match.sub) return 1;
+  let variations = 1;
+  const chars = [...match.token.toLowerCase()];
+  for (const [subbed, unsubbed] of Object.entries(match.sub)) {
+    const s = chars.filter((char) => char === subbed).length;
+    const u = chars.filter((char) => char === unsubbed).length;
+    if (s === 0 || u === 0) {
+      variations *= 2;
+    } else {
+      let possibilities = 0;
+      for (let i = 1; i <= Math.min(u, s); i++) {
+        possibilities += nCk(u + s, i);
+      }
+      variations *= possibilities;
+    }
+  }
+  return variations;
+}
+
+function spatialGuesses(match: Match): number {
+  const graph = match.graph === 'keypad' ? KEYPAD : QWERTY;
+  const length = match.token.length;
+  const turns = match.turns ?? 1;
+  let guesses = 0;
+  for (let i = 2; i <= length; i++) {
+    for (let j = 1; j <= Math.min(turns, i - 1); j++) {
+      guesses += nCk(i - 1, j - 1) * graph.startingPositions * graph.averageDegree ** j;
+    }
+  }
+
+  const shifted = match.shiftedCount ?? 0;
+  if (shifted > 0) {
+    const unshifted = length - shifted;
+    if (unshifted === 0) {
+      guesses *= 2;
+    } else {
+      let variations = 0;
+      for (let i = 1; i <= Math.min(shifted, unshifted); i++) {
+        variations += nCk(shifted + unshifted, i);
+      }
+      guesses *= variations;
+    }
+  }
+  return guesses;
+}
+
+function sequenceGuesses(match: Match): number {
+  const first = match.token[0];
+  // 从 a、z、0、1、9 开始的序列最容易被想到
+  let base = 'aAzZ019'.includes(first) ? 4 : /\d/.test(first) ? 10 : 26;
+  if (!match.ascending) base *= 2;
+  return base * match.token.length;
+}
+
+function dateGuesses(match: Match): number {
+  const yearSpace = match.year === undefined
+    ? 1
+    : Math.max(Math.abs(match.year - new Date().getFullYear()), MIN_YEAR_SPACE);
+  if (match.month === undefined) return yearSpace;  // 单独的年份
+  let guesses = yearSpace * 365;
+  if (match.separator) guesses *= 4;
+  return guesses;
+}
+
+function pinyinGuesses(match: Match): number {
+  const syllables = match.syllables ?? [];
+  const space = PINYIN_SYLLABLES.size;
+  const guesses = match.surnameRank
+    ? match.surnameRank * space ** (syllables.length - 1)
+    : space ** syllables.length;
+  return guesses * uppercaseVariations(match.token);
+}
+
+/**
+ * 估算单个模式的猜测次数
+ */
+export function estimateGuesses(match: Match, password: string): number {
+  if (match.guesses !== undefined) return match.guesses;
+
+  const length = match.token.length;
+  const minGuesses = length < password.length
+    ? (length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR)
+    : 1;
+
+  let guesses: number;
+  switch (match.pattern) {
+    case 'bruteforce':
+      guesses = Math.max(
+        BRUTEFORCE_CARDINALITY ** length,
+        (length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR) + 1
+      );
+      break;
+    case 'dictionary':
+      guesses = match.rank! * uppercaseVariations(match.token) * l33tVariations(match) * (match.reversed ? 2 : 1);
+      break;
+    case 'spatial':
+      guesses = spatialGuesses(match);
+      break;
+    case 'repeat':
+      guesses = match.baseGuesses! * match.repeatCount!;
+      break;
+    case 'sequence':
+      guesses = sequenceGuesses(match);
+      break;
+    case 'date':
+      guesses = dateGuesses(match);
+      break;
+    case 'phone':
+      guesses = PHONE_GUESSES;
+      break;
+    case 'pinyin':
+      guesses = pinyinGuesses(match);
+      break;
+  }
+
+  match.guesses = Math.min(Number.MAX_VALUE, Math.max(guesses, minGuesses));
+  return match.guesses;
+}
+
+/**
+ * 找出猜测次数最少的模式组合，未被任何模式覆盖的部分按暴力破解计算
+ */
+export function mostGuessableMatchSequence(password: string, matches: Match[]): GuessResult {
+  const n = password.length;
+  if (n === 0) return { guesses: 1, sequence: [] };
+
+  const matchesByEnd: Match[][] = Array.from({ length: n }, () => []);
+  for (const match of matches) {
+    matchesByEnd[match.j].push(match);
+  }
+
+  // optimal[k] 记录以位置 k 结尾、由 l 段组成的最优组合
+  const optimal = Array.from({ length: n }, () => ({
+    m: new Map<number, Match>(),
+    pi: new Map<number, number>(),
+    g: new Map<number, number>(),
+  }));
+
+  const update = (match: Match, l: number) => {
+    const k = match.j;
+    let pi = estimateGuesses(match, password);
+    if (l > 1) {
+      pi *= optimal[match.i - 1].pi.get(l - 1)!;
+    }
+    const g = factorial(l) * pi + MIN_GUESSES_BEFORE_GROWING_SEQUENCE ** (l - 1);
+    // 已有段数更少且猜测次数不多于当前的组合时，当前组合没有意义
+    for (const [competingL, competingG] of optimal[k].g) {
+      if (competingL <= l && competingG <= g) return;
+    }
+    optimal[k].g.set(l, g);
+    optimal[k].m.set(l, match);
+    optimal[k].pi.set(l, pi);
+  };
+
+  const bruteforce = (i: number, j: number): Match => ({
+    pattern: 'bruteforce',
+    i,
+    j,
+    token: password.slice(i, j + 1),
+  });
+
+  const bruteforceUpdate = (k: number) => {
+    update(bruteforce(0, k), 1);
+    for (let i = 1; i <= k; i++) {
+      const match = bruteforce(i, k);
+      for (const [l, last] of optimal[i - 1].m) {
+        // 相邻的两段暴力破解合并成一段更优
+        if (last.pattern === 'bruteforce') continue;
+        update(match, l + 1);
+      }
+    }
+  };
+
+  for (let k = 0; k < n; k++) {
+    for (const match of matchesByEnd[k]) {
+      if (match.i > 0) {
+        for (const l of [...optimal[match.i - 1].m.keys()]) {
+          update(match, l + 1);
+        }
+      } else {
+        update(match, 1);
+      }
+    }
+    bruteforceUpdate(k);
+  }
+
+  // 从末尾回溯
+  let bestL = 0;
+  let bestG = Infinity;
+  for (const [l, g] of optimal[n - 1].g) {
+    if (g < bestG) {
+      bestL = l;
+      bestG = g;
+    }
+  }
+
+  const sequence: Match[] = [];
+  let k = n - 1;
+  let l = bestL;
+  while (k >= 0) {
+    const match = optimal[k].m.get(l)!;
+    sequence.unshift(match);
+    k = match.i - 1;
+    l--;
+  }
+
+  return { guesses: Math.min(Number.MAX_VALUE, bestG), sequence };
+}
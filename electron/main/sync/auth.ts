@@ -6,11 +6,11 @@
 import { BrowserWindow, session } from 'electron';
 import path from 'path';
 import fs from 'fs';
-import { app } from 'electron';
 import { encrypt, decrypt, getDerivedKey, isUnlocked } from '../crypto';
 import { QuarkClient } from './quark-api';
 import { SyncAuthState } from './types';
 import { EncryptedData } from '../storage/models';
+import { getCurrentVault, getVaultDataDir } from '../storage/vaults';
 
 // Cookie存储文件名
 const COOKIE_FILE = 'sync_auth.dat';
@@ -26,8 +26,8 @@ export class SyncAuthManager {
   private cachedCookie: string | null = null;
 
   constructor() {
-    const userDataPath = app.getPath('userData');
-    this.cookieFilePath = path.join(userDataPath, COOKIE_FILE);
+    // Cookie 使用密码库密钥加密，每个密码库单独保存
+    this.cookieFilePath = path.join(getVaultDataDir(), COOKIE_FILE);
   }
 
   /**
@@ -202,6 +202,26 @@ export class SyncAuthManager {
     }
   }
 
+  /**
+   * 用新密钥重新加密保存的Cookie（密码库迁移到数据密钥时调用）
+   * 无法解密时删除，重新登录即可
+   */
+  reencryptCookie(oldKey: Buffer, newKey: Buffer): void {
+    if (!fs.existsSync(this.cookieFilePath)) {
+      return;
+    }
+
+    try {
+      const encrypted: EncryptedData = JSON.parse(fs.readFileSync(this.cookieFilePath, 'utf8'));
+      const cookie = decrypt(encrypted, oldKey);
+      fs.writeFileSync(this.cookieFilePath, JSON.stringify(encrypt(cookie, newKey)), 'utf8');
+    } catch (error) {
+      console.error('Failed to re-encrypt sync cookie:', error);
+      fs.rmSync(this.cookieFilePath, { force: true });
+      this.cachedCookie = null;
+    }
+  }
+
   /**
    * 清除Cookie
    */
@@ -320,12 +340,15 @@ export class SyncAuthManager {
   }
 }
 
-// 单例实例
+// 单例实例（切换密码库后重新创建）
 let authManagerInstance: SyncAuthManager | null = null;
+let authManagerVaultId: string | null = null;
 
 export function getSyncAuthManager(): SyncAuthManager {
-  if (!authManagerInstance) {
+  const vaultId = getCurrentVault().id;
+  if (!authManagerInstance || authManagerVaultId !== vaultId) {
     authManagerInstance = new SyncAuthManager();
+    authManagerVaultId = vaultId;
   }
   return authManagerInstance;
 }
@@ -10,8 +10,9 @@ import { app } from 'electron';
 import { getSyncAuthManager, SyncAuthManager } from './auth';
 import { QuarkClient } from './quark-api';
 import { SyncConfig, SyncInfo, SyncStatus, UploadResult, DownloadResult, RestoreResult } from './types';
-import { getDatabase, saveDatabase, initDatabase } from '../storage/db';
+import { exportDatabaseFile, saveDatabase, initDatabase } from '../storage/db';
 import { verifyBackup, restoreBackup as restoreFromBackup } from '../backup';
+import { getCurrentVault, getVaultDataDir, DEFAULT_VAULT_ID } from '../storage/vaults';
 
 // 日志文件路径
 const LOG_FILE = path.join(app.getPath('userData'), 'sync.log');
@@ -53,7 +54,7 @@ export class SyncManager {
 
   constructor() {
     this.authManager = getSyncAuthManager();
-    this.configPath = path.join(app.getPath('userData'), CONFIG_FILE);
+    this.configPath = path.join(getVaultDataDir(), CONFIG_FILE);
     this.config = this.loadConfig();
   }
 
@@ -65,12 +66,23 @@ export class SyncManager {
       if (fs.existsSync(this.configPath)) {
         const data = fs.readFileSync(this.configPath, 'utf8');
         const saved = JSON.parse(data);
-        return { ...DEFAULT_CONFIG, ...saved };
+        return { ...this.getDefaultConfig(), ...saved };
       }
     } catch {
       // 忽略错误，使用默认配置
     }
-    return { ...DEFAULT_CONFIG };
+    return this.getDefaultConfig();
+  }
+
+  /**
+   * 默认配置，非默认密码库同步到以密码库名称命名的子文件夹
+   */
+  private getDefaultConfig(): SyncConfig {
+    const vault = getCurrentVault();
+    if (vault.id === DEFAULT_VAULT_ID) {
+      return { ...DEFAULT_CONFIG };
+    }
+    return { ...DEFAULT_CONFIG, cloudFolderPath: `${DEFAULT_CONFIG.cloudFolderPath}/${vault.name}` };
   }
 
   /**
@@ -91,9 +103,7 @@ export class SyncManager {
    * 创建同步数据包（复用备份格式）
    */
   private createSyncPackage(): Buffer {
-    const db = getDatabase();
-    const dbData = db.export();
-    const dbBuffer = Buffer.from(dbData);
+    const dbBuffer = exportDatabaseFile();
     
     // 备份文件结构: MAGIC + checksum(64) + data
     const checksum = this.calculateChecksum(dbBuffer);
@@ -279,7 +289,7 @@ export class SyncManager {
       const dbData = this.pendingDownloadData.slice(BACKUP_MAGIC.length + 64);
       
       // 保存到临时文件
-      const tempPath = path.join(app.getPath('userData'), 'temp_restore.pwbak');
+      const tempPath = path.join(getVaultDataDir(), 'temp_restore.pwbak');
       fs.writeFileSync(tempPath, this.pendingDownloadData);
 
       try {
@@ -287,11 +297,20 @@ export class SyncManager {
         await restoreFromBackup(tempPath, 'overwrite');
         
         // 恢复后需要用主密码重新解锁
-        const { unlockVault } = require('../storage/vault');
-        const unlocked = unlockVault(masterPassword);
-        
-        if (!unlocked) {
-          return { success: false, error: '主密码错误，无法解锁恢复的数据' };
+        const { unlockVault, lockVault, isKeyFileRequired } = require('../storage/vault');
+        if (isKeyFileRequired()) {
+          // 恢复的数据需要密钥文件，保持锁定，由用户在登录界面选择密钥文件解锁
+          lockVault();
+        } else {
+          const status = await unlockVault(masterPassword);
+
+          if (status === 'invalid') {
+            return { success: false, error: '主密码错误，无法解锁恢复的数据' };
+          }
+          if (status === 'totp-required') {
+            // 恢复的数据启用了二次验证，保持锁定，由用户在登录界面完成验证
+            lockVault();
+          }
         }
         
         // 更新状态
@@ -426,12 +445,15 @@ export class SyncManager {
   }
 }
 
-// 单例实例
+// 单例实例（切换密码库后重新创建）
 let syncManagerInstance: SyncManager | null = null;
+let syncManagerVaultId: string | null = null;
 
 export function getSyncManager(): SyncManager {
-  if (!syncManagerInstance) {
+  const vaultId = getCurrentVault().id;
+  if (!syncManagerInstance || syncManagerVaultId !== vaultId) {
     syncManagerInstance = new SyncManager();
+    syncManagerVaultId = vaultId;
   }
   return syncManagerInstance;
 }
@@ -1,12 +1,14 @@
 /**
  * TOTP 二次验证模块
+ * 以及条目两步验证码的计算（算法见 ./otp）
  */
 
 import * as OTPAuth from 'otpauth';
 import * as crypto from 'crypto';
 import * as QRCode from 'qrcode';
 import { execute, queryOne } from '../storage/db';
-import { encryptWithSessionKey, decryptWithSessionKey } from '../crypto';
+import { encrypt, decrypt, encryptWithSessionKey, decryptWithSessionKey, isUnlocked } from '../crypto';
+import { OtpHmac, generateOtp, parseOtpAuthUri, verifyOtpVectors } from './otp';
 
 // TOTP 配置
 const TOTP_CONFIG = {
@@ -74,6 +76,21 @@ function createTOTP(secret: string, label: string = 'user'): OTPAuth.TOTP {
   });
 }
 
+/**
+ * 解密存储的字段，指定密钥时使用该密钥（解锁过程中会话密钥尚未安装）
+ */
+function decryptStored(value: string, key?: Buffer): string {
+  const encryptedData = JSON.parse(value);
+  return key ? decrypt(encryptedData, key) : decryptWithSessionKey(encryptedData);
+}
+
+/**
+ * 加密要存储的字段
+ */
+function encryptForStorage(plaintext: string, key?: Buffer): string {
+  return JSON.stringify(key ? encrypt(plaintext, key) : encryptWithSessionKey(plaintext));
+}
+
 /**
  * 设置 TOTP
  * 返回密钥、二维码和恢复码
@@ -127,9 +144,13 @@ export function enableTotp(secret: string, recoveryCodes: string[]): void {
 }
 
 /**
- * 禁用 TOTP
+ * 禁用 TOTP（只能在完成解锁后操作，等待二次验证时不能绕过）
  */
 export function disableTotp(): void {
+  if (!isUnlocked()) {
+    throw new Error('密码库已锁定');
+  }
+
   execute(
     `UPDATE vault_meta SET 
       totp_enabled = 0,
@@ -153,8 +174,9 @@ export function isTotpEnabled(): boolean {
 
 /**
  * 验证 TOTP 验证码
+ * 解锁时传入解开的数据密钥，其他情况使用会话密钥
  */
-export function verifyTotp(code: string): boolean {
+export function verifyTotp(code: string, key?: Buffer): boolean {
   if (!isTotpEnabled()) {
     return true; // TOTP 未启用，直接通过
   }
@@ -170,8 +192,7 @@ export function verifyTotp(code: string): boolean {
   
   try {
     // 解密密钥
-    const encryptedData = JSON.parse(meta.totp_secret_encrypted);
-    const secret = decryptWithSessionKey(encryptedData);
+    const secret = decryptStored(meta.totp_secret_encrypted, key);
     
     // 创建 TOTP 实例并验证
     const totp = createTOTP(secret);
@@ -186,9 +207,10 @@ export function verifyTotp(code: string): boolean {
 }
 
 /**
- * 验证恢复码
+ * 验证恢复码，验证通过后该恢复码作废
+ * 解锁时传入解开的数据密钥，其他情况使用会话密钥
  */
-export function verifyRecoveryCode(code: string): boolean {
+export function verifyRecoveryCode(code: string, key?: Buffer): boolean {
   if (!isTotpEnabled()) {
     return false;
   }
@@ -204,9 +226,7 @@ export function verifyRecoveryCode(code: string): boolean {
   
   try {
     // 解密恢复码
-    const encryptedData = JSON.parse(meta.recovery_codes_encrypted);
-    const codesJson = decryptWithSessionKey(encryptedData);
-    const codes: string[] = JSON.parse(codesJson);
+    const codes: string[] = JSON.parse(decryptStored(meta.recovery_codes_encrypted, key));
     
     // 标准化输入的恢复码
     const normalizedCode = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
@@ -223,10 +243,9 @@ export function verifyRecoveryCode(code: string): boolean {
     codes.splice(index, 1);
     
     // 更新存储
-    const newEncryptedCodes = encryptWithSessionKey(JSON.stringify(codes));
     execute(
       `UPDATE vault_meta SET recovery_codes_encrypted = ?, updated_at = ? WHERE id = 1`,
-      [JSON.stringify(newEncryptedCodes), new Date().toISOString()]
+      [encryptForStorage(JSON.stringify(codes), key), new Date().toISOString()]
     );
     
     return true;
@@ -279,3 +298,21 @@ export function regenerateRecoveryCodes(): string[] {
   
   return newCodes;
 }
+
+const otpHmac: OtpHmac = (algorithm, key, message) =>
+  new Uint8Array(crypto.createHmac(algorithm.toLowerCase(), key).update(message).digest());
+
+let otpVerified = false;
+
+/**
+ * 计算条目的当前验证码，首次使用时先用测试向量自检，结果不一致时拒绝计算
+ */
+export function generateEntryOtp(otpauth: string, now?: number): string {
+  if (!otpVerified) {
+    if (verifyOtpVectors(otpHmac).length > 0) {
+      throw new Error('验证码算法自检失败，无法计算验证码');
+    }
+    otpVerified = true;
+  }
+  return generateOtp(parseOtpAuthUri(otpauth), otpHmac, now);
+}
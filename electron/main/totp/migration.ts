@@ -0,0 +1,352 @@
+/**
+ * Google 身份验证器迁移二维码
+ * 解析和生成 otpauth-migration://offline?data=... 链接，data 为 Base64 编码的 protobuf：
+ *
+ *   message MigrationPayload {
+ *     repeated OtpParameters otp_parameters = 1;
+ *     int32 version = 2;
+ *     int32 batch_size = 3;    // 共几张二维码
+ *     int32 batch_index = 4;   // 第几张，从 0 开始
+ *     int32 batch_id = 5;      // 同一次导出的各张相同
+ *   }
+ *   message OtpParameters {
+ *     bytes secret = 1;
+ *     string name = 2;
+ *     string issuer = 3;
+ *     Algorithm algorithm = 4; // 1 SHA1、2 SHA256、3 SHA512、4 MD5
+ *     DigitCount digits = 5;   // 1 六位、2 八位
+ *     OtpType type = 6;        // 1 HOTP、2 TOTP
+ *     int64 counter = 7;
+ *   }
+ *
+ * 迁移格式没有时间步长字段，固定为 30 秒，因此 Steam 令牌、7 位验证码和其他时间步长无法导出。
+ * 不依赖 Node，和 otp.ts 一样可以在渲染进程和移动端使用。
+ */
+
+import { OtpAlgorithm, OtpParams, decodeBase32, encodeBase32 } from './otp';
+
+export interface MigrationBatch {
+  accounts: OtpParams[];
+  skipped: string[];    // 无法导入的账号及原因
+  batchId: number;
+  batchIndex: number;
+  batchSize: number;
+}
+
+/** 每张迁移二维码包含的账号数，与 Google 身份验证器导出时一致 */
+export const MIGRATION_PAGE_SIZE = 10;
+
+const MIGRATION_PREFIX = 'otpauth-migration://offline';
+const MIGRATION_VERSION = 1;
+const MIGRATION_PERIOD = 30;
+
+const ALGORITHM_CODES: Record<OtpAlgorithm, number> = { SHA1: 1, SHA256: 2, SHA512: 3 };
+const DIGIT_CODES: Record<number, number> = { 6: 1, 8: 2 };
+const TYPE_HOTP = 1;
+const TYPE_TOTP = 2;
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * 是否为迁移链接
+ */
+export function isMigrationUri(value: string): boolean {
+  return value.trim().toLowerCase().startsWith(MIGRATION_PREFIX);
+}
+
+/**
+ * 解析一张迁移二维码的内容，格式无效时抛出异常
+ * 单个账号参数不受支持时跳过并记录原因，不影响其他账号
+ */
+export function parseMigrationUri(uri: string): MigrationBatch {
+  const value = uri.trim();
+  if (!isMigrationUri(value)) {
+    throw new Error('不是 Google 身份验证器的迁移链接');
+  }
+
+  const match = /[?&]data=([^&#]*)/i.exec(value);
+  if (!match || !match[1]) {
+    throw new Error('迁移链接缺少 data 参数');
+  }
+
+  let payload: Uint8Array;
+  try {
+    payload = decodeBase64(decodeURIComponent(match[1]));
+  } catch {
+    throw new Error('迁移链接的 data 参数不是有效的 Base64 编码');
+  }
+
+  const batch: MigrationBatch = { accounts: [], skipped: [], batchId: 0, batchIndex: 0, batchSize: 1 };
+  try {
+    for (const field of readMessage(payload)) {
+      switch (field.number) {
+        case 1:
+          readAccount(field.bytes!, batch);
+          break;
+        case 3:
+          batch.batchSize = field.value!;
+          break;
+        case 4:
+          batch.batchIndex = field.value!;
+          break;
+        case 5:
+          batch.batchId = field.value!;
+          break;
+      }
+    }
+  } catch {
+    throw new Error('迁移数据已损坏，请重新扫描二维码');
+  }
+
+  if (batch.batchSize < 1 || batch.batchIndex >= batch.batchSize) {
+    throw new Error('迁移数据的分页信息无效');
+  }
+  return batch;
+}
+
+/**
+ * 账号不能写入迁移格式的原因，可以导出时返回 null
+ */
+export function getMigrationProblem(params: OtpParams): string | null {
+  if (params.type === 'steam') {
+    return 'Google 身份验证器不支持 Steam 令牌';
+  }
+  if (!DIGIT_CODES[params.digits]) {
+    return 'Google 身份验证器只支持 6 位或 8 位验证码';
+  }
+  if (params.type === 'totp' && params.period !== MIGRATION_PERIOD) {
+    return `Google 身份验证器只支持 ${MIGRATION_PERIOD} 秒的时间步长`;
+  }
+  return null;
+}
+
+/**
+ * 把账号按页生成迁移链接，每页一张二维码
+ * batchId 用于让对方识别同一次导出的各张二维码
+ */
+export function formatMigrationUris(
+  accounts: OtpParams[],
+  batchId: number,
+  pageSize: number = MIGRATION_PAGE_SIZE
+): string[] {
+  for (const account of accounts) {
+    const problem = getMigrationProblem(account);
+    if (problem) {
+      throw new Error(`${account.issuer || account.account}：${problem}`);
+    }
+  }
+
+  const pages: OtpParams[][] = [];
+  for (let i = 0; i < accounts.length; i += pageSize) {
+    pages.push(accounts.slice(i, i + pageSize));
+  }
+
+  return pages.map((page, index) => {
+    const writer = new ProtoWriter();
+    for (const account of page) {
+      writer.bytes(1, writeAccount(account));
+    }
+    writer.varint(2, MIGRATION_VERSION);
+    writer.varint(3, pages.length);
+    writer.varint(4, index);
+    writer.varint(5, batchId);
+    return `${MIGRATION_PREFIX}?data=${encodeURIComponent(encodeBase64(writer.finish()))}`;
+  });
+}
+
+function readAccount(data: Uint8Array, batch: MigrationBatch): void {
+  let secret: Uint8Array = new Uint8Array(0);
+  let name = '';
+  let issuer = '';
+  let algorithm = 0;
+  let digits = 0;
+  let type = 0;
+  let counter = 0;
+
+  for (const field of readMessage(data)) {
+    switch (field.number) {
+      case 1: secret = field.bytes!; break;
+      case 2: name = decodeUtf8(field.bytes!); break;
+      case 3: issuer = decodeUtf8(field.bytes!); break;
+      case 4: algorithm = field.value!; break;
+      case 5: digits = field.value!; break;
+      case 6: type = field.value!; break;
+      case 7: counter = field.value!; break;
+    }
+  }
+
+  // 名称可能带有 "签发方:" 前缀
+  let account = name.trim();
+  const separator = account.indexOf(':');
+  if (separator !== -1 && (!issuer || account.slice(0, separator).trim() === issuer.trim())) {
+    issuer = issuer || account.slice(0, separator);
+    account = account.slice(separator + 1).trim();
+  }
+  issuer = issuer.trim();
+  const label = issuer ? `${issuer}（${account || '未命名'}）` : account || '未命名账号';
+
+  const algorithmName = (Object.keys(ALGORITHM_CODES) as OtpAlgorithm[]).find((key) => ALGORITHM_CODES[key] === algorithm);
+  if (algorithm !== 0 && !algorithmName) {
+    batch.skipped.push(`${label}：不支持的算法${algorithm === 4 ? ' MD5' : ''}`);
+    return;
+  }
+  if (secret.length === 0) {
+    batch.skipped.push(`${label}：缺少密钥`);
+    return;
+  }
+  if (!Number.isSafeInteger(counter)) {
+    batch.skipped.push(`${label}：HOTP 计数器无效`);
+    return;
+  }
+
+  batch.accounts.push({
+    type: type === TYPE_HOTP ? 'hotp' : 'totp',
+    secret: encodeBase32(secret),
+    issuer,
+    account,
+    algorithm: algorithmName ?? 'SHA1',
+    digits: digits === DIGIT_CODES[8] ? 8 : 6,
+    period: MIGRATION_PERIOD,
+    counter: type === TYPE_HOTP ? counter : 0,
+  });
+}
+
+function writeAccount(params: OtpParams): Uint8Array {
+  const writer = new ProtoWriter();
+  writer.bytes(1, decodeBase32(params.secret));
+  writer.bytes(2, encodeUtf8(params.account || params.issuer));
+  if (params.issuer) {
+    writer.bytes(3, encodeUtf8(params.issuer));
+  }
+  writer.varint(4, ALGORITHM_CODES[params.algorithm]);
+  writer.varint(5, DIGIT_CODES[params.digits]);
+  writer.varint(6, params.type === 'hotp' ? TYPE_HOTP : TYPE_TOTP);
+  if (params.type === 'hotp') {
+    writer.varint(7, params.counter);
+  }
+  return writer.finish();
+}
+
+// ========== protobuf 编解码（只实现迁移格式用到的部分） ==========
+
+interface ProtoField {
+  number: number;
+  value?: number;       // varint
+  bytes?: Uint8Array;   // 长度前缀
+}
+
+function readMessage(data: Uint8Array): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (offset >= data.length) throw new Error('truncated');
+      const byte = data[offset++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+      if (multiplier > 2 ** 70) throw new Error('varint too long');
+    }
+  };
+
+  while (offset < data.length) {
+    const key = readVarint();
+    const number = Math.floor(key / 8);
+    const wireType = key % 8;
+    switch (wireType) {
+      case 0:
+        fields.push({ number, value: readVarint() });
+        break;
+      case 1:
+        offset += 8;
+        break;
+      case 2: {
+        const length = readVarint();
+        if (offset + length > data.length) throw new Error('truncated');
+        fields.push({ number, bytes: data.subarray(offset, offset + length) });
+        offset += length;
+        break;
+      }
+      case 5:
+        offset += 4;
+        break;
+      default:
+        throw new Error(`unsupported wire type ${wireType}`);
+    }
+  }
+  if (offset > data.length) throw new Error('truncated');
+  return fields;
+}
+
+class ProtoWriter {
+  private bytesOut: number[] = [];
+
+  varint(number: number, value: number): void {
+    this.writeVarint(number * 8);
+    this.writeVarint(value);
+  }
+
+  bytes(number: number, value: Uint8Array): void {
+    this.writeVarint(number * 8 + 2);
+    this.writeVarint(value.length);
+    this.bytesOut.push(...value);
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.bytesOut);
+  }
+
+  private writeVarint(value: number): void {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.bytesOut.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytesOut.push(remaining);
+  }
+}
+
+// ========== Base64 / UTF-8 ==========
+
+function decodeBase64(value: string): Uint8Array {
+  // 兼容 URL 安全字符和缺失的填充
+  const clean = value.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (!/^[A-Za-z0-9+/]*$/.test(clean) || clean.length % 4 === 1) {
+    throw new Error('invalid base64');
+  }
+  const bytes: number[] = [];
+  let bits = 0;
+  let buffer = 0;
+  for (const char of clean) {
+    buffer = ((buffer << 6) | BASE64_CHARS.indexOf(char)) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += BASE64_CHARS[(chunk >>> 18) & 0x3f] + BASE64_CHARS[(chunk >>> 12) & 0x3f];
+    result += i + 1 < bytes.length ? BASE64_CHARS[(chunk >>> 6) & 0x3f] : '=';
+    result += i + 2 < bytes.length ? BASE64_CHARS[chunk & 0x3f] : '=';
+  }
+  return result;
+}
+
+function encodeUtf8(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+// 无效的 UTF-8 序列替换为 U+FFFD，个别账号名称损坏时不影响整页导入
+function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
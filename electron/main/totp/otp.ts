@@ -0,0 +1,292 @@
+/**
+ * 条目两步验证码
+ * 解析和生成 otpauth URI，按 RFC 4226 (HOTP) / RFC 6238 (TOTP) 计算验证码，支持 Steam 令牌。
+ * 不依赖 Node，HMAC 由调用方提供，主进程、渲染进程和移动端共用。
+ *
+ * 支持的输入：
+ * - otpauth://totp/签发方:账号?secret=...&issuer=...&algorithm=SHA1&digits=6&period=30
+ * - otpauth://hotp/签发方:账号?secret=...&counter=0
+ * - Steam 令牌：otpauth://steam/...、otpauth://totp/...?encoder=steam 或 steam://密钥
+ * - 单独的 Base32 密钥，按默认参数的 TOTP 处理
+ */
+
+export type OtpType = 'totp' | 'hotp' | 'steam';
+export type OtpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export interface OtpParams {
+  type: OtpType;
+  secret: string;       // Base32，大写、无填充
+  issuer: string;
+  account: string;
+  algorithm: OtpAlgorithm;
+  digits: number;       // TOTP/HOTP 为 6-8 位，Steam 固定 5 位
+  period: number;       // TOTP/Steam 的时间步长（秒）
+  counter: number;      // HOTP 计数器
+}
+
+/** HMAC，algorithm 为 SHA1、SHA256 或 SHA512 */
+export type OtpHmac = (algorithm: OtpAlgorithm, key: Uint8Array, message: Uint8Array) => Uint8Array;
+
+export const OTP_ALGORITHMS: OtpAlgorithm[] = ['SHA1', 'SHA256', 'SHA512'];
+export const MIN_OTP_DIGITS = 6;
+export const MAX_OTP_DIGITS = 8;
+export const MAX_OTP_PERIOD = 3600;
+
+const BASE32_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEAM_CHARS = '23456789BCDFGHJKMNPQRTVWXY';
+const STEAM_DIGITS = 5;
+const DEFAULT_PERIOD = 30;
+
+/**
+ * RFC 4226 / RFC 6238 附录中的测试向量，用于检查各端提供的 HMAC
+ */
+export const OTP_TEST_VECTORS: Array<{ uri: string; time: number; code: string }> = [
+  { uri: 'otpauth://hotp/test?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&counter=0', time: 0, code: '755224' },
+  { uri: 'otpauth://hotp/test?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&counter=9', time: 0, code: '520489' },
+  { uri: 'otpauth://totp/test?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&digits=8', time: 59000, code: '94287082' },
+  {
+    uri: 'otpauth://totp/test?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA&algorithm=SHA256&digits=8',
+    time: 1111111109000,
+    code: '68084774',
+  },
+  {
+    uri: 'otpauth://totp/test?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA&algorithm=SHA512&digits=8',
+    time: 20000000000000,
+    code: '47863826',
+  },
+];
+
+/**
+ * 解析 otpauth URI、steam:// 链接或单独的 Base32 密钥，无效时抛出异常
+ */
+export function parseOtpAuthUri(input: string): OtpParams {
+  const value = input.trim();
+  if (!value) {
+    throw new Error('请输入两步验证密钥');
+  }
+
+  if (/^steam:\/\//i.test(value)) {
+    return createParams('steam', value.slice('steam://'.length), {});
+  }
+
+  if (!/^otpauth:\/\//i.test(value)) {
+    return createParams('totp', value, {});
+  }
+
+  const match = /^otpauth:\/\/([^/?#]+)\/?([^?#]*)(?:\?([^#]*))?/i.exec(value);
+  if (!match) {
+    throw new Error('otpauth 链接格式无效');
+  }
+
+  const query: Record<string, string> = {};
+  for (const pair of (match[3] ?? '').split('&')) {
+    if (!pair) continue;
+    const index = pair.indexOf('=');
+    const key = decodeComponent(index === -1 ? pair : pair.slice(0, index)).toLowerCase();
+    query[key] = decodeComponent(index === -1 ? '' : pair.slice(index + 1));
+  }
+
+  const rawType = match[1].toLowerCase() as OtpType;
+  if (!['totp', 'hotp', 'steam'].includes(rawType)) {
+    throw new Error(`不支持的验证码类型 ${match[1]}`);
+  }
+  const type: OtpType = rawType === 'totp' && query.encoder?.toLowerCase() === 'steam' ? 'steam' : rawType;
+
+  // 标签为 "签发方:账号"，issuer 参数优先
+  const label = decodeComponent(match[2]);
+  const separator = label.indexOf(':');
+  const account = (separator === -1 ? label : label.slice(separator + 1)).trim();
+  const issuer = (query.issuer ?? (separator === -1 ? '' : label.slice(0, separator))).trim();
+
+  if (query.secret === undefined) {
+    throw new Error('otpauth 链接缺少密钥');
+  }
+  return createParams(type, query.secret, { ...query, issuer, account });
+}
+
+/**
+ * 把参数格式化为标准的 otpauth URI
+ */
+export function formatOtpAuthUri(params: OtpParams): string {
+  const label = params.issuer
+    ? `${encodeURIComponent(params.issuer)}:${encodeURIComponent(params.account)}`
+    : encodeURIComponent(params.account);
+  const query = [`secret=${params.secret}`];
+  if (params.issuer) {
+    query.push(`issuer=${encodeURIComponent(params.issuer)}`);
+  }
+
+  if (params.type === 'steam') {
+    query.push('encoder=steam');
+  } else {
+    query.push(`algorithm=${params.algorithm}`, `digits=${params.digits}`);
+  }
+  query.push(params.type === 'hotp' ? `counter=${params.counter}` : `period=${params.period}`);
+
+  return `otpauth://${params.type === 'hotp' ? 'hotp' : 'totp'}/${label}?${query.join('&')}`;
+}
+
+/**
+ * 规范化用户输入的两步验证信息，无效时抛出异常
+ */
+export function normalizeOtpAuthUri(input: string): string {
+  return formatOtpAuthUri(parseOtpAuthUri(input));
+}
+
+/**
+ * 计算验证码，TOTP 和 Steam 令牌按 now 所在的时间步计算，HOTP 使用参数中的计数器
+ */
+export function generateOtp(params: OtpParams, hmac: OtpHmac, now: number = Date.now()): string {
+  const counter = params.type === 'hotp' ? params.counter : Math.floor(now / 1000 / params.period);
+
+  // 计数器按 8 字节大端序编码
+  const message = new Uint8Array(8);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const hash = hmac(params.algorithm, decodeBase32(params.secret), message);
+  const offset = hash[hash.length - 1] & 0x0f;
+  let binary = ((hash[offset] & 0x7f) << 24) | (hash[offset + 1] << 16) | (hash[offset + 2] << 8) | hash[offset + 3];
+
+  if (params.type === 'steam') {
+    let code = '';
+    for (let i = 0; i < STEAM_DIGITS; i++) {
+      code += STEAM_CHARS[binary % STEAM_CHARS.length];
+      binary = Math.floor(binary / STEAM_CHARS.length);
+    }
+    return code;
+  }
+  return String(binary % 10 ** params.digits).padStart(params.digits, '0');
+}
+
+/**
+ * 当前验证码剩余的有效秒数，HOTP 没有有效期，返回 0
+ */
+export function getOtpRemainingSeconds(params: OtpParams, now: number = Date.now()): number {
+  if (params.type === 'hotp') return 0;
+  return params.period - (Math.floor(now / 1000) % params.period);
+}
+
+/**
+ * 用测试向量检查当前平台的 HMAC，返回不一致的向量序号
+ */
+export function verifyOtpVectors(hmac: OtpHmac): number[] {
+  return OTP_TEST_VECTORS
+    .map((vector, index) => (generateOtp(parseOtpAuthUri(vector.uri), hmac, vector.time) === vector.code ? -1 : index))
+    .filter((index) => index !== -1);
+}
+
+/**
+ * 验证码参数的简要说明，如 "TOTP · SHA1 · 6 位 · 30 秒"
+ */
+export function describeOtp(params: OtpParams): string {
+  if (params.type === 'steam') return 'Steam 令牌';
+  const base = [params.type.toUpperCase(), params.algorithm, `${params.digits} 位`];
+  return [...base, params.type === 'hotp' ? `计数器 ${params.counter}` : `${params.period} 秒`].join(' · ');
+}
+
+/**
+ * 按类型校验参数并补全默认值
+ */
+function createParams(type: OtpType, rawSecret: string, query: Record<string, string>): OtpParams {
+  const secret = rawSecret.replace(/[\s-]/g, '').replace(/=+$/, '').toUpperCase();
+  if (!secret) {
+    throw new Error('两步验证密钥为空');
+  }
+  if (![...secret].every((c) => BASE32_CHARS.includes(c))) {
+    throw new Error('两步验证密钥不是有效的 Base32 编码');
+  }
+
+  const params: OtpParams = {
+    type,
+    secret,
+    issuer: query.issuer ?? (type === 'steam' ? 'Steam' : ''),
+    account: query.account ?? '',
+    algorithm: 'SHA1',
+    digits: STEAM_DIGITS,
+    period: DEFAULT_PERIOD,
+    counter: 0,
+  };
+  if (type === 'steam') {
+    return params;
+  }
+
+  if (query.algorithm) {
+    const algorithm = query.algorithm.toUpperCase().replace('-', '') as OtpAlgorithm;
+    if (!OTP_ALGORITHMS.includes(algorithm)) {
+      throw new Error(`不支持的算法 ${query.algorithm}`);
+    }
+    params.algorithm = algorithm;
+  }
+
+  params.digits = parseInteger(query.digits, MIN_OTP_DIGITS);
+  if (!(params.digits >= MIN_OTP_DIGITS && params.digits <= MAX_OTP_DIGITS)) {
+    throw new Error(`验证码位数应为 ${MIN_OTP_DIGITS}-${MAX_OTP_DIGITS} 位`);
+  }
+
+  if (type === 'totp') {
+    params.period = parseInteger(query.period, DEFAULT_PERIOD);
+    if (!(params.period >= 1 && params.period <= MAX_OTP_PERIOD)) {
+      throw new Error(`验证码有效期应为 1-${MAX_OTP_PERIOD} 秒`);
+    }
+  } else {
+    params.counter = parseInteger(query.counter, 0);
+    if (!Number.isSafeInteger(params.counter)) {
+      throw new Error('HOTP 计数器无效');
+    }
+  }
+  return params;
+}
+
+function parseInteger(value: string | undefined, fallback: number): number {
+  if (value === undefined || value === '') return fallback;
+  return /^\d+$/.test(value.trim()) ? Number(value.trim()) : NaN;
+}
+
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Base32 解码，输入需为大写、无填充
+ */
+export function decodeBase32(secret: string): Uint8Array {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of secret) {
+    value = (value << 5) | BASE32_CHARS.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Base32 编码，输出为大写、无填充
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+  let result = '';
+  let bits = 0;
+  let value = 0;
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      result += BASE32_CHARS[(value >>> (bits - 5)) & 0x1f];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    result += BASE32_CHARS[(value << (5 - bits)) & 0x1f];
+  }
+  return result;
+}
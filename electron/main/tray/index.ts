@@ -5,15 +5,25 @@
 
 import { Tray, Menu, nativeImage, app, BrowserWindow, Notification } from 'electron';
 import path from 'path';
+import { listVaults } from '../storage/vaults';
 
 let tray: Tray | null = null;
 let mainWindow: BrowserWindow | null = null;
 
+// 托盘中可以复制验证码的条目
+export interface TrayOtpEntry {
+  id: string;
+  label: string;
+}
+
 export interface TrayCallbacks {
   onQuickEntry: () => void;
   onScreenshot: () => void;
+  getOtpEntries: () => TrayOtpEntry[];
+  onCopyOtp: (id: string) => void;
   onOpenMainWindow: () => void;
   onSettings: () => void;
+  onSwitchVault: (id: string) => void;
   onExit: () => void;
 }
 
@@ -63,6 +73,25 @@ export function createTray(win: BrowserWindow, trayCallbacks: TrayCallbacks): Tr
 export function updateMenu(): void {
   if (!tray || !callbacks) return;
 
+  // 密码库切换子菜单
+  const { vaults, currentId } = listVaults();
+  const vaultItems: Electron.MenuItemConstructorOptions[] = vaults.map(vault => ({
+    label: vault.name,
+    type: 'radio',
+    checked: vault.id === currentId,
+    click: () => {
+      if (vault.id !== currentId) {
+        callbacks?.onSwitchVault(vault.id);
+      }
+    },
+  }));
+
+  // 复制验证码子菜单，密码库锁定时为空
+  const otpItems: Electron.MenuItemConstructorOptions[] = callbacks.getOtpEntries().map(entry => ({
+    label: entry.label,
+    click: () => callbacks?.onCopyOtp(entry.id),
+  }));
+
   const contextMenu = Menu.buildFromTemplate([
     {
       label: '快速录入',
@@ -74,11 +103,20 @@ export function updateMenu(): void {
       accelerator: 'CommandOrControl+Shift+O',
       click: () => callbacks?.onScreenshot(),
     },
+    {
+      label: '复制验证码',
+      enabled: otpItems.length > 0,
+      submenu: otpItems,
+    },
     { type: 'separator' },
     {
       label: '打开主窗口',
       click: () => callbacks?.onOpenMainWindow(),
     },
+    {
+      label: '切换密码库',
+      submenu: vaultItems,
+    },
     {
       label: '设置',
       click: () => callbacks?.onSettings(),
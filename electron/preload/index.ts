@@ -3,8 +3,10 @@ import { contextBridge, ipcRenderer } from 'electron';
 // 暴露安全的 API 给渲染进程
 contextBridge.exposeInMainWorld('electronAPI', {
   // 认证相关
-  setupVault: (password: string) => ipcRenderer.invoke('setup-vault', password),
-  unlockVault: (password: string) => ipcRenderer.invoke('unlock-vault', password),
+  setupVault: (password: string, keyFilePath?: string) => ipcRenderer.invoke('setup-vault', password, keyFilePath),
+  unlockVault: (password: string, keyFilePath?: string) => ipcRenderer.invoke('unlock-vault', password, keyFilePath),
+  verifyUnlockCode: (code: string, isRecoveryCode: boolean) =>
+    ipcRenderer.invoke('verify-unlock-code', code, isRecoveryCode),
   lockVault: () => ipcRenderer.invoke('lock-vault'),
   changeMasterPassword: (oldPwd: string, newPwd: string) =>
     ipcRenderer.invoke('change-master-password', oldPwd, newPwd),
@@ -14,12 +16,43 @@ contextBridge.exposeInMainWorld('electronAPI', {
   destroyVault: (password: string) => ipcRenderer.invoke('destroy-vault', password),
   resetVault: () => ipcRenderer.invoke('reset-vault'),
 
+  // 密钥文件
+  isKeyFileRequired: () => ipcRenderer.invoke('key-file:required'),
+  generateKeyFile: () => ipcRenderer.invoke('key-file:generate'),
+  selectKeyFile: () => ipcRenderer.invoke('key-file:select'),
+  setKeyFile: (password: string, keyFilePath: string | null) =>
+    ipcRenderer.invoke('key-file:set', password, keyFilePath),
+
+  // 恢复密钥
+  getRecoveryKeyStatus: () => ipcRenderer.invoke('recovery-key:status'),
+  createRecoveryKey: (password: string, options?: { shares?: number; threshold?: number }) =>
+    ipcRenderer.invoke('recovery-key:create', password, options),
+  removeRecoveryKey: (password: string) => ipcRenderer.invoke('recovery-key:remove', password),
+  recoverVault: (codes: string[], newPassword: string) => ipcRenderer.invoke('recovery-key:recover', codes, newPassword),
+  saveEmergencyKit: (kit: unknown, format: 'html' | 'pdf') => ipcRenderer.invoke('recovery-key:save-kit', kit, format),
+
+  // 解锁保护
+  getUnlockGuardConfig: () => ipcRenderer.invoke('unlock-guard:get-config'),
+  setUnlockGuardConfig: (config: unknown) => ipcRenderer.invoke('unlock-guard:set-config', config),
+  listUnlockJournal: () => ipcRenderer.invoke('unlock-guard:journal'),
+  getUnlockSummary: () => ipcRenderer.invoke('unlock-guard:summary'),
+
+  // 多密码库
+  listVaults: () => ipcRenderer.invoke('vaults:list'),
+  createVault: (name: string) => ipcRenderer.invoke('vaults:create', name),
+  renameVault: (id: string, name: string) => ipcRenderer.invoke('vaults:rename', id, name),
+  removeVault: (id: string) => ipcRenderer.invoke('vaults:remove', id),
+  switchVault: (id: string) => ipcRenderer.invoke('vaults:switch', id),
+  onVaultSwitched: (callback: () => void) => {
+    ipcRenderer.on('vault-switched', callback);
+    return () => ipcRenderer.removeListener('vault-switched', callback);
+  },
+
   // 安全参数
   getSecurityInfo: () => ipcRenderer.invoke('get-security-info'),
   checkSecurityUpgrade: () => ipcRenderer.invoke('check-security-upgrade'),
-  upgradeSecurityParams: (password: string, iterations?: number) => 
-    ipcRenderer.invoke('upgrade-security', password, iterations),
-  checkPasswordStrength: (password: string) => ipcRenderer.invoke('check-password-strength', password),
+  upgradeSecurityParams: (password: string, options?: { algorithm?: string; targetMs?: number }) =>
+    ipcRenderer.invoke('upgrade-security', password, options),
 
   // 密码条目
   createEntry: (entry: unknown) => ipcRenderer.invoke('create-entry', entry),
@@ -29,6 +62,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
   listEntries: () => ipcRenderer.invoke('list-entries'),
   getEntriesByCategory: (categoryId: string) => ipcRenderer.invoke('get-entries-by-category', categoryId),
   getEntriesByTag: (tagId: string) => ipcRenderer.invoke('get-entries-by-tag', tagId),
+  getWifiQR: (entryId: string) => ipcRenderer.invoke('entries:wifi-qr', entryId),
+
+  // 历史版本
+  listEntryRevisions: (entryId: string) => ipcRenderer.invoke('entries:list-revisions', entryId),
+  restoreEntryRevision: (revisionId: string) => ipcRenderer.invoke('entries:restore-revision', revisionId),
+  getHistoryConfig: () => ipcRenderer.invoke('entries:get-history-config'),
+  setHistoryConfig: (config: unknown) => ipcRenderer.invoke('entries:set-history-config', config),
+
+  // 附件
+  addAttachments: (entryId: string) => ipcRenderer.invoke('attachments:add', entryId),
+  listAttachments: (entryId: string) => ipcRenderer.invoke('attachments:list', entryId),
+  previewAttachment: (id: string) => ipcRenderer.invoke('attachments:preview', id),
+  exportAttachment: (id: string) => ipcRenderer.invoke('attachments:export', id),
+  deleteAttachment: (id: string) => ipcRenderer.invoke('attachments:delete', id),
 
   // 批量操作
   batchMoveCategory: (ids: string[], categoryId: string | null) => 
@@ -40,6 +87,31 @@ contextBridge.exposeInMainWorld('electronAPI', {
   batchDelete: (ids: string[]) => 
     ipcRenderer.invoke('entries:batch-delete', ids),
 
+  // 回收站
+  listTrash: () => ipcRenderer.invoke('trash:list'),
+  restoreFromTrash: (id: string) => ipcRenderer.invoke('trash:restore', id),
+  purgeFromTrash: (id: string) => ipcRenderer.invoke('trash:purge', id),
+  emptyTrash: () => ipcRenderer.invoke('trash:empty'),
+  getTrashConfig: () => ipcRenderer.invoke('trash:get-config'),
+  setTrashConfig: (config: unknown) => ipcRenderer.invoke('trash:set-config', config),
+
+  // 安全审计
+  runSecurityAudit: () => ipcRenderer.invoke('audit:run'),
+  getAuditConfig: () => ipcRenderer.invoke('audit:get-config'),
+  setAuditConfig: (config: unknown) => ipcRenderer.invoke('audit:set-config', config),
+
+  // 泄露密码检查
+  getBreachStatus: () => ipcRenderer.invoke('breach:status'),
+  selectBreachFile: () => ipcRenderer.invoke('breach:select-file'),
+  importBreachSource: (filePath: string, mode: string) => ipcRenderer.invoke('breach:import', filePath, mode),
+  removeBreachSource: () => ipcRenderer.invoke('breach:remove'),
+  checkPasswordBreach: (password: string) => ipcRenderer.invoke('breach:check', password),
+  onBreachProgress: (callback: (progress: unknown) => void) => {
+    const listener = (_event: unknown, progress: unknown) => callback(progress);
+    ipcRenderer.on('breach:progress', listener);
+    return () => ipcRenderer.removeListener('breach:progress', listener);
+  },
+
   // 分类和标签
   createCategory: (category: unknown) => ipcRenderer.invoke('create-category', category),
   listCategories: () => ipcRenderer.invoke('list-categories'),
@@ -51,9 +123,28 @@ contextBridge.exposeInMainWorld('electronAPI', {
   updateTag: (tag: unknown) => ipcRenderer.invoke('update-tag', tag),
   deleteTag: (id: string) => ipcRenderer.invoke('delete-tag', id),
 
+  // 密码规则
+  listPolicies: () => ipcRenderer.invoke('policies:list'),
+  createPolicy: (policy: unknown) => ipcRenderer.invoke('policies:create', policy),
+  updatePolicy: (policy: unknown) => ipcRenderer.invoke('policies:update', policy),
+  deletePolicy: (id: string) => ipcRenderer.invoke('policies:delete', id),
+
   // 密码生成
   generatePassword: (config: unknown) => ipcRenderer.invoke('generate-password', config),
-  calculateStrength: (password: string) => ipcRenderer.invoke('calculate-strength', password),
+  derivePassword: (secret: string, params: unknown) => ipcRenderer.invoke('derive-password', secret, params),
+
+  // 条目两步验证
+  generateOtpCode: (otpauth: string) => ipcRenderer.invoke('generate-otp-code', otpauth),
+  advanceOtpCounter: (id: string) => ipcRenderer.invoke('entries:advance-otp-counter', id),
+
+  // 密码生成历史
+  listGeneratorHistory: () => ipcRenderer.invoke('generator-history:list'),
+  addGeneratorHistory: (password: string, context?: string) =>
+    ipcRenderer.invoke('generator-history:add', password, context),
+  deleteGeneratorHistory: (id: string) => ipcRenderer.invoke('generator-history:delete', id),
+  clearGeneratorHistory: () => ipcRenderer.invoke('generator-history:clear'),
+  getGeneratorHistoryConfig: () => ipcRenderer.invoke('generator-history:get-config'),
+  setGeneratorHistoryConfig: (config: unknown) => ipcRenderer.invoke('generator-history:set-config', config),
 
   // 导入导出
   downloadTemplate: () => ipcRenderer.invoke('download-template'),
@@ -62,6 +153,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
   detectFormat: (filePath: string) => ipcRenderer.invoke('detect-format', filePath),
   executeImport: (entries: unknown[]) => ipcRenderer.invoke('execute-import', entries),
 
+  // Google 身份验证器迁移
+  scanAuthenticatorText: (text: string) => ipcRenderer.invoke('authenticator:scan-text', text),
+  scanAuthenticatorImage: (source: string, filePath?: string) =>
+    ipcRenderer.invoke('authenticator:scan-image', source, filePath),
+  importAuthenticatorItems: (items: unknown[]) => ipcRenderer.invoke('authenticator:import', items),
+  exportAuthenticatorMigration: (entryIds?: string[]) => ipcRenderer.invoke('authenticator:export', entryIds),
+
   // 备份
   createBackup: (backupType?: string) => ipcRenderer.invoke('create-backup', backupType),
   restoreBackup: (backupPath?: string) => ipcRenderer.invoke('restore-backup', backupPath),
@@ -1,3 +1,4 @@
+const path = require('path');
 const {getDefaultConfig, mergeConfig} = require('@react-native/metro-config');
 
 /**
@@ -5,6 +6,14 @@ const {getDefaultConfig, mergeConfig} = require('@react-native/metro-config');
  * https://reactnative.dev/docs/metro
  */
 const config = {
+  // 数据库迁移与桌面端共用 electron/main/storage/migrations.ts，密码强度估算共用 electron/main/strength，
+  // 密码短语生成共用 electron/main/generator/passphrase.ts，条目验证码共用 electron/main/totp/otp.ts
+  watchFolders: [
+    path.resolve(__dirname, '../electron/main/storage'),
+    path.resolve(__dirname, '../electron/main/strength'),
+    path.resolve(__dirname, '../electron/main/generator'),
+    path.resolve(__dirname, '../electron/main/totp'),
+  ],
   resolver: {
     sourceExts: ['jsx', 'js', 'ts', 'tsx', 'json'],
   },
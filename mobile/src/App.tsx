@@ -140,6 +140,7 @@ function AppContent() {
   const { isInitialized, isUnlocked, setInitialized } = useVaultStore();
   const [isLoading, setIsLoading] = useState(true);
   const [dbReady, setDbReady] = useState(false);
+  const [initError, setInitError] = useState<string | null>(null);
 
   // 初始化数据库
   useEffect(() => {
@@ -152,6 +153,7 @@ function AppContent() {
         setInitialized(initialized);
       } catch (error) {
         console.error('Failed to initialize:', error);
+        setInitError(error instanceof Error ? error.message : '数据库初始化失败');
       } finally {
         setIsLoading(false);
       }
@@ -160,6 +162,15 @@ function AppContent() {
     init();
   }, [setInitialized]);
 
+  // 数据库无法打开（例如由更新版本的应用创建）
+  if (initError) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.errorText}>{initError}</Text>
+      </View>
+    );
+  }
+
   if (isLoading || !dbReady) {
     return (
       <View style={styles.loadingContainer}>
@@ -212,4 +223,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#9CA3AF',
   },
+  errorText: {
+    paddingHorizontal: 32,
+    fontSize: 16,
+    color: '#F87171',
+    textAlign: 'center',
+  },
 });
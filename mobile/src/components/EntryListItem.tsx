@@ -17,6 +17,7 @@ import Clipboard from '@react-native-clipboard/clipboard';
 import { PasswordEntry, Category } from '../types/models';
 import { toggleFavorite } from '../services/vault';
 import { useVaultStore } from '../stores/vaultStore';
+import { generateEntryOtp, getOtpRemainingSeconds, parseOtpAuthUri } from '../utils/otp';
 
 interface Props {
   entry: PasswordEntry;
@@ -43,6 +44,23 @@ export default function EntryListItem({ entry, category, searchQuery, onPress }:
     }, 30000);
   };
 
+  // HOTP 每次使用都要推进计数器，只在详情页中操作
+  const canCopyOtp = !!entry.otpauth && !entry.otpauth.startsWith('otpauth://hotp/');
+
+  const copyOtp = () => {
+    try {
+      const code = generateEntryOtp(entry.otpauth!);
+      const remaining = getOtpRemainingSeconds(parseOtpAuthUri(entry.otpauth!));
+      Clipboard.setString(code);
+      Alert.alert('已复制', `验证码已复制到剪贴板，${remaining}秒后过期`);
+      setTimeout(() => {
+        Clipboard.setString('');
+      }, 30000);
+    } catch (error) {
+      Alert.alert('错误', (error as Error).message || '计算验证码失败');
+    }
+  };
+
   const handleToggleFavorite = async () => {
     try {
       await toggleFavorite(entry.id, !entry.favorite);
@@ -124,6 +142,12 @@ export default function EntryListItem({ entry, category, searchQuery, onPress }:
             <Text style={styles.actionIcon}>🔑</Text>
             <Text style={styles.actionText}>复制密码</Text>
           </TouchableOpacity>
+          {canCopyOtp && (
+            <TouchableOpacity style={styles.actionButton} onPress={copyOtp}>
+              <Text style={styles.actionIcon}>🔢</Text>
+              <Text style={styles.actionText}>复制验证码</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
     </TouchableOpacity>
@@ -2,7 +2,7 @@
  * 密码详情页面
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -10,11 +10,20 @@ import {
   TouchableOpacity,
   StyleSheet,
   Alert,
+  TextInput,
+  ActivityIndicator,
 } from 'react-native';
 import Clipboard from '@react-native-clipboard/clipboard';
 import { PasswordEntry } from '../types/models';
 import { useVaultStore } from '../stores/vaultStore';
-import { deleteEntry } from '../services/vault';
+import { advanceOtpCounter, deleteEntry, updateEntry } from '../services/vault';
+import { deriveEntryPassword, describeDerivation } from '../utils/derivation';
+import {
+  describeOtp,
+  generateEntryOtp,
+  getOtpRemainingSeconds,
+  parseOtpAuthUri,
+} from '../utils/otp';
 
 interface Props {
   entry: PasswordEntry;
@@ -24,7 +33,53 @@ interface Props {
 
 export default function EntryDetailScreen({ entry, onEdit, onBack }: Props) {
   const [showPassword, setShowPassword] = useState(false);
-  const { removeEntry, categories } = useVaultStore();
+  const { removeEntry, categories, derivationSecret, setDerivationSecret, updateEntry: updateStoreEntry } = useVaultStore();
+
+  // 派生密码条目：输入派生主密码后计算，更换密码后使用新的计数器
+  const [derivation, setDerivation] = useState(entry.derivation);
+  const [secretInput, setSecretInput] = useState('');
+  const [derivedPassword, setDerivedPassword] = useState('');
+  const [isDeriving, setIsDeriving] = useState(false);
+
+  useEffect(() => {
+    setDerivedPassword('');
+    if (!derivation || !derivationSecret) return;
+
+    let cancelled = false;
+    setIsDeriving(true);
+    deriveEntryPassword(derivationSecret, derivation)
+      .then((password) => !cancelled && setDerivedPassword(password))
+      .catch((error) => !cancelled && Alert.alert('错误', (error as Error).message || '计算派生密码失败'))
+      .finally(() => !cancelled && setIsDeriving(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [derivation, derivationSecret]);
+
+  // 两步验证码：TOTP 和 Steam 令牌每秒刷新倒计时，HOTP 手动推进计数器
+  const [otpauth, setOtpauth] = useState(entry.otpauth);
+  const [now, setNow] = useState(Date.now());
+  const otpParams = useMemo(() => {
+    try {
+      return otpauth ? parseOtpAuthUri(otpauth) : null;
+    } catch {
+      return null;
+    }
+  }, [otpauth]);
+  const otpStep = otpParams && otpParams.type !== 'hotp' ? Math.floor(now / 1000 / otpParams.period) : 0;
+  const otpCode = useMemo(() => {
+    try {
+      return otpauth && otpParams ? generateEntryOtp(otpauth, otpStep * otpParams.period * 1000) : '';
+    } catch {
+      return '';
+    }
+  }, [otpauth, otpParams, otpStep]);
+
+  useEffect(() => {
+    if (!otpParams || otpParams.type === 'hotp') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [otpParams]);
 
   const category = categories.find((c) => c.id === entry.categoryId);
 
@@ -56,6 +111,148 @@ export default function EntryDetailScreen({ entry, onEdit, onBack }: Props) {
     );
   };
 
+  const handleBumpCounter = () => {
+    if (!derivation) return;
+    Alert.alert(
+      '更换密码',
+      `计数器将从 ${derivation.counter} 改为 ${derivation.counter + 1}，请随后在网站上把密码改为新的派生密码。`,
+      [
+        { text: '取消', style: 'cancel' },
+        {
+          text: '更换',
+          onPress: async () => {
+            try {
+              const updated: PasswordEntry = {
+                ...entry,
+                derivation: { ...derivation, counter: derivation.counter + 1 },
+                updatedAt: new Date().toISOString(),
+              };
+              await updateEntry(updated);
+              updateStoreEntry(updated);
+              setDerivation(updated.derivation);
+            } catch (error) {
+              Alert.alert('错误', '更换密码失败，请重试');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDerivedPassword = () => {
+    if (!derivation) return null;
+    return (
+      <View style={styles.field}>
+        <Text style={styles.fieldLabel}>派生密码 · {describeDerivation(derivation)}</Text>
+        {derivationSecret ? (
+          <View style={styles.fieldValueRow}>
+            {isDeriving ? (
+              <ActivityIndicator color="#3B82F6" />
+            ) : (
+              <Text style={styles.fieldValue} selectable>
+                {showPassword ? derivedPassword : '••••••••'}
+              </Text>
+            )}
+            <View style={styles.fieldActions}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => setShowPassword(!showPassword)}
+              >
+                <Text style={styles.actionIcon}>{showPassword ? '🙈' : '👁️'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => derivedPassword && copyToClipboard(derivedPassword, '密码')}
+              >
+                <Text style={styles.actionIcon}>📋</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.fieldValueRow}>
+            <TextInput
+              style={styles.secretInput}
+              value={secretInput}
+              onChangeText={setSecretInput}
+              placeholder="输入派生主密码"
+              placeholderTextColor="#6B7280"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={styles.secretButton}
+              onPress={() => {
+                if (!secretInput) return;
+                setDerivationSecret(secretInput);
+                setSecretInput('');
+              }}
+            >
+              <Text style={styles.secretButtonText}>计算</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        <TouchableOpacity onPress={handleBumpCounter}>
+          <Text style={styles.bumpText}>更换密码（计数器 +1）</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const handleNextOtpCounter = async () => {
+    if (!otpParams) return;
+    try {
+      const updated = await advanceOtpCounter({ ...entry, otpauth });
+      updateStoreEntry(updated);
+      setOtpauth(updated.otpauth);
+    } catch (error) {
+      Alert.alert('错误', '更新计数器失败，请重试');
+    }
+  };
+
+  const renderOtp = () => {
+    if (!otpauth) return null;
+    if (!otpParams || !otpCode) {
+      return (
+        <View style={styles.field}>
+          <Text style={styles.fieldLabel}>两步验证</Text>
+          <Text style={styles.otpError}>两步验证信息无效，请编辑条目重新设置</Text>
+        </View>
+      );
+    }
+    const remaining = getOtpRemainingSeconds(otpParams, now);
+    return (
+      <View style={styles.field}>
+        <Text style={styles.fieldLabel}>
+          两步验证 · {[otpParams.issuer, describeOtp(otpParams)].filter(Boolean).join(' · ')}
+        </Text>
+        <View style={styles.fieldValueRow}>
+          <Text style={styles.otpCode} selectable>
+            {otpCode}
+          </Text>
+          {otpParams.type !== 'hotp' && (
+            <Text style={[styles.otpRemaining, remaining <= 5 && styles.otpRemainingLow]}>
+              {remaining}s
+            </Text>
+          )}
+          <View style={styles.fieldActions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => copyToClipboard(otpCode, '验证码')}
+            >
+              <Text style={styles.actionIcon}>📋</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+        {otpParams.type === 'hotp' && (
+          <TouchableOpacity onPress={handleNextOtpCounter}>
+            <Text style={styles.bumpText}>下一个验证码（计数器 +1）</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   const renderField = (
     label: string,
     value: string | undefined,
@@ -134,7 +331,8 @@ export default function EntryDetailScreen({ entry, onEdit, onBack }: Props) {
         {/* 字段列表 */}
         <View style={styles.fieldsCard}>
           {renderField('用户名', entry.username)}
-          {renderField('密码', entry.password, { isPassword: true })}
+          {derivation ? renderDerivedPassword() : renderField('密码', entry.password, { isPassword: true })}
+          {renderOtp()}
           {renderField('网址', entry.url)}
           {renderField('备注', entry.notes, { copyable: false })}
         </View>
@@ -268,6 +466,52 @@ const styles = StyleSheet.create({
   actionIcon: {
     fontSize: 18,
   },
+  secretInput: {
+    flex: 1,
+    backgroundColor: '#374151',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#F9FAFB',
+    marginRight: 8,
+  },
+  secretButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+  },
+  secretButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  bumpText: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#3B82F6',
+  },
+  otpCode: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: '600',
+    letterSpacing: 3,
+    color: '#F9FAFB',
+    fontVariant: ['tabular-nums'],
+  },
+  otpRemaining: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginRight: 4,
+  },
+  otpRemainingLow: {
+    color: '#F87171',
+  },
+  otpError: {
+    fontSize: 14,
+    color: '#F87171',
+  },
   metaCard: {
     backgroundColor: '#1F2937',
     borderRadius: 16,
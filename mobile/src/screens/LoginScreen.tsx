@@ -13,7 +13,7 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
-import { unlockVault } from '../services/vault';
+import { unlockVault, unlockWithKey, verifyUnlockCode, lockVault, UnlockStatus } from '../services/vault';
 import { useVaultStore } from '../stores/vaultStore';
 import {
   checkBiometricAvailability,
@@ -22,8 +22,6 @@ import {
   getBiometricTypeIcon,
   BiometricStatus,
 } from '../services/biometrics';
-import { setDerivedKey } from '../utils/crypto';
-import { isTotpEnabled, verifyTotp, verifyRecoveryCode } from '../services/totp';
 
 interface Props {
   onUnlock: () => void;
@@ -62,21 +60,9 @@ export default function LoginScreen({ onUnlock }: Props) {
     try {
       const encryptedKey = await authenticateWithBiometric();
       if (encryptedKey) {
-        // 恢复密钥
+        // 恢复密钥，启用 TOTP 时仍需二次验证
         const keyBuffer = Buffer.from(encryptedKey, 'base64');
-        setDerivedKey(keyBuffer);
-        
-        // 检查是否需要 TOTP
-        const totpEnabled = await isTotpEnabled();
-        if (totpEnabled) {
-          setStep('totp');
-          setLoading(false);
-          return;
-        }
-        
-        setUnlocked(true);
-        await refreshAll();
-        onUnlock();
+        await handleUnlockStatus(await unlockWithKey(keyBuffer));
       }
     } catch (err) {
       console.error('Biometric unlock failed:', err);
@@ -85,6 +71,17 @@ export default function LoginScreen({ onUnlock }: Props) {
     }
   };
 
+  // 主密码或生物识别验证通过后：需要二次验证时进入验证码步骤
+  const handleUnlockStatus = async (status: UnlockStatus) => {
+    if (status === 'totp-required') {
+      setStep('totp');
+      return;
+    }
+    setUnlocked(true);
+    await refreshAll();
+    onUnlock();
+  };
+
   const handlePasswordSubmit = async () => {
     if (!password.trim()) {
       setError('请输入主密码');
@@ -95,22 +92,13 @@ export default function LoginScreen({ onUnlock }: Props) {
     setError('');
 
     try {
-      const success = await unlockVault(password);
-      if (success) {
-        // 检查是否需要 TOTP
-        const totpEnabled = await isTotpEnabled();
-        if (totpEnabled) {
-          setStep('totp');
-          setLoading(false);
-          return;
-        }
-        
-        setUnlocked(true);
-        await refreshAll();
-        onUnlock();
-      } else {
+      const status = await unlockVault(password);
+      if (status === 'invalid') {
         setError('密码错误');
+        return;
       }
+      setPassword('');
+      await handleUnlockStatus(status);
     } catch (err) {
       setError('解锁失败，请重试');
       console.error(err);
@@ -130,30 +118,24 @@ export default function LoginScreen({ onUnlock }: Props) {
     setError('');
 
     try {
-      let valid = false;
-      if (useRecoveryCode) {
-        valid = await verifyRecoveryCode(code);
-      } else {
-        valid = await verifyTotp(code);
-      }
-
-      if (valid) {
-        setUnlocked(true);
-        await refreshAll();
-        onUnlock();
+      const status = await verifyUnlockCode(code, useRecoveryCode);
+      if (status === 'unlocked') {
+        await handleUnlockStatus(status);
       } else {
         setError(useRecoveryCode ? '恢复码无效' : '验证码错误');
         setTotpCode('');
       }
     } catch (err) {
-      setError('验证失败，请重试');
-      console.error(err);
+      // 超时或错误次数过多，需要重新输入主密码
+      handleBackToPassword();
+      setError((err as Error).message || '验证失败，请重试');
     } finally {
       setLoading(false);
     }
   };
 
   const handleBackToPassword = () => {
+    lockVault();
     setStep('password');
     setTotpCode('');
     setError('');
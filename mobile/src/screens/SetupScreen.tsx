@@ -107,7 +107,7 @@ export default function SetupScreen({ onComplete }: Props) {
                 />
               </View>
               <Text style={[styles.strengthText, { color: getStrengthColor() }]}>
-                {strength.level}
+                {strength.level} · 约 {strength.crackTimeDisplay}
               </Text>
             </View>
           )}
@@ -18,7 +18,7 @@ import {
   sha256,
 } from '../utils/crypto';
 import { PasswordEntry, Category, Tag, EncryptedData } from '../types/models';
-import { listEntries, listCategories, listTags } from './vault';
+import { listEntries, listCategories, listTags, toEncryptedEntryData } from './vault';
 
 const BACKUP_VERSION = 1;
 
@@ -222,17 +222,7 @@ export async function restoreBackup(
       }
 
       // 重新加密数据
-      const encryptedData = encryptObject(
-        {
-          title: entry.title,
-          username: entry.username,
-          password: entry.password,
-          url: entry.url,
-          notes: entry.notes,
-          icon: entry.icon,
-        },
-        key
-      );
+      const encryptedData = encryptObject(toEncryptedEntryData(entry), key);
 
       if (existing) {
         await execute(
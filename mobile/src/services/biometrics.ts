@@ -82,6 +82,22 @@ export async function enableBiometric(encryptedKey: string): Promise<boolean> {
   }
 }
 
+/**
+ * 替换已保存的密钥（密码库迁移到数据密钥后调用），未启用时不做任何事
+ */
+export async function replaceBiometricKey(encryptedKey: string): Promise<void> {
+  const credentials = await Keychain.getGenericPassword({
+    service: KEYCHAIN_SERVICE,
+  });
+  if (!credentials) return;
+
+  await Keychain.setGenericPassword('biometric', encryptedKey, {
+    service: KEYCHAIN_SERVICE,
+    accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_ANY,
+    accessible: Keychain.ACCESSIBLE.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+  });
+}
+
 /**
  * 禁用生物识别解锁
  */
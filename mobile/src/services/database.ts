@@ -7,11 +7,15 @@ import SQLite, {
   SQLiteDatabase,
   ResultSet,
 } from 'react-native-sqlite-storage';
+import RNFS from 'react-native-fs';
 import { Category, Tag, VaultMeta } from '../types/models';
+import { MigrationDriver, runMigrations } from '../../../electron/main/storage/migrations';
 
 // 启用 Promise API
 SQLite.enablePromise(true);
 
+const DB_NAME = 'vault.db';
+
 let db: SQLiteDatabase | null = null;
 
 const DEFAULT_CATEGORIES: Omit<Category, 'createdAt'>[] = [
@@ -28,88 +32,50 @@ const DEFAULT_CATEGORIES: Omit<Category, 'createdAt'>[] = [
  */
 export async function initDatabase(): Promise<void> {
   db = await SQLite.openDatabase({
-    name: 'vault.db',
+    name: DB_NAME,
     location: 'default',
   });
 
-  await createTables();
+  // 执行结构迁移，失败时不保留打开的数据库
+  try {
+    await migrateDatabase();
+  } catch (error) {
+    await db.close();
+    db = null;
+    throw error;
+  }
 }
 
 /**
- * 创建表结构
+ * 获取数据库文件路径（Android 下 location: 'default' 对应应用的 databases 目录）
  */
-async function createTables(): Promise<void> {
-  if (!db) throw new Error('Database not initialized');
+function getDatabasePath(): string {
+  return `${RNFS.DocumentDirectoryPath}/../databases/${DB_NAME}`;
+}
 
-  // 密码库元数据表
-  await db.executeSql(`
-    CREATE TABLE IF NOT EXISTS vault_meta (
-      id INTEGER PRIMARY KEY CHECK (id = 1),
-      salt TEXT NOT NULL,
-      verification_hash TEXT NOT NULL,
-      totp_enabled INTEGER DEFAULT 0,
-      totp_secret_encrypted TEXT,
-      recovery_codes_encrypted TEXT,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL,
-      version INTEGER DEFAULT 2
-    )
-  `);
-
-  // 分类表
-  await db.executeSql(`
-    CREATE TABLE IF NOT EXISTS categories (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      icon TEXT,
-      color TEXT,
-      sort_order INTEGER DEFAULT 0,
-      is_default INTEGER DEFAULT 0,
-      created_at TEXT NOT NULL
-    )
-  `);
-
-  // 标签表
-  await db.executeSql(`
-    CREATE TABLE IF NOT EXISTS tags (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL UNIQUE,
-      color TEXT,
-      created_at TEXT NOT NULL
-    )
-  `);
-
-  // 密码条目表
-  await db.executeSql(`
-    CREATE TABLE IF NOT EXISTS password_entries (
-      id TEXT PRIMARY KEY,
-      encrypted_data TEXT NOT NULL,
-      category_id TEXT,
-      favorite INTEGER DEFAULT 0,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL,
-      FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL
-    )
-  `);
-
-  // 条目-标签关联表
-  await db.executeSql(`
-    CREATE TABLE IF NOT EXISTS entry_tags (
-      entry_id TEXT NOT NULL,
-      tag_id TEXT NOT NULL,
-      PRIMARY KEY (entry_id, tag_id),
-      FOREIGN KEY (entry_id) REFERENCES password_entries(id) ON DELETE CASCADE,
-      FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
-    )
-  `);
-
-  // 创建索引
-  await db.executeSql(
-    'CREATE INDEX IF NOT EXISTS idx_entries_category ON password_entries(category_id)'
-  );
-  await db.executeSql(
-    'CREATE INDEX IF NOT EXISTS idx_entries_favorite ON password_entries(favorite)'
-  );
+/**
+ * 执行数据库结构迁移（与桌面端共用同一份迁移列表）
+ */
+async function migrateDatabase(): Promise<void> {
+  const driver: MigrationDriver = {
+    run: (sql, params) => execute(sql, params),
+    all: (sql, params) => query(sql, params),
+  };
+
+  const result = await runMigrations(driver, {
+    backup: async (fromVersion) => {
+      const dbPath = getDatabasePath();
+      if (!(await RNFS.exists(dbPath))) return;
+      const backupDir = `${RNFS.DocumentDirectoryPath}/migration_backups`;
+      await RNFS.mkdir(backupDir);
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      await RNFS.copyFile(dbPath, `${backupDir}/vault_v${fromVersion}_${timestamp}.db`);
+    },
+  });
+
+  if (result.applied.length > 0) {
+    console.log(`Database migrated from v${result.fromVersion} to v${result.toVersion}`);
+  }
 
   // 插入默认分类
   await insertDefaultCategories();
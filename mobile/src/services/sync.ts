@@ -12,7 +12,7 @@ import {
   sha256,
 } from '../utils/crypto';
 import { PasswordEntry, Category, Tag, EncryptedData } from '../types/models';
-import { listEntries, listCategories, listTags } from './vault';
+import { listEntries, listCategories, listTags, toEncryptedEntryData } from './vault';
 import { query, execute, queryOne } from './database';
 
 const storage = new MMKV({ id: 'sync-storage' });
@@ -79,6 +79,22 @@ export function getCookie(): string | null {
   }
 }
 
+/**
+ * 用新密钥重新加密保存的 Cookie（密码库迁移到数据密钥时调用）
+ * 无法解密时清除，重新登录即可
+ */
+export function reencryptCookie(oldKey: Buffer, newKey: Buffer): void {
+  const data = storage.getString(KEYS.COOKIE);
+  if (!data) return;
+
+  try {
+    const decrypted = decryptObject<{ cookie: string }>(JSON.parse(data), oldKey);
+    storage.set(KEYS.COOKIE, JSON.stringify(encryptObject(decrypted, newKey)));
+  } catch {
+    storage.delete(KEYS.COOKIE);
+  }
+}
+
 /**
  * 清除 Cookie
  */
@@ -364,17 +380,7 @@ export async function restoreFromSync(syncData: SyncData): Promise<{
         [entry.id]
       );
 
-      const encryptedData = encryptObject(
-        {
-          title: entry.title,
-          username: entry.username,
-          password: entry.password,
-          url: entry.url,
-          notes: entry.notes,
-          icon: entry.icon,
-        },
-        key
-      );
+      const encryptedData = encryptObject(toEncryptedEntryData(entry), key);
 
       if (existing) {
         await execute(
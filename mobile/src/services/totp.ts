@@ -158,8 +158,9 @@ export async function isTotpEnabled(): Promise<boolean> {
 
 /**
  * 获取 TOTP 密钥（已解密）
+ * 解锁时传入解开的数据密钥，其他情况使用会话密钥
  */
-async function getTotpSecret(): Promise<string | null> {
+async function getTotpSecret(key?: Buffer): Promise<string | null> {
   const meta = await queryOne<{ totp_secret_encrypted: string | null }>(
     'SELECT totp_secret_encrypted FROM vault_meta WHERE id = 1'
   );
@@ -167,9 +168,8 @@ async function getTotpSecret(): Promise<string | null> {
   if (!meta?.totp_secret_encrypted) return null;
 
   try {
-    const key = getDerivedKey();
     const encrypted: EncryptedData = JSON.parse(meta.totp_secret_encrypted);
-    const decrypted = decryptObject<{ secret: string }>(encrypted, key);
+    const decrypted = decryptObject<{ secret: string }>(encrypted, key ?? getDerivedKey());
     return decrypted.secret;
   } catch {
     return null;
@@ -179,16 +179,17 @@ async function getTotpSecret(): Promise<string | null> {
 /**
  * 验证 TOTP 码（使用存储的密钥）
  */
-export async function verifyTotp(code: string): Promise<boolean> {
-  const secret = await getTotpSecret();
+export async function verifyTotp(code: string, key?: Buffer): Promise<boolean> {
+  const secret = await getTotpSecret(key);
   if (!secret) return false;
   return verifyTotpCode(secret, code);
 }
 
 /**
- * 验证恢复码
+ * 验证恢复码，验证通过后该恢复码作废
+ * 解锁时传入解开的数据密钥，其他情况使用会话密钥
  */
-export async function verifyRecoveryCode(code: string): Promise<boolean> {
+export async function verifyRecoveryCode(code: string, key?: Buffer): Promise<boolean> {
   const meta = await queryOne<{ recovery_codes_encrypted: string | null }>(
     'SELECT recovery_codes_encrypted FROM vault_meta WHERE id = 1'
   );
@@ -196,9 +197,9 @@ export async function verifyRecoveryCode(code: string): Promise<boolean> {
   if (!meta?.recovery_codes_encrypted) return false;
 
   try {
-    const key = getDerivedKey();
+    const codesKey = key ?? getDerivedKey();
     const encrypted: EncryptedData = JSON.parse(meta.recovery_codes_encrypted);
-    const decrypted = decryptObject<{ codes: string[] }>(encrypted, key);
+    const decrypted = decryptObject<{ codes: string[] }>(encrypted, codesKey);
     
     const normalizedCode = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
     const index = decrypted.codes.findIndex(c => 
@@ -209,7 +210,7 @@ export async function verifyRecoveryCode(code: string): Promise<boolean> {
 
     // 使用后删除该恢复码
     decrypted.codes.splice(index, 1);
-    const newEncrypted = encryptObject({ codes: decrypted.codes }, key);
+    const newEncrypted = encryptObject({ codes: decrypted.codes }, codesKey);
     
     await execute(
       'UPDATE vault_meta SET recovery_codes_encrypted = ?, updated_at = ? WHERE id = 1',
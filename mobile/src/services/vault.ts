@@ -8,86 +8,285 @@ import {
   query,
   execute,
   queryOne,
+  transaction,
   isVaultInitialized as dbIsVaultInitialized,
 } from './database';
 import {
   generateSalt,
   deriveKeyAsync,
-  generateVerificationHash,
-  verifyPassword,
+  getVerificationHash,
+  matchesVerificationHash,
+  resolveKdfParams,
   setDerivedKey,
   clearDerivedKey,
+  encrypt,
+  decrypt,
   encryptObject,
   decryptObject,
   getDerivedKey,
-  DEFAULT_ITERATIONS,
+  generateDataKey,
+  wrapKey,
+  unwrapKey,
+  calibrateKdfParams,
+  DEFAULT_KDF_PARAMS,
 } from '../utils/crypto';
+import { normalizeEntryByType } from '../utils/itemTypes';
+import { formatOtpAuthUri, parseOtpAuthUri } from '../utils/otp';
+import { normalizePolicyRules } from '../../../electron/main/generator/policy';
+import { isTotpEnabled, verifyTotp, verifyRecoveryCode } from './totp';
+import { reencryptCookie } from './sync';
+import { replaceBiometricKey } from './biometrics';
 import {
   PasswordEntry,
+  PasswordPolicy,
   Category,
   Tag,
   VaultMeta,
   EncryptedData,
+  EncryptedEntryData,
 } from '../types/models';
 
 // 密码库状态
 let isUnlockedState = false;
 
+/**
+ * 解锁结果（与桌面端一致）
+ * - unlocked: 已解锁
+ * - totp-required: 主密码正确，需要输入 TOTP 验证码或恢复码
+ * - invalid: 主密码或验证码错误
+ */
+export type UnlockStatus = 'unlocked' | 'totp-required' | 'invalid';
+
+// 等待二次验证的有效期和验证码最多尝试次数
+const PENDING_UNLOCK_TTL_MS = 5 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * 主密码或生物识别验证通过后得到的密钥（与桌面端相同的密钥结构）
+ * - dataKey: 数据密钥，作为会话密钥加密条目等数据
+ * - legacyKey: 旧版本密码库没有数据密钥，数据直接用主密码派生的密钥加密，解锁后用它迁移
+ */
+interface UnlockKeys {
+  dataKey: Buffer;
+  legacyKey: Buffer | null;
+}
+
+/**
+ * 主密码已验证、等待二次验证的解锁
+ * 密钥只保存在这里，二次验证通过前不会设置为会话密钥
+ */
+let pendingUnlock: (UnlockKeys & {
+  attempts: number;
+  expiresAt: number;
+}) | null = null;
+
 /**
  * 初始化密码库（首次设置）
  */
 export async function setupVault(masterPassword: string): Promise<void> {
+  // 按本机性能校准密钥派生参数，使解锁耗时接近目标值
+  const kdf = await calibrateKdfParams(DEFAULT_KDF_PARAMS.algorithm);
   const salt = generateSalt();
-  const verificationHash = generateVerificationHash(
-    masterPassword,
-    salt,
-    DEFAULT_ITERATIONS
-  );
+  const passwordKey = await deriveKeyAsync(masterPassword, salt, kdf);
+  const verificationHash = getVerificationHash(passwordKey);
   const now = new Date().toISOString();
 
+  // 生成随机数据密钥，用主密码派生的密钥包装后保存
+  const dataKey = generateDataKey();
+
   await execute(
-    `INSERT INTO vault_meta (id, salt, verification_hash, created_at, updated_at, version)
-     VALUES (1, ?, ?, ?, ?, 2)`,
-    [salt, verificationHash, now, now]
+    `INSERT INTO vault_meta (id, salt, verification_hash, wrapped_key, kdf_params, created_at, updated_at, version)
+     VALUES (1, ?, ?, ?, ?, ?, ?, 2)`,
+    [salt, verificationHash, wrapKey(dataKey, passwordKey), JSON.stringify(kdf), now, now]
   );
+  passwordKey.fill(0);
 
-  // 派生密钥并保存到内存
-  const key = await deriveKeyAsync(masterPassword, salt, DEFAULT_ITERATIONS);
-  setDerivedKey(key, DEFAULT_ITERATIONS);
+  setDerivedKey(dataKey);
   isUnlockedState = true;
 }
 
 /**
- * 解锁密码库
+ * 解锁密码库（第一步：验证主密码）
+ * 启用 TOTP 时返回 totp-required，需要调用 verifyUnlockCode 完成解锁
  */
-export async function unlockVault(masterPassword: string): Promise<boolean> {
+export async function unlockVault(masterPassword: string): Promise<UnlockStatus> {
+  pendingUnlock = null;
+
   const meta = await queryOne<{
     salt: string;
     verification_hash: string;
+    wrapped_key: string | null;
+    kdf_params: string | null;
     version: number;
-  }>('SELECT salt, verification_hash, version FROM vault_meta WHERE id = 1');
+  }>('SELECT salt, verification_hash, wrapped_key, kdf_params, version FROM vault_meta WHERE id = 1');
 
   if (!meta) {
     throw new Error('Vault not initialized');
   }
 
-  const iterations = meta.version >= 2 ? DEFAULT_ITERATIONS : 100000;
+  // 派生一次密钥，同时用于验证主密码和解开数据密钥
+  const kdf = resolveKdfParams(meta.kdf_params, meta.version);
+  const passwordKey = await deriveKeyAsync(masterPassword, meta.salt, kdf);
+  if (!matchesVerificationHash(passwordKey, meta.verification_hash)) {
+    passwordKey.fill(0);
+    return 'invalid';
+  }
 
-  if (!verifyPassword(masterPassword, meta.salt, meta.verification_hash, iterations)) {
-    return false;
+  if (!meta.wrapped_key) {
+    return beginUnlock({ dataKey: Buffer.from(passwordKey), legacyKey: passwordKey });
   }
 
-  const key = await deriveKeyAsync(masterPassword, meta.salt, iterations);
-  setDerivedKey(key, iterations);
+  const dataKey = unwrapKey(meta.wrapped_key, passwordKey);
+  passwordKey.fill(0);
+  return beginUnlock({ dataKey, legacyKey: null });
+}
+
+/**
+ * 使用生物识别取回的密钥解锁，同样需要通过二次验证
+ * 生物识别保存的是会话密钥：已迁移的密码库为数据密钥，旧版本密码库为主密码派生的密钥
+ */
+export async function unlockWithKey(key: Buffer): Promise<UnlockStatus> {
+  pendingUnlock = null;
+
+  const meta = await queryOne<{ wrapped_key: string | null }>(
+    'SELECT wrapped_key FROM vault_meta WHERE id = 1'
+  );
+  if (!meta) {
+    throw new Error('Vault not initialized');
+  }
+
+  return beginUnlock({
+    dataKey: key,
+    legacyKey: meta.wrapped_key ? null : Buffer.from(key),
+  });
+}
+
+/**
+ * 验证通过后：未启用 TOTP 直接设置会话密钥，否则等待二次验证
+ */
+async function beginUnlock(keys: UnlockKeys): Promise<UnlockStatus> {
+  if (!(await isTotpEnabled())) {
+    await installSessionKey(keys);
+    return 'unlocked';
+  }
+
+  pendingUnlock = {
+    ...keys,
+    attempts: 0,
+    expiresAt: Date.now() + PENDING_UNLOCK_TTL_MS,
+  };
+  return 'totp-required';
+}
+
+/**
+ * 设置会话密钥，没有数据密钥的旧密码库在此完成迁移
+ */
+async function installSessionKey(keys: UnlockKeys): Promise<void> {
+  setDerivedKey(keys.dataKey);
   isUnlockedState = true;
 
-  return true;
+  if (keys.legacyKey) {
+    try {
+      await migrateToDataKey(keys.legacyKey);
+      // 会话密钥已换成新的数据密钥，旧密钥不再使用
+      keys.dataKey.fill(0);
+    } catch (error) {
+      // 迁移失败时继续使用旧密钥，下次解锁时重试
+      console.error('Failed to migrate vault to a data key:', error);
+    }
+    keys.legacyKey.fill(0);
+  }
+}
+
+/**
+ * 迁移旧版本密码库：生成随机数据密钥，把用主密码派生密钥加密的数据重新加密一次，并保存包装后的数据密钥
+ * 完成后会话密钥为新的数据密钥
+ */
+async function migrateToDataKey(passwordKey: Buffer): Promise<void> {
+  const dataKey = generateDataKey();
+  const reencrypt = (value: string | null) =>
+    value ? JSON.stringify(encrypt(decrypt(JSON.parse(value), passwordKey), dataKey)) : null;
+
+  await transaction(async () => {
+    const entries = await query<{ id: string; encrypted_data: string }>(
+      'SELECT id, encrypted_data FROM password_entries'
+    );
+    for (const entry of entries) {
+      await execute(
+        'UPDATE password_entries SET encrypted_data = ? WHERE id = ?',
+        [reencrypt(entry.encrypted_data), entry.id]
+      );
+    }
+
+    // TOTP 密钥和恢复码同样用会话密钥加密
+    const meta = await queryOne<{
+      totp_secret_encrypted: string | null;
+      recovery_codes_encrypted: string | null;
+    }>('SELECT totp_secret_encrypted, recovery_codes_encrypted FROM vault_meta WHERE id = 1');
+    await execute(
+      `UPDATE vault_meta SET totp_secret_encrypted = ?, recovery_codes_encrypted = ?, wrapped_key = ?, updated_at = ?
+       WHERE id = 1`,
+      [
+        reencrypt(meta?.totp_secret_encrypted ?? null),
+        reencrypt(meta?.recovery_codes_encrypted ?? null),
+        wrapKey(dataKey, passwordKey),
+        new Date().toISOString(),
+      ]
+    );
+  });
+
+  reencryptCookie(passwordKey, dataKey);
+  setDerivedKey(dataKey);
+
+  // 生物识别保存的旧密钥已无法解密数据
+  try {
+    await replaceBiometricKey(dataKey.toString('base64'));
+  } catch (error) {
+    console.error('Failed to update biometric key:', error);
+  }
+}
+
+/**
+ * 解锁密码库（第二步：验证 TOTP 验证码或恢复码）
+ * 没有等待中的解锁、已超时或错误次数过多时抛出异常，需要重新输入主密码
+ */
+export async function verifyUnlockCode(code: string, isRecoveryCode: boolean = false): Promise<UnlockStatus> {
+  const pending = pendingUnlock;
+  if (!pending) {
+    throw new Error('请先输入主密码');
+  }
+  if (Date.now() > pending.expiresAt) {
+    lockVault();
+    throw new Error('验证已超时，请重新输入主密码');
+  }
+
+  const valid = isRecoveryCode
+    ? await verifyRecoveryCode(code, pending.dataKey)
+    : await verifyTotp(code, pending.dataKey);
+
+  if (!valid) {
+    pending.attempts++;
+    if (pending.attempts >= MAX_CODE_ATTEMPTS) {
+      lockVault();
+      throw new Error('验证码错误次数过多，请重新输入主密码');
+    }
+    return 'invalid';
+  }
+
+  pendingUnlock = null;
+  await installSessionKey(pending);
+  return 'unlocked';
 }
 
 /**
  * 锁定密码库
  */
 export function lockVault(): void {
+  if (pendingUnlock) {
+    pendingUnlock.dataKey.fill(0);
+    pendingUnlock.legacyKey?.fill(0);
+    pendingUnlock = null;
+  }
   clearDerivedKey();
   isUnlockedState = false;
 }
@@ -108,6 +307,7 @@ export async function isVaultInitialized(): Promise<boolean> {
 
 /**
  * 修改主密码
+ * 只需用新主密码派生的密钥重新包装数据密钥，条目和 TOTP 密钥等数据无需重新加密
  */
 export async function changeMasterPassword(
   currentPassword: string,
@@ -117,63 +317,79 @@ export async function changeMasterPassword(
   const meta = await queryOne<{
     salt: string;
     verification_hash: string;
+    wrapped_key: string | null;
+    kdf_params: string | null;
     version: number;
-  }>('SELECT salt, verification_hash, version FROM vault_meta WHERE id = 1');
+  }>('SELECT salt, verification_hash, wrapped_key, kdf_params, version FROM vault_meta WHERE id = 1');
 
   if (!meta) {
     throw new Error('Vault not initialized');
   }
 
-  const iterations = meta.version >= 2 ? DEFAULT_ITERATIONS : 100000;
-
-  if (!verifyPassword(currentPassword, meta.salt, meta.verification_hash, iterations)) {
+  const kdf = resolveKdfParams(meta.kdf_params, meta.version);
+  const currentKey = await deriveKeyAsync(currentPassword, meta.salt, kdf);
+  if (!matchesVerificationHash(currentKey, meta.verification_hash)) {
+    currentKey.fill(0);
     return false;
   }
 
-  // 获取当前密钥解密所有数据
-  const currentKey = await deriveKeyAsync(currentPassword, meta.salt, iterations);
-  
-  // 生成新的盐和验证哈希
-  const newSalt = generateSalt();
-  const newVerificationHash = generateVerificationHash(
-    newPassword,
-    newSalt,
-    DEFAULT_ITERATIONS
-  );
-  const newKey = await deriveKeyAsync(newPassword, newSalt, DEFAULT_ITERATIONS);
-
-  // 重新加密所有密码条目
-  const entries = await query<{
-    id: string;
-    encrypted_data: string;
-  }>('SELECT id, encrypted_data FROM password_entries');
-
-  for (const entry of entries) {
-    const encryptedData: EncryptedData = JSON.parse(entry.encrypted_data);
-    const decrypted = decryptObject<object>(encryptedData, currentKey);
-    const reEncrypted = encryptObject(decrypted, newKey);
-    
-    await execute(
-      'UPDATE password_entries SET encrypted_data = ? WHERE id = ?',
-      [JSON.stringify(reEncrypted), entry.id]
-    );
+  let dataKey: Buffer;
+  if (meta.wrapped_key) {
+    dataKey = unwrapKey(meta.wrapped_key, currentKey);
+  } else {
+    // 解锁时迁移失败的旧密码库在此再次迁移
+    await migrateToDataKey(currentKey);
+    dataKey = Buffer.from(getDerivedKey());
   }
+  currentKey.fill(0);
+
+  // 生成新的盐和验证哈希，沿用当前算法并按本机性能重新校准参数
+  const newKdf = await calibrateKdfParams(kdf.algorithm);
+  const newSalt = generateSalt();
+  const newKey = await deriveKeyAsync(newPassword, newSalt, newKdf);
+  const newVerificationHash = getVerificationHash(newKey);
 
   // 更新 vault_meta
   const now = new Date().toISOString();
   await execute(
-    `UPDATE vault_meta SET salt = ?, verification_hash = ?, updated_at = ?, version = 2 WHERE id = 1`,
-    [newSalt, newVerificationHash, now]
+    `UPDATE vault_meta SET salt = ?, verification_hash = ?, wrapped_key = ?, kdf_params = ?, updated_at = ?, version = 2
+     WHERE id = 1`,
+    [newSalt, newVerificationHash, wrapKey(dataKey, newKey), JSON.stringify(newKdf), now]
   );
-
-  // 更新内存中的密钥
-  setDerivedKey(newKey, DEFAULT_ITERATIONS);
+  dataKey.fill(0);
+  newKey.fill(0);
 
   return true;
 }
 
 // ==================== 密码条目操作 ====================
 
+/**
+ * 条目中需要加密保存的字段，创建、更新、恢复备份和同步都使用同一份
+ */
+export function toEncryptedEntryData(
+  entry: Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt' | 'favorite' | 'categoryId'>
+): EncryptedEntryData {
+  return {
+    type: entry.type,
+    title: entry.title,
+    username: entry.username,
+    password: entry.password,
+    url: entry.url,
+    notes: entry.notes,
+    icon: entry.icon,
+    tags: entry.tags,
+    customFields: entry.customFields,
+    card: entry.card,
+    identity: entry.identity,
+    sshKey: entry.sshKey,
+    wifi: entry.wifi,
+    policyId: entry.policyId,
+    derivation: entry.derivation,
+    otpauth: entry.otpauth,
+  };
+}
+
 /**
  * 创建密码条目
  */
@@ -185,24 +401,14 @@ export async function createEntry(
   const key = getDerivedKey();
 
   const entryData: PasswordEntry = {
-    ...entry,
+    ...normalizeEntryByType(entry),
     id,
     createdAt: now,
     updatedAt: now,
   };
 
   // 加密敏感字段
-  const encryptedData = encryptObject(
-    {
-      title: entryData.title,
-      username: entryData.username,
-      password: entryData.password,
-      url: entryData.url,
-      notes: entryData.notes,
-      icon: entryData.icon,
-    },
-    key
-  );
+  const encryptedData = encryptObject(toEncryptedEntryData(entryData), key);
 
   await execute(
     `INSERT INTO password_entries (id, encrypted_data, category_id, favorite, created_at, updated_at)
@@ -247,14 +453,7 @@ export async function listEntries(): Promise<PasswordEntry[]> {
 
   for (const row of rows) {
     const encryptedData: EncryptedData = JSON.parse(row.encrypted_data);
-    const decrypted = decryptObject<{
-      title: string;
-      username: string;
-      password: string;
-      url?: string;
-      notes?: string;
-      icon?: string;
-    }>(encryptedData, key);
+    const decrypted = decryptObject<EncryptedEntryData>(encryptedData, key);
 
     // 获取标签
     const tagRows = await query<{ tag_id: string }>(
@@ -265,6 +464,7 @@ export async function listEntries(): Promise<PasswordEntry[]> {
     entries.push({
       id: row.id,
       ...decrypted,
+      type: decrypted.type || 'login',
       categoryId: row.category_id || undefined,
       tags: tagRows.map((t) => t.tag_id),
       favorite: row.favorite === 1,
@@ -280,20 +480,11 @@ export async function listEntries(): Promise<PasswordEntry[]> {
  * 更新密码条目
  */
 export async function updateEntry(entry: PasswordEntry): Promise<void> {
+  entry = normalizeEntryByType(entry);
   const key = getDerivedKey();
   const now = new Date().toISOString();
 
-  const encryptedData = encryptObject(
-    {
-      title: entry.title,
-      username: entry.username,
-      password: entry.password,
-      url: entry.url,
-      notes: entry.notes,
-      icon: entry.icon,
-    },
-    key
-  );
+  const encryptedData = encryptObject(toEncryptedEntryData(entry), key);
 
   await execute(
     `UPDATE password_entries 
@@ -318,6 +509,25 @@ export async function updateEntry(entry: PasswordEntry): Promise<void> {
   }
 }
 
+/**
+ * 推进 HOTP 计数器，返回更新后的条目
+ * 只改写加密数据中的 otpauth，计数器不是用户修改，不更新修改时间
+ */
+export async function advanceOtpCounter(entry: PasswordEntry): Promise<PasswordEntry> {
+  const params = entry.otpauth ? parseOtpAuthUri(entry.otpauth) : null;
+  if (params?.type !== 'hotp') {
+    throw new Error('条目没有设置 HOTP 两步验证');
+  }
+  const updated = { ...entry, otpauth: formatOtpAuthUri({ ...params, counter: params.counter + 1 }) };
+
+  const encryptedData = encryptObject(toEncryptedEntryData(updated), getDerivedKey());
+  await execute('UPDATE password_entries SET encrypted_data = ? WHERE id = ?', [
+    JSON.stringify(encryptedData),
+    entry.id,
+  ]);
+  return updated;
+}
+
 /**
  * 删除密码条目
  */
@@ -457,3 +667,28 @@ export async function deleteTag(id: string): Promise<void> {
   await execute('DELETE FROM entry_tags WHERE tag_id = ?', [id]);
   await execute('DELETE FROM tags WHERE id = ?', [id]);
 }
+
+// ==================== 密码规则 ====================
+
+/**
+ * 获取所有密码规则（在桌面端编辑，移动端只用于生成密码）
+ */
+export async function listPolicies(): Promise<PasswordPolicy[]> {
+  const rows = await query<{
+    id: string;
+    name: string;
+    rules: string;
+    domains: string;
+    created_at: string;
+    updated_at: string;
+  }>('SELECT * FROM password_policies ORDER BY created_at, rowid');
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    rules: normalizePolicyRules(JSON.parse(row.rules)),
+    domains: JSON.parse(row.domains || '[]'),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }));
+}
@@ -7,8 +7,9 @@ import {
   listEntries,
   listCategories,
   listTags,
+  listPolicies,
 } from '../services/vault';
-import type { PasswordEntry, Category, Tag } from '../types/models';
+import type { PasswordEntry, Category, Tag, PasswordPolicy } from '../types/models';
 
 interface VaultState {
   // 状态
@@ -21,6 +22,8 @@ interface VaultState {
   entries: PasswordEntry[];
   categories: Category[];
   tags: Tag[];
+  policies: PasswordPolicy[];
+  derivationSecret: string;  // 派生主密码，只保存在内存中，锁定时清除
 
   // 筛选
   selectedCategoryId: string | null;
@@ -36,6 +39,7 @@ interface VaultState {
   setEntries: (entries: PasswordEntry[]) => void;
   setCategories: (categories: Category[]) => void;
   setTags: (tags: Tag[]) => void;
+  setDerivationSecret: (secret: string) => void;
 
   setSelectedCategoryId: (id: string | null) => void;
   setSelectedTagId: (id: string | null) => void;
@@ -64,6 +68,8 @@ const initialState = {
   entries: [],
   categories: [],
   tags: [],
+  policies: [],
+  derivationSecret: '',
   selectedCategoryId: null,
   selectedTagId: null,
   searchQuery: '',
@@ -80,6 +86,7 @@ export const useVaultStore = create<VaultState>((set) => ({
   setEntries: (entries) => set({ entries }),
   setCategories: (categories) => set({ categories }),
   setTags: (tags) => set({ tags }),
+  setDerivationSecret: (secret) => set({ derivationSecret: secret }),
 
   setSelectedCategoryId: (id) => set({ selectedCategoryId: id, selectedTagId: null }),
   setSelectedTagId: (id) => set({ selectedTagId: id, selectedCategoryId: null }),
@@ -124,12 +131,13 @@ export const useVaultStore = create<VaultState>((set) => ({
 
   refreshAll: async () => {
     try {
-      const [entries, categories, tags] = await Promise.all([
+      const [entries, categories, tags, policies] = await Promise.all([
         listEntries(),
         listCategories(),
         listTags(),
+        listPolicies(),
       ]);
-      set({ entries, categories, tags });
+      set({ entries, categories, tags, policies });
     } catch (error) {
       console.error('Failed to refresh all:', error);
     }
@@ -141,6 +149,8 @@ export const useVaultStore = create<VaultState>((set) => ({
       entries: [],
       categories: [],
       tags: [],
+      policies: [],
+      derivationSecret: '',
       selectedCategoryId: null,
       selectedTagId: null,
       searchQuery: '',
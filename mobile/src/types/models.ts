@@ -2,9 +2,48 @@
  * 数据模型定义（从 Electron 版本复用）
  */
 
+// 条目类型
+export type EntryType = 'login' | 'card' | 'identity' | 'note' | 'ssh' | 'wifi';
+
+// 银行卡
+export interface CardDetails {
+  cardholder?: string;
+  number: string;
+  expiry?: string;  // MM/YY
+  cvv?: string;
+  pin?: string;
+}
+
+// 身份信息
+export interface IdentityDetails {
+  fullName?: string;
+  gender?: string;
+  birthday?: string;
+  idNumber?: string;
+  phone?: string;
+  email?: string;
+  company?: string;
+  address?: string;
+}
+
+// SSH 密钥（私钥口令存放在 password 字段）
+export interface SshKeyDetails {
+  publicKey?: string;
+  privateKey?: string;
+  fingerprint?: string;
+}
+
+// Wi-Fi 网络（网络密码存放在 password 字段）
+export interface WifiDetails {
+  ssid: string;
+  security: 'WPA' | 'WEP' | 'nopass';
+  hidden?: boolean;
+}
+
 // 密码条目
 export interface PasswordEntry {
   id: string;
+  type?: EntryType;  // 缺省为 login
   title: string;
   username: string;
   password: string;
@@ -13,11 +52,30 @@ export interface PasswordEntry {
   categoryId?: string;
   icon?: string;
   tags: string[];
+  customFields?: CustomField[];
+  card?: CardDetails;
+  identity?: IdentityDetails;
+  sshKey?: SshKeyDetails;
+  wifi?: WifiDetails;
+  policyId?: string;  // 指定的密码规则，未指定时按网址匹配
+  derivation?: DerivationParams;  // 派生密码条目，password 为空
+  otpauth?: string;  // 两步验证的 otpauth URI
   createdAt: string;
   updatedAt: string;
   favorite: boolean;
 }
 
+// 自定义字段类型
+export type CustomFieldType = 'text' | 'hidden' | 'url' | 'email' | 'phone' | 'date' | 'totp';
+
+// 自定义字段
+export interface CustomField {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  value: string;
+}
+
 // 分类
 export interface Category {
   id: string;
@@ -43,6 +101,84 @@ export interface PasswordConfig {
   numbers: boolean;
   special: boolean;
   excludeAmbiguous: boolean;
+  mode?: 'random' | 'passphrase';  // 默认 random
+  passphrase?: PassphraseConfig;
+  policy?: PasswordPolicyRules;  // 随机字符模式下按网站规则生成
+}
+
+// 密码短语词表
+export type PassphraseWordlist = 'eff-large' | 'eff-short' | 'pinyin';
+
+// 密码短语大小写：全小写、全大写、首字母大写、随机首字母大写
+export type PassphraseCapitalization = 'lower' | 'upper' | 'capitalize' | 'random';
+
+// 密码短语生成配置
+export interface PassphraseConfig {
+  wordlist: PassphraseWordlist;
+  wordCount: number;
+  separator: string;
+  capitalization: PassphraseCapitalization;
+  includeNumber: boolean;  // 在随机一个单词后插入一位数字
+  includeSymbol: boolean;  // 在随机一个单词后插入一个符号
+}
+
+// 密码规则中的字符类型
+export type PolicyCharClass = 'lowercase' | 'uppercase' | 'digits' | 'symbols';
+
+// 字符类型要求：必须包含、可以包含、不允许
+export type PolicyClassRule = 'required' | 'allowed' | 'forbidden';
+
+// 首字符要求
+export type PolicyFirstChar = 'any' | 'letter' | 'uppercase' | 'lowercase' | 'alphanumeric';
+
+// 网站的密码规则
+export interface PasswordPolicyRules {
+  minLength: number;
+  maxLength: number;
+  classes: Record<PolicyCharClass, PolicyClassRule>;
+  symbols: string;         // 允许使用的符号
+  firstChar: PolicyFirstChar;
+  maxConsecutive: number;  // 同一字符最多连续出现的次数，0 为不限制
+}
+
+// 密码规则（与桌面端共用 password_policies 表，移动端只读）
+export interface PasswordPolicy {
+  id: string;
+  name: string;
+  rules: PasswordPolicyRules;
+  domains: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 派生密码的参数，条目只保存参数，密码由派生主密码实时计算
+export interface DerivationParams {
+  version: number;  // 算法版本
+  site: string;
+  login: string;
+  counter: number;  // 更换密码时加一
+  length: number;
+  rules: PasswordPolicyRules;  // 创建时的规则快照，规则修改后不影响已有条目
+}
+
+// 条目中加密保存的字段（与桌面端 EncryptedEntryData 一致）
+export interface EncryptedEntryData {
+  type?: EntryType;
+  title: string;
+  username: string;
+  password: string;
+  url?: string;
+  notes?: string;
+  icon?: string;
+  tags: string[];
+  customFields?: CustomField[];
+  card?: CardDetails;
+  identity?: IdentityDetails;
+  sshKey?: SshKeyDetails;
+  wifi?: WifiDetails;
+  policyId?: string;
+  derivation?: DerivationParams;
+  otpauth?: string;
 }
 
 // 加密数据包装
@@ -59,6 +195,7 @@ export interface VaultMeta {
   totpEnabled: boolean;
   totpSecretEncrypted?: string;
   recoveryCodesEncrypted?: string;
+  wrappedKey?: string;    // 包装后的数据密钥，旧版本密码库没有
   createdAt: string;
   updatedAt: string;
   version: number;
@@ -74,10 +211,16 @@ export interface BackupInfo {
   backupType: 'manual' | 'auto';
 }
 
+// 密钥派生参数（与桌面端一致，保存在 vault_meta.kdf_params）
+export type KdfAlgorithm = 'pbkdf2-sha256' | 'argon2id';
+
+export type KdfParams =
+  | { algorithm: 'pbkdf2-sha256'; iterations: number }
+  | { algorithm: 'argon2id'; iterations: number; memoryKiB: number; parallelism: number };
+
 // 安全信息
 export interface SecurityInfo {
-  iterations: number;
-  version: number;
+  kdf: KdfParams;
   securityLevel: 'low' | 'medium' | 'high';
   needsUpgrade: boolean;
   derivationTimeMs?: number;
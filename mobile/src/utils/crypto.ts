@@ -1,10 +1,11 @@
 /**
  * 加密模块 - React Native 版本
- * 使用 react-native-quick-crypto 实现 AES-256-GCM 加密和 PBKDF2 密钥派生
+ * 使用 react-native-quick-crypto 实现 AES-256-GCM 加密和 PBKDF2 密钥派生，Argon2id 使用 @noble/hashes
  */
 
 import Crypto from 'react-native-quick-crypto';
-import { EncryptedData } from '../types/models';
+import { argon2id, argon2idAsync } from '@noble/hashes/argon2';
+import { EncryptedData, KdfAlgorithm, KdfParams } from '../types/models';
 
 // 加密配置常量
 const ALGORITHM = 'aes-256-gcm';
@@ -14,10 +15,25 @@ const TAG_LENGTH = 16; // 128 bits
 const SALT_LENGTH = 32; // 256 bits
 const PBKDF2_DIGEST = 'sha256';
 const DEFAULT_ITERATIONS = 600000;
+const LEGACY_ITERATIONS = 100000;
+
+// 密钥派生参数范围（与桌面端一致）
+const MIN_ITERATIONS = 100000;
+const MAX_ITERATIONS = 10000000;
+const MIN_ARGON2_MEMORY_KIB = 19456;
+const MAX_ARGON2_MEMORY_KIB = 262144;
+const MIN_ARGON2_ITERATIONS = 2;
+const MAX_ARGON2_ITERATIONS = 20;
+const MAX_ARGON2_PARALLELISM = 4;
+
+// 自动校准时 Argon2id 内存成本的上限
+const CALIBRATION_MAX_MEMORY_KIB = 65536;
+const DEFAULT_TARGET_UNLOCK_MS = 1000;
+
+const DEFAULT_KDF_PARAMS: KdfParams = { algorithm: 'pbkdf2-sha256', iterations: DEFAULT_ITERATIONS };
 
 // 内存中的派生密钥
 let derivedKey: Buffer | null = null;
-let currentIterations: number | null = null;
 
 /**
  * 生成随机盐值
@@ -28,18 +44,63 @@ export function generateSalt(): string {
 }
 
 /**
- * 使用 PBKDF2 从主密码派生密钥
+ * 检查并规范化密钥派生参数，不支持的算法或超出范围时抛出异常
+ */
+export function parseKdfParams(value: unknown): KdfParams {
+  const params = value as Partial<Record<string, unknown>> | null;
+  const isInt = (n: unknown, min: number, max: number): n is number =>
+    typeof n === 'number' && Number.isInteger(n) && n >= min && n <= max;
+
+  if (params?.algorithm === 'pbkdf2-sha256' && isInt(params.iterations, MIN_ITERATIONS, MAX_ITERATIONS)) {
+    return { algorithm: 'pbkdf2-sha256', iterations: params.iterations };
+  }
+  if (
+    params?.algorithm === 'argon2id' &&
+    isInt(params.iterations, MIN_ARGON2_ITERATIONS, MAX_ARGON2_ITERATIONS) &&
+    isInt(params.memoryKiB, MIN_ARGON2_MEMORY_KIB, MAX_ARGON2_MEMORY_KIB) &&
+    isInt(params.parallelism, 1, MAX_ARGON2_PARALLELISM)
+  ) {
+    return {
+      algorithm: 'argon2id',
+      iterations: params.iterations,
+      memoryKiB: params.memoryKiB,
+      parallelism: params.parallelism,
+    };
+  }
+  throw new Error('不支持的密钥派生参数');
+}
+
+/**
+ * 读取 vault_meta 中保存的参数，没有保存时按 version 推断
+ */
+export function resolveKdfParams(kdfParams: string | null, version: number): KdfParams {
+  if (kdfParams) {
+    return parseKdfParams(JSON.parse(kdfParams));
+  }
+  return { algorithm: 'pbkdf2-sha256', iterations: version >= 2 ? DEFAULT_ITERATIONS : LEGACY_ITERATIONS };
+}
+
+/**
+ * 从主密码派生密钥（同步，会阻塞 UI）
  */
 export function deriveKey(
   password: string,
   salt: string,
-  iterations: number = DEFAULT_ITERATIONS
+  params: KdfParams = DEFAULT_KDF_PARAMS
 ): Buffer {
   const saltBuffer = Buffer.from(salt, 'base64');
+  if (params.algorithm === 'argon2id') {
+    return Buffer.from(argon2id(password, saltBuffer, {
+      t: params.iterations,
+      m: params.memoryKiB,
+      p: params.parallelism,
+      dkLen: KEY_LENGTH,
+    }));
+  }
   const key = Crypto.pbkdf2Sync(
     password,
     saltBuffer,
-    iterations,
+    params.iterations,
     KEY_LENGTH,
     PBKDF2_DIGEST
   );
@@ -49,17 +110,26 @@ export function deriveKey(
 /**
  * 异步版本的密钥派生（推荐使用，不阻塞 UI）
  */
-export function deriveKeyAsync(
+export async function deriveKeyAsync(
   password: string,
   salt: string,
-  iterations: number = DEFAULT_ITERATIONS
+  params: KdfParams = DEFAULT_KDF_PARAMS
 ): Promise<Buffer> {
+  const saltBuffer = Buffer.from(salt, 'base64');
+  if (params.algorithm === 'argon2id') {
+    const key = await argon2idAsync(password, saltBuffer, {
+      t: params.iterations,
+      m: params.memoryKiB,
+      p: params.parallelism,
+      dkLen: KEY_LENGTH,
+    });
+    return Buffer.from(key);
+  }
   return new Promise((resolve, reject) => {
-    const saltBuffer = Buffer.from(salt, 'base64');
     Crypto.pbkdf2(
       password,
       saltBuffer,
-      iterations,
+      params.iterations,
       KEY_LENGTH,
       PBKDF2_DIGEST,
       (err, key) => {
@@ -70,19 +140,84 @@ export function deriveKeyAsync(
   });
 }
 
+/**
+ * 测量密钥派生耗时（毫秒）
+ */
+export async function measureDerivationTime(params: KdfParams): Promise<number> {
+  const start = Date.now();
+  await deriveKeyAsync('test_password_for_timing', generateSalt(), params);
+  return Date.now() - start;
+}
+
+/**
+ * 按本机性能校准密钥派生参数（算法与桌面端相同）
+ * PBKDF2 按耗时等比增加迭代次数；Argon2id 先增加内存成本，到达上限后再增加迭代轮数
+ */
+export async function calibrateKdfParams(
+  algorithm: KdfAlgorithm,
+  targetMs: number = DEFAULT_TARGET_UNLOCK_MS
+): Promise<KdfParams> {
+  if (algorithm === 'pbkdf2-sha256') {
+    const sample = 100000;
+    const elapsed = Math.max(1, await measureDerivationTime({ algorithm, iterations: sample }));
+    const scaled = Math.round((sample * targetMs) / elapsed / 10000) * 10000;
+    return parseKdfParams({ algorithm, iterations: Math.min(MAX_ITERATIONS, Math.max(DEFAULT_ITERATIONS, scaled)) });
+  }
+
+  const base = {
+    algorithm: 'argon2id' as const,
+    iterations: MIN_ARGON2_ITERATIONS,
+    memoryKiB: MIN_ARGON2_MEMORY_KIB,
+    parallelism: 1,
+  };
+  const elapsed = Math.max(1, await measureDerivationTime(base));
+  const ratio = targetMs / elapsed;
+  if (ratio <= 1) {
+    return base;
+  }
+
+  const memoryKiB = Math.min(CALIBRATION_MAX_MEMORY_KIB, Math.floor((base.memoryKiB * ratio) / 1024) * 1024);
+  const memoryRatio = memoryKiB / base.memoryKiB;
+  const iterations = Math.min(
+    MAX_ARGON2_ITERATIONS,
+    Math.max(base.iterations, Math.round((base.iterations * ratio) / memoryRatio))
+  );
+  return parseKdfParams({ ...base, memoryKiB: Math.max(base.memoryKiB, memoryKiB), iterations });
+}
+
 /**
  * 生成验证哈希
  */
 export function generateVerificationHash(
   password: string,
   salt: string,
-  iterations?: number
+  params?: KdfParams
 ): string {
-  const key = deriveKey(password, salt, iterations);
+  const key = deriveKey(password, salt, params);
+  const hash = getVerificationHash(key);
+  key.fill(0);
+  return hash;
+}
+
+/**
+ * 由已派生的密钥计算验证哈希
+ */
+export function getVerificationHash(key: Buffer): string {
   const hash = Crypto.createHash('sha256').update(key).digest();
   return Buffer.from(hash).toString('base64');
 }
 
+/**
+ * 检查已派生的密钥是否与存储的验证哈希匹配
+ */
+export function matchesVerificationHash(key: Buffer, storedHash: string): boolean {
+  const hashBuffer = Buffer.from(getVerificationHash(key), 'base64');
+  const storedBuffer = Buffer.from(storedHash, 'base64');
+
+  if (hashBuffer.length !== storedBuffer.length) return false;
+  return Crypto.timingSafeEqual(hashBuffer, storedBuffer);
+}
+
 /**
  * 验证主密码
  */
@@ -90,14 +225,12 @@ export function verifyPassword(
   password: string,
   salt: string,
   storedHash: string,
-  iterations?: number
+  params?: KdfParams
 ): boolean {
-  const hash = generateVerificationHash(password, salt, iterations);
-  const hashBuffer = Buffer.from(hash, 'base64');
-  const storedBuffer = Buffer.from(storedHash, 'base64');
-  
-  if (hashBuffer.length !== storedBuffer.length) return false;
-  return Crypto.timingSafeEqual(hashBuffer, storedBuffer);
+  const key = deriveKey(password, salt, params);
+  const matched = matchesVerificationHash(key, storedHash);
+  key.fill(0);
+  return matched;
 }
 
 /**
@@ -160,12 +293,36 @@ export function decryptObject<T>(encryptedData: EncryptedData, key: Buffer): T {
   return JSON.parse(json) as T;
 }
 
+/**
+ * 生成随机的数据密钥（与桌面端相同，由主密码派生的密钥包装后保存）
+ */
+export function generateDataKey(): Buffer {
+  return Buffer.from(Crypto.randomBytes(KEY_LENGTH));
+}
+
+/**
+ * 用主密码派生的密钥包装数据密钥
+ */
+export function wrapKey(dataKey: Buffer, wrappingKey: Buffer): string {
+  return JSON.stringify(encrypt(dataKey.toString('base64'), wrappingKey));
+}
+
+/**
+ * 解开包装的数据密钥，密钥错误或数据损坏时抛出异常
+ */
+export function unwrapKey(wrappedKey: string, wrappingKey: Buffer): Buffer {
+  const dataKey = Buffer.from(decrypt(JSON.parse(wrappedKey), wrappingKey), 'base64');
+  if (dataKey.length !== KEY_LENGTH) {
+    throw new Error('数据密钥已损坏');
+  }
+  return dataKey;
+}
+
 /**
  * 设置当前会话的派生密钥
  */
-export function setDerivedKey(key: Buffer, iterations?: number): void {
+export function setDerivedKey(key: Buffer): void {
   derivedKey = key;
-  currentIterations = iterations ?? null;
 }
 
 /**
@@ -186,7 +343,6 @@ export function clearDerivedKey(): void {
     derivedKey.fill(0);
     derivedKey = null;
   }
-  currentIterations = null;
 }
 
 /**
@@ -224,4 +380,4 @@ export function sha256(data: string | Buffer): string {
   return Crypto.createHash('sha256').update(data).digest('base64');
 }
 
-export { DEFAULT_ITERATIONS };
+export { DEFAULT_ITERATIONS, DEFAULT_KDF_PARAMS };
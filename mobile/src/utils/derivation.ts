@@ -0,0 +1,38 @@
+/**
+ * 派生密码 - React Native 版本
+ * 算法和测试向量与桌面端共用 electron/main/generator/derivation，PBKDF2 使用 react-native-quick-crypto
+ */
+
+import Crypto from 'react-native-quick-crypto';
+import { DerivationParams } from '../types/models';
+import {
+  Pbkdf2Sha256,
+  derivePassword,
+  verifyDerivationVectors,
+} from '../../../electron/main/generator/derivation';
+
+export { describeDerivation } from '../../../electron/main/generator/derivation';
+
+const pbkdf2Sha256: Pbkdf2Sha256 = (password, salt, iterations, keyLength) =>
+  new Promise((resolve, reject) => {
+    Crypto.pbkdf2(password, salt, iterations, keyLength, 'sha256', (err, key) => {
+      if (err) reject(err);
+      else resolve(new Uint8Array(key));
+    });
+  });
+
+let verified = false;
+
+/**
+ * 计算派生密码，首次使用时先用测试向量自检，结果与桌面端不一致时拒绝计算
+ */
+export async function deriveEntryPassword(secret: string, params: DerivationParams): Promise<string> {
+  if (!verified) {
+    const failures = await verifyDerivationVectors(pbkdf2Sha256);
+    if (failures.length > 0) {
+      throw new Error('派生算法自检失败，无法计算派生密码');
+    }
+    verified = true;
+  }
+  return derivePassword(secret, params, pbkdf2Sha256);
+}
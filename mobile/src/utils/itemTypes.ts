@@ -0,0 +1,192 @@
+/**
+ * 条目类型 - React Native 版本
+ * 与桌面端保持一致的校验和规范化规则
+ */
+
+import Crypto from 'react-native-quick-crypto';
+import { PasswordEntry, EntryType, CardDetails } from '../types/models';
+import { getDerivationProblems, normalizeDerivationParams } from '../../../electron/main/generator/derivation';
+import { normalizeOtpAuthUri } from '../../../electron/main/totp/otp';
+
+export const ENTRY_TYPE_OPTIONS: Array<{ value: EntryType; label: string; icon: string }> = [
+  { value: 'login', label: '登录', icon: '🔑' },
+  { value: 'card', label: '银行卡', icon: '💳' },
+  { value: 'identity', label: '身份信息', icon: '🪪' },
+  { value: 'note', label: '安全笔记', icon: '📝' },
+  { value: 'ssh', label: 'SSH 密钥', icon: '🖥️' },
+  { value: 'wifi', label: 'Wi-Fi', icon: '📶' },
+];
+
+/**
+ * 获取条目类型（缺省为 login）
+ */
+export function getEntryType(entry: Pick<PasswordEntry, 'type'>): EntryType {
+  return entry.type || 'login';
+}
+
+/**
+ * Luhn 校验（银行卡号）
+ */
+export function luhnCheck(number: string): boolean {
+  const digits = number.replace(/\D/g, '');
+  if (digits.length < 12 || digits.length > 19) return false;
+
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let d = digits.charCodeAt(i) - 48;
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * 规范化有效期为 MM/YY，无效时返回 null
+ */
+export function normalizeExpiry(expiry: string): string | null {
+  const match = expiry.trim().match(/^(\d{1,2})\s*[/-]\s*(\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  const month = parseInt(match[1], 10);
+  if (month < 1 || month > 12) return null;
+
+  return `${String(month).padStart(2, '0')}/${match[2].slice(-2)}`;
+}
+
+/**
+ * 计算 OpenSSH 公钥指纹（SHA256:base64）
+ */
+export function computeSshFingerprint(publicKey: string): string | null {
+  const parts = publicKey.trim().split(/\s+/);
+  if (parts.length < 2) return null;
+
+  const [keyType, base64] = parts;
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) return null;
+
+  const blob = Buffer.from(base64, 'base64');
+  if (blob.length < 4) return null;
+
+  const typeLength = blob.readUInt32BE(0);
+  if (blob.toString('ascii', 4, 4 + typeLength) !== keyType) return null;
+
+  const digest = Buffer.from(Crypto.createHash('sha256').update(blob).digest()).toString('base64');
+  return `SHA256:${digest.replace(/=+$/, '')}`;
+}
+
+/**
+ * 按条目类型校验并规范化数据，校验失败时抛出错误
+ */
+export function normalizeEntryByType<T extends Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt'>>(entry: T): T {
+  const type = getEntryType(entry);
+  const normalized: T = {
+    ...entry,
+    type,
+    card: undefined,
+    identity: undefined,
+    sshKey: undefined,
+    wifi: undefined,
+    derivation: undefined,
+    otpauth: undefined,
+  };
+
+  switch (type) {
+    case 'card':
+      normalized.card = normalizeCard(entry.card);
+      break;
+
+    case 'identity':
+      normalized.identity = { ...entry.identity };
+      break;
+
+    case 'note':
+      normalized.username = '';
+      normalized.password = '';
+      break;
+
+    case 'ssh': {
+      const publicKey = entry.sshKey?.publicKey?.trim() || undefined;
+      const privateKey = entry.sshKey?.privateKey?.trim() || undefined;
+      if (!publicKey && !privateKey) {
+        throw new Error('请填写公钥或私钥');
+      }
+      let fingerprint: string | undefined;
+      if (publicKey) {
+        fingerprint = computeSshFingerprint(publicKey) ?? undefined;
+        if (!fingerprint) {
+          throw new Error('SSH 公钥格式无效');
+        }
+      }
+      normalized.sshKey = { publicKey, privateKey, fingerprint };
+      break;
+    }
+
+    case 'wifi': {
+      const ssid = entry.wifi?.ssid?.trim();
+      if (!ssid) {
+        throw new Error('请填写网络名称 (SSID)');
+      }
+      const security = entry.wifi?.security || 'WPA';
+      if (security === 'WPA' && (entry.password.length < 8 || entry.password.length > 64)) {
+        throw new Error('WPA 密码长度应为 8-64 位');
+      }
+      normalized.wifi = { ssid, security, hidden: !!entry.wifi?.hidden };
+      if (security === 'nopass') {
+        normalized.password = '';
+      }
+      break;
+    }
+  }
+
+  // 派生密码只用于登录条目，条目只保存参数
+  if (type === 'login' && entry.derivation) {
+    normalized.derivation = normalizeDerivationParams(entry.derivation);
+    const problems = getDerivationProblems(normalized.derivation);
+    if (problems.length > 0) {
+      throw new Error(problems[0]);
+    }
+    normalized.password = '';
+  }
+
+  // 两步验证只用于登录条目，保存为规范化的 otpauth URI
+  if (type === 'login' && entry.otpauth?.trim()) {
+    normalized.otpauth = normalizeOtpAuthUri(entry.otpauth);
+  }
+
+  return normalized;
+}
+
+/**
+ * 校验并规范化银行卡信息
+ */
+function normalizeCard(card?: CardDetails): CardDetails {
+  const number = (card?.number || '').replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(number) || !luhnCheck(number)) {
+    throw new Error('卡号无效');
+  }
+
+  let expiry: string | undefined;
+  if (card?.expiry?.trim()) {
+    expiry = normalizeExpiry(card.expiry) ?? undefined;
+    if (!expiry) {
+      throw new Error('有效期格式应为 MM/YY');
+    }
+  }
+
+  const cvv = card?.cvv?.trim() || undefined;
+  if (cvv && !/^\d{3,4}$/.test(cvv)) {
+    throw new Error('CVV 应为 3-4 位数字');
+  }
+
+  return {
+    cardholder: card?.cardholder?.trim() || undefined,
+    number,
+    expiry,
+    cvv,
+    pin: card?.pin?.trim() || undefined,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * 条目两步验证码 - React Native 版本
+ * 算法和测试向量与桌面端共用 electron/main/totp/otp，HMAC 使用 react-native-quick-crypto
+ */
+
+import Crypto from 'react-native-quick-crypto';
+import {
+  OtpHmac,
+  generateOtp,
+  parseOtpAuthUri,
+  verifyOtpVectors,
+} from '../../../electron/main/totp/otp';
+
+export {
+  describeOtp,
+  formatOtpAuthUri,
+  getOtpRemainingSeconds,
+  normalizeOtpAuthUri,
+  parseOtpAuthUri,
+} from '../../../electron/main/totp/otp';
+export type { OtpParams } from '../../../electron/main/totp/otp';
+
+const otpHmac: OtpHmac = (algorithm, key, message) =>
+  new Uint8Array(
+    Crypto.createHmac(algorithm.toLowerCase(), Buffer.from(key)).update(Buffer.from(message)).digest()
+  );
+
+let verified = false;
+
+/**
+ * 计算条目的当前验证码，首次使用时先用测试向量自检，结果与桌面端不一致时拒绝计算
+ */
+export function generateEntryOtp(otpauth: string, now?: number): string {
+  if (!verified) {
+    if (verifyOtpVectors(otpHmac).length > 0) {
+      throw new Error('验证码算法自检失败，无法计算验证码');
+    }
+    verified = true;
+  }
+  return generateOtp(parseOtpAuthUri(otpauth), otpHmac, now);
+}
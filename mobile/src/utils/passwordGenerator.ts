@@ -4,6 +4,22 @@
 
 import { randomBytes } from './crypto';
 import { PasswordConfig } from '../types/models';
+import { estimateStrength, getStrengthLabel } from '../../../electron/main/strength';
+import { generatePassphrase } from '../../../electron/main/generator/passphrase';
+import { generatePolicyPassword } from '../../../electron/main/generator/policy';
+
+export {
+  DEFAULT_PASSPHRASE_CONFIG,
+  MIN_PASSPHRASE_WORDS,
+  MAX_PASSPHRASE_WORDS,
+  getPassphraseEntropy,
+} from '../../../electron/main/generator/passphrase';
+
+export {
+  clampPolicyLength,
+  describePolicyRules,
+  resolveEntryPolicy,
+} from '../../../electron/main/generator/policy';
 
 const CHAR_SETS = {
   uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
@@ -18,6 +34,13 @@ const AMBIGUOUS_CHARS = 'O0l1I|';
  * 生成随机密码
  */
 export function generatePassword(config: PasswordConfig): string {
+  if (config.mode === 'passphrase') {
+    return generatePassphrase(config.passphrase, randomInt);
+  }
+  if (config.policy) {
+    return generatePolicyPassword(config.policy, config.length, randomInt, config.excludeAmbiguous);
+  }
+
   let charset = '';
 
   if (config.uppercase) charset += CHAR_SETS.uppercase;
@@ -63,54 +86,37 @@ export function generatePassword(config: PasswordConfig): string {
   return passwordArray.join('');
 }
 
+/**
+ * [0, max) 范围内的安全随机整数，使用拒绝采样避免取模偏差
+ */
+function randomInt(max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max;
+  for (;;) {
+    const value = randomBytes(4).readUInt32BE(0);
+    if (value < limit) return value % max;
+  }
+}
+
 function getRandomChar(charset: string): string {
   const index = randomBytes(1)[0] % charset.length;
   return charset[index];
 }
 
 /**
- * 计算密码强度
+ * 计算密码强度，使用与桌面端共用的 electron/main/strength
  */
 export function calculateStrength(password: string): {
   score: number;
   level: string;
   feedback: string[];
+  crackTimeDisplay: string;
 } {
-  let score = 0;
-  const feedback: string[] = [];
-
-  // 长度评分
-  if (password.length >= 8) score += 1;
-  if (password.length >= 12) score += 1;
-  if (password.length >= 16) score += 1;
-  if (password.length < 8) feedback.push('密码长度至少 8 位');
-
-  // 字符类型评分
-  if (/[a-z]/.test(password)) score += 1;
-  if (/[A-Z]/.test(password)) score += 1;
-  if (/[0-9]/.test(password)) score += 1;
-  if (/[^a-zA-Z0-9]/.test(password)) score += 1;
-
-  // 复杂度检查
-  if (!/[A-Z]/.test(password)) feedback.push('建议包含大写字母');
-  if (!/[0-9]/.test(password)) feedback.push('建议包含数字');
-  if (!/[^a-zA-Z0-9]/.test(password)) feedback.push('建议包含特殊字符');
-
-  // 常见模式检查
-  if (/^[a-z]+$/.test(password) || /^[0-9]+$/.test(password)) {
-    score = Math.max(0, score - 2);
-    feedback.push('避免使用纯字母或纯数字');
-  }
-
-  // 归一化分数 (0-4)
-  const normalizedScore = Math.min(4, Math.floor(score / 2));
-
-  const levels = ['很弱', '弱', '中等', '强', '很强'];
-
+  const result = estimateStrength(password);
   return {
-    score: normalizedScore,
-    level: levels[normalizedScore],
-    feedback,
+    score: result.score,
+    level: getStrengthLabel(result.level),
+    feedback: result.feedback,
+    crackTimeDisplay: result.crackTimeDisplay,
   };
 }
 
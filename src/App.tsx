@@ -1,11 +1,13 @@
 import { useEffect, useState } from 'react';
 import { useVaultStore } from './stores/vaultStore';
-import { checkVaultInitialized, listEntries, listCategories, listTags } from './utils/api';
+import { checkVaultInitialized, listEntries, listCategories, listTags, listPolicies, onVaultSwitched } from './utils/api';
 import { useAutoLock } from './hooks/useAutoLock';
 
 // 组件导入
 import SetupWizard from './components/auth/SetupWizard';
 import LoginScreen from './components/auth/LoginScreen';
+import VaultPicker from './components/auth/VaultPicker';
+import UnlockNotice from './components/auth/UnlockNotice';
 import MainLayout from './components/MainLayout';
 import TitleBar from './components/TitleBar';
 import QuickEntryForm from './components/quickentry/QuickEntryForm';
@@ -25,7 +27,7 @@ function QuickEntryApp() {
 
 // 主应用组件
 function MainApp() {
-  const { isInitialized, isUnlocked, setInitialized, setUnlocked, setEntries, setCategories, setTags } = useVaultStore();
+  const { isInitialized, isUnlocked, setInitialized, setUnlocked, setEntries, setCategories, setTags, setPolicies, lock } = useVaultStore();
   const [isLoading, setIsLoading] = useState(true);
   
   // OCR 相关状态
@@ -55,26 +57,40 @@ function MainApp() {
     checkStatus();
   }, [setInitialized]);
 
+  // 切换密码库后（登录界面或托盘菜单）锁定并重新检查新密码库的状态
+  useEffect(() => {
+    return onVaultSwitched(async () => {
+      lock();
+      try {
+        setInitialized(await checkVaultInitialized());
+      } catch (error) {
+        console.error('Failed to check vault status:', error);
+      }
+    });
+  }, [lock, setInitialized]);
+
   // 解锁后加载数据
   useEffect(() => {
     if (isUnlocked) {
       const loadData = async () => {
         try {
-          const [entries, categories, tags] = await Promise.all([
+          const [entries, categories, tags, policies] = await Promise.all([
             listEntries(),
             listCategories(),
             listTags(),
+            listPolicies(),
           ]);
           setEntries(entries);
           setCategories(categories);
           setTags(tags);
+          setPolicies(policies);
         } catch (error) {
           console.error('Failed to load data:', error);
         }
       };
       loadData();
     }
-  }, [isUnlocked, setEntries, setCategories, setTags]);
+  }, [isUnlocked, setEntries, setCategories, setTags, setPolicies]);
 
   // 监听截图快捷键事件
   useEffect(() => {
@@ -148,7 +164,11 @@ function MainApp() {
     return (
       <div className="h-screen bg-theme-bg flex flex-col">
         <TitleBar />
-        <div className="flex-1">
+        <div className="flex-1 relative">
+          {/* 新建的密码库可以不设置直接切换回其他密码库 */}
+          <div className="absolute top-4 right-4 w-56 z-10">
+            <VaultPicker />
+          </div>
           <SetupWizard onComplete={() => { setInitialized(true); setUnlocked(true); }} />
         </div>
       </div>
@@ -177,6 +197,9 @@ function MainApp() {
       <div className="flex-1 overflow-hidden">
         <MainLayout />
       </div>
+
+      {/* 上次解锁以来的失败尝试提示 */}
+      <UnlockNotice />
       
       {/* OCR 加载提示 */}
       {ocrLoading && (
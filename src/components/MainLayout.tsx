@@ -8,6 +8,8 @@ import PasswordList from './passwords/PasswordList';
 import PasswordDetail from './passwords/PasswordDetail';
 import PasswordForm from './passwords/PasswordForm';
 import BatchActionToolbar from './passwords/BatchActionToolbar';
+import TrashView from './passwords/TrashView';
+import SecurityAudit from './passwords/SecurityAudit';
 import SettingsModal from './settings/SettingsModal';
 import { PasswordGenerator } from './generator';
 import { ImportWizard } from './import';
@@ -65,7 +67,7 @@ function useDraggableWidth(key: string, initial: number, min: number, max: numbe
 }
 
 export default function MainLayout() {
-  const { lock } = useVaultStore();
+  const { lock, showTrash, showAudit, setShowAudit } = useVaultStore();
   const { isSelectionMode, clearSelection } = useSelectionStore();
   const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -133,75 +135,95 @@ export default function MainLayout() {
         title="拖动调整侧边栏宽度"
       />
 
-      {/* 密码列表 */}
-      <div 
-        style={{ width: showDetail ? list.width : undefined, minWidth: showDetail ? list.width : undefined }}
-        className={`flex flex-col bg-theme-sidebar overflow-hidden flex-shrink-0 ${!showDetail ? 'flex-1' : ''}`}
-      >
-        {/* 批量操作工具栏 */}
-        {isSelectionMode && (
-          <BatchActionToolbar onOperationComplete={() => clearSelection()} />
-        )}
+      {/* 回收站 */}
+      {showTrash ? (
+        <div className="flex-1 bg-theme-sidebar overflow-hidden min-w-[300px]">
+          <TrashView />
+        </div>
+      ) : showAudit ? (
+        <div className="flex-1 bg-theme-sidebar overflow-hidden min-w-[300px]">
+          <SecurityAudit
+            onOpenEntry={(id) => {
+              setShowAudit(false);
+              setSelectedEntryId(id);
+              setIsCreating(false);
+              setIsEditing(true);
+            }}
+          />
+        </div>
+      ) : (
+        <>
+          {/* 密码列表 */}
+          <div 
+            style={{ width: showDetail ? list.width : undefined, minWidth: showDetail ? list.width : undefined }}
+            className={`flex flex-col bg-theme-sidebar overflow-hidden flex-shrink-0 ${!showDetail ? 'flex-1' : ''}`}
+          >
+            {/* 批量操作工具栏 */}
+            {isSelectionMode && (
+              <BatchActionToolbar onOperationComplete={() => clearSelection()} />
+            )}
         
-        <div className="p-4 border-b border-theme flex-shrink-0">
-          <div className="flex items-center justify-between mb-3">
-            <h2 className="text-lg font-semibold text-theme">密码</h2>
-            <button
-              onClick={handleCreateNew}
-              className="px-3 py-1 btn-primary text-white text-sm rounded-md transition-colors"
-              title="新建 (Ctrl+N)"
-            >
-              + 新建
-            </button>
-          </div>
-          <div className="relative">
-            <input
-              ref={searchInputRef}
-              type="text"
-              placeholder="搜索... (Ctrl+F)"
-              className="w-full px-3 py-2 pl-9 bg-theme-bg border border-theme rounded-md text-theme text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-              onChange={(e) => useVaultStore.getState().setSearchQuery(e.target.value)}
-            />
-            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-theme-secondary">🔍</span>
+            <div className="p-4 border-b border-theme flex-shrink-0">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold text-theme">密码</h2>
+                <button
+                  onClick={handleCreateNew}
+                  className="px-3 py-1 btn-primary text-white text-sm rounded-md transition-colors"
+                  title="新建 (Ctrl+N)"
+                >
+                  + 新建
+                </button>
+              </div>
+              <div className="relative">
+                <input
+                  ref={searchInputRef}
+                  type="text"
+                  placeholder="搜索... (Ctrl+F)"
+                  className="w-full px-3 py-2 pl-9 bg-theme-bg border border-theme rounded-md text-theme text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  onChange={(e) => useVaultStore.getState().setSearchQuery(e.target.value)}
+                />
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-theme-secondary">🔍</span>
+              </div>
+            </div>
+            <PasswordList selectedId={selectedEntryId} onSelect={handleSelectEntry} />
           </div>
-        </div>
-        <PasswordList selectedId={selectedEntryId} onSelect={handleSelectEntry} />
-      </div>
 
-      {/* 密码列表拖动条 */}
-      {showDetail && (
-        <div
-          onMouseDown={list.onMouseDown}
-          style={{ 
-            width: '4px', 
-            minWidth: '4px',
-            backgroundColor: 'var(--color-border)',
-            cursor: 'col-resize',
-            flexShrink: 0
-          }}
-          className="hover:bg-blue-500 transition-colors"
-          title="拖动调整列表宽度"
-        />
-      )}
-
-      {/* 详情/表单区 */}
-      {showDetail && (
-        <div className="flex-1 bg-theme-bg overflow-y-auto custom-scrollbar min-w-[300px] animate-fade-in">
-          {isCreating || isEditing ? (
-            <PasswordForm
-              entryId={isEditing ? selectedEntryId : null}
-              onClose={handleCloseForm}
-              onSaved={(id: string) => { setSelectedEntryId(id); handleCloseForm(); }}
+          {/* 密码列表拖动条 */}
+          {showDetail && (
+            <div
+              onMouseDown={list.onMouseDown}
+              style={{ 
+                width: '4px', 
+                minWidth: '4px',
+                backgroundColor: 'var(--color-border)',
+                cursor: 'col-resize',
+                flexShrink: 0
+              }}
+              className="hover:bg-blue-500 transition-colors"
+              title="拖动调整列表宽度"
             />
-          ) : selectedEntryId ? (
-            <PasswordDetail
-              entryId={selectedEntryId}
-              onEdit={handleEdit}
-              onDeleted={() => setSelectedEntryId(null)}
-              onBack={() => setSelectedEntryId(null)}
-            />
-          ) : null}
-        </div>
+          )}
+
+          {/* 详情/表单区 */}
+          {showDetail && (
+            <div className="flex-1 bg-theme-bg overflow-y-auto custom-scrollbar min-w-[300px] animate-fade-in">
+              {isCreating || isEditing ? (
+                <PasswordForm
+                  entryId={isEditing ? selectedEntryId : null}
+                  onClose={handleCloseForm}
+                  onSaved={(id: string) => { setSelectedEntryId(id); handleCloseForm(); }}
+                />
+              ) : selectedEntryId ? (
+                <PasswordDetail
+                  entryId={selectedEntryId}
+                  onEdit={handleEdit}
+                  onDeleted={() => setSelectedEntryId(null)}
+                  onBack={() => setSelectedEntryId(null)}
+                />
+              ) : null}
+            </div>
+          )}
+        </>
       )}
 
       <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} />
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useVaultStore } from '../stores/vaultStore';
 import { createCategory, deleteCategory, updateCategory, syncGetAuthState, syncBindQuark, syncUnbindQuark, syncUpload, syncDownload, syncConfirmRestore, type SyncAuthState } from '../utils/api';
+import { ENTRY_TYPE_OPTIONS, getEntryType } from '../utils/itemTypes';
 
 interface Props {
   onLock: () => void;
@@ -85,7 +86,7 @@ function CategoryIcon({ iconId, size = 'md' }: { iconId: string; size?: 'sm' | '
 // const TAG_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'];
 
 export default function Sidebar({ onLock, onOpenSettings, onOpenGenerator, onOpenImport }: Props) {
-  const { categories, selectedCategoryId, selectedTagId, setSelectedCategoryId, searchQuery, setSearchQuery, setCategories } = useVaultStore();
+  const { categories, entries, selectedCategoryId, selectedTagId, selectedType, showTrash, showAudit, setSelectedCategoryId, setSelectedType, setShowTrash, setShowAudit, searchQuery, setSearchQuery, setCategories } = useVaultStore();
   
   const [isAddingCategory, setIsAddingCategory] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
@@ -391,7 +392,7 @@ export default function Sidebar({ onLock, onOpenSettings, onOpenGenerator, onOpe
           <button
             onClick={() => setSelectedCategoryId(null)}
             className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-all duration-200 flex items-center gap-2.5 ${
-              !selectedCategoryId && !selectedTagId
+              !selectedCategoryId && !selectedTagId && !showTrash && !showAudit
                 ? 'sidebar-selected font-medium'
                 : 'text-theme-secondary hover:bg-hover'
             }`}
@@ -495,6 +496,63 @@ export default function Sidebar({ onLock, onOpenSettings, onOpenGenerator, onOpe
           ))}
         </nav>
 
+        {/* 类型筛选 */}
+        <div className="px-4 py-2 mt-4">
+          <h3 className="text-xs font-semibold text-theme-secondary uppercase tracking-wider">类型</h3>
+        </div>
+        <nav className="space-y-1 px-2">
+          {ENTRY_TYPE_OPTIONS.map((option) => {
+            const count = entries.filter((e) => getEntryType(e) === option.value).length;
+            return (
+              <button
+                key={option.value}
+                onClick={() => setSelectedType(selectedType === option.value ? null : option.value)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-all duration-200 flex items-center gap-2.5 ${
+                  selectedType === option.value
+                    ? 'sidebar-selected font-medium'
+                    : 'text-theme-secondary hover:bg-hover'
+                }`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={option.icon} />
+                </svg>
+                <span className="flex-1">{option.label}</span>
+                {count > 0 && <span className="text-xs opacity-60">{count}</span>}
+              </button>
+            );
+          })}
+        </nav>
+
+        {/* 安全审计和回收站 */}
+        <nav className="space-y-1 px-2 mt-4">
+          <button
+            onClick={() => setShowAudit(true)}
+            className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-all duration-200 flex items-center gap-2.5 ${
+              showAudit
+                ? 'sidebar-selected font-medium'
+                : 'text-theme-secondary hover:bg-hover'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+            </svg>
+            安全审计
+          </button>
+          <button
+            onClick={() => setShowTrash(true)}
+            className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-all duration-200 flex items-center gap-2.5 ${
+              showTrash
+                ? 'sidebar-selected font-medium'
+                : 'text-theme-secondary hover:bg-hover'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+            回收站
+          </button>
+        </nav>
+
         {/* 标签列表 - 暂时隐藏 */}
         {/* <div className="px-4 py-2 mt-4 flex items-center justify-between">
           <h3 className="text-xs font-semibold text-theme-secondary uppercase tracking-wider">标签</h3>
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { saveEmergencyKit, type EmergencyKit } from '../../utils/api';
+
+// 最多拆分的份数（与主进程一致）
+const MAX_SHARES = 10;
+
+interface ShareOptionsProps {
+  shares: number;
+  threshold: number;
+  onChange: (shares: number, threshold: number) => void;
+}
+
+/**
+ * 恢复密钥拆分设置：不拆分，或拆分为 n 份、任意 k 份即可恢复
+ */
+export function RecoveryShareOptions({ shares, threshold, onChange }: ShareOptionsProps) {
+  const selectClass = 'px-2 py-1 bg-theme-bg border border-theme rounded-lg text-theme text-sm focus:outline-none focus:border-theme-primary';
+
+  return (
+    <div className="space-y-2 text-sm text-theme">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input type="radio" checked={shares === 1} onChange={() => onChange(1, 1)} className="accent-theme-primary" />
+        生成一个完整的恢复密钥
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer flex-wrap">
+        <input type="radio" checked={shares > 1} onChange={() => onChange(3, 2)} className="accent-theme-primary" />
+        拆分为
+        <select
+          value={shares > 1 ? shares : 3}
+          disabled={shares === 1}
+          onChange={(e) => {
+            const count = Number(e.target.value);
+            onChange(count, Math.min(threshold, count));
+          }}
+          className={selectClass}
+        >
+          {Array.from({ length: MAX_SHARES - 1 }, (_, i) => i + 2).map((n) => (
+            <option key={n} value={n}>{n}</option>
+          ))}
+        </select>
+        份，任意
+        <select
+          value={shares > 1 ? threshold : 2}
+          disabled={shares === 1}
+          onChange={(e) => onChange(shares, Number(e.target.value))}
+          className={selectClass}
+        >
+          {Array.from({ length: Math.max(shares, 2) - 1 }, (_, i) => i + 2).map((n) => (
+            <option key={n} value={n}>{n}</option>
+          ))}
+        </select>
+        份即可恢复
+      </label>
+    </div>
+  );
+}
+
+interface Props {
+  kit: EmergencyKit;
+}
+
+/**
+ * 显示新生成的恢复密钥（或恢复份额），保存为可打印的应急包
+ */
+export default function EmergencyKitView({ kit }: Props) {
+  const [savedPath, setSavedPath] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (format: 'html' | 'pdf') => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const filePath = await saveEmergencyKit(kit, format);
+      if (filePath) setSavedPath(filePath);
+    } catch (err) {
+      setError((err as Error).message || '保存失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const split = kit.threshold > 1;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-theme-secondary">
+        {split
+          ? `恢复密钥已拆分为 ${kit.codes.length} 份，忘记主密码时需要任意 ${kit.threshold} 份。请分别打印交给不同的人保管。`
+          : '忘记主密码时，可以用恢复密钥设置新的主密码。请打印后妥善保管。'}
+      </p>
+
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {kit.codes.map((code, index) => (
+          <div key={index} className="p-3 bg-theme-bg border border-theme rounded-lg">
+            <div className="text-xs text-theme-secondary mb-1">
+              {split ? `恢复份额 ${index + 1} / ${kit.codes.length}` : '恢复密钥'}
+            </div>
+            <div className="font-mono text-sm text-theme break-all select-all">{code}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => handleSave('pdf')}
+          disabled={isSaving}
+          className="flex-1 px-3 py-2 bg-theme-primary hover:opacity-90 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          保存应急包 (PDF)
+        </button>
+        <button
+          onClick={() => handleSave('html')}
+          disabled={isSaving}
+          className="flex-1 px-3 py-2 bg-theme-bg hover:bg-theme-card disabled:opacity-50 text-theme text-sm font-medium rounded-lg transition-colors border border-theme"
+        >
+          保存为网页
+        </button>
+      </div>
+
+      {savedPath && <p className="text-xs text-green-400 break-all">已保存到 {savedPath}，打印后建议删除电子版</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <p className="text-xs text-yellow-400/80">
+        关闭后将无法再次查看，只能重新生成。持有{split ? '足够份数的恢复份额' : '恢复密钥'}的人无需主密码即可打开密码库。
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { selectKeyFile, generateKeyFile } from '../../utils/api';
+
+interface Props {
+  value: string | null;
+  onChange: (filePath: string | null) => void;
+  allowGenerate?: boolean;  // 是否提供"生成新密钥文件"
+  onError?: (message: string) => void;
+}
+
+/**
+ * 密钥文件选择：选择已有文件或生成新文件，显示选中的文件名
+ */
+export default function KeyFilePicker({ value, onChange, allowGenerate = false, onError }: Props) {
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleSelect = async () => {
+    try {
+      const filePath = await selectKeyFile();
+      if (filePath) onChange(filePath);
+    } catch (err) {
+      onError?.((err as Error).message);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const filePath = await generateKeyFile();
+      if (filePath) onChange(filePath);
+    } catch (err) {
+      onError?.((err as Error).message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (value) {
+    const fileName = value.split(/[\\/]/).pop();
+    return (
+      <div className="flex items-center gap-2 px-3 py-2.5 bg-theme-bg border border-theme rounded-xl">
+        <svg className="w-5 h-5 text-theme-primary flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+        <span className="flex-1 text-sm text-theme truncate" title={value}>{fileName}</span>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="p-1 text-theme-secondary hover:text-theme transition-colors"
+          title="取消选择"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <button
+        type="button"
+        onClick={handleSelect}
+        className="flex-1 px-3 py-2.5 bg-theme-bg hover:bg-theme-card border border-dashed border-theme rounded-xl text-sm text-theme-secondary hover:text-theme transition-colors"
+      >
+        选择密钥文件
+      </button>
+      {allowGenerate && (
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="flex-1 px-3 py-2.5 bg-theme-bg hover:bg-theme-card disabled:opacity-50 border border-dashed border-theme rounded-xl text-sm text-theme-secondary hover:text-theme transition-colors"
+        >
+          {isGenerating ? '生成中...' : '生成新密钥文件'}
+        </button>
+      )}
+    </div>
+  );
+}
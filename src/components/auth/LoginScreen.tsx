@@ -1,13 +1,32 @@
 import { useState, useEffect } from 'react';
-import { unlockVault, resetVault } from '../../utils/api';
+import {
+  unlockVault,
+  verifyUnlockCode,
+  lockVault,
+  resetVault,
+  checkVaultInitialized,
+  isKeyFileRequired,
+  getRecoveryKeyStatus,
+  onVaultSwitched,
+} from '../../utils/api';
+import VaultPicker from './VaultPicker';
+import KeyFilePicker from './KeyFilePicker';
+import RecoverVaultDialog from './RecoverVaultDialog';
 
 interface Props {
   onUnlock: () => void;
   onReset?: () => void;
 }
 
+type LoginStep = 'password' | 'totp';
+
 export default function LoginScreen({ onUnlock, onReset }: Props) {
+  const [step, setStep] = useState<LoginStep>('password');
   const [password, setPassword] = useState('');
+  const [keyFileRequired, setKeyFileRequired] = useState(false);
+  const [keyFilePath, setKeyFilePath] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
@@ -15,6 +34,19 @@ export default function LoginScreen({ onUnlock, onReset }: Props) {
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [resetStep, setResetStep] = useState(0);
   const [isResetting, setIsResetting] = useState(false);
+  const [hasRecoveryKey, setHasRecoveryKey] = useState(false);
+  const [showRecover, setShowRecover] = useState(false);
+
+  // 当前密码库是否需要密钥文件、是否设置了恢复密钥（切换密码库后重新检查）
+  useEffect(() => {
+    const checkVault = () => {
+      setKeyFilePath(null);
+      isKeyFileRequired().then(setKeyFileRequired).catch(console.error);
+      getRecoveryKeyStatus().then((status) => setHasRecoveryKey(status.enabled)).catch(console.error);
+    };
+    checkVault();
+    return onVaultSwitched(checkVault);
+  }, []);
 
   // 错误时抖动效果
   useEffect(() => {
@@ -29,23 +61,83 @@ export default function LoginScreen({ onUnlock, onReset }: Props) {
     e.preventDefault();
     setError('');
 
+    if (step === 'totp') {
+      await handleCodeSubmit();
+      return;
+    }
+
     if (!password) {
       setError('请输入主密码');
       return;
     }
 
+    if (keyFileRequired && !keyFilePath) {
+      setError('请选择密钥文件');
+      return;
+    }
+
     setIsLoading(true);
     try {
-      await unlockVault(password);
+      const status = await unlockVault(password, keyFilePath ?? undefined);
+      setPassword('');
+      if (status === 'totp-required') {
+        setStep('totp');
+        return;
+      }
       onUnlock();
     } catch (err) {
-      setError((err as Error).message || '密码错误');
       setPassword('');
+      if (await handleVaultWiped((err as Error).message)) return;
+      setError((err as Error).message || '密码错误');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleCodeSubmit = async () => {
+    const value = code.trim();
+    if (!value) {
+      setError(useRecoveryCode ? '请输入恢复码' : '请输入验证码');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await verifyUnlockCode(value, useRecoveryCode);
+      if (result.success) {
+        onUnlock();
+        return;
+      }
+      setCode('');
+      if (await handleVaultWiped(result.error)) return;
+      if (result.passwordRequired) {
+        backToPassword();
+      }
+      setError(result.error || '验证失败');
+    } catch (err) {
+      setError((err as Error).message || '验证失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 连续失败达到设置的次数后主进程会清除本地密码库，此时回到初始设置
+  const handleVaultWiped = async (message?: string): Promise<boolean> => {
+    if (await checkVaultInitialized()) return false;
+    alert(message || '本地密码库已被清除');
+    onReset?.();
+    return true;
+  };
+
+  // 返回主密码输入，主进程中等待验证的解锁一并取消
+  const backToPassword = () => {
+    lockVault().catch(console.error);
+    setStep('password');
+    setCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
   const handleReset = async () => {
     if (resetStep < 2) {
       setResetStep(resetStep + 1);
@@ -87,42 +179,73 @@ export default function LoginScreen({ onUnlock, onReset }: Props) {
             </svg>
           </div>
           <h1 className="text-2xl font-bold text-theme">密码管理器</h1>
-          <p className="text-theme-secondary mt-2 text-sm">输入主密码以解锁您的密码库</p>
+          <p className="text-theme-secondary mt-2 text-sm">
+            {step === 'password'
+              ? (keyFileRequired ? '输入主密码并选择密钥文件以解锁' : '输入主密码以解锁您的密码库')
+              : useRecoveryCode ? '输入一个未使用过的恢复码' : '输入验证器应用中的 6 位验证码'}
+          </p>
         </div>
 
+        {/* 密码库选择 */}
+        {step === 'password' && <VaultPicker />}
+
         <form onSubmit={handleSubmit} className="space-y-5">
-          {/* 密码输入框 */}
-          <div className="relative">
-            <div className="absolute left-3 top-1/2 -translate-y-1/2 text-theme-secondary">
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
-              </svg>
-            </div>
+          {step === 'totp' ? (
+            /* 二次验证输入框 */
             <input
-              type={showPassword ? 'text' : 'password'}
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full pl-10 pr-12 py-3 bg-theme-bg border border-theme rounded-xl text-theme placeholder:text-theme-secondary/60 transition-all focus:border-theme-primary"
-              placeholder="输入主密码"
+              key={useRecoveryCode ? 'recovery' : 'totp'}
+              type="text"
+              value={code}
+              onChange={(e) => setCode(
+                useRecoveryCode
+                  ? e.target.value.toUpperCase().slice(0, 9)
+                  : e.target.value.replace(/\D/g, '').slice(0, 6)
+              )}
+              className={`w-full px-4 py-3 bg-theme-bg border border-theme rounded-xl text-theme placeholder:text-theme-secondary/60 transition-all focus:border-theme-primary text-center ${useRecoveryCode ? 'font-mono tracking-wider' : 'text-2xl font-mono tracking-[0.5em]'}`}
+              placeholder={useRecoveryCode ? 'XXXX-XXXX' : '000000'}
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
               autoFocus
             />
-            <button
-              type="button"
-              onClick={() => setShowPassword(!showPassword)}
-              className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-theme-secondary hover:text-theme transition-colors"
-            >
-              {showPassword ? (
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                </svg>
-              ) : (
+          ) : (
+            /* 密码输入框 */
+            <div className="relative">
+              <div className="absolute left-3 top-1/2 -translate-y-1/2 text-theme-secondary">
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
                 </svg>
-              )}
-            </button>
-          </div>
+              </div>
+              <input
+                type={showPassword ? 'text' : 'password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full pl-10 pr-12 py-3 bg-theme-bg border border-theme rounded-xl text-theme placeholder:text-theme-secondary/60 transition-all focus:border-theme-primary"
+                placeholder="输入主密码"
+                autoFocus
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-theme-secondary hover:text-theme transition-colors"
+              >
+                {showPassword ? (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                  </svg>
+                ) : (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                  </svg>
+                )}
+              </button>
+            </div>
+          )}
+
+          {/* 密钥文件 */}
+          {step === 'password' && keyFileRequired && (
+            <KeyFilePicker value={keyFilePath} onChange={setKeyFilePath} onError={setError} />
+          )}
 
           {/* 错误提示 */}
           {error && (
@@ -146,24 +269,54 @@ export default function LoginScreen({ onUnlock, onReset }: Props) {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                 </svg>
-                <span>解锁中...</span>
+                <span>{step === 'totp' ? '验证中...' : '解锁中...'}</span>
               </>
             ) : (
               <>
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" />
                 </svg>
-                <span>解锁</span>
+                <span>{step === 'totp' ? '验证' : '解锁'}</span>
               </>
             )}
           </button>
         </form>
 
+        {step === 'totp' && (
+          <div className="flex items-center justify-between mt-4 text-xs">
+            <button
+              type="button"
+              onClick={backToPassword}
+              className="text-theme-secondary hover:text-theme transition-colors"
+            >
+              ← 返回
+            </button>
+            <button
+              type="button"
+              onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setError(''); }}
+              className="text-theme-primary hover:opacity-80 transition-opacity"
+            >
+              {useRecoveryCode ? '使用验证码' : '无法使用验证器？使用恢复码'}
+            </button>
+          </div>
+        )}
+
         {/* 底部提示 */}
         <p className="text-center text-theme-secondary/60 text-xs mt-6">
           您的数据使用 AES-256 加密保护
         </p>
 
+        {/* 恢复密钥 */}
+        {step === 'password' && hasRecoveryKey && (
+          <button
+            type="button"
+            onClick={() => { setShowRecover(true); setError(''); }}
+            className="w-full mt-4 text-theme-primary hover:opacity-80 text-xs transition-opacity"
+          >
+            忘记主密码？使用恢复密钥
+          </button>
+        )}
+
         {/* 重置按钮 */}
         <button
           type="button"
@@ -174,6 +327,13 @@ export default function LoginScreen({ onUnlock, onReset }: Props) {
         </button>
       </div>
 
+      <RecoverVaultDialog
+        isOpen={showRecover}
+        onClose={() => setShowRecover(false)}
+        onRecovered={() => { setShowRecover(false); onUnlock(); }}
+        onError={handleVaultWiped}
+      />
+
       {/* 重置确认弹窗 */}
       {showResetConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 animate-fade-in">
@@ -185,7 +345,7 @@ export default function LoginScreen({ onUnlock, onReset }: Props) {
                 </svg>
               </div>
               <h3 className="text-lg font-bold text-theme mb-2">
-                {resetStep === 0 && '确定要重置密码库吗？'}
+                {resetStep === 0 && '确定要重置当前密码库吗？'}
                 {resetStep === 1 && '这将删除所有数据！'}
                 {resetStep === 2 && '最后确认'}
               </h3>
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react';
+import { recoverVault } from '../../utils/api';
+import { estimateStrength } from '../../utils/passwordStrength';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onRecovered: () => void;
+  onError?: (message: string) => Promise<boolean>;  // 返回 true 表示已处理（例如密码库已被清除）
+}
+
+/**
+ * 忘记主密码时用恢复密钥（或恢复份额）设置新的主密码
+ */
+export default function RecoverVaultDialog({ isOpen, onClose, onRecovered, onError }: Props) {
+  const [codes, setCodes] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleClose = useCallback(() => {
+    setCodes('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setError('');
+    onClose();
+  }, [onClose]);
+
+  // ESC 关闭
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape' && !isLoading) {
+      handleClose();
+    }
+  }, [handleClose, isLoading]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      return () => document.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isOpen, handleKeyDown]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // 每行一个恢复密钥或恢复份额
+    const lines = codes.split('\n').map((line) => line.trim()).filter(Boolean);
+    if (lines.length === 0) {
+      setError('请输入恢复密钥或恢复份额');
+      return;
+    }
+    if (newPassword.length < 8) {
+      setError('主密码至少需要 8 个字符');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('两次输入的密码不一致');
+      return;
+    }
+    if (!estimateStrength(newPassword).isAcceptable) {
+      setError('密码强度不足，请设置更强的密码');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await recoverVault(lines, newPassword);
+      setCodes('');
+      setNewPassword('');
+      setConfirmPassword('');
+      onRecovered();
+    } catch (err) {
+      const message = (err as Error).message || '恢复失败';
+      if (await onError?.(message)) return;
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass = 'w-full px-3 py-2.5 bg-theme-bg border border-theme rounded-lg text-theme text-sm focus:outline-none focus:border-theme-primary focus:ring-2 focus:ring-theme-primary/20';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.target === e.currentTarget && !isLoading && handleClose()}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-theme-card rounded-xl shadow-2xl max-w-md w-full border border-theme animate-in fade-in zoom-in-95 duration-200"
+      >
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-theme">
+          <h2 className="text-lg font-semibold text-theme">使用恢复密钥</h2>
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={isLoading}
+            className="p-2 text-theme-secondary hover:text-theme hover:bg-theme-bg rounded-lg transition-colors"
+            title="关闭 (Esc)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 内容 */}
+        <div className="p-5 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-theme-secondary mb-2">恢复密钥</label>
+            <textarea
+              value={codes}
+              onChange={(e) => setCodes(e.target.value)}
+              rows={4}
+              placeholder="输入应急包中的恢复密钥；使用恢复份额时每行输入一份"
+              className={`${inputClass} font-mono resize-none`}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-theme-secondary">新的主密码</label>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="输入新的主密码（至少8位）"
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="再次输入新的主密码"
+              className={inputClass}
+            />
+          </div>
+
+          <p className="text-xs text-theme-secondary">
+            恢复后条目等数据保持不变，恢复密钥仍然有效。如果设置了密钥文件，恢复后将改为只需主密码解锁。
+          </p>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="px-5 py-4 border-t border-theme flex gap-3">
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={isLoading}
+            className="flex-1 px-4 py-2 bg-theme-bg hover:bg-theme-card disabled:opacity-50 text-theme text-sm font-medium rounded-lg transition-colors border border-theme"
+          >
+            取消
+          </button>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="flex-1 px-4 py-2 bg-theme-primary hover:opacity-90 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isLoading ? '恢复中...' : '恢复并解锁'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,5 +1,15 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { setupVault, syncBindQuark, syncDownload, syncConfirmRestore, checkPasswordStrength, type PasswordStrengthResult } from '../../utils/api';
+import { useState, useMemo } from 'react';
+import {
+  setupVault,
+  createRecoveryKey,
+  syncBindQuark,
+  syncDownload,
+  syncConfirmRestore,
+  type EmergencyKit,
+} from '../../utils/api';
+import { estimateStrength } from '../../utils/passwordStrength';
+import KeyFilePicker from './KeyFilePicker';
+import EmergencyKitView, { RecoveryShareOptions } from './EmergencyKitView';
 
 interface Props {
   onComplete: () => void;
@@ -91,8 +101,11 @@ export default function SetupWizard({ onComplete }: Props) {
   const [mode, setMode] = useState<SetupMode>('choose');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [strength, setStrength] = useState(0);
-  const [strengthResult, setStrengthResult] = useState<PasswordStrengthResult | null>(null);
+  const [keyFilePath, setKeyFilePath] = useState<string | null>(null);
+  const [withRecoveryKey, setWithRecoveryKey] = useState(false);
+  const [recoveryShares, setRecoveryShares] = useState(1);
+  const [recoveryThreshold, setRecoveryThreshold] = useState(1);
+  const [kit, setKit] = useState<EmergencyKit | null>(null);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
@@ -102,39 +115,8 @@ export default function SetupWizard({ onComplete }: Props) {
   const [restoreStep, setRestoreStep] = useState<RestoreStep>('bind');
   const [nickname, setNickname] = useState('');
   
-  // 防抖定时器
-  const strengthCheckTimer = useRef<NodeJS.Timeout | null>(null);
-
-  const handlePasswordChange = useCallback((value: string) => {
-    setPassword(value);
-    
-    // 清除之前的定时器
-    if (strengthCheckTimer.current) {
-      clearTimeout(strengthCheckTimer.current);
-    }
-    
-    // 防抖检查密码强度
-    if (value.length > 0) {
-      strengthCheckTimer.current = setTimeout(() => {
-        checkPasswordStrength(value).then(result => {
-          setStrengthResult(result);
-          setStrength(result.score * 25);
-        });
-      }, 300); // 300ms 防抖
-    } else {
-      setStrength(0);
-      setStrengthResult(null);
-    }
-  }, []);
-  
-  // 清理定时器
-  useEffect(() => {
-    return () => {
-      if (strengthCheckTimer.current) {
-        clearTimeout(strengthCheckTimer.current);
-      }
-    };
-  }, []);
+  const strengthResult = useMemo(() => (password ? estimateStrength(password) : null), [password]);
+  const strength = strengthResult ? (strengthResult.score + 1) * 20 : 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -158,8 +140,18 @@ export default function SetupWizard({ onComplete }: Props) {
 
     setIsLoading(true);
     try {
-      await setupVault(password);
-      onComplete();
+      await setupVault(password, keyFilePath ?? undefined);
+      if (!withRecoveryKey) {
+        onComplete();
+        return;
+      }
+      // 密码库已创建，恢复密钥生成失败时可以之后在设置中重新生成
+      try {
+        setKit(await createRecoveryKey(password, { shares: recoveryShares, threshold: recoveryThreshold }));
+      } catch (err) {
+        alert(`恢复密钥生成失败：${(err as Error).message}，可以稍后在设置中重新生成`);
+        onComplete();
+      }
     } catch (err) {
       setError((err as Error).message || '设置失败');
     } finally {
@@ -263,6 +255,27 @@ export default function SetupWizard({ onComplete }: Props) {
     }
   };
 
+  // 密码库已创建，保存应急包
+  if (kit) {
+    return (
+      <div className="h-full bg-theme-bg flex items-center justify-center p-4 relative overflow-hidden">
+        <div className="relative bg-theme-card/80 backdrop-blur-xl rounded-2xl p-8 w-full max-w-md border border-theme shadow-2xl">
+          <div className="text-center mb-6">
+            <h1 className="text-2xl font-bold text-theme">保存应急包</h1>
+            <p className="text-theme-secondary mt-2 text-sm">密码库已创建，请保存并打印恢复密钥</p>
+          </div>
+          <EmergencyKitView kit={kit} />
+          <button
+            onClick={() => { setKit(null); onComplete(); }}
+            className="w-full mt-6 py-3 px-4 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white font-medium rounded-xl transition-all shadow-lg shadow-blue-500/25"
+          >
+            我已保存，进入密码库
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // 选择模式界面
   if (mode === 'choose') {
     return (
@@ -489,7 +502,7 @@ export default function SetupWizard({ onComplete }: Props) {
       </div>
 
       <div className="relative bg-theme-card/80 backdrop-blur-xl rounded-2xl p-8 w-full max-w-md border border-theme shadow-2xl">
-        <BackButton onClick={() => { setMode('choose'); setError(''); setPassword(''); setConfirmPassword(''); setStrength(0); }} />
+        <BackButton onClick={() => { setMode('choose'); setError(''); setPassword(''); setConfirmPassword(''); }} />
 
         {/* Logo 和标题 */}
         <div className="text-center mb-6">
@@ -507,7 +520,7 @@ export default function SetupWizard({ onComplete }: Props) {
             <label className="block text-sm font-medium text-theme-secondary mb-2">主密码</label>
             <PasswordInput
               value={password}
-              onChange={handlePasswordChange}
+              onChange={setPassword}
               placeholder="输入主密码（至少8位）"
               show={showPassword}
               onToggleShow={() => setShowPassword(!showPassword)}
@@ -516,7 +529,10 @@ export default function SetupWizard({ onComplete }: Props) {
               <div className="mt-3">
                 <div className="flex items-center justify-between text-xs mb-1">
                   <span className="text-theme-secondary">密码强度</span>
-                  <span className={`font-medium ${getStrengthTextColor()}`}>{getStrengthText()}</span>
+                  <span className={`font-medium ${getStrengthTextColor()}`}>
+                    {getStrengthText()}
+                    {strengthResult && <span className="text-theme-secondary font-normal"> · 离线破解约需 {strengthResult.crackTimeDisplay}</span>}
+                  </span>
                 </div>
                 <div className="h-1.5 bg-theme-sidebar rounded-full overflow-hidden">
                   <div className={`h-full ${getStrengthColor()} transition-all duration-300`} style={{ width: `${strength}%` }} />
@@ -569,6 +585,38 @@ export default function SetupWizard({ onComplete }: Props) {
             )}
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-theme-secondary mb-2">密钥文件（可选）</label>
+            <KeyFilePicker value={keyFilePath} onChange={setKeyFilePath} allowGenerate onError={setError} />
+            {keyFilePath && (
+              <p className="text-theme-secondary text-xs mt-2">
+                解锁时需要同时提供主密码和这个密钥文件。请把它保存在 U 盘等安全位置并做好备份，丢失后将无法解锁。
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-theme-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={withRecoveryKey}
+                onChange={(e) => setWithRecoveryKey(e.target.checked)}
+                className="accent-theme-primary"
+              />
+              生成恢复密钥（可选）
+            </label>
+            {withRecoveryKey && (
+              <div className="mt-3 p-3 bg-theme-bg/50 border border-theme rounded-xl space-y-2">
+                <RecoveryShareOptions
+                  shares={recoveryShares}
+                  threshold={recoveryThreshold}
+                  onChange={(count, required) => { setRecoveryShares(count); setRecoveryThreshold(required); }}
+                />
+                <p className="text-theme-secondary text-xs">忘记主密码时可以用恢复密钥设置新的主密码，创建后请保存并打印应急包。</p>
+              </div>
+            )}
+          </div>
+
           {error && <ErrorMessage message={error} />}
 
           <button
@@ -601,7 +649,7 @@ export default function SetupWizard({ onComplete }: Props) {
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
             </svg>
-            请牢记您的主密码，它无法被恢复
+            {withRecoveryKey ? '请牢记您的主密码并妥善保管应急包' : '请牢记您的主密码，它无法被恢复'}
           </p>
         </div>
       </div>
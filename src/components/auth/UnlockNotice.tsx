@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { getUnlockSummary, type UnlockSummary } from '../../utils/api';
+
+/**
+ * 解锁后提示上次解锁以来的失败尝试
+ */
+export default function UnlockNotice() {
+  const [summary, setSummary] = useState<UnlockSummary | null>(null);
+
+  useEffect(() => {
+    getUnlockSummary().then(setSummary).catch(console.error);
+  }, []);
+
+  if (!summary || summary.failedAttempts === 0) return null;
+
+  return (
+    <div className="fixed top-12 left-1/2 -translate-x-1/2 z-50 max-w-md w-[calc(100%-2rem)] bg-amber-500/95 text-white px-4 py-3 rounded-lg shadow-lg flex items-start gap-3 dropdown-enter">
+      <svg className="w-5 h-5 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+      </svg>
+      <div className="flex-1 text-sm">
+        <p className="font-medium">自上次解锁以来有 {summary.failedAttempts} 次失败的解锁尝试</p>
+        <p className="text-xs text-white/80 mt-0.5">
+          {summary.lastFailureAt && `最近一次：${new Date(summary.lastFailureAt).toLocaleString()}`}
+          {summary.previousUnlockAt && ` · 上次解锁：${new Date(summary.previousUnlockAt).toLocaleString()}`}
+        </p>
+        <p className="text-xs text-white/80 mt-0.5">如果不是您本人操作，请尽快修改主密码。可在设置中查看解锁记录。</p>
+      </div>
+      <button onClick={() => setSummary(null)} className="hover:opacity-80" title="关闭">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback } from 'react';
+import { listVaults, createVault, renameVault, removeVault, switchVault, onVaultSwitched } from '../../utils/api';
+import type { VaultList } from '../../types/electron';
+
+const DEFAULT_VAULT_ID = 'default';
+
+export default function VaultPicker() {
+  const [list, setList] = useState<VaultList | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const loadVaults = useCallback(async () => {
+    try {
+      setList(await listVaults());
+    } catch (err) {
+      console.error('加载密码库列表失败:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVaults();
+    // 托盘菜单切换密码库后同步显示
+    return onVaultSwitched(loadVaults);
+  }, [loadVaults]);
+
+  const closeMenu = () => {
+    setIsOpen(false);
+    setIsCreating(false);
+    setRenamingId(null);
+    setNewName('');
+    setError('');
+  };
+
+  // 切换后主进程会广播 vault-switched，由 App 重新检查密码库状态
+  const handleSwitch = async (id: string) => {
+    if (!list || id === list.currentId) {
+      closeMenu();
+      return;
+    }
+    setIsBusy(true);
+    setError('');
+    try {
+      await switchVault(id);
+      closeMenu();
+    } catch (err) {
+      setError((err as Error).message || '切换密码库失败');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError('');
+    try {
+      const vault = await createVault(newName);
+      await switchVault(vault.id);
+      closeMenu();
+    } catch (err) {
+      setError((err as Error).message || '创建密码库失败');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renamingId) return;
+    setIsBusy(true);
+    setError('');
+    try {
+      await renameVault(renamingId, renameValue);
+      await loadVaults();
+      setRenamingId(null);
+    } catch (err) {
+      setError((err as Error).message || '重命名失败');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemove = async (id: string, name: string) => {
+    if (!confirm(`确定要删除密码库「${name}」吗？其中的密码、备份和同步配置将被永久删除，此操作无法撤销。`)) return;
+    setIsBusy(true);
+    setError('');
+    try {
+      await removeVault(id);
+      await loadVaults();
+    } catch (err) {
+      setError((err as Error).message || '删除密码库失败');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!list) return null;
+
+  const current = list.vaults.find((v) => v.id === list.currentId);
+
+  return (
+    <div className="relative mb-6">
+      <button
+        type="button"
+        onClick={() => (isOpen ? closeMenu() : setIsOpen(true))}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 bg-theme-bg border border-theme rounded-xl text-sm text-theme hover:border-theme-primary transition-colors"
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          <svg className="w-4 h-4 text-theme-secondary flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+          </svg>
+          <span className="truncate">{current?.name}</span>
+        </span>
+        <svg className={`w-4 h-4 text-theme-secondary transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-1 z-20 bg-theme-card border border-theme rounded-xl shadow-2xl overflow-hidden animate-fade-in">
+          <div className="max-h-60 overflow-y-auto custom-scrollbar">
+            {list.vaults.map((vault) => (
+              <div key={vault.id} className="flex items-center gap-1 px-2 py-1 border-b border-theme">
+                {renamingId === vault.id ? (
+                  <form onSubmit={handleRename} className="flex-1 flex items-center gap-1">
+                    <input
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      className="flex-1 min-w-0 px-2 py-1 bg-theme-bg border border-theme rounded-md text-sm text-theme focus:border-theme-primary"
+                      autoFocus
+                    />
+                    <button type="submit" disabled={isBusy} className="px-2 py-1 text-xs rounded-md bg-theme-primary text-white disabled:opacity-50">
+                      保存
+                    </button>
+                    <button type="button" onClick={() => setRenamingId(null)} className="px-2 py-1 text-xs rounded-md text-theme-secondary hover:text-theme">
+                      取消
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleSwitch(vault.id)}
+                      disabled={isBusy}
+                      className="flex-1 min-w-0 flex items-center gap-2 px-1 py-1 text-left text-sm text-theme hover:text-theme-primary disabled:opacity-50"
+                    >
+                      <span className="w-4 flex-shrink-0 text-theme-primary">
+                        {vault.id === list.currentId && '✓'}
+                      </span>
+                      <span className="truncate">{vault.name}</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => { setRenamingId(vault.id); setRenameValue(vault.name); setError(''); }}
+                      className="p-1 rounded text-theme-secondary hover:text-theme transition-colors"
+                      title="重命名"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                      </svg>
+                    </button>
+                    {vault.id !== DEFAULT_VAULT_ID && vault.id !== list.currentId && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(vault.id, vault.name)}
+                        disabled={isBusy}
+                        className="p-1 rounded text-theme-secondary hover:text-red-400 transition-colors"
+                        title="删除密码库"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {isCreating ? (
+            <form onSubmit={handleCreate} className="flex items-center gap-1 p-2">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 bg-theme-bg border border-theme rounded-md text-sm text-theme placeholder:text-theme-secondary/60 focus:border-theme-primary"
+                placeholder="密码库名称"
+                autoFocus
+              />
+              <button type="submit" disabled={isBusy} className="px-2 py-1 text-xs rounded-md bg-theme-primary text-white disabled:opacity-50">
+                创建
+              </button>
+              <button type="button" onClick={() => { setIsCreating(false); setNewName(''); }} className="px-2 py-1 text-xs rounded-md text-theme-secondary hover:text-theme">
+                取消
+              </button>
+            </form>
+          ) : (
+            <button
+              type="button"
+              onClick={() => { setIsCreating(true); setError(''); }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-theme-primary hover:bg-theme-bg transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              新建密码库
+            </button>
+          )}
+
+          {error && <p className="text-red-400 text-xs px-3 pb-2">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
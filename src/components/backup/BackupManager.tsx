@@ -8,6 +8,7 @@ import {
   showOpenDialog,
   type BackupPreview
 } from '../../utils/api';
+import { useVaultStore } from '../../stores/vaultStore';
 import type { BackupInfo } from '../../types/electron';
 
 interface Props {
@@ -179,6 +180,7 @@ function RestoreDialog({
 }
 
 export default function BackupManager({ isOpen, onClose }: Props) {
+  const { lock } = useVaultStore();
   const [backups, setBackups] = useState<BackupInfo[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
@@ -295,7 +297,11 @@ export default function BackupManager({ isOpen, onClose }: Props) {
       if (mode === 'merge') {
         setSuccess(`增量恢复完成：新增 ${result.added} 条，跳过 ${result.skipped} 条重复`);
       } else {
-        setSuccess('备份恢复成功，请重新登录');
+        // 覆盖恢复后主进程已锁定密码库，需要用备份的主密码重新登录
+        alert('备份恢复成功，请使用备份时的主密码重新登录');
+        onClose();
+        lock();
+        return;
       }
       
       setRestoreDialog({ show: false, filePath: '', preview: null });
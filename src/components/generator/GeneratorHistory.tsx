@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import {
+  listGeneratorHistory,
+  deleteGeneratorHistory,
+  clearGeneratorHistory,
+  getGeneratorHistoryConfig,
+  copyToClipboard,
+} from '../../utils/api';
+import type { GeneratedPassword, GeneratorHistoryConfig } from '../../types/electron';
+
+interface Props {
+  onClose: () => void;
+  onSaveAsEntry: (item: GeneratedPassword) => void;
+}
+
+/**
+ * 密码生成历史：查看、复制、保存为条目和删除
+ */
+export default function GeneratorHistory({ onClose, onSaveAsEntry }: Props) {
+  const [items, setItems] = useState<GeneratedPassword[]>([]);
+  const [config, setConfig] = useState<GeneratorHistoryConfig | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    try {
+      setItems(await listGeneratorHistory());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    getGeneratorHistoryConfig().then(setConfig).catch(console.error);
+  }, []);
+
+  const toggleReveal = (id: string) => {
+    const next = new Set(revealed);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setRevealed(next);
+  };
+
+  const handleCopy = async (item: GeneratedPassword) => {
+    await copyToClipboard(item.password, 30);
+    setCopiedId(item.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteGeneratorHistory(id);
+      setItems(prev => prev.filter(item => item.id !== id));
+    } catch (err) {
+      setError((err as Error).message || '删除失败');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('确定要清空全部生成历史吗？')) return;
+    try {
+      await clearGeneratorHistory();
+      setItems([]);
+    } catch (err) {
+      setError((err as Error).message || '清空失败');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-theme">生成历史</h3>
+        <div className="flex gap-3">
+          {items.length > 0 && (
+            <button onClick={handleClear} className="text-xs text-red-400 hover:underline">
+              清空
+            </button>
+          )}
+          <button onClick={onClose} className="text-xs text-theme-secondary hover:text-theme transition-colors">
+            返回
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {!isLoading && items.length === 0 && (
+          <p className="text-sm text-theme-secondary text-center py-6">复制或使用过的密码会保存在这里</p>
+        )}
+        {items.map((item) => (
+          <div key={item.id} className="p-3 bg-theme-bg rounded-lg border border-theme">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => toggleReveal(item.id)}
+                className="flex-1 min-w-0 text-left font-mono text-sm text-theme truncate"
+                title={revealed.has(item.id) ? '隐藏' : '显示'}
+              >
+                {revealed.has(item.id) ? item.password : '••••••••••••'}
+              </button>
+              <button
+                onClick={() => handleCopy(item)}
+                className={`px-2 py-1 text-xs rounded transition-colors flex-shrink-0 ${
+                  copiedId === item.id ? 'text-green-400 bg-green-500/10' : 'text-theme-secondary hover:text-theme hover:bg-hover'
+                }`}
+              >
+                {copiedId === item.id ? '已复制' : '复制'}
+              </button>
+              <button
+                onClick={() => onSaveAsEntry(item)}
+                className="px-2 py-1 text-xs text-theme-secondary hover:text-theme hover:bg-hover rounded transition-colors flex-shrink-0"
+              >
+                保存
+              </button>
+              <button
+                onClick={() => handleDelete(item.id)}
+                className="px-2 py-1 text-xs text-red-400 hover:bg-red-500/10 rounded transition-colors flex-shrink-0"
+              >
+                删除
+              </button>
+            </div>
+            <p className="text-xs text-theme-secondary mt-1 truncate">
+              {new Date(item.createdAt).toLocaleString()}
+              {item.context && ` · ${item.context}`}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      {config && config.maxAgeDays > 0 && (
+        <p className="text-xs text-theme-secondary">
+          记录加密保存在密码库中，{config.maxAgeDays} 天后自动删除，可在设置中修改
+        </p>
+      )}
+    </div>
+  );
+}
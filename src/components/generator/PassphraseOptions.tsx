@@ -0,0 +1,152 @@
+import type { PassphraseConfig, PassphraseCapitalization, PassphraseWordlist } from '../../types/electron';
+import { MIN_PASSPHRASE_WORDS, MAX_PASSPHRASE_WORDS, getPassphraseEntropy } from '../../utils/passphrase';
+
+interface Props {
+  config: PassphraseConfig;
+  onChange: (config: PassphraseConfig) => void;
+  compact?: boolean;  // 内嵌模式使用更紧凑的布局
+}
+
+const WORDLISTS: { value: PassphraseWordlist; label: string }[] = [
+  { value: 'eff-large', label: 'EFF 长词表' },
+  { value: 'eff-short', label: 'EFF 短词表' },
+  { value: 'pinyin', label: '拼音词表' },
+];
+
+const CAPITALIZATIONS: { value: PassphraseCapitalization; label: string }[] = [
+  { value: 'lower', label: '全小写' },
+  { value: 'capitalize', label: '首字母大写' },
+  { value: 'random', label: '随机大写' },
+  { value: 'upper', label: '全大写' },
+];
+
+const SEPARATORS: { value: string; label: string }[] = [
+  { value: '.', label: '.' },
+  { value: '_', label: '_' },
+  { value: ' ', label: '空格' },
+  { value: '', label: '无' },
+];
+
+/**
+ * 密码短语选项：词表、单词数、分隔符、大小写、插入数字和符号
+ */
+export default function PassphraseOptions({ config, onChange, compact = false }: Props) {
+  const entropy = getPassphraseEntropy(config);
+  const update = <K extends keyof PassphraseConfig>(key: K, value: PassphraseConfig[K]) => {
+    onChange({ ...config, [key]: value });
+  };
+
+  const labelClass = compact ? 'text-xs text-theme-secondary' : 'text-sm text-theme-secondary';
+  const selectClass = `w-full bg-theme-bg border border-theme rounded-lg text-theme focus:outline-none focus:ring-2 focus:ring-theme-primary ${
+    compact ? 'px-2 py-1 text-xs' : 'px-3 py-2 text-sm'
+  }`;
+
+  return (
+    <div className={compact ? 'space-y-3' : 'space-y-4'}>
+      {/* 单词数 */}
+      <div>
+        <div className={`flex justify-between ${compact ? 'mb-1' : 'mb-2'}`}>
+          <label className={labelClass}>单词数</label>
+          <span className={`font-mono text-theme bg-theme-bg rounded ${compact ? 'text-xs px-1.5 py-0.5' : 'text-sm px-2 py-0.5'}`}>
+            {config.wordCount}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={MIN_PASSPHRASE_WORDS}
+          max={MAX_PASSPHRASE_WORDS}
+          value={config.wordCount}
+          onChange={(e) => update('wordCount', parseInt(e.target.value))}
+          className={`w-full bg-theme-border rounded-lg appearance-none cursor-pointer accent-theme-primary ${compact ? 'h-1.5' : 'h-2'}`}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={`${labelClass} block mb-1`}>词表</label>
+          <select
+            value={config.wordlist}
+            onChange={(e) => update('wordlist', e.target.value as PassphraseWordlist)}
+            className={selectClass}
+          >
+            {WORDLISTS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={`${labelClass} block mb-1`}>大小写</label>
+          <select
+            value={config.capitalization}
+            onChange={(e) => update('capitalization', e.target.value as PassphraseCapitalization)}
+            className={selectClass}
+          >
+            {CAPITALIZATIONS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* 分隔符 */}
+      <div>
+        <label className={`${labelClass} block mb-1`}>分隔符</label>
+        <div className="flex gap-1.5">
+          {SEPARATORS.map(({ value, label }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => update('separator', value)}
+              className={`flex-1 rounded-lg border font-mono transition-colors ${compact ? 'py-1 text-xs' : 'py-1.5 text-sm'} ${
+                config.separator === value
+                  ? 'border-theme-primary text-theme-primary bg-theme-primary/10'
+                  : 'border-theme text-theme-secondary hover:bg-hover'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* 插入数字和符号 */}
+      <div className="grid grid-cols-2 gap-2">
+        {([
+          { key: 'includeNumber', label: '插入数字', desc: '0-9' },
+          { key: 'includeSymbol', label: '插入符号', desc: '!@#$' },
+        ] as const).map(({ key, label, desc }) => (
+          <label
+            key={key}
+            className={`flex items-center gap-2 rounded-lg cursor-pointer transition-colors ${compact ? 'p-2 text-xs' : 'p-3 text-sm'} ${
+              config[key]
+                ? 'bg-theme-primary/10 border border-theme-primary/30'
+                : 'bg-theme-bg border border-transparent hover:border-theme'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={config[key]}
+              onChange={(e) => update(key, e.target.checked)}
+              className="sr-only"
+            />
+            <div className={`rounded border flex items-center justify-center transition-colors ${compact ? 'w-3 h-3' : 'w-4 h-4 border-2'} ${
+              config[key] ? 'bg-theme-primary border-theme-primary' : 'border-theme-secondary'
+            }`}>
+              {config[key] && (
+                <svg className={`text-white ${compact ? 'w-2 h-2' : 'w-3 h-3'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                </svg>
+              )}
+            </div>
+            <span className="text-theme">{label}</span>
+            <span className="text-theme-secondary ml-auto">{desc}</span>
+          </label>
+        ))}
+      </div>
+
+      <p className="text-xs text-theme-secondary">
+        熵约 <span className="font-mono text-theme">{entropy.toFixed(1)}</span> 位（假设攻击者知道所用词表和规则）
+      </p>
+    </div>
+  );
+}
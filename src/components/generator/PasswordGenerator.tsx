@@ -1,7 +1,13 @@
-import { useState, useEffect, useCallback } from 'react';
-import { generatePassword, calculateStrength, createEntry } from '../../utils/api';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { generatePassword, createEntry, addGeneratorHistory } from '../../utils/api';
+import { estimateStrength } from '../../utils/passwordStrength';
+import { DEFAULT_PASSPHRASE_CONFIG } from '../../utils/passphrase';
+import { clampPolicyLength, describePolicyRules } from '../../utils/passwordPolicy';
+import PassphraseOptions from './PassphraseOptions';
+import PolicyManager from './PolicyManager';
+import GeneratorHistory from './GeneratorHistory';
 import { useVaultStore } from '../../stores/vaultStore';
-import type { PasswordConfig, PasswordEntry } from '../../types/electron';
+import type { GeneratedPassword, PasswordConfig, PasswordEntry } from '../../types/electron';
 
 interface Props {
   onClose?: () => void;
@@ -9,19 +15,19 @@ interface Props {
   embedded?: boolean;
 }
 
+// 按强度得分 0-4 排列
 const STRENGTH_LEVELS = [
-  { min: 0, max: 20, label: '非常弱', color: 'bg-red-500', textColor: 'text-red-400' },
-  { min: 20, max: 40, label: '弱', color: 'bg-orange-500', textColor: 'text-orange-400' },
-  { min: 40, max: 60, label: '中等', color: 'bg-yellow-500', textColor: 'text-yellow-400' },
-  { min: 60, max: 80, label: '强', color: 'bg-green-500', textColor: 'text-green-400' },
-  { min: 80, max: 101, label: '非常强', color: 'bg-emerald-500', textColor: 'text-emerald-400' },
+  { label: '非常弱', color: 'bg-red-500', textColor: 'text-red-400' },
+  { label: '弱', color: 'bg-orange-500', textColor: 'text-orange-400' },
+  { label: '中等', color: 'bg-yellow-500', textColor: 'text-yellow-400' },
+  { label: '强', color: 'bg-green-500', textColor: 'text-green-400' },
+  { label: '非常强', color: 'bg-emerald-500', textColor: 'text-emerald-400' },
 ];
 
 export default function PasswordGenerator({ onClose, onPasswordSelect, embedded = false }: Props) {
-  const { addEntry, categories } = useVaultStore();
+  const { addEntry, categories, policies } = useVaultStore();
   
   const [password, setPassword] = useState('');
-  const [strength, setStrength] = useState(0);
   const [copied, setCopied] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   
@@ -32,8 +38,14 @@ export default function PasswordGenerator({ onClose, onPasswordSelect, embedded
     numbers: true,
     special: true,
     excludeAmbiguous: true,
+    mode: 'random',
+    passphrase: DEFAULT_PASSPHRASE_CONFIG,
   });
   
+  const [policyId, setPolicyId] = useState('');
+  const [showPolicyManager, setShowPolicyManager] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
   const [showSaveForm, setShowSaveForm] = useState(false);
   const [saveTitle, setSaveTitle] = useState('');
   const [saveUsername, setSaveUsername] = useState('');
@@ -55,13 +67,18 @@ export default function PasswordGenerator({ onClose, onPasswordSelect, embedded
     }
   }, [embedded, handleKeyDown]);
 
+  // 网站规则只用于随机字符模式
+  const policy = config.mode !== 'passphrase' ? policies.find(p => p.id === policyId) : undefined;
+  const lengthRange = policy ? { min: policy.rules.minLength, max: policy.rules.maxLength } : { min: 8, max: 64 };
+  const length = policy ? clampPolicyLength(policy.rules, config.length) : config.length;
+
   const handleGenerate = useCallback(async () => {
-    if (!config.uppercase && !config.lowercase && !config.numbers && !config.special) {
+    if (config.mode !== 'passphrase' && !policy && !config.uppercase && !config.lowercase && !config.numbers && !config.special) {
       return;
     }
     setIsGenerating(true);
     try {
-      const newPassword = await generatePassword(config);
+      const newPassword = await generatePassword(policy ? { ...config, length, policy: policy.rules } : config);
       setPassword(newPassword);
       setCopied(false);
     } catch (err) {
@@ -69,30 +86,24 @@ export default function PasswordGenerator({ onClose, onPasswordSelect, embedded
     } finally {
       setIsGenerating(false);
     }
-  }, [config]);
+  }, [config, policy, length]);
 
-  useEffect(() => {
-    if (password) {
-      calculateStrength(password).then((result) => {
-        if (typeof result === 'object' && result !== null && 'score' in result) {
-          setStrength((result as { score: number }).score);
-        } else {
-          setStrength(result as number);
-        }
-      }).catch(() => setStrength(0));
-    } else {
-      setStrength(0);
-    }
-  }, [password]);
+  const strength = useMemo(() => (password ? estimateStrength(password) : null), [password]);
 
   useEffect(() => {
     handleGenerate();
   }, []);
 
+  // 复制或使用过的密码记入生成历史
+  const recordHistory = () => {
+    addGeneratorHistory(password, policy?.name).catch(console.error);
+  };
+
   const handleCopy = async () => {
     if (!password) return;
     try {
       await navigator.clipboard.writeText(password);
+      recordHistory();
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
@@ -102,10 +113,19 @@ export default function PasswordGenerator({ onClose, onPasswordSelect, embedded
 
   const handleUse = () => {
     if (onPasswordSelect && password) {
+      recordHistory();
       onPasswordSelect(password);
     }
   };
 
+  const handleSaveFromHistory = (item: GeneratedPassword) => {
+    setPassword(item.password);
+    setSaveTitle(item.context ?? '');
+    setSaveError('');
+    setShowHistory(false);
+    setShowSaveForm(true);
+  };
+
   const handleSave = async () => {
     if (!saveTitle.trim()) {
       setSaveError('请输入标题');
@@ -146,11 +166,7 @@ export default function PasswordGenerator({ onClose, onPasswordSelect, embedded
     }
   };
 
-  const getStrengthLevel = () => {
-    return STRENGTH_LEVELS.find(l => strength >= l.min && strength < l.max) || STRENGTH_LEVELS[0];
-  };
-
-  const strengthLevel = getStrengthLevel();
+  const strengthLevel = STRENGTH_LEVELS[strength?.score ?? 0];
 
   const updateConfig = (key: keyof PasswordConfig, value: boolean | number) => {
     setConfig(prev => ({ ...prev, [key]: value }));
@@ -160,7 +176,69 @@ export default function PasswordGenerator({ onClose, onPasswordSelect, embedded
     if (password) {
       handleGenerate();
     }
-  }, [config.length, config.uppercase, config.lowercase, config.numbers, config.special, config.excludeAmbiguous]);
+  }, [config.length, config.uppercase, config.lowercase, config.numbers, config.special, config.excludeAmbiguous, config.mode, config.passphrase, policy]);
+
+  // 网站规则选择，选中后按规则生成
+  const renderPolicySelect = (compact: boolean) => (
+    <div>
+      <div className={`flex items-center justify-between ${compact ? 'mb-1' : 'mb-2'}`}>
+        <label className={compact ? 'text-xs text-theme-secondary' : 'text-sm text-theme-secondary'}>网站规则</label>
+        {!compact && (
+          <button
+            type="button"
+            onClick={() => setShowPolicyManager(true)}
+            className="text-xs text-theme-primary hover:underline"
+          >
+            管理规则
+          </button>
+        )}
+      </div>
+      <select
+        value={policy ? policyId : ''}
+        onChange={(e) => setPolicyId(e.target.value)}
+        className={`w-full bg-theme-bg border border-theme rounded-lg text-theme focus:outline-none focus:ring-2 focus:ring-theme-primary ${
+          compact ? 'px-2 py-1 text-xs' : 'px-3 py-2 text-sm'
+        }`}
+      >
+        <option value="">不使用规则</option>
+        {policies.map((p) => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+      {policy && (
+        <p className="text-xs text-theme-secondary mt-1">{describePolicyRules(policy.rules)}</p>
+      )}
+    </div>
+  );
+
+  // 随机字符 / 密码短语切换
+  const renderModeTabs = (compact: boolean) => (
+    <div className={`flex bg-theme-bg rounded-lg p-0.5 ${compact ? 'text-xs' : 'text-sm'}`}>
+      {([
+        { mode: 'random', label: '随机字符' },
+        { mode: 'passphrase', label: '密码短语' },
+      ] as const).map(({ mode, label }) => (
+        <button
+          key={mode}
+          type="button"
+          onClick={() => setConfig(prev => ({ ...prev, mode }))}
+          className={`flex-1 rounded-md transition-colors ${compact ? 'py-1' : 'py-1.5'} ${
+            (config.mode ?? 'random') === mode ? 'bg-theme-card text-theme shadow-sm' : 'text-theme-secondary hover:text-theme'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderPassphraseOptions = (compact: boolean) => (
+    <PassphraseOptions
+      config={config.passphrase ?? DEFAULT_PASSPHRASE_CONFIG}
+      onChange={(passphrase) => setConfig(prev => ({ ...prev, passphrase }))}
+      compact={compact}
+    />
+  );
 
   // 内嵌模式的内容
   const renderContent = () => (
@@ -216,72 +294,82 @@ export default function PasswordGenerator({ onClose, onPasswordSelect, embedded
               <div
                 key={i}
                 className={`h-1 flex-1 rounded-full transition-all duration-300 ${
-                  strength >= (i + 1) * 20 ? strengthLevel.color : 'bg-theme-border'
+                  strength && i <= strength.score ? strengthLevel.color : 'bg-theme-border'
                 }`}
               />
             ))}
           </div>
           <div className="flex justify-between text-xs">
             <span className={strengthLevel.textColor}>{strengthLevel.label}</span>
-            <span className="text-theme-secondary">{strength}%</span>
+            <span className="text-theme-secondary">{strength ? `破解约需 ${strength.crackTimeDisplay}` : ''}</span>
           </div>
         </div>
       </div>
 
-      {/* 长度滑块 */}
-      <div>
-        <div className="flex justify-between mb-1">
-          <label className="text-xs text-theme-secondary">长度</label>
-          <span className="text-xs font-mono text-theme bg-theme-bg px-1.5 py-0.5 rounded">{config.length}</span>
-        </div>
-        <input
-          type="range"
-          min="8"
-          max="64"
-          value={config.length}
-          onChange={(e) => updateConfig('length', parseInt(e.target.value))}
-          className="w-full h-1.5 bg-theme-border rounded-lg appearance-none cursor-pointer accent-theme-primary"
-        />
-      </div>
+      {renderModeTabs(true)}
 
-      {/* 字符类型选项 */}
-      <div className="grid grid-cols-2 gap-1.5">
-        {[
-          { key: 'uppercase', label: '大写', desc: 'A-Z' },
-          { key: 'lowercase', label: '小写', desc: 'a-z' },
-          { key: 'numbers', label: '数字', desc: '0-9' },
-          { key: 'special', label: '符号', desc: '!@#$' },
-        ].map(({ key, label, desc }) => (
-          <label
-            key={key}
-            className={`flex items-center gap-2 p-2 rounded cursor-pointer transition-colors text-xs ${
-              config[key as keyof PasswordConfig] 
-                ? 'bg-theme-primary/10 border border-theme-primary/30' 
-                : 'bg-theme-bg border border-transparent hover:border-theme'
-            }`}
-          >
+      {config.mode === 'passphrase' ? renderPassphraseOptions(true) : (
+        <>
+          {renderPolicySelect(true)}
+
+          {/* 长度滑块 */}
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs text-theme-secondary">长度</label>
+              <span className="text-xs font-mono text-theme bg-theme-bg px-1.5 py-0.5 rounded">{length}</span>
+            </div>
             <input
-              type="checkbox"
-              checked={config[key as keyof PasswordConfig] as boolean}
-              onChange={(e) => updateConfig(key as keyof PasswordConfig, e.target.checked)}
-              className="sr-only"
+              type="range"
+              min={lengthRange.min}
+              max={lengthRange.max}
+              value={length}
+              onChange={(e) => updateConfig('length', parseInt(e.target.value))}
+              className="w-full h-1.5 bg-theme-border rounded-lg appearance-none cursor-pointer accent-theme-primary"
             />
-            <div className={`w-3 h-3 rounded border flex items-center justify-center transition-colors ${
-              config[key as keyof PasswordConfig] 
-                ? 'bg-theme-primary border-theme-primary' 
-                : 'border-theme-secondary'
-            }`}>
-              {config[key as keyof PasswordConfig] && (
-                <svg className="w-2 h-2 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                </svg>
-              )}
+          </div>
+
+          {/* 字符类型选项，使用网站规则时由规则决定 */}
+          {!policy && (
+            <div className="grid grid-cols-2 gap-1.5">
+              {[
+                { key: 'uppercase', label: '大写', desc: 'A-Z' },
+                { key: 'lowercase', label: '小写', desc: 'a-z' },
+                { key: 'numbers', label: '数字', desc: '0-9' },
+                { key: 'special', label: '符号', desc: '!@#$' },
+              ].map(({ key, label, desc }) => (
+                <label
+                  key={key}
+                  className={`flex items-center gap-2 p-2 rounded cursor-pointer transition-colors text-xs ${
+                    config[key as keyof PasswordConfig] 
+                      ? 'bg-theme-primary/10 border border-theme-primary/30' 
+                      : 'bg-theme-bg border border-transparent hover:border-theme'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={config[key as keyof PasswordConfig] as boolean}
+                    onChange={(e) => updateConfig(key as keyof PasswordConfig, e.target.checked)}
+                    className="sr-only"
+                  />
+                  <div className={`w-3 h-3 rounded border flex items-center justify-center transition-colors ${
+                    config[key as keyof PasswordConfig] 
+                      ? 'bg-theme-primary border-theme-primary' 
+                      : 'border-theme-secondary'
+                  }`}>
+                    {config[key as keyof PasswordConfig] && (
+                      <svg className="w-2 h-2 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                      </svg>
+                    )}
+                  </div>
+                  <span className="text-theme">{label}</span>
+                  <span className="text-theme-secondary ml-auto">{desc}</span>
+                </label>
+              ))}
             </div>
-            <span className="text-theme">{label}</span>
-            <span className="text-theme-secondary ml-auto">{desc}</span>
-          </label>
-        ))}
-      </div>
+          )}
+        </>
+      )}
 
       {/* 使用按钮 */}
       {onPasswordSelect && (
@@ -382,108 +470,134 @@ export default function PasswordGenerator({ onClose, onPasswordSelect, embedded
                   <div
                     key={i}
                     className={`h-1.5 flex-1 rounded-full transition-all duration-300 ${
-                      strength >= (i + 1) * 20 ? strengthLevel.color : 'bg-theme-border'
+                      strength && i <= strength.score ? strengthLevel.color : 'bg-theme-border'
                     }`}
                   />
                 ))}
               </div>
               <div className="flex justify-between text-xs">
                 <span className={strengthLevel.textColor}>{strengthLevel.label}</span>
-                <span className="text-theme-secondary">{strength}%</span>
+                <span className="text-theme-secondary">{strength ? `破解约需 ${strength.crackTimeDisplay}` : ''}</span>
               </div>
             </div>
           </div>
 
-          {/* 长度滑块 */}
-          <div>
-            <div className="flex justify-between mb-2">
-              <label className="text-sm text-theme-secondary">密码长度</label>
-              <span className="text-sm font-mono text-theme bg-theme-bg px-2 py-0.5 rounded">{config.length}</span>
-            </div>
-            <input
-              type="range"
-              min="8"
-              max="64"
-              value={config.length}
-              onChange={(e) => updateConfig('length', parseInt(e.target.value))}
-              className="w-full h-2 bg-theme-border rounded-lg appearance-none cursor-pointer accent-theme-primary"
-            />
-            <div className="flex justify-between text-xs text-theme-secondary mt-1">
-              <span>8</span>
-              <span>64</span>
-            </div>
-          </div>
+          {showHistory ? (
+            <GeneratorHistory onClose={() => setShowHistory(false)} onSaveAsEntry={handleSaveFromHistory} />
+          ) : showPolicyManager ? (
+            <PolicyManager onClose={() => setShowPolicyManager(false)} />
+          ) : (
+            <>
+              {renderModeTabs(false)}
 
-          {/* 字符类型选项 */}
-          <div className="grid grid-cols-2 gap-2">
-            {[
-              { key: 'uppercase', label: '大写字母', desc: 'A-Z' },
-              { key: 'lowercase', label: '小写字母', desc: 'a-z' },
-              { key: 'numbers', label: '数字', desc: '0-9' },
-              { key: 'special', label: '特殊字符', desc: '!@#$' },
-            ].map(({ key, label, desc }) => (
-              <label
-                key={key}
-                className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors ${
-                  config[key as keyof PasswordConfig] 
-                    ? 'bg-theme-primary/10 border border-theme-primary/30' 
-                    : 'bg-theme-bg border border-transparent hover:border-theme'
-                }`}
-              >
-                <input
-                  type="checkbox"
-                  checked={config[key as keyof PasswordConfig] as boolean}
-                  onChange={(e) => updateConfig(key as keyof PasswordConfig, e.target.checked)}
-                  className="sr-only"
-                />
-                <div className={`w-4 h-4 rounded border-2 flex items-center justify-center transition-colors ${
-                  config[key as keyof PasswordConfig] 
-                    ? 'bg-theme-primary border-theme-primary' 
-                    : 'border-theme-secondary'
-                }`}>
-                  {config[key as keyof PasswordConfig] && (
-                    <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                    </svg>
+              {config.mode === 'passphrase' ? renderPassphraseOptions(false) : (
+                <>
+                  {renderPolicySelect(false)}
+
+                  {/* 长度滑块 */}
+                  <div>
+                    <div className="flex justify-between mb-2">
+                      <label className="text-sm text-theme-secondary">密码长度</label>
+                      <span className="text-sm font-mono text-theme bg-theme-bg px-2 py-0.5 rounded">{length}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={lengthRange.min}
+                      max={lengthRange.max}
+                      value={length}
+                      onChange={(e) => updateConfig('length', parseInt(e.target.value))}
+                      className="w-full h-2 bg-theme-border rounded-lg appearance-none cursor-pointer accent-theme-primary"
+                    />
+                    <div className="flex justify-between text-xs text-theme-secondary mt-1">
+                      <span>{lengthRange.min}</span>
+                      <span>{lengthRange.max}</span>
+                    </div>
+                  </div>
+
+                  {/* 字符类型选项，使用网站规则时由规则决定 */}
+                  {!policy && (
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { key: 'uppercase', label: '大写字母', desc: 'A-Z' },
+                        { key: 'lowercase', label: '小写字母', desc: 'a-z' },
+                        { key: 'numbers', label: '数字', desc: '0-9' },
+                        { key: 'special', label: '特殊字符', desc: '!@#$' },
+                      ].map(({ key, label, desc }) => (
+                        <label
+                          key={key}
+                          className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors ${
+                            config[key as keyof PasswordConfig] 
+                              ? 'bg-theme-primary/10 border border-theme-primary/30' 
+                              : 'bg-theme-bg border border-transparent hover:border-theme'
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={config[key as keyof PasswordConfig] as boolean}
+                            onChange={(e) => updateConfig(key as keyof PasswordConfig, e.target.checked)}
+                            className="sr-only"
+                          />
+                          <div className={`w-4 h-4 rounded border-2 flex items-center justify-center transition-colors ${
+                            config[key as keyof PasswordConfig] 
+                              ? 'bg-theme-primary border-theme-primary' 
+                              : 'border-theme-secondary'
+                          }`}>
+                            {config[key as keyof PasswordConfig] && (
+                              <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                              </svg>
+                            )}
+                          </div>
+                          <div>
+                            <span className="text-sm text-theme block">{label}</span>
+                            <span className="text-xs text-theme-secondary">{desc}</span>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
                   )}
-                </div>
-                <div>
-                  <span className="text-sm text-theme block">{label}</span>
-                  <span className="text-xs text-theme-secondary">{desc}</span>
-                </div>
-              </label>
-            ))}
-          </div>
 
-          {/* 排除易混淆字符 */}
-          <label className="flex items-center gap-3 p-3 bg-theme-bg rounded-lg cursor-pointer">
-            <input
-              type="checkbox"
-              checked={config.excludeAmbiguous}
-              onChange={(e) => updateConfig('excludeAmbiguous', e.target.checked)}
-              className="sr-only"
-            />
-            <div className={`w-4 h-4 rounded border-2 flex items-center justify-center transition-colors ${
-              config.excludeAmbiguous 
-                ? 'bg-theme-primary border-theme-primary' 
-                : 'border-theme-secondary'
-            }`}>
-              {config.excludeAmbiguous && (
-                <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                </svg>
+                  {/* 排除易混淆字符 */}
+                  <label className="flex items-center gap-3 p-3 bg-theme-bg rounded-lg cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={config.excludeAmbiguous}
+                      onChange={(e) => updateConfig('excludeAmbiguous', e.target.checked)}
+                      className="sr-only"
+                    />
+                    <div className={`w-4 h-4 rounded border-2 flex items-center justify-center transition-colors ${
+                      config.excludeAmbiguous 
+                        ? 'bg-theme-primary border-theme-primary' 
+                        : 'border-theme-secondary'
+                    }`}>
+                      {config.excludeAmbiguous && (
+                        <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                        </svg>
+                      )}
+                    </div>
+                    <div>
+                      <span className="text-sm text-theme">排除易混淆字符</span>
+                      <span className="text-xs text-theme-secondary ml-2">0O1lI</span>
+                    </div>
+                  </label>
+                </>
               )}
-            </div>
-            <div>
-              <span className="text-sm text-theme">排除易混淆字符</span>
-              <span className="text-xs text-theme-secondary ml-2">0O1lI</span>
-            </div>
-          </label>
+            </>
+          )}
         </div>
 
         {/* 底部操作 */}
         <div className="px-5 py-4 border-t border-theme flex items-center justify-between">
-          <span className="text-xs text-theme-secondary">按 Esc 关闭</span>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-theme-secondary">按 Esc 关闭</span>
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-xs text-theme-primary hover:underline"
+            >
+              生成历史
+            </button>
+          </div>
           <div className="flex gap-2">
             {onPasswordSelect && (
               <button
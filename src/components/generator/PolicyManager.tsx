@@ -0,0 +1,272 @@
+import { useMemo, useState } from 'react';
+import { createPolicy, updatePolicy, deletePolicy } from '../../utils/api';
+import {
+  DEFAULT_POLICY_RULES,
+  MAX_POLICY_LENGTH,
+  POLICY_CHAR_CLASSES,
+  POLICY_CLASS_LABELS,
+  POLICY_FIRST_CHAR_LABELS,
+  describePolicyRules,
+  getPolicyProblems,
+} from '../../utils/passwordPolicy';
+import { useVaultStore } from '../../stores/vaultStore';
+import type { PasswordPolicy, PasswordPolicyRules, PolicyClassRule, PolicyFirstChar } from '../../types/electron';
+
+interface Props {
+  onClose: () => void;
+}
+
+interface Draft {
+  id?: string;
+  name: string;
+  rules: PasswordPolicyRules;
+  domains: string;  // 每行一个域名
+}
+
+const CLASS_RULE_LABELS: Record<PolicyClassRule, string> = {
+  required: '必须包含',
+  allowed: '可以包含',
+  forbidden: '不允许',
+};
+
+const inputClass = 'w-full px-3 py-2 bg-theme-bg border border-theme rounded-lg text-theme text-sm focus:outline-none focus:ring-2 focus:ring-theme-primary disabled:opacity-50';
+
+/**
+ * 网站密码规则管理：查看、新建、修改和删除规则
+ */
+export default function PolicyManager({ onClose }: Props) {
+  const { policies, refreshPolicies } = useVaultStore();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const problems = useMemo(() => (draft ? getPolicyProblems(draft.rules) : []), [draft]);
+
+  const startEdit = (policy?: PasswordPolicy) => {
+    setError('');
+    setDraft(policy
+      ? { id: policy.id, name: policy.name, rules: policy.rules, domains: policy.domains.join('\n') }
+      : { name: '', rules: DEFAULT_POLICY_RULES, domains: '' });
+  };
+
+  const updateRules = (changes: Partial<PasswordPolicyRules>) => {
+    setDraft(prev => prev && { ...prev, rules: { ...prev.rules, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      const policy = {
+        name: draft.name,
+        rules: draft.rules,
+        domains: draft.domains.split(/[\s,，]+/).filter(Boolean),
+      };
+      if (draft.id) {
+        await updatePolicy({ id: draft.id, ...policy });
+      } else {
+        await createPolicy(policy);
+      }
+      await refreshPolicies();
+      setDraft(null);
+    } catch (err) {
+      setError((err as Error).message || '保存失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (policy: PasswordPolicy) => {
+    if (!confirm(`确定要删除规则「${policy.name}」吗？使用该规则的条目将改为按网址匹配。`)) return;
+    try {
+      await deletePolicy(policy.id);
+      await refreshPolicies();
+    } catch (err) {
+      setError((err as Error).message || '删除失败');
+    }
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className="text-sm text-theme-secondary block mb-1">规则名称</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="如：某某银行"
+            className={inputClass}
+            autoFocus
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="text-sm text-theme-secondary block mb-1">最短</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_POLICY_LENGTH}
+              value={draft.rules.minLength}
+              onChange={(e) => updateRules({ minLength: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-theme-secondary block mb-1">最长</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_POLICY_LENGTH}
+              value={draft.rules.maxLength}
+              onChange={(e) => updateRules({ maxLength: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-theme-secondary block mb-1" title="同一字符最多连续出现的次数，0 为不限制">连续重复</label>
+            <input
+              type="number"
+              min={0}
+              max={MAX_POLICY_LENGTH}
+              value={draft.rules.maxConsecutive}
+              onChange={(e) => updateRules({ maxConsecutive: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {POLICY_CHAR_CLASSES.map((cls) => (
+            <div key={cls}>
+              <label className="text-sm text-theme-secondary block mb-1">{POLICY_CLASS_LABELS[cls]}</label>
+              <select
+                value={draft.rules.classes[cls]}
+                onChange={(e) => updateRules({ classes: { ...draft.rules.classes, [cls]: e.target.value as PolicyClassRule } })}
+                className={inputClass}
+              >
+                {(Object.keys(CLASS_RULE_LABELS) as PolicyClassRule[]).map((rule) => (
+                  <option key={rule} value={rule}>{CLASS_RULE_LABELS[rule]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-sm text-theme-secondary block mb-1">允许的符号</label>
+            <input
+              type="text"
+              value={draft.rules.symbols}
+              onChange={(e) => updateRules({ symbols: [...new Set(e.target.value.replace(/\s/g, ''))].join('') })}
+              disabled={draft.rules.classes.symbols === 'forbidden'}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-theme-secondary block mb-1">首字符</label>
+            <select
+              value={draft.rules.firstChar}
+              onChange={(e) => updateRules({ firstChar: e.target.value as PolicyFirstChar })}
+              className={inputClass}
+            >
+              {(Object.keys(POLICY_FIRST_CHAR_LABELS) as PolicyFirstChar[]).map((value) => (
+                <option key={value} value={value}>{POLICY_FIRST_CHAR_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="text-sm text-theme-secondary block mb-1">适用的域名</label>
+          <textarea
+            value={draft.domains}
+            onChange={(e) => setDraft({ ...draft, domains: e.target.value })}
+            placeholder={'每行一个，包含子域名，如：\nicbc.com.cn'}
+            rows={3}
+            className={`${inputClass} font-mono resize-none`}
+          />
+        </div>
+
+        {problems.length > 0 ? (
+          <ul className="text-xs text-yellow-400 space-y-0.5">
+            {problems.map((problem) => <li key={problem}>{problem}</li>)}
+          </ul>
+        ) : (
+          <p className="text-xs text-theme-secondary">{describePolicyRules(draft.rules)}</p>
+        )}
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || problems.length > 0 || !draft.name.trim()}
+            className="flex-1 px-3 py-2 bg-theme-primary hover:opacity-90 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isSaving ? '保存中...' : '保存'}
+          </button>
+          <button
+            onClick={() => setDraft(null)}
+            className="px-3 py-2 bg-theme-bg hover:bg-theme-card text-theme text-sm rounded-lg border border-theme transition-colors"
+          >
+            取消
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-theme">网站密码规则</h3>
+        <button onClick={onClose} className="text-xs text-theme-secondary hover:text-theme transition-colors">
+          返回
+        </button>
+      </div>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {policies.length === 0 && (
+          <p className="text-sm text-theme-secondary text-center py-6">还没有规则</p>
+        )}
+        {policies.map((policy) => (
+          <div key={policy.id} className="p-3 bg-theme-bg rounded-lg border border-theme">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-theme truncate">{policy.name}</span>
+              <div className="flex gap-1 flex-shrink-0">
+                <button
+                  onClick={() => startEdit(policy)}
+                  className="px-2 py-1 text-xs text-theme-secondary hover:text-theme hover:bg-hover rounded transition-colors"
+                >
+                  编辑
+                </button>
+                <button
+                  onClick={() => handleDelete(policy)}
+                  className="px-2 py-1 text-xs text-red-400 hover:bg-red-500/10 rounded transition-colors"
+                >
+                  删除
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-theme-secondary mt-1">{describePolicyRules(policy.rules)}</p>
+            {policy.domains.length > 0 && (
+              <p className="text-xs text-theme-secondary mt-1 font-mono truncate">{policy.domains.join(', ')}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      <button
+        onClick={() => startEdit()}
+        className="w-full px-3 py-2 border border-dashed border-theme text-theme-secondary hover:text-theme hover:bg-hover text-sm rounded-lg transition-colors"
+      >
+        新建规则
+      </button>
+    </div>
+  );
+}
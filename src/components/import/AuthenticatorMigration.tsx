@@ -0,0 +1,402 @@
+import { useState, useEffect } from 'react';
+import { useVaultStore } from '../../stores/vaultStore';
+import {
+  showOpenDialog,
+  scanAuthenticatorText,
+  scanAuthenticatorImage,
+  importAuthenticatorItems,
+  exportAuthenticatorMigration,
+} from '../../utils/api';
+import type {
+  AuthenticatorImportItem,
+  AuthenticatorScanResult,
+  AuthenticatorImportResult,
+  AuthenticatorExport,
+  AuthenticatorImageSource,
+} from '../../types/electron';
+
+interface Props {
+  mode: 'import' | 'export';
+  onClose: () => void;
+}
+
+// 同一批迁移二维码的扫描进度
+interface BatchProgress {
+  batchId: number;
+  batchSize: number;
+  scanned: number[];
+}
+
+/**
+ * 合并新扫描的账号：去掉重复的密钥，同一条目只附加一个账号，其余改为新建
+ */
+function mergeItems(current: AuthenticatorImportItem[], scanned: AuthenticatorImportItem[]): AuthenticatorImportItem[] {
+  const merged = [...current];
+  const claimed = new Set(current.filter(item => item.action === 'attach').map(item => item.entryId));
+
+  for (const item of scanned) {
+    if (merged.some(existing => existing.otpauth === item.otpauth)) continue;
+    if (item.action === 'attach' && claimed.has(item.entryId)) {
+      const next = item.candidates.find(candidate => !claimed.has(candidate.id));
+      merged.push(next ? { ...item, entryId: next.id } : { ...item, action: 'create', entryId: undefined });
+    } else {
+      merged.push(item);
+    }
+    const added = merged[merged.length - 1];
+    if (added.action === 'attach') claimed.add(added.entryId);
+  }
+  return merged;
+}
+
+/**
+ * Google 身份验证器迁移：从迁移二维码导入两步验证，或把条目的两步验证导出为迁移二维码
+ */
+export default function AuthenticatorMigration({ mode, onClose }: Props) {
+  const { refreshEntries } = useVaultStore();
+
+  const [text, setText] = useState('');
+  const [items, setItems] = useState<AuthenticatorImportItem[]>([]);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [importResult, setImportResult] = useState<AuthenticatorImportResult | null>(null);
+
+  const [exportData, setExportData] = useState<AuthenticatorExport | null>(null);
+  const [page, setPage] = useState(0);
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // ESC 返回
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    if (mode !== 'export') return;
+    setIsLoading(true);
+    exportAuthenticatorMigration()
+      .then(setExportData)
+      .catch((err) => setError((err as Error).message || '导出迁移二维码失败'))
+      .finally(() => setIsLoading(false));
+  }, [mode]);
+
+  const applyScan = (result: AuthenticatorScanResult) => {
+    setItems(prev => mergeItems(prev, result.items));
+    setSkipped(prev => [...prev, ...result.skipped.filter(reason => !prev.includes(reason))]);
+    if (result.batchSize > 1) {
+      setProgress(prev => {
+        const scanned = prev && prev.batchId === result.batchId ? prev.scanned : [];
+        return {
+          batchId: result.batchId,
+          batchSize: result.batchSize,
+          scanned: scanned.includes(result.batchIndex) ? scanned : [...scanned, result.batchIndex],
+        };
+      });
+    }
+  };
+
+  const runScan = async (scan: () => Promise<AuthenticatorScanResult>): Promise<boolean> => {
+    setIsLoading(true);
+    setError('');
+    try {
+      applyScan(await scan());
+      return true;
+    } catch (err) {
+      setError((err as Error).message || '识别失败');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleScanText = async () => {
+    if (!text.trim()) return;
+    if (await runScan(() => scanAuthenticatorText(text))) {
+      setText('');
+    }
+  };
+
+  const handleScanImage = async (source: AuthenticatorImageSource) => {
+    if (source === 'file') {
+      const result = await showOpenDialog({
+        title: '选择二维码图片',
+        filters: [{ name: '图片', extensions: ['png', 'jpg', 'jpeg', 'bmp'] }],
+      });
+      if (result.canceled || result.filePaths.length === 0) return;
+      await runScan(() => scanAuthenticatorImage('file', result.filePaths[0]));
+      return;
+    }
+    await runScan(() => scanAuthenticatorImage(source));
+  };
+
+  const handleActionChange = (index: number, value: string) => {
+    setItems(prev => prev.map((item, i) => {
+      if (i !== index) return item;
+      if (value.startsWith('attach:')) {
+        return { ...item, action: 'attach', entryId: value.slice('attach:'.length) };
+      }
+      return { ...item, action: value as 'create' | 'skip', entryId: undefined };
+    }));
+  };
+
+  const pending = items.filter(item => item.action !== 'skip');
+
+  const handleImport = async () => {
+    const attachIds = pending.filter(item => item.action === 'attach').map(item => item.entryId);
+    if (new Set(attachIds).size !== attachIds.length) {
+      setError('多个账号不能添加到同一个条目');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const result = await importAuthenticatorItems(pending);
+      setImportResult(result);
+      if (result.created > 0 || result.attached > 0) {
+        await refreshEntries();
+      }
+    } catch (err) {
+      setError((err as Error).message || '导入两步验证失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const missingPages = progress
+    ? Array.from({ length: progress.batchSize }, (_, i) => i).filter(i => !progress.scanned.includes(i))
+    : [];
+
+  const sourceButtonClass =
+    'px-3 py-2 bg-theme-bg hover:bg-theme-card disabled:opacity-50 text-theme text-sm rounded-lg transition-colors border border-theme';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-theme-card rounded-xl shadow-2xl max-w-2xl w-full border border-theme animate-in fade-in zoom-in-95 duration-200 max-h-[80vh] flex flex-col">
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-theme flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-theme-primary/20 flex items-center justify-center">
+              <svg className="w-4 h-4 text-theme-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold text-theme">
+              {mode === 'import' ? '从 Google 身份验证器导入' : '导出到 Google 身份验证器'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-theme-secondary hover:text-theme hover:bg-theme-bg rounded-lg transition-colors"
+            title="返回 (Esc)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 内容 */}
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          {mode === 'import' && !importResult && (
+            <>
+              <p className="text-theme-secondary text-sm">
+                在 Google 身份验证器中选择“转移账号 → 导出账号”，然后粘贴二维码中的链接，或从图片、截图中识别二维码。有多张二维码时逐张添加。
+              </p>
+
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleScanText()}
+                  placeholder="otpauth-migration:// 或 otpauth:// 链接"
+                  className="flex-1 px-3 py-2 bg-theme-bg border border-theme rounded-lg text-theme text-sm focus:outline-none focus:ring-2 focus:ring-theme-primary/50"
+                />
+                <button
+                  onClick={handleScanText}
+                  disabled={isLoading || !text.trim()}
+                  className="px-4 py-2 bg-theme-primary hover:opacity-90 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  添加
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => handleScanImage('file')} disabled={isLoading} className={sourceButtonClass}>
+                  选择图片
+                </button>
+                <button onClick={() => handleScanImage('clipboard')} disabled={isLoading} className={sourceButtonClass}>
+                  识别剪贴板截图
+                </button>
+                <button onClick={() => handleScanImage('screen')} disabled={isLoading} className={sourceButtonClass}>
+                  截取屏幕识别
+                </button>
+              </div>
+
+              {progress && (
+                <p className={`text-xs ${missingPages.length > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                  已添加 {progress.scanned.length} / {progress.batchSize} 张二维码
+                  {missingPages.length > 0 && `，还缺第 ${missingPages.map(i => i + 1).join('、')} 张`}
+                </p>
+              )}
+
+              {skipped.length > 0 && (
+                <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                  <h4 className="font-medium text-yellow-400 text-sm mb-2">无法导入的账号</h4>
+                  <ul className="text-xs text-yellow-400 space-y-1 max-h-24 overflow-y-auto">
+                    {skipped.map((reason, i) => <li key={i}>{reason}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              {items.length > 0 && (
+                <div className="border border-theme rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-theme-bg">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs text-theme-secondary font-medium">账号</th>
+                        <th className="px-3 py-2 text-left text-xs text-theme-secondary font-medium">操作</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {items.map((item, i) => (
+                        <tr key={item.otpauth} className="border-t border-theme">
+                          <td className="px-3 py-2">
+                            <p className="text-theme text-sm truncate max-w-[240px]">{item.issuer || item.account || '未命名'}</p>
+                            <p className="text-theme-secondary text-xs truncate max-w-[240px]">
+                              {[item.issuer && item.account, item.description].filter(Boolean).join(' · ')}
+                            </p>
+                            {item.duplicateOf && (
+                              <p className="text-yellow-400 text-xs">已保存在「{item.duplicateOf}」</p>
+                            )}
+                          </td>
+                          <td className="px-3 py-2">
+                            <select
+                              className="w-full px-2 py-1 bg-theme-card border border-theme rounded text-theme text-xs focus:outline-none focus:ring-1 focus:ring-theme-primary/50"
+                              value={item.action === 'attach' ? `attach:${item.entryId}` : item.action}
+                              onChange={(e) => handleActionChange(i, e.target.value)}
+                            >
+                              {item.candidates.map(candidate => (
+                                <option key={candidate.id} value={`attach:${candidate.id}`}>
+                                  添加到「{candidate.title}」{candidate.username && `（${candidate.username}）`}
+                                </option>
+                              ))}
+                              <option value="create">新建登录条目</option>
+                              <option value="skip">跳过</option>
+                            </select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+
+          {mode === 'import' && importResult && (
+            <div className="text-center py-8 space-y-2">
+              <h3 className="text-xl font-semibold text-theme">导入完成</h3>
+              <p className="text-theme-secondary">
+                新建 <span className="text-green-400 font-bold">{importResult.created}</span> 个条目，
+                为 <span className="text-green-400 font-bold">{importResult.attached}</span> 个已有条目添加了两步验证
+                {importResult.failed > 0 && (
+                  <>，<span className="text-red-400 font-bold">{importResult.failed}</span> 个失败</>
+                )}
+              </p>
+            </div>
+          )}
+
+          {mode === 'export' && exportData && (
+            <>
+              {exportData.pages.length > 0 ? (
+                <div className="flex flex-col items-center gap-3">
+                  <p className="text-theme-secondary text-sm text-center">
+                    在 Google 身份验证器中选择“转移账号 → 导入账号”，依次扫描下面的二维码
+                  </p>
+                  <img
+                    src={exportData.pages[page]}
+                    alt={`迁移二维码 ${page + 1}`}
+                    className="w-64 h-64 rounded-lg bg-white"
+                  />
+                  <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => setPage(page - 1)}
+                      disabled={page === 0}
+                      className="px-3 py-1.5 text-sm text-theme-secondary hover:text-theme hover:bg-theme-bg disabled:opacity-30 rounded-lg transition-colors"
+                    >
+                      上一张
+                    </button>
+                    <span className="text-sm text-theme">第 {page + 1} / {exportData.pages.length} 张</span>
+                    <button
+                      onClick={() => setPage(page + 1)}
+                      disabled={page >= exportData.pages.length - 1}
+                      className="px-3 py-1.5 text-sm text-theme-secondary hover:text-theme hover:bg-theme-bg disabled:opacity-30 rounded-lg transition-colors"
+                    >
+                      下一张
+                    </button>
+                  </div>
+                  <p className="text-xs text-theme-secondary">共 {exportData.exported} 个账号</p>
+                  <p className="text-xs text-yellow-400 text-center">
+                    二维码包含两步验证密钥，请确认周围没有他人或摄像头，扫描完成后立即关闭
+                  </p>
+                </div>
+              ) : (
+                <p className="text-theme-secondary text-sm text-center py-6">没有可以导出的两步验证</p>
+              )}
+
+              {exportData.skipped.length > 0 && (
+                <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                  <h4 className="font-medium text-yellow-400 text-sm mb-2">未导出的条目</h4>
+                  <ul className="text-xs text-yellow-400 space-y-1 max-h-24 overflow-y-auto">
+                    {exportData.skipped.map((item, i) => (
+                      <li key={i}>{item.title}：{item.reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {isLoading && <p className="text-theme-secondary text-sm text-center">处理中...</p>}
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* 底部按钮 */}
+        <div className="px-5 py-4 border-t border-theme flex items-center justify-between flex-shrink-0">
+          <span className="text-xs text-theme-secondary">按 Esc 返回</span>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-theme-bg hover:bg-theme-card text-theme text-sm font-medium rounded-lg transition-colors border border-theme"
+            >
+              {importResult || mode === 'export' ? '完成' : '返回'}
+            </button>
+            {mode === 'import' && !importResult && (
+              <button
+                onClick={handleImport}
+                disabled={isLoading || pending.length === 0}
+                className="px-4 py-2 bg-theme-primary hover:opacity-90 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                {isLoading ? '导入中...' : `导入 ${pending.length} 个账号`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
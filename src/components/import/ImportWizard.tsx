@@ -9,6 +9,7 @@ import {
   listCategories
 } from '../../utils/api';
 import type { ImportEntry, ImportError, Category } from '../../types/electron';
+import AuthenticatorMigration from './AuthenticatorMigration';
 
 interface Props {
   isOpen: boolean;
@@ -33,6 +34,7 @@ export default function ImportWizard({ isOpen, onClose }: Props) {
   const [existingCategories, setExistingCategories] = useState<Category[]>([]);
   
   const [importResult, setImportResult] = useState<{ success: number; failed: number; categoriesCreated?: number } | null>(null);
+  const [migrationMode, setMigrationMode] = useState<'import' | 'export' | null>(null);
 
   // ESC 关闭
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -42,11 +44,12 @@ export default function ImportWizard({ isOpen, onClose }: Props) {
   }, []);
 
   useEffect(() => {
-    if (isOpen) {
+    // 迁移对话框打开时由它自己处理 ESC
+    if (isOpen && !migrationMode) {
       document.addEventListener('keydown', handleKeyDown);
       return () => document.removeEventListener('keydown', handleKeyDown);
     }
-  }, [isOpen, handleKeyDown]);
+  }, [isOpen, migrationMode, handleKeyDown]);
 
   const handleSelectFile = async () => {
     try {
@@ -180,6 +183,10 @@ export default function ImportWizard({ isOpen, onClose }: Props) {
 
   if (!isOpen) return null;
 
+  if (migrationMode) {
+    return <AuthenticatorMigration mode={migrationMode} onClose={() => setMigrationMode(null)} />;
+  }
+
   return (
     <div 
       className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
@@ -245,6 +252,31 @@ export default function ImportWizard({ isOpen, onClose }: Props) {
                     支持 Chrome、Firefox、Edge
                   </p>
                 </div>
+                <div className="col-span-2 p-4 bg-theme-bg rounded-lg border border-theme">
+                  <div className="flex items-center gap-2 mb-2">
+                    <svg className="w-5 h-5 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                    </svg>
+                    <h3 className="font-medium text-theme text-sm">Google 身份验证器</h3>
+                  </div>
+                  <p className="text-xs text-theme-secondary mb-2">
+                    通过迁移二维码导入两步验证密钥，或把条目的两步验证导出到手机
+                  </p>
+                  <div className="flex gap-4">
+                    <button
+                      onClick={() => setMigrationMode('import')}
+                      className="text-xs text-theme-primary hover:underline"
+                    >
+                      导入迁移二维码
+                    </button>
+                    <button
+                      onClick={() => setMigrationMode('export')}
+                      className="text-xs text-theme-primary hover:underline"
+                    >
+                      导出迁移二维码
+                    </button>
+                  </div>
+                </div>
               </div>
 
               {/* 选择文件按钮 */}
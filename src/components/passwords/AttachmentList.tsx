@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  addAttachments,
+  listAttachments,
+  previewAttachment,
+  exportAttachment,
+  deleteAttachment,
+} from '../../utils/api';
+import type { Attachment, AttachmentPreview } from '../../types/electron';
+
+interface Props {
+  entryId: string;
+}
+
+// 格式化文件大小
+function formatSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function AttachmentList({ entryId }: Props) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [preview, setPreview] = useState<{ attachment: Attachment; data: AttachmentPreview } | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      setAttachments(await listAttachments(entryId));
+    } catch (err) {
+      console.error('加载附件失败:', err);
+    }
+  }, [entryId]);
+
+  useEffect(() => {
+    setError('');
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    setError('');
+    try {
+      const added = await addAttachments(entryId);
+      if (added.length > 0) {
+        await loadAttachments();
+      }
+    } catch (err) {
+      setError((err as Error).message || '添加附件失败');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handlePreview = async (attachment: Attachment) => {
+    setError('');
+    try {
+      const data = await previewAttachment(attachment.id);
+      setPreview({ attachment, data });
+    } catch (err) {
+      setError((err as Error).message || '预览附件失败');
+    }
+  };
+
+  const handleExport = async (attachment: Attachment) => {
+    setError('');
+    try {
+      await exportAttachment(attachment.id);
+    } catch (err) {
+      setError((err as Error).message || '导出附件失败');
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`确定要删除附件「${attachment.name}」吗？`)) return;
+    setError('');
+    try {
+      await deleteAttachment(attachment.id);
+      setAttachments(attachments.filter((a) => a.id !== attachment.id));
+    } catch (err) {
+      setError((err as Error).message || '删除附件失败');
+    }
+  };
+
+  return (
+    <div className="group">
+      <div className="flex items-center gap-2 mb-1.5">
+        <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+        </svg>
+        <span className="text-xs text-theme-secondary uppercase tracking-wider">附件</span>
+        <button
+          onClick={handleAdd}
+          disabled={isAdding}
+          className="ml-auto text-xs text-theme-primary hover:underline disabled:opacity-50"
+        >
+          {isAdding ? '添加中...' : '+ 添加附件'}
+        </button>
+      </div>
+
+      {attachments.length > 0 ? (
+        <div className="bg-theme-card rounded-lg divide-y divide-theme">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="flex items-center gap-2 p-3">
+              <div className="flex-1 min-w-0">
+                <div className="text-theme text-sm truncate">{attachment.name}</div>
+                <div className="text-xs text-theme-secondary">
+                  {formatSize(attachment.size)} · {new Date(attachment.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+              <button
+                onClick={() => handlePreview(attachment)}
+                className="p-1.5 rounded text-theme-secondary hover:text-theme hover:bg-theme-bg transition-colors flex-shrink-0"
+                title="预览"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleExport(attachment)}
+                className="p-1.5 rounded text-theme-secondary hover:text-theme hover:bg-theme-bg transition-colors flex-shrink-0"
+                title="导出"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleDelete(attachment)}
+                className="p-1.5 rounded text-theme-secondary hover:text-red-400 hover:bg-red-500/10 transition-colors flex-shrink-0"
+                title="删除"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="bg-theme-card rounded-lg p-3 text-sm text-theme-secondary">
+          暂无附件，可添加恢复码、证书等文件（加密保存）
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-xs mt-1.5">{error}</p>}
+
+      {/* 预览对话框 */}
+      {preview && (
+        <div
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+          onClick={(e) => e.target === e.currentTarget && setPreview(null)}
+        >
+          <div className="bg-theme-card rounded-xl shadow-2xl max-w-3xl w-full max-h-[calc(100vh-4rem)] flex flex-col border border-theme">
+            <div className="flex items-center justify-between px-5 py-4 border-b border-theme flex-shrink-0">
+              <h2 className="text-base font-semibold text-theme truncate">{preview.attachment.name}</h2>
+              <button
+                onClick={() => setPreview(null)}
+                className="p-2 text-theme-secondary hover:text-theme hover:bg-theme-bg rounded-lg transition-colors"
+                title="关闭"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto p-5 min-h-0">
+              {preview.data.text !== undefined ? (
+                <>
+                  <pre className="text-xs text-theme font-mono whitespace-pre-wrap break-all">{preview.data.text}</pre>
+                  {preview.data.truncated && (
+                    <p className="text-xs text-theme-secondary mt-2">文件较大，仅显示开头部分</p>
+                  )}
+                </>
+              ) : preview.data.mimeType === 'application/pdf' ? (
+                <iframe src={preview.data.dataUrl} title={preview.attachment.name} className="w-full h-[70vh] rounded" />
+              ) : (
+                <img src={preview.data.dataUrl} alt={preview.attachment.name} className="max-w-full mx-auto rounded" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
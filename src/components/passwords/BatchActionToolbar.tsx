@@ -76,7 +76,7 @@ export default function BatchActionToolbar({ onOperationComplete }: Props) {
     try {
       const result = await batchDelete(selectedArray);
       if (result.success > 0) {
-        showMessage('success', `成功删除 ${result.success} 条`);
+        showMessage('success', `已将 ${result.success} 条移入回收站`);
         clearSelection();
         await refreshEntries();
         onOperationComplete();
@@ -207,7 +207,7 @@ export default function BatchActionToolbar({ onOperationComplete }: Props) {
           <div className="bg-theme-card rounded-xl p-6 max-w-sm w-full mx-4 border border-theme">
             <h3 className="text-lg font-semibold text-theme mb-2">确认删除</h3>
             <p className="text-theme-secondary text-sm mb-4">
-              确定要删除选中的 {selectedCount} 条密码吗？此操作无法撤销。
+              确定要删除选中的 {selectedCount} 条密码吗？删除的条目会移入回收站，可在回收站中还原。
             </p>
             <div className="flex justify-end gap-3">
               <button
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import type { CustomField, CustomFieldType } from '../../types/electron';
+
+// 自定义字段类型配置
+export const CUSTOM_FIELD_TYPES: Array<{ value: CustomFieldType; label: string }> = [
+  { value: 'text', label: '文本' },
+  { value: 'hidden', label: '隐藏' },
+  { value: 'url', label: '网址' },
+  { value: 'email', label: '邮箱' },
+  { value: 'phone', label: '电话' },
+  { value: 'date', label: '日期' },
+  { value: 'totp', label: 'TOTP 密钥' },
+];
+
+// 需要遮挡显示的字段类型
+export function isConcealedField(type: CustomFieldType): boolean {
+  return type === 'hidden' || type === 'totp';
+}
+
+const INPUT_TYPES: Record<CustomFieldType, string> = {
+  text: 'text',
+  hidden: 'password',
+  url: 'url',
+  email: 'email',
+  phone: 'tel',
+  date: 'date',
+  totp: 'password',
+};
+
+const PLACEHOLDERS: Record<CustomFieldType, string> = {
+  text: '字段内容',
+  hidden: '隐藏内容，如 PIN 或安全问题答案',
+  url: 'https://example.com',
+  email: 'name@example.com',
+  phone: '手机号或电话',
+  date: '',
+  totp: 'Base32 密钥',
+};
+
+interface Props {
+  fields: CustomField[];
+  onChange: (fields: CustomField[]) => void;
+}
+
+export default function CustomFieldsEditor({ fields, onChange }: Props) {
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+
+  const updateField = (id: string, updates: Partial<CustomField>) => {
+    onChange(fields.map((f) => (f.id === id ? { ...f, ...updates } : f)));
+  };
+
+  const addField = () => {
+    onChange([...fields, { id: crypto.randomUUID(), label: '', type: 'text', value: '' }]);
+  };
+
+  const removeField = (id: string) => {
+    onChange(fields.filter((f) => f.id !== id));
+  };
+
+  const toggleReveal = (id: string) => {
+    const next = new Set(revealed);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setRevealed(next);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-1.5">
+        <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+        </svg>
+        <span className="text-xs text-theme-secondary uppercase tracking-wider">自定义字段</span>
+      </div>
+
+      <div className="space-y-2">
+        {fields.map((field) => {
+          const concealed = isConcealedField(field.type) && !revealed.has(field.id);
+          return (
+            <div key={field.id} className="bg-theme-card border border-theme rounded-lg p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={field.label}
+                  onChange={(e) => updateField(field.id, { label: e.target.value })}
+                  className="flex-1 min-w-0 px-2 py-1.5 input-theme rounded-md text-sm"
+                  placeholder="字段名称"
+                />
+                <select
+                  value={field.type}
+                  onChange={(e) => updateField(field.id, { type: e.target.value as CustomFieldType })}
+                  className="px-2 py-1.5 input-theme rounded-md text-sm"
+                >
+                  {CUSTOM_FIELD_TYPES.map((t) => (
+                    <option key={t.value} value={t.value}>{t.label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => removeField(field.id)}
+                  className="p-1.5 rounded-md text-theme-secondary hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                  title="删除字段"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type={isConcealedField(field.type) ? (concealed ? 'password' : 'text') : INPUT_TYPES[field.type]}
+                  value={field.value}
+                  onChange={(e) => updateField(field.id, { value: e.target.value })}
+                  className={`flex-1 min-w-0 px-2 py-1.5 input-theme rounded-md text-sm ${
+                    isConcealedField(field.type) ? 'font-mono' : ''
+                  }`}
+                  placeholder={PLACEHOLDERS[field.type]}
+                />
+                {isConcealedField(field.type) && (
+                  <button
+                    type="button"
+                    onClick={() => toggleReveal(field.id)}
+                    className="p-1.5 text-theme-secondary hover:text-theme transition-colors"
+                    title={concealed ? '显示' : '隐藏'}
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        <button
+          type="button"
+          onClick={addField}
+          className="w-full px-3 py-2 border border-dashed border-theme rounded-lg text-sm text-theme-secondary hover:text-theme hover:border-theme-primary transition-colors"
+        >
+          + 添加字段
+        </button>
+      </div>
+    </div>
+  );
+}
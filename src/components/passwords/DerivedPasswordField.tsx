@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { useVaultStore } from '../../stores/vaultStore';
+import { copyToClipboard, derivePassword, updateEntry } from '../../utils/api';
+import { describeDerivation } from '../../utils/derivation';
+import { describePolicyRules } from '../../utils/passwordPolicy';
+import type { PasswordEntry } from '../../types/electron';
+
+interface Props {
+  entry: PasswordEntry;
+}
+
+/**
+ * 派生密码：输入派生主密码后实时计算，可以复制，或把计数器加一更换密码
+ */
+export default function DerivedPasswordField({ entry }: Props) {
+  const { derivationSecret, setDerivationSecret, updateEntry: updateStoreEntry } = useVaultStore();
+  const [secretInput, setSecretInput] = useState('');
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isDeriving, setIsDeriving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+  const params = entry.derivation!;
+
+  useEffect(() => {
+    setPassword('');
+    if (!derivationSecret) return;
+
+    let cancelled = false;
+    setIsDeriving(true);
+    setError('');
+    derivePassword(derivationSecret, params)
+      .then((derived) => !cancelled && setPassword(derived))
+      .catch((err) => !cancelled && setError((err as Error).message || '计算派生密码失败'))
+      .finally(() => !cancelled && setIsDeriving(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [derivationSecret, params]);
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secretInput) return;
+    setDerivationSecret(secretInput);
+    setSecretInput('');
+  };
+
+  const handleCopy = async () => {
+    await copyToClipboard(password, 30);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleBumpCounter = async () => {
+    if (!confirm(`确定要更换密码吗？计数器将从 ${params.counter} 改为 ${params.counter + 1}，请随后在网站上把密码改为新的派生密码。`)) return;
+    try {
+      const updated: PasswordEntry = {
+        ...entry,
+        derivation: { ...params, counter: params.counter + 1 },
+        updatedAt: new Date().toISOString(),
+      };
+      await updateEntry(updated);
+      updateStoreEntry(updated);
+      setShowPassword(true);
+    } catch (err) {
+      setError((err as Error).message || '更换密码失败');
+    }
+  };
+
+  return (
+    <div className="group">
+      <div className="flex items-center gap-2 mb-1.5">
+        <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+        </svg>
+        <span className="text-xs text-theme-secondary uppercase tracking-wider">派生密码</span>
+        <span className="text-xs text-theme-secondary/60">{describeDerivation(params)}</span>
+      </div>
+
+      {derivationSecret ? (
+        <div className="flex items-center gap-2 bg-theme-card rounded-lg p-3">
+          <span className="flex-1 text-theme font-mono truncate">
+            {isDeriving ? '计算中...' : showPassword ? password : '••••••••••••'}
+          </span>
+          <button
+            onClick={() => setShowPassword(!showPassword)}
+            disabled={!password}
+            className="px-2 py-1 text-xs rounded text-theme-secondary hover:text-theme hover:bg-hover transition-colors flex-shrink-0 disabled:opacity-50"
+          >
+            {showPassword ? '隐藏' : '显示'}
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={!password}
+            className={`px-2 py-1 text-xs rounded transition-colors flex-shrink-0 disabled:opacity-50 ${
+              copied ? 'text-green-400 bg-green-500/10' : 'text-theme-secondary hover:text-theme hover:bg-hover'
+            }`}
+          >
+            {copied ? '已复制' : '复制'}
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleUnlock} className="flex items-center gap-2">
+          <input
+            type="password"
+            value={secretInput}
+            onChange={(e) => setSecretInput(e.target.value)}
+            placeholder="输入派生主密码"
+            className="flex-1 px-3 py-2.5 input-theme rounded-lg"
+          />
+          <button
+            type="submit"
+            disabled={!secretInput}
+            className="px-3 py-2.5 bg-theme-primary hover:opacity-90 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+          >
+            计算
+          </button>
+        </form>
+      )}
+
+      <p className="mt-1.5 text-xs text-theme-secondary">{describePolicyRules(params.rules)} · {params.length} 位</p>
+      {error && <p className="mt-1.5 text-xs text-red-400">{error}</p>}
+
+      <div className="flex gap-3 mt-2">
+        <button onClick={handleBumpCounter} className="text-xs text-theme-primary hover:underline">
+          更换密码（计数器 +1）
+        </button>
+        {derivationSecret && (
+          <button onClick={() => setDerivationSecret('')} className="text-xs text-theme-secondary hover:text-theme">
+            清除派生主密码
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useVaultStore } from '../../stores/vaultStore';
+import { listEntryRevisions, restoreEntryRevision } from '../../utils/api';
+import { isConcealedField } from './CustomFieldsEditor';
+import { getEntryType, getEntryTypeLabel } from '../../utils/itemTypes';
+import type { PasswordEntry, EntryRevision } from '../../types/electron';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  entry: PasswordEntry;
+}
+
+interface FieldDiff {
+  key: string;
+  label: string;
+  before: string;
+  after: string;
+  secret?: boolean;
+}
+
+export default function EntryHistoryDialog({ isOpen, onClose, entry }: Props) {
+  const { categories, tags, updateEntry } = useVaultStore();
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showSecrets, setShowSecrets] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  // ESC 关闭
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  }, [onClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      return () => document.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isOpen, handleKeyDown]);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const list = await listEntryRevisions(entry.id);
+      setRevisions(list);
+      setSelectedId(list[0]?.id ?? null);
+    } catch (err) {
+      setError((err as Error).message || '加载历史版本失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entry.id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setShowSecrets(false);
+      loadRevisions();
+    }
+  }, [isOpen, loadRevisions]);
+
+  const categoryName = (id?: string) => {
+    if (!id) return '';
+    const category = categories.find((c) => c.id === id);
+    return category ? `${category.icon || ''} ${category.name}`.trim() : '（已删除的分类）';
+  };
+
+  const tagNames = (ids: string[]) =>
+    ids.map((id) => tags.find((t) => t.id === id)?.name || id).sort().join(', ');
+
+  // 类型详情转为多行文本，便于对比
+  const describeDetails = (e: PasswordEntry) => {
+    const details = e.card || e.identity || e.sshKey || e.wifi;
+    if (!details) return '';
+    return Object.entries(details)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key}: ${value}`)
+      .join('\n');
+  };
+
+  // 逐字段对比历史版本和当前条目
+  const getDiffs = (revision: PasswordEntry): FieldDiff[] => {
+    const fields: FieldDiff[] = [
+      { key: 'type', label: '类型', before: getEntryTypeLabel(getEntryType(revision)), after: getEntryTypeLabel(getEntryType(entry)) },
+      { key: 'title', label: '标题', before: revision.title, after: entry.title },
+      { key: 'username', label: '用户名', before: revision.username, after: entry.username },
+      { key: 'password', label: '密码', before: revision.password, after: entry.password, secret: true },
+      { key: 'url', label: '网址', before: revision.url || '', after: entry.url || '' },
+      { key: 'notes', label: '备注', before: revision.notes || '', after: entry.notes || '' },
+      { key: 'category', label: '分类', before: categoryName(revision.categoryId), after: categoryName(entry.categoryId) },
+      { key: 'tags', label: '标签', before: tagNames(revision.tags), after: tagNames(entry.tags) },
+      { key: 'favorite', label: '收藏', before: revision.favorite ? '是' : '否', after: entry.favorite ? '是' : '否' },
+      { key: 'details', label: '类型详情', before: describeDetails(revision), after: describeDetails(entry), secret: true },
+    ];
+
+    // 自定义字段按 id 逐个对比
+    const beforeFields = revision.customFields || [];
+    const afterFields = entry.customFields || [];
+    const fieldIds = [...new Set([...beforeFields, ...afterFields].map((f) => f.id))];
+    for (const id of fieldIds) {
+      const before = beforeFields.find((f) => f.id === id);
+      const after = afterFields.find((f) => f.id === id);
+      fields.push({
+        key: `custom:${id}`,
+        label: (after || before)!.label,
+        before: before ? `${before.label}: ${before.value}` : '',
+        after: after ? `${after.label}: ${after.value}` : '',
+        secret: isConcealedField((after || before)!.type),
+      });
+    }
+
+    return fields.filter((f) => f.before !== f.after);
+  };
+
+  const handleRestore = async (revision: EntryRevision) => {
+    if (!confirm('确定要恢复到这个版本吗？当前内容会保存为新的历史版本。')) return;
+
+    setIsRestoring(true);
+    setError('');
+    try {
+      const restored = await restoreEntryRevision(revision.id);
+      updateEntry(restored);
+      await loadRevisions();
+    } catch (err) {
+      setError((err as Error).message || '恢复失败');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatValue = (field: FieldDiff, value: string) => {
+    if (!value) return <span className="text-theme-secondary italic">（空）</span>;
+    if (field.secret && !showSecrets) return '••••••••';
+    return value;
+  };
+
+  if (!isOpen) return null;
+
+  const selected = revisions.find((r) => r.id === selectedId) || null;
+  const diffs = selected ? getDiffs(selected.entry) : [];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-theme-card rounded-xl shadow-2xl max-w-2xl w-full max-h-[calc(100vh-4rem)] flex flex-col border border-theme animate-in fade-in zoom-in-95 duration-200">
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-theme flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-theme-primary/20 flex items-center justify-center">
+              <svg className="w-4 h-4 text-theme-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-theme">历史版本</h2>
+              <p className="text-xs text-theme-secondary truncate">{entry.title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-theme-secondary hover:text-theme hover:bg-theme-bg rounded-lg transition-colors"
+            title="关闭 (Esc)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 内容 */}
+        <div className="flex-1 flex min-h-0">
+          {/* 版本列表 */}
+          <div className="w-48 border-r border-theme overflow-y-auto flex-shrink-0">
+            {isLoading ? (
+              <div className="p-4 text-sm text-theme-secondary">加载中...</div>
+            ) : revisions.length === 0 ? (
+              <div className="p-4 text-sm text-theme-secondary">暂无历史版本</div>
+            ) : (
+              revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-4 py-3 border-b border-theme transition-colors ${
+                    revision.id === selectedId
+                      ? 'bg-theme-primary/10 text-theme-primary'
+                      : 'text-theme hover:bg-theme-bg'
+                  }`}
+                >
+                  <div className="text-sm">{new Date(revision.createdAt).toLocaleString()}</div>
+                  <div className="text-xs text-theme-secondary truncate">{revision.entry.title}</div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* 字段对比 */}
+          <div className="flex-1 overflow-y-auto p-5">
+            {error && (
+              <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+                <p className="text-red-400 text-sm">{error}</p>
+              </div>
+            )}
+
+            {selected ? (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-theme-secondary">
+                    版本保存于 {new Date(selected.createdAt).toLocaleString()}
+                  </span>
+                  <button
+                    onClick={() => setShowSecrets(!showSecrets)}
+                    className="text-xs text-theme-secondary hover:text-theme transition-colors"
+                  >
+                    {showSecrets ? '隐藏密码' : '显示密码'}
+                  </button>
+                </div>
+
+                {diffs.length === 0 ? (
+                  <p className="text-sm text-theme-secondary">与当前内容相同</p>
+                ) : (
+                  diffs.map((field) => (
+                    <div key={field.key}>
+                      <div className="text-xs text-theme-secondary uppercase tracking-wider mb-1.5">{field.label}</div>
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-2 text-theme break-all whitespace-pre-wrap">
+                          {formatValue(field, field.before)}
+                        </div>
+                        <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-2 text-theme break-all whitespace-pre-wrap">
+                          {formatValue(field, field.after)}
+                        </div>
+                      </div>
+                    </div>
+                  ))
+                )}
+
+                {diffs.length > 0 && (
+                  <div className="flex items-center gap-4 text-xs text-theme-secondary">
+                    <span className="flex items-center gap-1.5">
+                      <span className="w-2.5 h-2.5 rounded-sm bg-red-500/40" />历史版本
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <span className="w-2.5 h-2.5 rounded-sm bg-green-500/40" />当前
+                    </span>
+                  </div>
+                )}
+              </div>
+            ) : (
+              !isLoading && (
+                <p className="text-sm text-theme-secondary">条目被修改后，旧版本会保存在这里</p>
+              )
+            )}
+          </div>
+        </div>
+
+        {/* 底部 */}
+        <div className="px-5 py-4 border-t border-theme flex-shrink-0 flex items-center justify-between">
+          <span className="text-xs text-theme-secondary">共 {revisions.length} 个版本</span>
+          <button
+            onClick={() => selected && handleRestore(selected)}
+            disabled={!selected || diffs.length === 0 || isRestoring}
+            className="px-4 py-2 bg-theme-primary hover:opacity-90 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isRestoring ? '恢复中...' : '恢复此版本'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
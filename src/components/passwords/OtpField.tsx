@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useVaultStore } from '../../stores/vaultStore';
+import { advanceOtpCounter, copyToClipboard, generateOtpCode } from '../../utils/api';
+import { describeOtp, getOtpRemainingSeconds, parseOtpAuthUri, type OtpParams } from '../../utils/otp';
+import type { PasswordEntry } from '../../types/electron';
+
+interface Props {
+  entry: PasswordEntry;
+}
+
+/**
+ * 按 3 位或 4 位分组显示验证码，Steam 令牌原样显示
+ */
+function formatCode(code: string, params: OtpParams): string {
+  if (params.type === 'steam') return code;
+  const group = code.length % 3 === 0 ? 3 : 4;
+  return code.replace(new RegExp(`(.{${group}})(?=.)`, 'g'), '$1 ');
+}
+
+/**
+ * 两步验证码：TOTP 和 Steam 令牌实时刷新并显示倒计时，HOTP 手动推进计数器
+ */
+export default function OtpField({ entry }: Props) {
+  const { updateEntry: updateStoreEntry } = useVaultStore();
+  const [now, setNow] = useState(Date.now());
+  const [code, setCode] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const params = useMemo(() => {
+    try {
+      return parseOtpAuthUri(entry.otpauth!);
+    } catch {
+      return null;
+    }
+  }, [entry.otpauth]);
+
+  // 当前时间步，变化时重新计算验证码
+  const step = params && params.type !== 'hotp' ? Math.floor(now / 1000 / params.period) : 0;
+
+  useEffect(() => {
+    if (!params || params.type === 'hotp') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [params]);
+
+  useEffect(() => {
+    if (!params) return;
+    let cancelled = false;
+    generateOtpCode(entry.otpauth!)
+      .then((generated) => {
+        if (cancelled) return;
+        setCode(generated);
+        setError('');
+      })
+      .catch((err) => !cancelled && setError((err as Error).message || '计算验证码失败'));
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.otpauth, params, step]);
+
+  if (!params) {
+    return <p className="text-xs text-red-400">两步验证信息无效，请编辑条目重新设置</p>;
+  }
+
+  const remaining = getOtpRemainingSeconds(params, now);
+
+  const handleCopy = async () => {
+    await copyToClipboard(code, 30);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleNextCounter = async () => {
+    try {
+      updateStoreEntry(await advanceOtpCounter(entry.id));
+    } catch (err) {
+      setError((err as Error).message || '更新计数器失败');
+    }
+  };
+
+  return (
+    <div className="group">
+      <div className="flex items-center gap-2 mb-1.5">
+        <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+        </svg>
+        <span className="text-xs text-theme-secondary uppercase tracking-wider">两步验证</span>
+        <span className="text-xs text-theme-secondary/60 truncate">
+          {[params.issuer, describeOtp(params)].filter(Boolean).join(' · ')}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2 bg-theme-card rounded-lg p-3">
+        <span className="flex-1 text-theme font-mono text-lg tracking-wider truncate">
+          {code ? formatCode(code, params) : '------'}
+        </span>
+        {params.type !== 'hotp' && (
+          <span
+            className={`text-xs font-mono flex-shrink-0 ${remaining <= 5 ? 'text-red-400' : 'text-theme-secondary'}`}
+            title="剩余有效时间"
+          >
+            {remaining}s
+          </span>
+        )}
+        <button
+          onClick={handleCopy}
+          disabled={!code}
+          className={`px-2 py-1 text-xs rounded transition-colors flex-shrink-0 disabled:opacity-50 ${
+            copied ? 'text-green-400 bg-green-500/10' : 'text-theme-secondary hover:text-theme hover:bg-hover'
+          }`}
+        >
+          {copied ? '已复制' : '复制'}
+        </button>
+      </div>
+
+      {params.type !== 'hotp' && (
+        <div className="h-0.5 mt-1 bg-theme-border rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all duration-1000 ease-linear ${remaining <= 5 ? 'bg-red-500' : 'bg-theme-primary'}`}
+            style={{ width: `${(remaining / params.period) * 100}%` }}
+          />
+        </div>
+      )}
+      {error && <p className="mt-1.5 text-xs text-red-400">{error}</p>}
+
+      {params.type === 'hotp' && (
+        <button onClick={handleNextCounter} className="mt-2 text-xs text-theme-primary hover:underline">
+          下一个验证码（计数器 +1）
+        </button>
+      )}
+    </div>
+  );
+}
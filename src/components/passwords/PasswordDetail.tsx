@@ -3,6 +3,15 @@ import { useVaultStore } from '../../stores/vaultStore';
 import { deleteEntry, copyToClipboard } from '../../utils/api';
 import Avatar from '../common/Avatar';
 import { ShareDialog } from '../share';
+import EntryHistoryDialog from './EntryHistoryDialog';
+import AttachmentList from './AttachmentList';
+import DerivedPasswordField from './DerivedPasswordField';
+import OtpField from './OtpField';
+import { CUSTOM_FIELD_TYPES, isConcealedField } from './CustomFieldsEditor';
+import TypeDetailFields, { WifiQRCode } from './TypeDetailFields';
+import { getEntryType, getEntryTypeLabel } from '../../utils/itemTypes';
+import { usePasswordBreach } from '../../hooks/usePasswordBreach';
+import type { CustomField } from '../../types/electron';
 
 interface Props {
   entryId: string;
@@ -16,9 +25,12 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
   const [showPassword, setShowPassword] = useState(false);
   const [copied, setCopied] = useState<string | null>(null);
   const [showShare, setShowShare] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [revealedFields, setRevealedFields] = useState<Set<string>>(new Set());
 
   const entry = entries.find((e) => e.id === entryId);
   const category = entry?.categoryId ? categories.find((c) => c.id === entry.categoryId) : null;
+  const breached = usePasswordBreach(entry?.password ?? '');
 
   if (!entry) {
     return (
@@ -28,14 +40,55 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
     );
   }
 
+  const type = getEntryType(entry);
+  const passwordLabel = type === 'wifi' ? 'Wi-Fi 密码' : type === 'ssh' ? '私钥口令' : '密码';
+  const showPasswordField = !entry.derivation && (type === 'login' || (type !== 'note' && !!entry.password));
+
   const handleCopy = async (text: string, field: string) => {
     await copyToClipboard(text, 30);
     setCopied(field);
     setTimeout(() => setCopied(null), 2000);
   };
 
+  const toggleFieldReveal = (id: string) => {
+    const next = new Set(revealedFields);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setRevealedFields(next);
+  };
+
+  const renderFieldValue = (field: CustomField) => {
+    if (isConcealedField(field.type) && !revealedFields.has(field.id)) {
+      return <span className="flex-1 text-theme font-mono truncate">••••••••••••</span>;
+    }
+    const href = field.type === 'url' ? field.value
+      : field.type === 'email' ? `mailto:${field.value}`
+      : field.type === 'phone' ? `tel:${field.value}`
+      : null;
+    if (href) {
+      return (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex-1 text-theme hover:text-theme-primary truncate"
+        >
+          {field.value}
+        </a>
+      );
+    }
+    return (
+      <span className={`flex-1 text-theme truncate ${isConcealedField(field.type) ? 'font-mono' : ''}`}>
+        {field.type === 'date' ? new Date(field.value).toLocaleDateString() : field.value}
+      </span>
+    );
+  };
+
   const handleDelete = async () => {
-    if (confirm('确定要删除这个密码条目吗？')) {
+    if (confirm('确定要删除这个密码条目吗？删除后可在回收站中还原。')) {
       await deleteEntry(entryId);
       removeEntry(entryId);
       onDeleted();
@@ -70,6 +123,15 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
             </svg>
           </button>
+          <button
+            onClick={() => setShowHistory(true)}
+            className="p-2 hover:bg-theme-card rounded-lg transition-all duration-200 text-theme-secondary hover:text-theme hover:scale-105"
+            title="历史版本"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
           <button
             onClick={onEdit}
             className="p-2 hover:bg-theme-card rounded-lg transition-all duration-200 text-theme-secondary hover:text-theme hover:scale-105"
@@ -99,6 +161,11 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
           <div className="min-w-0 flex-1">
             <h1 className="text-xl font-semibold text-theme truncate">{entry.title}</h1>
             <div className="flex items-center gap-2 mt-1">
+              {type !== 'login' && (
+                <span className="text-xs px-1.5 py-0.5 rounded bg-theme-card text-theme-secondary">
+                  {getEntryTypeLabel(type)}
+                </span>
+              )}
               {category && (
                 <span className="text-sm text-theme-secondary">
                   {category.icon} {category.name}
@@ -121,27 +188,87 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
 
         {/* 字段列表 */}
         <div className="space-y-4">
+          {/* 类型专属字段 */}
+          <TypeDetailFields entry={entry} />
+
           {/* 用户名 */}
-          <div className="group">
-            <div className="flex items-center gap-2 mb-1.5">
-              <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-              </svg>
-              <span className="text-xs text-theme-secondary uppercase tracking-wider">用户名</span>
+          {type === 'login' && (
+            <div className="group">
+              <div className="flex items-center gap-2 mb-1.5">
+                <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                </svg>
+                <span className="text-xs text-theme-secondary uppercase tracking-wider">用户名</span>
+              </div>
+              <div className="flex items-center gap-2 bg-theme-card rounded-lg p-3">
+                <span className="flex-1 text-theme truncate">{entry.username || '-'}</span>
+                {entry.username && (
+                  <button
+                    onClick={() => handleCopy(entry.username, 'username')}
+                    className={`p-1.5 rounded transition-colors flex-shrink-0 ${
+                      copied === 'username' 
+                        ? 'text-green-400 bg-green-500/10' 
+                        : 'text-theme-secondary hover:text-theme hover:bg-theme-card'
+                    }`}
+                    title={copied === 'username' ? '已复制' : '复制'}
+                  >
+                    {copied === 'username' ? (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                      </svg>
+                    ) : (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                      </svg>
+                    )}
+                  </button>
+                )}
+              </div>
             </div>
-            <div className="flex items-center gap-2 bg-theme-card rounded-lg p-3">
-              <span className="flex-1 text-theme truncate">{entry.username || '-'}</span>
-              {entry.username && (
+          )}
+
+          {/* 派生密码 */}
+          {type === 'login' && entry.derivation && <DerivedPasswordField entry={entry} />}
+
+          {/* 密码 */}
+          {showPasswordField && (
+            <div className="group">
+              <div className="flex items-center gap-2 mb-1.5">
+                <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                </svg>
+                <span className="text-xs text-theme-secondary uppercase tracking-wider">{passwordLabel}</span>
+              </div>
+              <div className="flex items-center gap-2 bg-theme-card rounded-lg p-3">
+                <span className="flex-1 text-theme font-mono truncate">
+                  {showPassword ? entry.password : '••••••••••••'}
+                </span>
+                <button
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="p-1.5 rounded text-theme-secondary hover:text-theme hover:bg-theme-card transition-colors flex-shrink-0"
+                  title={showPassword ? '隐藏' : '显示'}
+                >
+                  {showPassword ? (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                    </svg>
+                  ) : (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                    </svg>
+                  )}
+                </button>
                 <button
-                  onClick={() => handleCopy(entry.username, 'username')}
+                  onClick={() => handleCopy(entry.password, 'password')}
                   className={`p-1.5 rounded transition-colors flex-shrink-0 ${
-                    copied === 'username' 
+                    copied === 'password' 
                       ? 'text-green-400 bg-green-500/10' 
                       : 'text-theme-secondary hover:text-theme hover:bg-theme-card'
                   }`}
-                  title={copied === 'username' ? '已复制' : '复制'}
+                  title={copied === 'password' ? '已复制' : '复制'}
                 >
-                  {copied === 'username' ? (
+                  {copied === 'password' ? (
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                     </svg>
@@ -151,59 +278,23 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
                     </svg>
                   )}
                 </button>
+              </div>
+              {breached && (
+                <div className="flex items-start gap-2 mt-2 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400">
+                  <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                  </svg>
+                  <span>该{passwordLabel}出现在已导入的泄露密码库中，请尽快修改</span>
+                </div>
               )}
             </div>
-          </div>
+          )}
 
-          {/* 密码 */}
-          <div className="group">
-            <div className="flex items-center gap-2 mb-1.5">
-              <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-              </svg>
-              <span className="text-xs text-theme-secondary uppercase tracking-wider">密码</span>
-            </div>
-            <div className="flex items-center gap-2 bg-theme-card rounded-lg p-3">
-              <span className="flex-1 text-theme font-mono truncate">
-                {showPassword ? entry.password : '••••••••••••'}
-              </span>
-              <button
-                onClick={() => setShowPassword(!showPassword)}
-                className="p-1.5 rounded text-theme-secondary hover:text-theme hover:bg-theme-card transition-colors flex-shrink-0"
-                title={showPassword ? '隐藏' : '显示'}
-              >
-                {showPassword ? (
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                  </svg>
-                ) : (
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                  </svg>
-                )}
-              </button>
-              <button
-                onClick={() => handleCopy(entry.password, 'password')}
-                className={`p-1.5 rounded transition-colors flex-shrink-0 ${
-                  copied === 'password' 
-                    ? 'text-green-400 bg-green-500/10' 
-                    : 'text-theme-secondary hover:text-theme hover:bg-theme-card'
-                }`}
-                title={copied === 'password' ? '已复制' : '复制'}
-              >
-                {copied === 'password' ? (
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                  </svg>
-                ) : (
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                  </svg>
-                )}
-              </button>
-            </div>
-          </div>
+          {/* 两步验证码 */}
+          {type === 'login' && entry.otpauth && <OtpField entry={entry} />}
+
+          {/* Wi-Fi 二维码 */}
+          {type === 'wifi' && entry.wifi && <WifiQRCode entry={entry} />}
 
           {/* 网址 */}
           {entry.url && (
@@ -246,6 +337,58 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
             </div>
           )}
 
+          {/* 自定义字段 */}
+          {(entry.customFields || []).map((field) => {
+            const copyKey = `custom:${field.id}`;
+            return (
+              <div key={field.id} className="group">
+                <div className="flex items-center gap-2 mb-1.5">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+                  </svg>
+                  <span className="text-xs text-theme-secondary uppercase tracking-wider">{field.label}</span>
+                  <span className="text-xs text-theme-secondary/60">
+                    {CUSTOM_FIELD_TYPES.find((t) => t.value === field.type)?.label}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 bg-theme-card rounded-lg p-3">
+                  {renderFieldValue(field)}
+                  {isConcealedField(field.type) && (
+                    <button
+                      onClick={() => toggleFieldReveal(field.id)}
+                      className="p-1.5 rounded text-theme-secondary hover:text-theme hover:bg-theme-card transition-colors flex-shrink-0"
+                      title={revealedFields.has(field.id) ? '隐藏' : '显示'}
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                      </svg>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleCopy(field.value, copyKey)}
+                    className={`p-1.5 rounded transition-colors flex-shrink-0 ${
+                      copied === copyKey
+                        ? 'text-green-400 bg-green-500/10'
+                        : 'text-theme-secondary hover:text-theme hover:bg-theme-card'
+                    }`}
+                    title={copied === copyKey ? '已复制' : '复制'}
+                  >
+                    {copied === copyKey ? (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                      </svg>
+                    ) : (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                      </svg>
+                    )}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
           {/* 备注 */}
           {entry.notes && (
             <div className="group">
@@ -253,7 +396,7 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
                 <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
-                <span className="text-xs text-theme-secondary uppercase tracking-wider">备注</span>
+                <span className="text-xs text-theme-secondary uppercase tracking-wider">{type === 'note' ? '笔记内容' : '备注'}</span>
               </div>
               <div className="bg-theme-card rounded-lg p-3">
                 <p className="text-theme text-sm whitespace-pre-wrap">{entry.notes}</p>
@@ -262,6 +405,11 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
           )}
         </div>
 
+        {/* 附件 */}
+        <div className="mt-4">
+          <AttachmentList entryId={entry.id} />
+        </div>
+
         {/* 底部时间信息 */}
         <div className="mt-8 pt-4 border-t border-theme">
           <div className="flex items-center gap-4 text-xs text-theme-secondary">
@@ -288,6 +436,13 @@ export default function PasswordDetail({ entryId, onEdit, onDeleted, onBack }: P
         entryId={entryId}
         entryTitle={entry.title}
       />
+
+      {/* 历史版本对话框 */}
+      <EntryHistoryDialog
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        entry={entry}
+      />
     </div>
   );
 }
@@ -1,8 +1,15 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useVaultStore } from '../../stores/vaultStore';
-import { createEntry, updateEntry, generatePassword, getSmartIcon } from '../../utils/api';
+import { createEntry, updateEntry, generatePassword, getSmartIcon, addGeneratorHistory } from '../../utils/api';
 import Avatar from '../common/Avatar';
-import type { PasswordEntry, PasswordConfig } from '../../types/electron';
+import CustomFieldsEditor, { CUSTOM_FIELD_TYPES } from './CustomFieldsEditor';
+import TypeFormFields, { type TypeDetails } from './TypeFormFields';
+import { ENTRY_TYPE_OPTIONS, getEntryType } from '../../utils/itemTypes';
+import { usePasswordBreach } from '../../hooks/usePasswordBreach';
+import { DEFAULT_POLICY_RULES, checkPasswordPolicy, clampPolicyLength, describePolicyRules, resolveEntryPolicy } from '../../utils/passwordPolicy';
+import { describeDerivation, getDerivationProblems, normalizeDerivationParams } from '../../utils/derivation';
+import { describeOtp, normalizeOtpAuthUri, parseOtpAuthUri } from '../../utils/otp';
+import type { PasswordEntry, PasswordConfig, CustomField, EntryType } from '../../types/electron';
 
 // 分类图标配置 - 与 Sidebar 保持一致
 const CATEGORY_ICON_CONFIG: Record<string, { icon: React.ReactNode; color: string }> = {
@@ -80,17 +87,26 @@ interface Props {
 }
 
 export default function PasswordForm({ entryId, onClose, onSaved }: Props) {
-  const { entries, categories, addEntry, updateEntry: updateStoreEntry } = useVaultStore();
+  const { entries, categories, policies, selectedType, addEntry, updateEntry: updateStoreEntry, refreshEntries } = useVaultStore();
   const existingEntry = entryId ? entries.find((e) => e.id === entryId) : null;
 
+  const [type, setType] = useState<EntryType>(selectedType || 'login');
+  const [details, setDetails] = useState<TypeDetails>({});
   const [title, setTitle] = useState('');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const breached = usePasswordBreach(password, 400);
   const [url, setUrl] = useState('');
+  const [policyId, setPolicyId] = useState('');  // 为空时按网址匹配
+  const [derived, setDerived] = useState(false);  // 派生密码条目只保存参数
+  const [derivationLength, setDerivationLength] = useState(16);
+  const [useCurrentRules, setUseCurrentRules] = useState(false);
+  const [otpauth, setOtpauth] = useState('');  // otpauth URI 或 Base32 密钥
   const [notes, setNotes] = useState('');
   const [categoryId, setCategoryId] = useState<string>('');
   const [favorite, setFavorite] = useState(false);
   const [icon, setIcon] = useState('');
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -145,17 +161,69 @@ export default function PasswordForm({ entryId, onClose, onSaved }: Props) {
 
   useEffect(() => {
     if (existingEntry) {
+      setType(getEntryType(existingEntry));
+      setDetails({
+        card: existingEntry.card,
+        identity: existingEntry.identity,
+        sshKey: existingEntry.sshKey,
+        wifi: existingEntry.wifi,
+      });
       setTitle(existingEntry.title);
       setUsername(existingEntry.username);
       setPassword(existingEntry.password);
       setUrl(existingEntry.url || '');
+      setPolicyId(existingEntry.policyId || '');
+      setDerived(!!existingEntry.derivation);
+      setDerivationLength(existingEntry.derivation?.length ?? 16);
+      setOtpauth(existingEntry.otpauth || '');
       setNotes(existingEntry.notes || '');
       setCategoryId(existingEntry.categoryId || '');
       setFavorite(existingEntry.favorite);
       setIcon(existingEntry.icon || '');
+      setCustomFields(existingEntry.customFields || []);
     }
   }, [existingEntry]);
 
+  // 网站密码规则只用于登录条目
+  const policy = type === 'login' ? resolveEntryPolicy(policies, { policyId, url }) : null;
+  const policyViolations = useMemo(
+    () => (policy && password ? checkPasswordPolicy(password, policy.rules) : []),
+    [policy, password]
+  );
+
+  // 派生密码：站点取自网址，登录名取自用户名；已有条目沿用保存时的规则快照，避免规则修改后密码跟着变化
+  const previousDerivation = existingEntry?.derivation;
+  const derivation = useMemo(() => {
+    if (type !== 'login' || !derived) return undefined;
+    const rules = previousDerivation && !useCurrentRules ? previousDerivation.rules : policy?.rules ?? DEFAULT_POLICY_RULES;
+    return normalizeDerivationParams({
+      site: url,
+      login: username,
+      counter: previousDerivation?.counter ?? 1,
+      length: derivationLength,
+      rules,
+    });
+  }, [type, derived, previousDerivation, useCurrentRules, policy, url, username, derivationLength]);
+  const derivationChanged = !!previousDerivation && !!derivation && (
+    derivation.site !== previousDerivation.site
+    || derivation.login !== previousDerivation.login
+    || derivation.length !== previousDerivation.length
+    || JSON.stringify(derivation.rules) !== JSON.stringify(previousDerivation.rules)
+  );
+  const rulesOutdated = !!previousDerivation && !useCurrentRules && !!policy
+    && JSON.stringify(policy.rules) !== JSON.stringify(previousDerivation.rules);
+
+  // 两步验证：实时解析输入，显示参数或错误
+  const otpInfo = useMemo(() => {
+    if (!otpauth.trim()) return null;
+    try {
+      const params = parseOtpAuthUri(otpauth);
+      return { description: [params.issuer, params.account, describeOtp(params)].filter(Boolean).join(' · '), error: '' };
+    } catch (err) {
+      return { description: '', error: (err as Error).message };
+    }
+  }, [otpauth]);
+
   const handleGeneratePassword = async () => {
     const config: PasswordConfig = {
       length: 16,
@@ -165,9 +233,12 @@ export default function PasswordForm({ entryId, onClose, onSaved }: Props) {
       special: true,
       excludeAmbiguous: true,
     };
-    const generated = await generatePassword(config);
+    const generated = await generatePassword(
+      policy ? { ...config, length: clampPolicyLength(policy.rules, config.length), policy: policy.rules } : config
+    );
     setPassword(generated);
     setShowPassword(true);
+    addGeneratorHistory(generated, url.trim() || title.trim() || undefined).catch(console.error);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -179,51 +250,113 @@ export default function PasswordForm({ entryId, onClose, onSaved }: Props) {
       return;
     }
 
+    // 去掉空字段，未命名的字段以类型名作为名称
+    const cleanedFields = customFields
+      .filter((f) => f.value.trim())
+      .map((f) => ({
+        ...f,
+        label: f.label.trim() || CUSTOM_FIELD_TYPES.find((t) => t.value === f.type)?.label || '字段',
+        value: f.type === 'totp' ? f.value.replace(/\s+/g, '').toUpperCase() : f.type === 'hidden' ? f.value : f.value.trim(),
+      }));
+
+    // 只提交当前类型对应的详情，其余字段由主进程校验和规范化
+    const typeFields: Pick<PasswordEntry, 'type' | 'card' | 'identity' | 'sshKey' | 'wifi'> = {
+      type,
+      card: type === 'card' ? details.card : undefined,
+      identity: type === 'identity' ? details.identity : undefined,
+      sshKey: type === 'ssh' ? details.sshKey : undefined,
+      wifi: type === 'wifi' ? details.wifi || { ssid: '', security: 'WPA' } : undefined,
+    };
+    const entryUsername = type === 'login' ? username.trim() : '';
+    const entryPassword = derivation || type === 'note' || (type === 'wifi' && typeFields.wifi?.security === 'nopass') ? '' : password;
+    const entryUrl = type === 'login' ? url.trim() || undefined : undefined;
+    const entryPolicyId = type === 'login' ? policyId || undefined : undefined;
+
+    if (type === 'login' && otpInfo?.error) {
+      setError(otpInfo.error);
+      return;
+    }
+    const entryOtpauth = type === 'login' && otpauth.trim() ? normalizeOtpAuthUri(otpauth) : undefined;
+
+    if (derivation) {
+      if (!derivation.site) {
+        setError('派生密码需要填写网址');
+        return;
+      }
+      const problems = getDerivationProblems(derivation);
+      if (problems.length > 0) {
+        setError(problems[0]);
+        return;
+      }
+    }
+
     setIsLoading(true);
     try {
       if (existingEntry) {
         const updated: PasswordEntry = {
           ...existingEntry,
+          ...typeFields,
           title: title.trim(),
-          username: username.trim(),
-          password,
-          url: url.trim() || undefined,
+          username: entryUsername,
+          password: entryPassword,
+          url: entryUrl,
+          policyId: entryPolicyId,
+          derivation,
+          otpauth: entryOtpauth,
           notes: notes.trim() || undefined,
           categoryId: categoryId || undefined,
           icon: icon || undefined,
+          customFields: cleanedFields,
           favorite,
           updatedAt: new Date().toISOString(),
         };
         await updateEntry(updated);
         updateStoreEntry(updated);
+        if (type !== 'login') {
+          // 卡号、SSH 指纹等由主进程规范化，重新加载以获取最终数据
+          await refreshEntries();
+        }
         onSaved(existingEntry.id);
       } else {
         const id = await createEntry({
+          ...typeFields,
           title: title.trim(),
-          username: username.trim(),
-          password,
-          url: url.trim() || undefined,
+          username: entryUsername,
+          password: entryPassword,
+          url: entryUrl,
+          policyId: entryPolicyId,
+          derivation,
+          otpauth: entryOtpauth,
           notes: notes.trim() || undefined,
           categoryId: categoryId || undefined,
           icon: icon || undefined,
           tags: [],
+          customFields: cleanedFields,
           favorite,
         });
         const newEntry: PasswordEntry = {
           id,
+          ...typeFields,
           title: title.trim(),
-          username: username.trim(),
-          password,
-          url: url.trim() || undefined,
+          username: entryUsername,
+          password: entryPassword,
+          url: entryUrl,
+          policyId: entryPolicyId,
+          derivation,
+          otpauth: entryOtpauth,
           notes: notes.trim() || undefined,
           categoryId: categoryId || undefined,
           icon: icon || undefined,
           tags: [],
+          customFields: cleanedFields,
           favorite,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         };
         addEntry(newEntry);
+        if (type !== 'login') {
+          await refreshEntries();
+        }
         onSaved(id);
       }
     } catch (err) {
@@ -233,6 +366,103 @@ export default function PasswordForm({ entryId, onClose, onSaved }: Props) {
     }
   };
 
+  const passwordLabel = type === 'wifi' ? 'Wi-Fi 密码' : type === 'ssh' ? '私钥口令' : '密码';
+
+  // 密码输入框（登录、Wi-Fi 和 SSH 共用）
+  const passwordField = (
+    <div>
+      <div className="flex items-center gap-2 mb-1.5">
+        <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+        </svg>
+        <span className="text-xs text-theme-secondary uppercase tracking-wider">{passwordLabel}</span>
+      </div>
+      <div className="flex items-center bg-theme-card rounded-lg border border-theme transition-colors focus-within:border-theme-primary">
+        <input
+          type={showPassword ? 'text' : 'password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="flex-1 px-3 py-2.5 bg-transparent text-theme font-mono border-none"
+          placeholder={`输入${passwordLabel}`}
+        />
+        <button
+          type="button"
+          onClick={() => setShowPassword(!showPassword)}
+          className="p-2 text-theme-secondary hover:text-theme transition-colors"
+          title={showPassword ? '隐藏' : '显示'}
+        >
+          {showPassword ? (
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+            </svg>
+          ) : (
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+            </svg>
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={handleGeneratePassword}
+          className="p-2 text-theme-primary hover:bg-theme-primary/10 rounded-r-lg transition-colors"
+          title="生成密码"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        </button>
+      </div>
+      {breached && (
+        <p className="mt-1.5 text-xs text-red-400">该{passwordLabel}出现在已导入的泄露密码库中，建议换一个</p>
+      )}
+      {policy && policyViolations.length > 0 && (
+        <p className="mt-1.5 text-xs text-yellow-400">不符合「{policy.name}」：{policyViolations.join('；')}</p>
+      )}
+    </div>
+  );
+
+  // 派生密码参数（仅登录条目）
+  const derivationField = derivation && (
+    <div>
+      <div className="flex items-center gap-2 mb-1.5">
+        <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+        </svg>
+        <span className="text-xs text-theme-secondary uppercase tracking-wider">派生密码</span>
+      </div>
+      <div className="flex items-center gap-3 bg-theme-card rounded-lg border border-theme px-3 py-2">
+        <span className="text-sm text-theme-secondary">长度</span>
+        <input
+          type="number"
+          min={derivation.rules.minLength}
+          max={derivation.rules.maxLength}
+          value={derivationLength}
+          onChange={(e) => setDerivationLength(parseInt(e.target.value) || 0)}
+          className="w-20 px-2 py-1 input-theme rounded"
+        />
+        <span className="flex-1 text-xs text-theme-secondary text-right truncate">
+          {derivation.site ? describeDerivation(derivation) : '请填写网址'}
+        </span>
+      </div>
+      <p className="mt-1.5 text-xs text-theme-secondary">
+        不保存密码，由派生主密码和网址、用户名、计数器、规则计算得出。规则：{describePolicyRules(derivation.rules)}
+      </p>
+      {rulesOutdated && policy && (
+        <button
+          type="button"
+          onClick={() => setUseCurrentRules(true)}
+          className="mt-1 text-xs text-theme-primary hover:underline"
+        >
+          改用「{policy.name}」的当前规则
+        </button>
+      )}
+      {derivationChanged && (
+        <p className="mt-1.5 text-xs text-yellow-400">修改了网址、用户名、长度或规则，保存后派生出的密码会改变</p>
+      )}
+    </div>
+  );
+
   return (
     <div className="h-full flex flex-col overflow-hidden animate-fade-in">
       {/* 顶部操作栏 */}
@@ -294,87 +524,144 @@ export default function PasswordForm({ entryId, onClose, onSaved }: Props) {
             </div>
           </div>
 
-          {/* 字段列表 */}
-          <div className="space-y-4">
-            {/* 用户名 */}
-            <div>
-              <div className="flex items-center gap-2 mb-1.5">
-                <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                </svg>
-                <span className="text-xs text-theme-secondary uppercase tracking-wider">用户名</span>
-              </div>
-              <input
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                className="w-full px-3 py-2.5 input-theme rounded-lg"
-                placeholder="用户名或邮箱"
-              />
-            </div>
-
-            {/* 密码 */}
-            <div>
-              <div className="flex items-center gap-2 mb-1.5">
-                <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                </svg>
-                <span className="text-xs text-theme-secondary uppercase tracking-wider">密码</span>
-              </div>
-              <div className="flex items-center bg-theme-card rounded-lg border border-theme transition-colors focus-within:border-theme-primary">
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="flex-1 px-3 py-2.5 bg-transparent text-theme font-mono border-none"
-                  placeholder="输入密码"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="p-2 text-theme-secondary hover:text-theme transition-colors"
-                  title={showPassword ? '隐藏' : '显示'}
-                >
-                  {showPassword ? (
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                    </svg>
-                  ) : (
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                    </svg>
-                  )}
-                </button>
+          {/* 条目类型（仅新建时可选） */}
+          {!existingEntry && (
+            <div className="flex flex-wrap gap-2">
+              {ENTRY_TYPE_OPTIONS.map((option) => (
                 <button
+                  key={option.value}
                   type="button"
-                  onClick={handleGeneratePassword}
-                  className="p-2 text-theme-primary hover:bg-theme-primary/10 rounded-r-lg transition-colors"
-                  title="生成密码"
+                  onClick={() => setType(option.value)}
+                  className={`px-3 py-1.5 rounded-lg text-sm flex items-center gap-1.5 border transition-colors ${
+                    type === option.value
+                      ? 'border-theme-primary bg-theme-primary/10 text-theme-primary'
+                      : 'border-theme text-theme-secondary hover:text-theme hover:bg-theme-card'
+                  }`}
                 >
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={option.icon} />
                   </svg>
+                  {option.label}
                 </button>
-              </div>
+              ))}
             </div>
+          )}
 
-            {/* 网址 */}
-            <div>
-              <div className="flex items-center gap-2 mb-1.5">
-                <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
-                </svg>
-                <span className="text-xs text-theme-secondary uppercase tracking-wider">网址</span>
-              </div>
-              <input
-                type="url"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                className="w-full px-3 py-2.5 input-theme rounded-lg"
-                placeholder="https://example.com"
-              />
-            </div>
+          {/* 字段列表 */}
+          <div className="space-y-4">
+            {type === 'login' && (
+              <>
+                {/* 用户名 */}
+                <div>
+                  <div className="flex items-center gap-2 mb-1.5">
+                    <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                    </svg>
+                    <span className="text-xs text-theme-secondary uppercase tracking-wider">用户名</span>
+                  </div>
+                  <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="w-full px-3 py-2.5 input-theme rounded-lg"
+                    placeholder="用户名或邮箱"
+                  />
+                </div>
+
+                {/* 密码保存方式 */}
+                <div className="flex gap-2">
+                  {([
+                    { value: false, label: '保存密码' },
+                    { value: true, label: '派生密码' },
+                  ]).map((option) => (
+                    <button
+                      key={option.label}
+                      type="button"
+                      onClick={() => setDerived(option.value)}
+                      className={`px-3 py-1 rounded-lg text-xs border transition-colors ${
+                        derived === option.value
+                          ? 'border-theme-primary bg-theme-primary/10 text-theme-primary'
+                          : 'border-theme text-theme-secondary hover:text-theme hover:bg-theme-card'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                {derived ? derivationField : passwordField}
+
+                {/* 网址 */}
+                <div>
+                  <div className="flex items-center gap-2 mb-1.5">
+                    <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                    </svg>
+                    <span className="text-xs text-theme-secondary uppercase tracking-wider">网址</span>
+                  </div>
+                  <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    className="w-full px-3 py-2.5 input-theme rounded-lg"
+                    placeholder="https://example.com"
+                  />
+                </div>
+
+                {/* 密码规则 */}
+                <div>
+                  <div className="flex items-center gap-2 mb-1.5">
+                    <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                    </svg>
+                    <span className="text-xs text-theme-secondary uppercase tracking-wider">密码规则</span>
+                  </div>
+                  <select
+                    value={policies.some((p) => p.id === policyId) ? policyId : ''}
+                    onChange={(e) => setPolicyId(e.target.value)}
+                    className="w-full px-3 py-2.5 input-theme rounded-lg"
+                  >
+                    <option value="">按网址自动匹配</option>
+                    {policies.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                  {policy && (
+                    <p className="mt-1.5 text-xs text-theme-secondary">
+                      {policyId ? '' : `已匹配「${policy.name}」：`}{describePolicyRules(policy.rules)}
+                    </p>
+                  )}
+                </div>
+
+                {/* 两步验证 */}
+                <div>
+                  <div className="flex items-center gap-2 mb-1.5">
+                    <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                    </svg>
+                    <span className="text-xs text-theme-secondary uppercase tracking-wider">两步验证</span>
+                  </div>
+                  <input
+                    type="password"
+                    value={otpauth}
+                    onChange={(e) => setOtpauth(e.target.value)}
+                    className="w-full px-3 py-2.5 input-theme rounded-lg font-mono"
+                    placeholder="otpauth:// 链接或 Base32 密钥（可选）"
+                    autoComplete="off"
+                  />
+                  {otpInfo && (
+                    <p className={`mt-1.5 text-xs ${otpInfo.error ? 'text-red-400' : 'text-theme-secondary'}`}>
+                      {otpInfo.error || otpInfo.description}
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* 类型专属字段 */}
+            <TypeFormFields type={type} details={details} onChange={setDetails} />
+
+            {(type === 'ssh' || (type === 'wifi' && details.wifi?.security !== 'nopass')) && passwordField}
 
             {/* 分类 */}
             <div>
@@ -450,20 +737,23 @@ export default function PasswordForm({ entryId, onClose, onSaved }: Props) {
               </div>
             </div>
 
+            {/* 自定义字段 */}
+            <CustomFieldsEditor fields={customFields} onChange={setCustomFields} />
+
             {/* 备注 */}
             <div>
               <div className="flex items-center gap-2 mb-1.5">
                 <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
-                <span className="text-xs text-theme-secondary uppercase tracking-wider">备注</span>
+                <span className="text-xs text-theme-secondary uppercase tracking-wider">{type === 'note' ? '笔记内容' : '备注'}</span>
               </div>
               <textarea
                 value={notes}
                 onChange={(e) => setNotes(e.target.value)}
-                rows={3}
+                rows={type === 'note' ? 10 : 3}
                 className="w-full px-3 py-2.5 input-theme rounded-lg resize-none"
-                placeholder="可选备注信息"
+                placeholder={type === 'note' ? '笔记内容，已加密保存' : '可选备注信息'}
               />
             </div>
 
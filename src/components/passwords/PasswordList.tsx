@@ -2,6 +2,7 @@ import { useMemo, useRef, useState, useEffect, useCallback } from 'react';
 import { useVaultStore } from '../../stores/vaultStore';
 import { useSelectionStore } from '../../stores/selection-store';
 import Avatar from '../common/Avatar';
+import { getEntryType, getEntryTypeLabel, getEntrySubtitle } from '../../utils/itemTypes';
 
 interface Props {
   selectedId: string | null;
@@ -12,7 +13,7 @@ interface Props {
 const ALPHABET = '#ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
 
 export default function PasswordList({ selectedId, onSelect }: Props) {
-  const { entries, selectedCategoryId, selectedTagId, searchQuery } = useVaultStore();
+  const { entries, selectedCategoryId, selectedTagId, selectedType, searchQuery } = useVaultStore();
   const { 
     isSelectionMode, 
     selectedIds, 
@@ -41,6 +42,11 @@ export default function PasswordList({ selectedId, onSelect }: Props) {
       result = result.filter((e) => e.tags.includes(selectedTagId));
     }
 
+    // 按类型筛选
+    if (selectedType) {
+      result = result.filter((e) => getEntryType(e) === selectedType);
+    }
+
     // 搜索筛选
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
@@ -48,7 +54,13 @@ export default function PasswordList({ selectedId, onSelect }: Props) {
         (e) =>
           e.title.toLowerCase().includes(query) ||
           e.username.toLowerCase().includes(query) ||
-          (e.url && e.url.toLowerCase().includes(query))
+          (e.url && e.url.toLowerCase().includes(query)) ||
+          getEntrySubtitle(e).toLowerCase().includes(query) ||
+          (e.customFields || []).some((field) =>
+            field.label.toLowerCase().includes(query) ||
+            // 隐藏字段和 TOTP 密钥不按值搜索
+            (field.type !== 'hidden' && field.type !== 'totp' && field.value.toLowerCase().includes(query))
+          )
       );
     }
 
@@ -78,7 +90,7 @@ export default function PasswordList({ selectedId, onSelect }: Props) {
       groupedEntries: grouped,
       availableLetters: letters,
     };
-  }, [entries, selectedCategoryId, selectedTagId, searchQuery]);
+  }, [entries, selectedCategoryId, selectedTagId, selectedType, searchQuery]);
 
   // 获取所有条目ID列表（用于范围选择）
   const allEntryIds = useMemo(() => filteredEntries.map(e => e.id), [filteredEntries]);
@@ -144,7 +156,7 @@ export default function PasswordList({ selectedId, onSelect }: Props) {
   if (filteredEntries.length === 0) {
     return (
       <div className="flex-1 flex items-center justify-center text-theme-secondary text-sm">
-        {searchQuery ? '没有找到匹配的密码' : '暂无密码条目'}
+        {searchQuery || selectedType ? '没有找到匹配的密码' : '暂无密码条目'}
       </div>
     );
   }
@@ -219,8 +231,13 @@ export default function PasswordList({ selectedId, onSelect }: Props) {
                             ? 'text-selected' 
                             : 'text-theme'
                       }`}>{entry.title}</div>
-                      <div className="text-theme-secondary text-sm truncate">{entry.username}</div>
+                      <div className="text-theme-secondary text-sm truncate">{getEntrySubtitle(entry)}</div>
                     </div>
+                    {getEntryType(entry) !== 'login' && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-theme-card text-theme-secondary flex-shrink-0">
+                        {getEntryTypeLabel(getEntryType(entry))}
+                      </span>
+                    )}
                     {entry.favorite && <span className="text-yellow-500">⭐</span>}
                   </div>
                 </button>
@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from 'react';
+import { runSecurityAudit, setAuditConfig, type AuditReport, type AuditIssue, type AuditIssueType } from '../../utils/api';
+
+interface Props {
+  onOpenEntry: (id: string) => void;  // 打开条目编辑以修复问题
+}
+
+const ISSUE_LABELS: Record<AuditIssueType, string> = {
+  weak: '弱密码',
+  breached: '已泄露',
+  reused: '重复使用',
+  similar: '相似密码',
+  stale: '长期未更新',
+  'insecure-url': '不安全的网址',
+  'missing-2fa': '未启用两步验证',
+};
+
+const ISSUE_ORDER: AuditIssueType[] = ['weak', 'breached', 'reused', 'similar', 'stale', 'insecure-url', 'missing-2fa'];
+
+const STALE_OPTIONS = [90, 180, 365, 730];
+
+function getScoreColor(score: number): string {
+  if (score >= 80) return 'text-green-400';
+  if (score >= 60) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+function describeIssue(issue: AuditIssue, titles: Map<string, string>): string {
+  const related = issue.relatedIds?.map((id) => titles.get(id) ?? id).join('、');
+  switch (issue.type) {
+    case 'breached':
+      return '出现在已导入的泄露密码库中';
+    case 'reused':
+      return `与 ${related} 使用相同的密码`;
+    case 'similar':
+      return `与 ${related} 的密码相似`;
+    case 'stale':
+      return `${issue.days} 天未更新`;
+    case 'insecure-url':
+      return '网址使用 http://，建议改为 https://';
+    case 'missing-2fa':
+      return '该网站支持两步验证，但未保存验证码密钥';
+    default:
+      return '密码强度不足';
+  }
+}
+
+/**
+ * 安全审计面板：整体得分、各类问题数量和需要处理的条目
+ */
+export default function SecurityAudit({ onOpenEntry }: Props) {
+  const [report, setReport] = useState<AuditReport | null>(null);
+  const [filter, setFilter] = useState<AuditIssueType | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setReport(await runSecurityAudit());
+    } catch (err) {
+      setError((err as Error).message || '安全审计失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleStaleDaysChange = async (staleDays: number) => {
+    try {
+      await setAuditConfig({ staleDays });
+      await loadReport();
+    } catch (err) {
+      setError((err as Error).message || '保存审计设置失败');
+    }
+  };
+
+  const titles = new Map(report?.entries.map((entry) => [entry.entryId, entry.title]));
+  const visible = report?.entries.filter((entry) => !filter || entry.issues.some((issue) => issue.type === filter)) ?? [];
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden animate-fade-in">
+      <div className="p-4 border-b border-theme flex-shrink-0">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-theme">安全审计</h2>
+          <button
+            onClick={loadReport}
+            disabled={isLoading}
+            className="px-3 py-1 btn-primary text-white text-sm rounded-md transition-colors disabled:opacity-50"
+          >
+            {isLoading ? '扫描中...' : '重新扫描'}
+          </button>
+        </div>
+
+        {report && (
+          <>
+            <div className="flex items-center gap-4 mt-4">
+              <div className={`text-4xl font-bold ${getScoreColor(report.score)}`}>{report.score}</div>
+              <div className="text-sm text-theme-secondary">
+                <div>安全得分（满分 100）</div>
+                <div className="text-xs mt-0.5">
+                  共检查 {report.scannedCount} 条，{report.entries.length} 条需要处理
+                </div>
+              </div>
+              <label className="ml-auto text-xs text-theme-secondary flex items-center gap-2">
+                超过
+                <select
+                  value={report.staleDays}
+                  onChange={(e) => handleStaleDaysChange(Number(e.target.value))}
+                  className="px-2 py-1 bg-theme-bg border border-theme rounded text-theme text-xs focus:outline-none"
+                >
+                  {[...new Set([...STALE_OPTIONS, report.staleDays])].sort((a, b) => a - b).map((days) => (
+                    <option key={days} value={days}>{days} 天</option>
+                  ))}
+                </select>
+                未更新视为过期
+              </label>
+            </div>
+
+            {report.masterPasswordBreached && (
+              <p className="mt-3 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400">
+                主密码出现在已导入的泄露密码库中，请尽快在设置中修改主密码
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2 mt-4">
+              {ISSUE_ORDER.filter((type) => type !== 'breached' || report.breachChecked).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setFilter(filter === type ? null : type)}
+                  className={`px-2.5 py-1 rounded-lg text-xs border transition-colors ${
+                    filter === type
+                      ? 'border-theme-primary text-theme-primary bg-theme-primary/10'
+                      : 'border-theme text-theme-secondary hover:bg-hover'
+                  }`}
+                >
+                  {ISSUE_LABELS[type]}
+                  <span className={`ml-1.5 ${report.counts[type] > 0 ? 'text-theme' : 'opacity-60'}`}>{report.counts[type]}</span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+        {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+      </div>
+
+      {isLoading && !report ? (
+        <div className="flex-1 flex items-center justify-center text-theme-secondary text-sm">扫描中...</div>
+      ) : visible.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-theme-secondary text-sm">
+          {report ? '没有发现问题' : ''}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {visible.map((entry) => (
+            <div key={entry.entryId} className="flex items-start gap-3 p-4 border-b border-theme">
+              <div className={`w-10 text-center text-lg font-semibold flex-shrink-0 ${getScoreColor(entry.score)}`}>
+                {entry.score}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-theme truncate">{entry.title}</div>
+                {(entry.username || entry.url) && (
+                  <div className="text-theme-secondary text-sm truncate">
+                    {[entry.username, entry.url].filter(Boolean).join(' · ')}
+                  </div>
+                )}
+                <ul className="mt-1.5 space-y-0.5">
+                  {entry.issues.map((issue) => (
+                    <li key={issue.type} className="text-xs text-theme-secondary">
+                      <span className="text-yellow-400">{ISSUE_LABELS[issue.type]}</span>
+                      {' · '}
+                      {describeIssue(issue, titles)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <button
+                onClick={() => onOpenEntry(entry.entryId)}
+                className="px-3 py-1.5 text-sm rounded-lg bg-theme-bg hover:bg-theme-card text-theme border border-theme transition-colors flex-shrink-0"
+              >
+                修复
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
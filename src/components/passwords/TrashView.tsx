@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useVaultStore } from '../../stores/vaultStore';
+import { listTrash, restoreFromTrash, purgeFromTrash, emptyTrash, getTrashConfig } from '../../utils/api';
+import Avatar from '../common/Avatar';
+import { getEntryType, getEntryTypeLabel, getEntrySubtitle } from '../../utils/itemTypes';
+import type { PasswordEntry } from '../../types/electron';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashView() {
+  const { refreshEntries } = useVaultStore();
+  const [entries, setEntries] = useState<PasswordEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const [trashed, config] = await Promise.all([listTrash(), getTrashConfig()]);
+      setEntries(trashed);
+      setRetentionDays(config.retentionDays);
+    } catch (err) {
+      console.error('加载回收站失败:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  // 距离自动清理的剩余天数
+  const getRemainingDays = (entry: PasswordEntry): number | null => {
+    if (retentionDays <= 0 || !entry.deletedAt) return null;
+    const expiresAt = new Date(entry.deletedAt).getTime() + retentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+  };
+
+  const handleRestore = async (entry: PasswordEntry) => {
+    setError('');
+    try {
+      await restoreFromTrash(entry.id);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      await refreshEntries();
+    } catch (err) {
+      setError((err as Error).message || '还原条目失败');
+    }
+  };
+
+  const handlePurge = async (entry: PasswordEntry) => {
+    if (!confirm(`确定要彻底删除「${entry.title}」吗？此操作无法撤销。`)) return;
+    setError('');
+    try {
+      await purgeFromTrash(entry.id);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (err) {
+      setError((err as Error).message || '彻底删除失败');
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(`确定要清空回收站吗？${entries.length} 条密码将被彻底删除，此操作无法撤销。`)) return;
+    setError('');
+    try {
+      await emptyTrash();
+      setEntries([]);
+    } catch (err) {
+      setError((err as Error).message || '清空回收站失败');
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden animate-fade-in">
+      <div className="p-4 border-b border-theme flex-shrink-0">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-theme">回收站</h2>
+          <button
+            onClick={handleEmpty}
+            disabled={entries.length === 0}
+            className="px-3 py-1 bg-red-500 hover:bg-red-600 text-white text-sm rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            清空回收站
+          </button>
+        </div>
+        <p className="text-xs text-theme-secondary mt-2">
+          {retentionDays > 0
+            ? `删除的条目将保留 ${retentionDays} 天，之后自动彻底删除，可在设置中修改`
+            : '删除的条目会一直保留，直到手动彻底删除'}
+        </p>
+        {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+      </div>
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center text-theme-secondary text-sm">加载中...</div>
+      ) : entries.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-theme-secondary text-sm">回收站是空的</div>
+      ) : (
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          <div className="px-4 py-2 text-xs text-theme-secondary border-b border-theme bg-theme-sidebar sticky top-0 z-10">
+            共 {entries.length} 条
+          </div>
+          {entries.map((entry) => {
+            const remaining = getRemainingDays(entry);
+            return (
+              <div key={entry.id} className="flex items-center gap-3 p-4 border-b border-theme">
+                <Avatar title={entry.title} icon={entry.icon} size="md" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-theme truncate">{entry.title}</span>
+                    {getEntryType(entry) !== 'login' && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-theme-card text-theme-secondary flex-shrink-0">
+                        {getEntryTypeLabel(getEntryType(entry))}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-theme-secondary text-sm truncate">{getEntrySubtitle(entry)}</div>
+                  <div className="text-xs text-theme-secondary/70 mt-0.5">
+                    {entry.deletedAt && `删除于 ${new Date(entry.deletedAt).toLocaleString()}`}
+                    {remaining !== null && ` · ${remaining} 天后彻底删除`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRestore(entry)}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-theme-bg hover:bg-theme-card text-theme border border-theme transition-colors flex-shrink-0"
+                >
+                  还原
+                </button>
+                <button
+                  onClick={() => handlePurge(entry)}
+                  className="p-1.5 rounded text-theme-secondary hover:text-red-400 hover:bg-red-500/10 transition-colors flex-shrink-0"
+                  title="彻底删除"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
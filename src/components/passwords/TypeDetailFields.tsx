@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { copyToClipboard, getWifiQR } from '../../utils/api';
+import { FIELD_ICONS, getEntryType, getCardBrand, formatCardNumber } from '../../utils/itemTypes';
+import type { PasswordEntry } from '../../types/electron';
+
+const WIFI_SECURITY_LABELS: Record<string, string> = {
+  WPA: 'WPA/WPA2/WPA3',
+  WEP: 'WEP',
+  nopass: '无密码',
+};
+
+interface FieldProps {
+  label: string;
+  icon: string;
+  value: string;
+  display?: string;
+  concealed?: boolean;
+  multiline?: boolean;
+  mono?: boolean;
+}
+
+// 单个只读字段，支持遮挡和复制
+function DetailField({ label, icon, value, display, concealed, multiline, mono }: FieldProps) {
+  const [revealed, setRevealed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await copyToClipboard(value, 30);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const hidden = concealed && !revealed;
+  const text = hidden ? '••••••••••••' : display ?? value;
+
+  return (
+    <div className="group">
+      <div className="flex items-center gap-2 mb-1.5">
+        <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={icon} />
+        </svg>
+        <span className="text-xs text-theme-secondary uppercase tracking-wider">{label}</span>
+      </div>
+      <div className={`flex gap-2 bg-theme-card rounded-lg p-3 ${multiline && !hidden ? 'items-start' : 'items-center'}`}>
+        <span
+          className={`flex-1 text-theme ${mono || concealed ? 'font-mono' : ''} ${
+            multiline && !hidden ? 'text-xs whitespace-pre-wrap break-all max-h-48 overflow-y-auto' : 'truncate'
+          }`}
+        >
+          {text}
+        </span>
+        {concealed && (
+          <button
+            onClick={() => setRevealed(!revealed)}
+            className="p-1.5 rounded text-theme-secondary hover:text-theme hover:bg-theme-card transition-colors flex-shrink-0"
+            title={revealed ? '隐藏' : '显示'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+            </svg>
+          </button>
+        )}
+        <button
+          onClick={handleCopy}
+          className={`p-1.5 rounded transition-colors flex-shrink-0 ${
+            copied
+              ? 'text-green-400 bg-green-500/10'
+              : 'text-theme-secondary hover:text-theme hover:bg-theme-card'
+          }`}
+          title={copied ? '已复制' : '复制'}
+        >
+          {copied ? (
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+          ) : (
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Wi-Fi 连接二维码
+export function WifiQRCode({ entry }: { entry: PasswordEntry }) {
+  const [qrCode, setQrCode] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+    getWifiQR(entry.id)
+      .then((data) => !cancelled && setQrCode(data))
+      .catch((err) => !cancelled && setError((err as Error).message || '生成二维码失败'));
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.id, entry.updatedAt]);
+
+  return (
+    <div className="flex flex-col items-center gap-2 bg-theme-card rounded-lg p-4">
+      {error ? (
+        <p className="text-red-400 text-sm">{error}</p>
+      ) : qrCode ? (
+        <img src={qrCode} alt="Wi-Fi 二维码" className="w-40 h-40 rounded bg-white" />
+      ) : (
+        <div className="w-40 h-40 flex items-center justify-center text-sm text-theme-secondary">生成中...</div>
+      )}
+      <p className="text-xs text-theme-secondary">使用手机相机扫码即可加入网络</p>
+    </div>
+  );
+}
+
+/**
+ * 按条目类型显示专属字段
+ */
+export default function TypeDetailFields({ entry }: { entry: PasswordEntry }) {
+  switch (getEntryType(entry)) {
+    case 'card': {
+      const card = entry.card;
+      if (!card) return null;
+      const brand = getCardBrand(card.number);
+      return (
+        <>
+          <DetailField
+            label={brand ? `卡号 · ${brand}` : '卡号'}
+            icon={FIELD_ICONS.card}
+            value={card.number}
+            display={formatCardNumber(card.number)}
+            mono
+          />
+          {card.cardholder && <DetailField label="持卡人" icon={FIELD_ICONS.user} value={card.cardholder} />}
+          {card.expiry && <DetailField label="有效期" icon={FIELD_ICONS.calendar} value={card.expiry} mono />}
+          {card.cvv && <DetailField label="CVV" icon={FIELD_ICONS.lock} value={card.cvv} concealed />}
+          {card.pin && <DetailField label="PIN" icon={FIELD_ICONS.lock} value={card.pin} concealed />}
+        </>
+      );
+    }
+
+    case 'identity': {
+      const identity = entry.identity || {};
+      return (
+        <>
+          {identity.fullName && <DetailField label="姓名" icon={FIELD_ICONS.user} value={identity.fullName} />}
+          {identity.gender && <DetailField label="性别" icon={FIELD_ICONS.user} value={identity.gender} />}
+          {identity.birthday && (
+            <DetailField
+              label="出生日期"
+              icon={FIELD_ICONS.calendar}
+              value={identity.birthday}
+              display={new Date(identity.birthday).toLocaleDateString()}
+            />
+          )}
+          {identity.idNumber && <DetailField label="证件号码" icon={FIELD_ICONS.id} value={identity.idNumber} concealed />}
+          {identity.phone && <DetailField label="电话" icon={FIELD_ICONS.phone} value={identity.phone} />}
+          {identity.email && <DetailField label="邮箱" icon={FIELD_ICONS.mail} value={identity.email} />}
+          {identity.company && <DetailField label="公司" icon={FIELD_ICONS.building} value={identity.company} />}
+          {identity.address && <DetailField label="地址" icon={FIELD_ICONS.location} value={identity.address} multiline />}
+        </>
+      );
+    }
+
+    case 'ssh': {
+      const sshKey = entry.sshKey || {};
+      return (
+        <>
+          {sshKey.fingerprint && <DetailField label="指纹" icon={FIELD_ICONS.fingerprint} value={sshKey.fingerprint} mono />}
+          {sshKey.publicKey && <DetailField label="公钥" icon={FIELD_ICONS.key} value={sshKey.publicKey} multiline mono />}
+          {sshKey.privateKey && (
+            <DetailField label="私钥" icon={FIELD_ICONS.lock} value={sshKey.privateKey} concealed multiline />
+          )}
+        </>
+      );
+    }
+
+    case 'wifi': {
+      const wifi = entry.wifi;
+      if (!wifi) return null;
+      return (
+        <>
+          <DetailField label="网络名称 (SSID)" icon={FIELD_ICONS.wifi} value={wifi.ssid} />
+          <DetailField
+            label="加密方式"
+            icon={FIELD_ICONS.shield}
+            value={wifi.security}
+            display={`${WIFI_SECURITY_LABELS[wifi.security] || wifi.security}${wifi.hidden ? '（隐藏网络）' : ''}`}
+          />
+        </>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getBreachStatus,
+  selectBreachFile,
+  importBreachSource,
+  removeBreachSource,
+  onBreachProgress,
+  type BreachStatus,
+  type BreachImportMode,
+  type BreachImportProgress,
+} from '../../utils/api';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// 格式化文件大小
+function formatSize(size: number): string {
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  if (size < 1024 * 1024 * 1024) return `${(size / 1024 / 1024).toFixed(1)} MB`;
+  return `${(size / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+/**
+ * 离线泄露密码库：导入 Have I Been Pwned 格式的 SHA-1 哈希文件或生成的索引
+ */
+export default function BreachSettings({ isOpen, onClose }: Props) {
+  const [status, setStatus] = useState<BreachStatus | null>(null);
+  const [mode, setMode] = useState<BreachImportMode>('index');
+  const [progress, setProgress] = useState<BreachImportProgress | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleClose = useCallback(() => {
+    if (isImporting) return;
+    setError('');
+    onClose();
+  }, [isImporting, onClose]);
+
+  // ESC 关闭
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      handleClose();
+    }
+  }, [handleClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      return () => document.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isOpen, handleKeyDown]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getBreachStatus().then(setStatus).catch(console.error);
+    return onBreachProgress(setProgress);
+  }, [isOpen]);
+
+  const handleImport = async () => {
+    const filePath = await selectBreachFile();
+    if (!filePath) return;
+
+    setIsImporting(true);
+    setProgress(null);
+    setError('');
+    try {
+      await importBreachSource(filePath, mode);
+      setStatus(await getBreachStatus());
+    } catch (err) {
+      setError((err as Error).message || '导入泄露密码库失败');
+    } finally {
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('移除后将不再检查密码是否已泄露。确定移除？')) return;
+    setError('');
+    try {
+      await removeBreachSource();
+      setStatus(await getBreachStatus());
+    } catch (err) {
+      setError((err as Error).message || '移除泄露密码库失败');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const source = status?.source;
+  const percent = progress ? Math.min(100, Math.round((progress.processedBytes / progress.totalBytes) * 100)) : 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.target === e.currentTarget && handleClose()}
+    >
+      <div className="bg-theme-card rounded-xl shadow-2xl max-w-md w-full border border-theme animate-in fade-in zoom-in-95 duration-200">
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-theme">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-theme-primary/20 flex items-center justify-center">
+              <svg className="w-4 h-4 text-theme-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold text-theme">泄露密码检查</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={isImporting}
+            className="p-2 text-theme-secondary hover:text-theme hover:bg-theme-bg rounded-lg transition-colors"
+            title="关闭 (Esc)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 内容 */}
+        <div className="p-5 space-y-4">
+          <p className="text-sm text-theme-secondary">
+            导入从 Have I Been Pwned 下载的 SHA-1 密码哈希文件（按哈希排序的版本），所有检查都在本机完成，密码不会发送到任何地方。
+          </p>
+
+          {source ? (
+            <div className="p-3 bg-theme-bg rounded-lg text-sm space-y-1">
+              <div className="text-theme truncate">{source.name}</div>
+              <div className="text-xs text-theme-secondary">
+                {source.kind === 'index' ? '紧凑索引' : '直接使用哈希文件'}
+                {' · '}{formatSize(source.size)}
+                {source.entryCount !== undefined && ` · ${source.entryCount.toLocaleString()} 个哈希`}
+                {' · '}导入于 {new Date(source.importedAt).toLocaleDateString('zh-CN')}
+              </div>
+              {!status?.available && (
+                <div className="text-xs text-red-400">文件已不存在，请重新导入</div>
+              )}
+              {status?.available && (
+                <div className={`text-xs ${status.masterPasswordBreached ? 'text-red-400' : 'text-theme-secondary'}`}>
+                  主密码：
+                  {status.masterPasswordBreached === null
+                    ? '下次解锁时检查'
+                    : status.masterPasswordBreached ? '出现在泄露密码库中，请尽快修改' : '未发现泄露'}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="p-3 bg-theme-bg rounded-lg text-sm text-theme-secondary">尚未导入泄露密码库</div>
+          )}
+
+          <div className="space-y-2">
+            <label className="flex items-start gap-2 text-sm text-theme cursor-pointer">
+              <input
+                type="radio"
+                checked={mode === 'index'}
+                onChange={() => setMode('index')}
+                disabled={isImporting}
+                className="mt-1 accent-theme-primary"
+              />
+              <span>
+                生成紧凑索引
+                <span className="block text-xs text-theme-secondary">约为原文件的 1/20，保存在数据目录中，之后可删除原文件；极少数情况下会误报</span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-theme cursor-pointer">
+              <input
+                type="radio"
+                checked={mode === 'reference'}
+                onChange={() => setMode('reference')}
+                disabled={isImporting}
+                className="mt-1 accent-theme-primary"
+              />
+              <span>
+                直接使用哈希文件
+                <span className="block text-xs text-theme-secondary">结果精确、导入很快，但需要保留原文件</span>
+              </span>
+            </label>
+            <p className="text-xs text-theme-secondary">也可以直接选择其他设备上生成的 .bloom 索引文件。</p>
+          </div>
+
+          {isImporting && (
+            <div className="space-y-1">
+              <div className="h-1.5 bg-theme-bg rounded-full overflow-hidden">
+                <div className="h-full bg-theme-primary transition-all" style={{ width: `${percent}%` }} />
+              </div>
+              <p className="text-xs text-theme-secondary">
+                {progress ? `正在生成索引... ${percent}%` : '正在导入...'}
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="px-5 py-4 border-t border-theme flex gap-3">
+          {source && (
+            <button
+              onClick={handleRemove}
+              disabled={isImporting}
+              className="flex-1 px-4 py-2 bg-theme-bg hover:bg-red-500/10 disabled:opacity-50 text-red-400 text-sm font-medium rounded-lg transition-colors border border-theme"
+            >
+              移除
+            </button>
+          )}
+          <button
+            onClick={handleImport}
+            disabled={isImporting}
+            className="flex-1 px-4 py-2 bg-theme-primary hover:opacity-90 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isImporting ? '导入中...' : source ? '重新导入' : '选择文件'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
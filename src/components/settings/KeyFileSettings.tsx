@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isKeyFileRequired, setKeyFile } from '../../utils/api';
+import KeyFilePicker from '../auth/KeyFilePicker';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Action = 'set' | 'remove';
+
+export default function KeyFileSettings({ isOpen, onClose }: Props) {
+  const [enabled, setEnabled] = useState(false);
+  const [action, setAction] = useState<Action>('set');
+  const [keyFilePath, setKeyFilePath] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleClose = useCallback(() => {
+    setKeyFilePath(null);
+    setPassword('');
+    setError('');
+    setSuccess('');
+    onClose();
+  }, [onClose]);
+
+  // ESC 关闭
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      handleClose();
+    }
+  }, [handleClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      return () => document.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isOpen, handleKeyDown]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAction('set');
+    isKeyFileRequired().then(setEnabled).catch(console.error);
+  }, [isOpen]);
+
+  const handleSubmit = async () => {
+    if (action === 'set' && !keyFilePath) {
+      setError('请选择或生成密钥文件');
+      return;
+    }
+    if (!password) {
+      setError('请输入主密码');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    try {
+      await setKeyFile(password, action === 'set' ? keyFilePath : null);
+      setEnabled(action === 'set');
+      setSuccess(action === 'remove' ? '已移除密钥文件，之后只需主密码即可解锁' : enabled ? '已更换密钥文件，旧密钥文件不再有效' : '已启用密钥文件');
+      setKeyFilePath(null);
+      setPassword('');
+    } catch (err) {
+      setError((err as Error).message || '操作失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.target === e.currentTarget && handleClose()}
+    >
+      <div className="bg-theme-card rounded-xl shadow-2xl max-w-md w-full border border-theme animate-in fade-in zoom-in-95 duration-200">
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-theme">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-theme-primary/20 flex items-center justify-center">
+              <svg className="w-4 h-4 text-theme-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold text-theme">密钥文件</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-theme-secondary hover:text-theme hover:bg-theme-bg rounded-lg transition-colors"
+            title="关闭 (Esc)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 内容 */}
+        <div className="p-5 space-y-4">
+          <p className="text-sm text-theme-secondary">
+            启用后解锁需要同时提供主密码和密钥文件，只知道主密码无法解锁。支持 KeePass 密钥文件。
+            当前状态：<span className={enabled ? 'text-green-400' : 'text-theme'}>{enabled ? '已启用' : '未启用'}</span>
+          </p>
+
+          {enabled && (
+            <div className="flex gap-2">
+              {(['set', 'remove'] as Action[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => { setAction(value); setError(''); setSuccess(''); }}
+                  className={`flex-1 px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                    action === value
+                      ? 'border-theme-primary bg-theme-primary/10 text-theme-primary'
+                      : 'border-theme text-theme hover:bg-theme-bg'
+                  }`}
+                >
+                  {value === 'set' ? '更换密钥文件' : '移除密钥文件'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {action === 'set' && (
+            <div className="space-y-2">
+              <KeyFilePicker value={keyFilePath} onChange={setKeyFilePath} allowGenerate onError={setError} />
+              <p className="text-xs text-theme-secondary">
+                请把密钥文件保存在 U 盘等安全位置并做好备份，丢失后将无法解锁。已有的本地备份仍使用创建时的主密码和密钥文件。
+              </p>
+            </div>
+          )}
+
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="输入主密码确认"
+            className="w-full px-3 py-2.5 bg-theme-bg border border-theme rounded-lg text-theme text-sm focus:outline-none focus:border-theme-primary focus:ring-2 focus:ring-theme-primary/20"
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          />
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {success && <p className="text-sm text-green-400">{success}</p>}
+        </div>
+
+        <div className="px-5 py-4 border-t border-theme flex gap-3">
+          <button
+            onClick={handleClose}
+            disabled={isLoading}
+            className="flex-1 px-4 py-2 bg-theme-bg hover:bg-theme-card disabled:opacity-50 text-theme text-sm font-medium rounded-lg transition-colors border border-theme"
+          >
+            关闭
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isLoading}
+            className={`flex-1 px-4 py-2 hover:opacity-90 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors ${
+              action === 'remove' ? 'bg-red-500' : 'bg-theme-primary'
+            }`}
+          >
+            {isLoading ? '处理中...' : action === 'remove' ? '移除' : enabled ? '更换' : '启用'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
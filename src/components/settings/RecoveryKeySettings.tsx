@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getRecoveryKeyStatus,
+  createRecoveryKey,
+  removeRecoveryKey,
+  type RecoveryKeyStatus,
+  type EmergencyKit,
+} from '../../utils/api';
+import EmergencyKitView, { RecoveryShareOptions } from '../auth/EmergencyKitView';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function RecoveryKeySettings({ isOpen, onClose }: Props) {
+  const [status, setStatus] = useState<RecoveryKeyStatus | null>(null);
+  const [shares, setShares] = useState(1);
+  const [threshold, setThreshold] = useState(1);
+  const [password, setPassword] = useState('');
+  const [kit, setKit] = useState<EmergencyKit | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleClose = useCallback(() => {
+    // 关闭后不再保留恢复密钥
+    setKit(null);
+    setPassword('');
+    setError('');
+    onClose();
+  }, [onClose]);
+
+  // ESC 关闭
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      handleClose();
+    }
+  }, [handleClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      return () => document.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isOpen, handleKeyDown]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getRecoveryKeyStatus().then(setStatus).catch(console.error);
+  }, [isOpen]);
+
+  const handleCreate = async () => {
+    if (!password) {
+      setError('请输入主密码');
+      return;
+    }
+    setIsLoading(true);
+    setError('');
+    try {
+      const newKit = await createRecoveryKey(password, { shares, threshold });
+      setKit(newKit);
+      setStatus({ enabled: true, createdAt: newKit.createdAt });
+      setPassword('');
+    } catch (err) {
+      setError((err as Error).message || '生成恢复密钥失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!password) {
+      setError('请输入主密码');
+      return;
+    }
+    if (!confirm('移除后已打印的应急包将失效，忘记主密码时只能重置密码库。确定移除？')) return;
+
+    setIsLoading(true);
+    setError('');
+    try {
+      await removeRecoveryKey(password);
+      setStatus({ enabled: false, createdAt: null });
+      setPassword('');
+    } catch (err) {
+      setError((err as Error).message || '移除恢复密钥失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.target === e.currentTarget && handleClose()}
+    >
+      <div className="bg-theme-card rounded-xl shadow-2xl max-w-md w-full border border-theme animate-in fade-in zoom-in-95 duration-200">
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-theme">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-theme-primary/20 flex items-center justify-center">
+              <svg className="w-4 h-4 text-theme-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 5.636l-3.536 3.536m0 5.656l3.536 3.536M9.172 9.172L5.636 5.636m3.536 9.192l-3.536 3.536M21 12a9 9 0 11-18 0 9 9 0 0118 0zm-5 0a4 4 0 11-8 0 4 4 0 018 0z" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold text-theme">恢复密钥</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-theme-secondary hover:text-theme hover:bg-theme-bg rounded-lg transition-colors"
+            title="关闭 (Esc)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 内容 */}
+        <div className="p-5 space-y-4">
+          {kit ? (
+            <EmergencyKitView kit={kit} />
+          ) : (
+            <>
+              <p className="text-sm text-theme-secondary">
+                恢复密钥独立于主密码，忘记主密码时可以用它设置新的主密码，数据不会丢失。
+                当前状态：
+                <span className={status?.enabled ? 'text-green-400' : 'text-theme'}>
+                  {status?.enabled
+                    ? `已设置${status.createdAt ? `（${new Date(status.createdAt).toLocaleDateString('zh-CN')}）` : ''}`
+                    : '未设置'}
+                </span>
+              </p>
+
+              <RecoveryShareOptions
+                shares={shares}
+                threshold={threshold}
+                onChange={(count, required) => { setShares(count); setThreshold(required); }}
+              />
+
+              {status?.enabled && (
+                <p className="text-xs text-yellow-400/80">重新生成后，之前打印的应急包和恢复份额将失效。</p>
+              )}
+
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="输入主密码确认"
+                className="w-full px-3 py-2.5 bg-theme-bg border border-theme rounded-lg text-theme text-sm focus:outline-none focus:border-theme-primary focus:ring-2 focus:ring-theme-primary/20"
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              />
+
+              {error && <p className="text-sm text-red-400">{error}</p>}
+            </>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-theme flex gap-3">
+          {kit ? (
+            <button
+              onClick={handleClose}
+              className="flex-1 px-4 py-2 bg-theme-primary hover:opacity-90 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              我已保存
+            </button>
+          ) : (
+            <>
+              {status?.enabled && (
+                <button
+                  onClick={handleRemove}
+                  disabled={isLoading}
+                  className="flex-1 px-4 py-2 bg-theme-bg hover:bg-red-500/10 disabled:opacity-50 text-red-400 text-sm font-medium rounded-lg transition-colors border border-theme"
+                >
+                  移除
+                </button>
+              )}
+              <button
+                onClick={handleCreate}
+                disabled={isLoading}
+                className="flex-1 px-4 py-2 bg-theme-primary hover:opacity-90 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                {isLoading ? '处理中...' : status?.enabled ? '重新生成' : '生成恢复密钥'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,27 @@
 import { useState, useEffect } from 'react';
-import { getSecurityInfo, upgradeSecurityParams, type SecurityInfo } from '../../utils/api';
+import { getSecurityInfo, upgradeSecurityParams, type SecurityInfo, type KdfAlgorithm } from '../../utils/api';
 
 interface Props {
   onUpgradeComplete?: () => void;
 }
 
+const ALGORITHM_OPTIONS: { value: KdfAlgorithm; label: string; description: string }[] = [
+  { value: 'argon2id', label: 'Argon2id', description: '内存密集型，更能抵抗 GPU 暴力破解' },
+  { value: 'pbkdf2-sha256', label: 'PBKDF2', description: '兼容性好，只增加迭代次数' },
+];
+
+const TARGET_OPTIONS = [
+  { value: 500, label: '0.5 秒' },
+  { value: 1000, label: '1 秒' },
+  { value: 2000, label: '2 秒' },
+];
+
 export default function SecurityInfoSection({ onUpgradeComplete }: Props) {
   const [securityInfo, setSecurityInfo] = useState<SecurityInfo | null>(null);
   const [showUpgradeDialog, setShowUpgradeDialog] = useState(false);
   const [upgradePassword, setUpgradePassword] = useState('');
+  const [algorithm, setAlgorithm] = useState<KdfAlgorithm>('argon2id');
+  const [targetMs, setTargetMs] = useState(1000);
   const [upgrading, setUpgrading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -36,8 +49,8 @@ export default function SecurityInfoSection({ onUpgradeComplete }: Props) {
     setUpgrading(true);
 
     try {
-      await upgradeSecurityParams(upgradePassword);
-      setSuccess('安全参数升级成功！');
+      await upgradeSecurityParams(upgradePassword, { algorithm, targetMs });
+      setSuccess('密钥派生参数已更新，下次解锁时生效');
       setShowUpgradeDialog(false);
       setUpgradePassword('');
       await loadSecurityInfo();
@@ -49,6 +62,12 @@ export default function SecurityInfoSection({ onUpgradeComplete }: Props) {
     }
   };
 
+  const openUpgradeDialog = () => {
+    setAlgorithm(securityInfo?.kdf.algorithm === 'pbkdf2-sha256' && !securityInfo.needsUpgrade ? 'pbkdf2-sha256' : 'argon2id');
+    setSuccess(null);
+    setShowUpgradeDialog(true);
+  };
+
   const getSecurityLevelInfo = (level: string) => {
     switch (level) {
       case 'high':
@@ -63,6 +82,7 @@ export default function SecurityInfoSection({ onUpgradeComplete }: Props) {
   if (!securityInfo) return null;
 
   const levelInfo = getSecurityLevelInfo(securityInfo.securityLevel);
+  const { kdf } = securityInfo;
 
   return (
     <>
@@ -82,14 +102,39 @@ export default function SecurityInfoSection({ onUpgradeComplete }: Props) {
           </div>
           <div className="mt-2 text-xs text-theme-secondary space-y-1">
             <div className="flex justify-between">
-              <span>PBKDF2 迭代次数</span>
-              <span className="text-theme">{securityInfo.iterations.toLocaleString()}</span>
+              <span>密钥派生算法</span>
+              <span className="text-theme">{kdf.algorithm === 'argon2id' ? 'Argon2id' : 'PBKDF2-SHA256'}</span>
             </div>
+            {kdf.algorithm === 'argon2id' ? (
+              <>
+                <div className="flex justify-between">
+                  <span>内存成本</span>
+                  <span className="text-theme">{Math.round(kdf.memoryKiB / 1024)} MiB</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>迭代轮数 / 并行度</span>
+                  <span className="text-theme">{kdf.iterations} / {kdf.parallelism}</span>
+                </div>
+              </>
+            ) : (
+              <div className="flex justify-between">
+                <span>迭代次数</span>
+                <span className="text-theme">{kdf.iterations.toLocaleString()}</span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span>密钥派生耗时</span>
               <span className="text-theme">{securityInfo.derivationTimeMs}ms</span>
             </div>
           </div>
+          {!securityInfo.needsUpgrade && (
+            <button
+              onClick={openUpgradeDialog}
+              className="mt-3 text-xs text-theme-primary hover:underline"
+            >
+              调整密钥派生参数
+            </button>
+          )}
         </div>
 
         {/* 升级提示 */}
@@ -102,10 +147,10 @@ export default function SecurityInfoSection({ onUpgradeComplete }: Props) {
               <div className="flex-1">
                 <p className="text-sm text-amber-400 font-medium">建议升级安全参数</p>
                 <p className="text-xs text-amber-400/70 mt-1">
-                  当前迭代次数低于推荐值（600,000），建议升级以提高安全性。
+                  当前迭代次数低于推荐值（600,000），建议升级到 Argon2id 或提高迭代次数。
                 </p>
                 <button
-                  onClick={() => setShowUpgradeDialog(true)}
+                  onClick={openUpgradeDialog}
                   className="mt-2 px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white text-xs font-medium rounded-lg transition-colors"
                 >
                   立即升级
@@ -135,12 +180,48 @@ export default function SecurityInfoSection({ onUpgradeComplete }: Props) {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
                 </svg>
               </div>
-              <h3 className="text-lg font-semibold text-theme">升级安全参数</h3>
+              <h3 className="text-lg font-semibold text-theme">调整密钥派生参数</h3>
             </div>
             <div className="p-5 space-y-4">
+              <div className="space-y-2">
+                <p className="text-xs text-theme-secondary">算法</p>
+                {ALGORITHM_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setAlgorithm(option.value)}
+                    disabled={upgrading}
+                    className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                      algorithm === option.value
+                        ? 'border-theme-primary bg-theme-primary/10'
+                        : 'border-theme hover:bg-theme-bg'
+                    }`}
+                  >
+                    <span className="text-sm text-theme">{option.label}</span>
+                    <span className="block text-xs text-theme-secondary mt-0.5">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <p className="text-xs text-theme-secondary">目标解锁耗时</p>
+                <div className="flex gap-2">
+                  {TARGET_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setTargetMs(option.value)}
+                      disabled={upgrading}
+                      className={`flex-1 px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                        targetMs === option.value
+                          ? 'border-theme-primary bg-theme-primary/10 text-theme-primary'
+                          : 'border-theme text-theme hover:bg-theme-bg'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <p className="text-sm text-theme-secondary">
-                升级将增加 PBKDF2 迭代次数到 600,000，这会使暴力破解更加困难。
-                升级过程需要重新加密所有数据，请输入主密码确认：
+                将按本机性能自动校准参数，耗时越长越难暴力破解。只重新包装数据密钥，条目无需重新加密。请输入主密码确认：
               </p>
               <input
                 type="password"
@@ -152,7 +233,7 @@ export default function SecurityInfoSection({ onUpgradeComplete }: Props) {
               />
               {error && <p className="text-sm text-red-400">{error}</p>}
               <p className="text-xs text-theme-secondary">
-                ⚠️ 升级过程可能需要几秒钟，请勿关闭应用
+                ⚠️ 校准过程可能需要几秒钟，请勿关闭应用。在较慢的设备上解锁会更久
               </p>
             </div>
             <div className="px-5 py-4 border-t border-theme flex gap-3">
@@ -178,10 +259,10 @@ export default function SecurityInfoSection({ onUpgradeComplete }: Props) {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                     </svg>
-                    升级中...
+                    校准中...
                   </>
                 ) : (
-                  '确认升级'
+                  '确认'
                 )}
               </button>
             </div>
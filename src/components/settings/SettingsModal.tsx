@@ -6,7 +6,11 @@ import SyncSettings from './SyncSettings';
 import SecurityInfoSection from './SecurityInfoSection';
 import ShortcutSettings from './ShortcutSettings';
 import OCRSettings from './OCRSettings';
-import { getAutoLockTimeout, setAutoLockTimeout } from '../../utils/api';
+import UnlockJournal from './UnlockJournal';
+import KeyFileSettings from './KeyFileSettings';
+import RecoveryKeySettings from './RecoveryKeySettings';
+import BreachSettings from './BreachSettings';
+import { getAutoLockTimeout, setAutoLockTimeout, getHistoryConfig, setHistoryConfig, getTrashConfig, setTrashConfig, getGeneratorHistoryConfig, setGeneratorHistoryConfig, getUnlockGuardConfig, setUnlockGuardConfig } from '../../utils/api';
 
 interface Theme {
   id: string;
@@ -140,15 +144,25 @@ export default function SettingsModal({ isOpen, onClose }: Props) {
   const [showSync, setShowSync] = useState(false);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showOCR, setShowOCR] = useState(false);
+  const [showUnlockJournal, setShowUnlockJournal] = useState(false);
+  const [showKeyFile, setShowKeyFile] = useState(false);
+  const [showRecoveryKey, setShowRecoveryKey] = useState(false);
+  const [showBreach, setShowBreach] = useState(false);
   const [autoLockMinutes, setAutoLockMinutes] = useState(5);
   const [clipboardClearSeconds, setClipboardClearSeconds] = useState(30);
+  const [historyMaxRevisions, setHistoryMaxRevisions] = useState(20);
+  const [historyMaxAgeDays, setHistoryMaxAgeDays] = useState(365);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30);
+  const [generatorHistoryMaxItems, setGeneratorHistoryMaxItems] = useState(100);
+  const [generatorHistoryMaxAgeDays, setGeneratorHistoryMaxAgeDays] = useState(30);
+  const [wipeAfterFailures, setWipeAfterFailures] = useState(0);
 
   // ESC 关闭
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (e.key === 'Escape' && !showBackup && !showTotp && !showDestroy && !showSync && !showShortcuts && !showOCR) {
+    if (e.key === 'Escape' && !showBackup && !showTotp && !showDestroy && !showSync && !showShortcuts && !showOCR && !showUnlockJournal && !showKeyFile && !showRecoveryKey && !showBreach) {
       onClose();
     }
-  }, [onClose, showBackup, showTotp, showDestroy, showSync, showShortcuts, showOCR]);
+  }, [onClose, showBackup, showTotp, showDestroy, showSync, showShortcuts, showOCR, showUnlockJournal, showKeyFile, showRecoveryKey, showBreach]);
 
   useEffect(() => {
     if (isOpen) {
@@ -166,6 +180,16 @@ export default function SettingsModal({ isOpen, onClose }: Props) {
     if (savedClipboardClear) setClipboardClearSeconds(parseInt(savedClipboardClear, 10));
     applyTheme(savedTheme, savedPrimary);
     getAutoLockTimeout().then(setAutoLockMinutes).catch(console.error);
+    getHistoryConfig().then((config) => {
+      setHistoryMaxRevisions(config.maxRevisions);
+      setHistoryMaxAgeDays(config.maxAgeDays);
+    }).catch(console.error);
+    getTrashConfig().then((config) => setTrashRetentionDays(config.retentionDays)).catch(console.error);
+    getGeneratorHistoryConfig().then((config) => {
+      setGeneratorHistoryMaxItems(config.maxItems);
+      setGeneratorHistoryMaxAgeDays(config.maxAgeDays);
+    }).catch(console.error);
+    getUnlockGuardConfig().then((config) => setWipeAfterFailures(config.wipeAfterFailures)).catch(console.error);
   }, []);
 
   const applyTheme = (themeId: string, customColor?: string | null) => {
@@ -292,7 +316,7 @@ export default function SettingsModal({ isOpen, onClose }: Props) {
                   <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
-                  <span className="text-sm text-theme">自动锁定</span>
+                  <span className="text-sm text-theme">自动锁定（当前密码库）</span>
                 </div>
                 <CustomSelect
                   value={autoLockMinutes}
@@ -347,6 +371,94 @@ export default function SettingsModal({ isOpen, onClose }: Props) {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </button>
+
+              <button
+                onClick={() => setShowKeyFile(true)}
+                className="w-full flex items-center justify-between p-3 bg-theme-bg hover:bg-theme-card rounded-lg transition-colors group"
+              >
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  <span className="text-sm text-theme">密钥文件</span>
+                </div>
+                <svg className="w-4 h-4 text-theme-secondary group-hover:text-theme transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+
+              <button
+                onClick={() => setShowRecoveryKey(true)}
+                className="w-full flex items-center justify-between p-3 bg-theme-bg hover:bg-theme-card rounded-lg transition-colors group"
+              >
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 5.636l-3.536 3.536m0 5.656l3.536 3.536M9.172 9.172L5.636 5.636m3.536 9.192l-3.536 3.536M21 12a9 9 0 11-18 0 9 9 0 0118 0zm-5 0a4 4 0 11-8 0 4 4 0 018 0z" />
+                  </svg>
+                  <span className="text-sm text-theme">恢复密钥与应急包</span>
+                </div>
+                <svg className="w-4 h-4 text-theme-secondary group-hover:text-theme transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+
+              <button
+                onClick={() => setShowBreach(true)}
+                className="w-full flex items-center justify-between p-3 bg-theme-bg hover:bg-theme-card rounded-lg transition-colors group"
+              >
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+                  </svg>
+                  <span className="text-sm text-theme">泄露密码检查</span>
+                </div>
+                <svg className="w-4 h-4 text-theme-secondary group-hover:text-theme transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+
+              <div className="flex items-center justify-between p-3 bg-theme-bg rounded-lg">
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                  </svg>
+                  <span className="text-sm text-theme">连续失败后清除密码库</span>
+                </div>
+                <CustomSelect
+                  value={wipeAfterFailures}
+                  onChange={(value) => {
+                    if (value > 0 && !confirm(`连续验证失败 ${value} 次后将清除本机的密码库和本地备份，请确保已开启同步或另有备份。确定开启吗？`)) {
+                      return;
+                    }
+                    setWipeAfterFailures(value);
+                    setUnlockGuardConfig({ wipeAfterFailures: value }).catch((err) => {
+                      console.error(err);
+                      getUnlockGuardConfig().then((config) => setWipeAfterFailures(config.wipeAfterFailures)).catch(console.error);
+                    });
+                  }}
+                  options={[
+                    { value: 0, label: '从不' },
+                    { value: 5, label: '5 次' },
+                    { value: 10, label: '10 次' },
+                    { value: 20, label: '20 次' },
+                  ]}
+                />
+              </div>
+
+              <button
+                onClick={() => setShowUnlockJournal(true)}
+                className="w-full flex items-center justify-between p-3 bg-theme-bg hover:bg-theme-card rounded-lg transition-colors group"
+              >
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                  </svg>
+                  <span className="text-sm text-theme">解锁记录</span>
+                </div>
+                <svg className="w-4 h-4 text-theme-secondary group-hover:text-theme transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
             </div>
           </section>
 
@@ -389,6 +501,113 @@ export default function SettingsModal({ isOpen, onClose }: Props) {
           <section>
             <h3 className="text-xs font-semibold text-theme-secondary uppercase tracking-wider mb-3">数据</h3>
             <div className="space-y-2">
+              <div className="flex items-center justify-between p-3 bg-theme-bg rounded-lg">
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <span className="text-sm text-theme">历史版本数量</span>
+                </div>
+                <CustomSelect
+                  value={historyMaxRevisions}
+                  onChange={(value) => {
+                    setHistoryMaxRevisions(value);
+                    setHistoryConfig({ maxRevisions: value }).catch(console.error);
+                  }}
+                  options={[
+                    { value: 5, label: '5 个' },
+                    { value: 10, label: '10 个' },
+                    { value: 20, label: '20 个' },
+                    { value: 50, label: '50 个' },
+                    { value: 0, label: '不限' },
+                  ]}
+                />
+              </div>
+              <div className="flex items-center justify-between p-3 bg-theme-bg rounded-lg">
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                  <span className="text-sm text-theme">历史版本保留</span>
+                </div>
+                <CustomSelect
+                  value={historyMaxAgeDays}
+                  onChange={(value) => {
+                    setHistoryMaxAgeDays(value);
+                    setHistoryConfig({ maxAgeDays: value }).catch(console.error);
+                  }}
+                  options={[
+                    { value: 30, label: '30 天' },
+                    { value: 90, label: '90 天' },
+                    { value: 180, label: '180 天' },
+                    { value: 365, label: '1 年' },
+                    { value: 0, label: '永久' },
+                  ]}
+                />
+              </div>
+              <div className="flex items-center justify-between p-3 bg-theme-bg rounded-lg">
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                  <span className="text-sm text-theme">回收站保留</span>
+                </div>
+                <CustomSelect
+                  value={trashRetentionDays}
+                  onChange={(value) => {
+                    setTrashRetentionDays(value);
+                    setTrashConfig({ retentionDays: value }).catch(console.error);
+                  }}
+                  options={[
+                    { value: 7, label: '7 天' },
+                    { value: 30, label: '30 天' },
+                    { value: 90, label: '90 天' },
+                    { value: 0, label: '永久' },
+                  ]}
+                />
+              </div>
+              <div className="flex items-center justify-between p-3 bg-theme-bg rounded-lg">
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                  </svg>
+                  <span className="text-sm text-theme">生成历史数量</span>
+                </div>
+                <CustomSelect
+                  value={generatorHistoryMaxItems}
+                  onChange={(value) => {
+                    setGeneratorHistoryMaxItems(value);
+                    setGeneratorHistoryConfig({ maxItems: value }).catch(console.error);
+                  }}
+                  options={[
+                    { value: 50, label: '50 个' },
+                    { value: 100, label: '100 个' },
+                    { value: 200, label: '200 个' },
+                    { value: 0, label: '不限' },
+                  ]}
+                />
+              </div>
+              <div className="flex items-center justify-between p-3 bg-theme-bg rounded-lg">
+                <div className="flex items-center gap-3">
+                  <svg className="w-4 h-4 text-theme-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                  <span className="text-sm text-theme">生成历史保留</span>
+                </div>
+                <CustomSelect
+                  value={generatorHistoryMaxAgeDays}
+                  onChange={(value) => {
+                    setGeneratorHistoryMaxAgeDays(value);
+                    setGeneratorHistoryConfig({ maxAgeDays: value }).catch(console.error);
+                  }}
+                  options={[
+                    { value: 7, label: '7 天' },
+                    { value: 30, label: '30 天' },
+                    { value: 90, label: '90 天' },
+                    { value: 0, label: '永久' },
+                  ]}
+                />
+              </div>
               <button
                 onClick={() => setShowSync(true)}
                 className="w-full flex items-center justify-between p-3 bg-theme-bg hover:bg-theme-card rounded-lg transition-colors group"
@@ -463,6 +682,10 @@ export default function SettingsModal({ isOpen, onClose }: Props) {
       <SyncSettings isOpen={showSync} onClose={() => setShowSync(false)} />
       <ShortcutSettings isOpen={showShortcuts} onClose={() => setShowShortcuts(false)} />
       <OCRSettings isOpen={showOCR} onClose={() => setShowOCR(false)} />
+      <UnlockJournal isOpen={showUnlockJournal} onClose={() => setShowUnlockJournal(false)} />
+      <KeyFileSettings isOpen={showKeyFile} onClose={() => setShowKeyFile(false)} />
+      <RecoveryKeySettings isOpen={showRecoveryKey} onClose={() => setShowRecoveryKey(false)} />
+      <BreachSettings isOpen={showBreach} onClose={() => setShowBreach(false)} />
     </div>
   );
 }
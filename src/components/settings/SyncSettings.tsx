@@ -15,6 +15,7 @@ import {
   type SyncInfo,
   type SyncConfig,
 } from '../../utils/api';
+import { useVaultStore } from '../../stores/vaultStore';
 import ManualCookieDialog from './ManualCookieDialog';
 
 interface Props {
@@ -25,6 +26,7 @@ interface Props {
 type SyncStatus = 'idle' | 'uploading' | 'downloading' | 'restoring';
 
 export default function SyncSettings({ isOpen, onClose }: Props) {
+  const { lock } = useVaultStore();
   const [authState, setAuthState] = useState<SyncAuthState>({ isAuthenticated: false });
   const [syncInfo, setSyncInfo] = useState<SyncInfo | null>(null);
   const [config, setConfig] = useState<SyncConfig | null>(null);
@@ -193,7 +195,10 @@ export default function SyncSettings({ isOpen, onClose }: Props) {
         if (result.needsRestore) {
           setShowRestoreDialog(true);
         } else {
-          setSuccess('导入成功');
+          // 导入后主进程已锁定密码库，需要重新登录
+          alert('导入成功，请使用导入数据的主密码重新登录');
+          onClose();
+          lock();
         }
       } else if (result.error !== '用户取消') {
         setError(result.error || '导入失败');
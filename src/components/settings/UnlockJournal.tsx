@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { listUnlockJournal, type UnlockJournalEntry } from '../../utils/api';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const METHOD_LABELS: Record<UnlockJournalEntry['method'], string> = {
+  password: '主密码',
+  totp: '验证码',
+  'recovery-code': '恢复码',
+  'recovery-key': '恢复密钥',
+};
+
+export default function UnlockJournal({ isOpen, onClose }: Props) {
+  const [entries, setEntries] = useState<UnlockJournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // ESC 关闭
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  }, [onClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+      return () => document.removeEventListener('keydown', handleKeyDown);
+    }
+  }, [isOpen, handleKeyDown]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    listUnlockJournal()
+      .then(setEntries)
+      .catch(console.error)
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const failedCount = entries.filter((e) => e.event === 'failure').length;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-theme-card rounded-xl shadow-2xl max-w-md w-full max-h-[calc(100vh-4rem)] flex flex-col border border-theme animate-in fade-in zoom-in-95 duration-200">
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-theme flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-theme-primary/20 flex items-center justify-center">
+              <svg className="w-4 h-4 text-theme-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold text-theme">解锁记录</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-theme-secondary hover:text-theme hover:bg-theme-bg rounded-lg transition-colors"
+            title="关闭 (Esc)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 内容 */}
+        <div className="px-5 py-3 text-xs text-theme-secondary border-b border-theme flex-shrink-0">
+          记录加密保存在密码库中，保留最近 200 条{failedCount > 0 && `，其中 ${failedCount} 次失败`}
+        </div>
+        {isLoading ? (
+          <div className="p-8 text-center text-theme-secondary text-sm">加载中...</div>
+        ) : entries.length === 0 ? (
+          <div className="p-8 text-center text-theme-secondary text-sm">暂无记录</div>
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center gap-3 px-5 py-2.5 border-b border-theme">
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${entry.event === 'success' ? 'bg-green-400' : 'bg-red-400'}`} />
+                <span className={`text-sm flex-1 ${entry.event === 'success' ? 'text-theme' : 'text-red-400'}`}>
+                  {entry.event === 'success' ? '解锁成功' : '验证失败'}
+                  <span className="text-theme-secondary text-xs ml-2">{METHOD_LABELS[entry.method]}</span>
+                </span>
+                <span className="text-xs text-theme-secondary">{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
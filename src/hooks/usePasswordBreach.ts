@@ -0,0 +1,35 @@
+/**
+ * 泄露密码检查 Hook
+ * 在本地泄露密码库中检查密码（防抖），未导入泄露密码库时返回 null
+ */
+
+import { useEffect, useState } from 'react';
+import { checkPasswordBreach } from '../utils/api';
+
+export function usePasswordBreach(password: string, delay = 0): boolean | null {
+  const [breached, setBreached] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!password) {
+      setBreached(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      checkPasswordBreach(password)
+        .then((result) => !cancelled && setBreached(result))
+        .catch((error) => {
+          console.error('检查泄露密码失败:', error);
+          if (!cancelled) setBreached(null);
+        });
+    }, delay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [password, delay]);
+
+  return breached;
+}
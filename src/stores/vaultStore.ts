@@ -3,8 +3,8 @@
  */
 
 import { create } from 'zustand';
-import { listEntries, listCategories, listTags } from '../utils/api';
-import type { PasswordEntry, Category, Tag } from '../types/electron';
+import { listEntries, listCategories, listTags, listPolicies } from '../utils/api';
+import type { PasswordEntry, Category, Tag, EntryType, PasswordPolicy } from '../types/electron';
 
 interface VaultState {
   // 状态
@@ -17,11 +17,16 @@ interface VaultState {
   entries: PasswordEntry[];
   categories: Category[];
   tags: Tag[];
+  policies: PasswordPolicy[];
+  derivationSecret: string;  // 派生主密码，只保存在内存中，锁定时清除
 
   // 筛选
   selectedCategoryId: string | null;
   selectedTagId: string | null;
+  selectedType: EntryType | null;
   searchQuery: string;
+  showTrash: boolean;
+  showAudit: boolean;
 
   // Actions
   setInitialized: (value: boolean) => void;
@@ -32,10 +37,15 @@ interface VaultState {
   setEntries: (entries: PasswordEntry[]) => void;
   setCategories: (categories: Category[]) => void;
   setTags: (tags: Tag[]) => void;
+  setPolicies: (policies: PasswordPolicy[]) => void;
+  setDerivationSecret: (secret: string) => void;
 
   setSelectedCategoryId: (id: string | null) => void;
   setSelectedTagId: (id: string | null) => void;
+  setSelectedType: (type: EntryType | null) => void;
   setSearchQuery: (query: string) => void;
+  setShowTrash: (value: boolean) => void;
+  setShowAudit: (value: boolean) => void;
 
   // 复合 Actions
   addEntry: (entry: PasswordEntry) => void;
@@ -46,6 +56,7 @@ interface VaultState {
   refreshEntries: () => Promise<void>;
   refreshCategories: () => Promise<void>;
   refreshTags: () => Promise<void>;
+  refreshPolicies: () => Promise<void>;
   refreshAll: () => Promise<void>;
 
   lock: () => void;  // 锁定时清理数据但保留初始化状态
@@ -60,9 +71,14 @@ const initialState = {
   entries: [],
   categories: [],
   tags: [],
+  policies: [],
+  derivationSecret: '',
   selectedCategoryId: null,
   selectedTagId: null,
+  selectedType: null,
   searchQuery: '',
+  showTrash: false,
+  showAudit: false,
 };
 
 export const useVaultStore = create<VaultState>((set) => ({
@@ -76,10 +92,19 @@ export const useVaultStore = create<VaultState>((set) => ({
   setEntries: (entries) => set({ entries }),
   setCategories: (categories) => set({ categories }),
   setTags: (tags) => set({ tags }),
+  setPolicies: (policies) => set({ policies }),
+  setDerivationSecret: (secret) => set({ derivationSecret: secret }),
 
-  setSelectedCategoryId: (id) => set({ selectedCategoryId: id, selectedTagId: null }),
-  setSelectedTagId: (id) => set({ selectedTagId: id, selectedCategoryId: null }),
+  setSelectedCategoryId: (id) => set({ selectedCategoryId: id, selectedTagId: null, showTrash: false, showAudit: false }),
+  setSelectedTagId: (id) => set({ selectedTagId: id, selectedCategoryId: null, showTrash: false, showAudit: false }),
+  setSelectedType: (type) => set({ selectedType: type, showTrash: false, showAudit: false }),
   setSearchQuery: (query) => set({ searchQuery: query }),
+  setShowTrash: (value) => set(value
+    ? { showTrash: true, showAudit: false, selectedCategoryId: null, selectedTagId: null, selectedType: null }
+    : { showTrash: false }),
+  setShowAudit: (value) => set(value
+    ? { showAudit: true, showTrash: false, selectedCategoryId: null, selectedTagId: null, selectedType: null }
+    : { showAudit: false }),
 
   addEntry: (entry) => set((state) => ({ entries: [entry, ...state.entries] })),
   updateEntry: (entry) => set((state) => ({
@@ -116,14 +141,24 @@ export const useVaultStore = create<VaultState>((set) => ({
     }
   },
 
+  refreshPolicies: async () => {
+    try {
+      const policies = await listPolicies();
+      set({ policies });
+    } catch (error) {
+      console.error('Failed to refresh policies:', error);
+    }
+  },
+
   refreshAll: async () => {
     try {
-      const [entries, categories, tags] = await Promise.all([
+      const [entries, categories, tags, policies] = await Promise.all([
         listEntries(),
         listCategories(),
         listTags(),
+        listPolicies(),
       ]);
-      set({ entries, categories, tags });
+      set({ entries, categories, tags, policies });
     } catch (error) {
       console.error('Failed to refresh all:', error);
     }
@@ -134,9 +169,14 @@ export const useVaultStore = create<VaultState>((set) => ({
     entries: [],
     categories: [],
     tags: [],
+    policies: [],
+    derivationSecret: '',
     selectedCategoryId: null,
     selectedTagId: null,
+    selectedType: null,
     searchQuery: '',
+    showTrash: false,
+    showAudit: false,
     error: null,
     // 保留 isInitialized
     isInitialized: state.isInitialized,
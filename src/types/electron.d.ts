@@ -2,8 +2,42 @@
  * Electron API 类型定义
  */
 
+export type EntryType = 'login' | 'card' | 'identity' | 'note' | 'ssh' | 'wifi';
+
+export interface CardDetails {
+  cardholder?: string;
+  number: string;
+  expiry?: string;  // MM/YY
+  cvv?: string;
+  pin?: string;
+}
+
+export interface IdentityDetails {
+  fullName?: string;
+  gender?: string;
+  birthday?: string;
+  idNumber?: string;
+  phone?: string;
+  email?: string;
+  company?: string;
+  address?: string;
+}
+
+export interface SshKeyDetails {
+  publicKey?: string;
+  privateKey?: string;
+  fingerprint?: string;
+}
+
+export interface WifiDetails {
+  ssid: string;
+  security: 'WPA' | 'WEP' | 'nopass';
+  hidden?: boolean;
+}
+
 export interface PasswordEntry {
   id: string;
+  type?: EntryType;  // 缺省为 login
   title: string;
   username: string;
   password: string;
@@ -12,11 +46,29 @@ export interface PasswordEntry {
   categoryId?: string;
   icon?: string;  // 自定义图标（emoji 或 base64 图片）
   tags: string[];
+  customFields?: CustomField[];
+  card?: CardDetails;
+  identity?: IdentityDetails;
+  sshKey?: SshKeyDetails;
+  wifi?: WifiDetails;
+  policyId?: string;  // 指定的密码规则，未指定时按网址匹配
+  derivation?: DerivationParams;  // 派生密码条目，password 为空
+  otpauth?: string;  // 两步验证的 otpauth URI
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;  // 移入回收站的时间
   favorite: boolean;
 }
 
+export type CustomFieldType = 'text' | 'hidden' | 'url' | 'email' | 'phone' | 'date' | 'totp';
+
+export interface CustomField {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  value: string;
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -39,6 +91,55 @@ export interface PasswordConfig {
   numbers: boolean;
   special: boolean;
   excludeAmbiguous: boolean;
+  mode?: 'random' | 'passphrase';  // 默认 random
+  passphrase?: PassphraseConfig;
+  policy?: PasswordPolicyRules;  // 随机字符模式下按网站规则生成
+}
+
+export type PassphraseWordlist = 'eff-large' | 'eff-short' | 'pinyin';
+
+export type PassphraseCapitalization = 'lower' | 'upper' | 'capitalize' | 'random';
+
+export interface PassphraseConfig {
+  wordlist: PassphraseWordlist;
+  wordCount: number;
+  separator: string;
+  capitalization: PassphraseCapitalization;
+  includeNumber: boolean;
+  includeSymbol: boolean;
+}
+
+export type PolicyCharClass = 'lowercase' | 'uppercase' | 'digits' | 'symbols';
+
+export type PolicyClassRule = 'required' | 'allowed' | 'forbidden';
+
+export type PolicyFirstChar = 'any' | 'letter' | 'uppercase' | 'lowercase' | 'alphanumeric';
+
+export interface PasswordPolicyRules {
+  minLength: number;
+  maxLength: number;
+  classes: Record<PolicyCharClass, PolicyClassRule>;
+  symbols: string;
+  firstChar: PolicyFirstChar;
+  maxConsecutive: number;  // 0 为不限制
+}
+
+export interface PasswordPolicy {
+  id: string;
+  name: string;
+  rules: PasswordPolicyRules;
+  domains: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DerivationParams {
+  version: number;
+  site: string;
+  login: string;
+  counter: number;
+  length: number;
+  rules: PasswordPolicyRules;
 }
 
 export interface ImportEntry {
@@ -48,6 +149,7 @@ export interface ImportEntry {
   url?: string;
   notes?: string;
   category?: string;
+  customFields?: CustomField[];
   rowNumber?: number;
 }
 
@@ -65,6 +167,199 @@ export interface ImportResult {
   newCategories?: string[];
 }
 
+// Google 身份验证器迁移
+export interface AuthenticatorCandidate {
+  id: string;
+  title: string;
+  username: string;
+}
+
+export interface AuthenticatorImportItem {
+  otpauth: string;
+  issuer: string;
+  account: string;
+  description: string;
+  action: 'attach' | 'create' | 'skip';
+  entryId?: string;
+  candidates: AuthenticatorCandidate[];
+  duplicateOf?: string;
+}
+
+export interface AuthenticatorScanResult {
+  items: AuthenticatorImportItem[];
+  skipped: string[];
+  batchId: number;
+  batchIndex: number;
+  batchSize: number;
+}
+
+export interface AuthenticatorImportResult {
+  created: number;
+  attached: number;
+  failed: number;
+}
+
+export interface AuthenticatorExport {
+  pages: string[];
+  exported: number;
+  skipped: Array<{ title: string; reason: string }>;
+}
+
+export type AuthenticatorImageSource = 'file' | 'clipboard' | 'screen';
+
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  entry: PasswordEntry;  // 被覆盖前的条目快照
+  createdAt: string;     // 被覆盖的时间
+}
+
+export interface HistoryConfig {
+  maxRevisions: number;  // 0 表示不限
+  maxAgeDays: number;    // 0 表示不限
+}
+
+export interface UnlockGuardConfig {
+  wipeAfterFailures: number;  // 0 表示不清除
+}
+
+export interface UnlockJournalEntry {
+  id: string;
+  event: 'success' | 'failure';
+  method: 'password' | 'totp' | 'recovery-code' | 'recovery-key';
+  createdAt: string;
+}
+
+export interface UnlockSummary {
+  failedAttempts: number;  // 上次解锁以来的失败次数
+  lastFailureAt: string | null;
+  previousUnlockAt: string | null;
+}
+
+export type KdfAlgorithm = 'pbkdf2-sha256' | 'argon2id';
+
+export type KdfParams =
+  | { algorithm: 'pbkdf2-sha256'; iterations: number }
+  | { algorithm: 'argon2id'; iterations: number; memoryKiB: number; parallelism: number };
+
+export interface SecurityInfo {
+  kdf: KdfParams;
+  securityLevel: 'low' | 'medium' | 'high';
+  needsUpgrade: boolean;
+  derivationTimeMs: number;
+}
+
+export interface RecoveryKeyStatus {
+  enabled: boolean;
+  createdAt: string | null;  // 锁定时为 null
+}
+
+// 应急包内容：未拆分时 codes 只有恢复密钥一项（threshold 为 1），否则为各份恢复份额
+export interface EmergencyKit {
+  vaultName: string;
+  createdAt: string;
+  threshold: number;
+  codes: string[];
+}
+
+export interface VaultInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  autoLockMinutes: number;  // 0 表示不自动锁定
+}
+
+export interface VaultList {
+  vaults: VaultInfo[];
+  currentId: string;
+}
+
+export interface TrashConfig {
+  retentionDays: number;  // 0 表示不自动清理
+}
+
+export interface GeneratorHistoryConfig {
+  maxItems: number;    // 0 表示不限
+  maxAgeDays: number;  // 0 表示不自动清理
+}
+
+export interface GeneratedPassword {
+  id: string;
+  password: string;
+  context?: string;
+  createdAt: string;
+}
+
+export type AuditIssueType = 'weak' | 'breached' | 'reused' | 'similar' | 'stale' | 'insecure-url' | 'missing-2fa';
+
+export interface AuditIssue {
+  type: AuditIssueType;
+  relatedIds?: string[];  // 重复或相似密码的其他条目
+  days?: number;          // 密码未更新的天数
+}
+
+export interface AuditEntryResult {
+  entryId: string;
+  title: string;
+  username: string;
+  url?: string;
+  score: number;  // 0-100
+  issues: AuditIssue[];
+}
+
+export interface AuditReport {
+  score: number;  // 整体得分 0-100
+  scannedCount: number;
+  counts: Record<AuditIssueType, number>;
+  entries: AuditEntryResult[];  // 只包含有问题的条目
+  staleDays: number;
+  breachChecked: boolean;  // 是否已导入泄露密码库并完成检查
+  masterPasswordBreached: boolean | null;  // 主密码是否出现在泄露密码库中
+  generatedAt: string;
+}
+
+export interface AuditConfig {
+  staleDays: number;  // 密码超过多少天未更新视为过期
+}
+
+export interface BreachSource {
+  kind: 'sorted' | 'index';  // 直接引用排序的哈希文件，或使用生成的紧凑索引
+  path: string;
+  name: string;
+  size: number;  // 字节
+  entryCount?: number;
+  importedAt: string;
+}
+
+export interface BreachStatus {
+  source: BreachSource | null;
+  available: boolean;                     // 文件是否仍然存在
+  masterPasswordBreached: boolean | null; // null 表示未检查
+}
+
+export type BreachImportMode = 'reference' | 'index';
+
+export interface BreachImportProgress {
+  processedBytes: number;
+  totalBytes: number;
+}
+
+export interface Attachment {
+  id: string;
+  entryId: string;
+  name: string;
+  mimeType: string;
+  size: number;  // 字节
+  createdAt: string;
+}
+
+export interface AttachmentPreview {
+  mimeType: string;
+  dataUrl?: string;  // 图片和 PDF
+  text?: string;     // 文本类文件
+  truncated?: boolean;
+}
+
 export interface BatchResult {
   success: number;
   failed: number;
@@ -103,8 +398,9 @@ export interface TotpSetupData {
 
 export interface ElectronAPI {
   // 认证
-  setupVault: (password: string) => Promise<{ success: boolean; error?: string }>;
-  unlockVault: (password: string) => Promise<{ success: boolean; error?: string }>;
+  setupVault: (password: string, keyFilePath?: string) => Promise<{ success: boolean; error?: string }>;
+  unlockVault: (password: string, keyFilePath?: string) => Promise<{ success: boolean; totpRequired?: boolean; error?: string }>;
+  verifyUnlockCode: (code: string, isRecoveryCode: boolean) => Promise<{ success: boolean; passwordRequired?: boolean; error?: string }>;
   lockVault: () => Promise<{ success: boolean }>;
   changeMasterPassword: (oldPwd: string, newPwd: string) => Promise<{ success: boolean; error?: string }>;
   isVaultInitialized: () => Promise<boolean>;
@@ -113,31 +409,66 @@ export interface ElectronAPI {
   destroyVault: (password: string) => Promise<{ success: boolean; backupPath?: string; error?: string }>;
   resetVault: () => Promise<{ success: boolean; error?: string }>;
 
+  // 密钥文件
+  isKeyFileRequired: () => Promise<boolean>;
+  generateKeyFile: () => Promise<{ success: boolean; filePath?: string; error?: string }>;
+  selectKeyFile: () => Promise<string | null>;
+  setKeyFile: (password: string, keyFilePath: string | null) => Promise<{ success: boolean; error?: string }>;
+
+  // 恢复密钥
+  getRecoveryKeyStatus: () => Promise<RecoveryKeyStatus>;
+  createRecoveryKey: (
+    password: string,
+    options?: { shares?: number; threshold?: number }
+  ) => Promise<{ success: boolean; kit?: EmergencyKit; error?: string }>;
+  removeRecoveryKey: (password: string) => Promise<{ success: boolean; error?: string }>;
+  recoverVault: (codes: string[], newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  saveEmergencyKit: (kit: EmergencyKit, format: 'html' | 'pdf') => Promise<{ success: boolean; filePath?: string; error?: string }>;
+
+  // 解锁保护
+  getUnlockGuardConfig: () => Promise<{ success: boolean; config?: UnlockGuardConfig; error?: string }>;
+  setUnlockGuardConfig: (config: Partial<UnlockGuardConfig>) => Promise<{ success: boolean; config?: UnlockGuardConfig; error?: string }>;
+  listUnlockJournal: () => Promise<UnlockJournalEntry[]>;
+  getUnlockSummary: () => Promise<UnlockSummary | null>;
+
+  // 多密码库
+  listVaults: () => Promise<VaultList>;
+  createVault: (name: string) => Promise<{ success: boolean; vault?: VaultInfo; error?: string }>;
+  renameVault: (id: string, name: string) => Promise<{ success: boolean; vault?: VaultInfo; error?: string }>;
+  removeVault: (id: string) => Promise<{ success: boolean; error?: string }>;
+  switchVault: (id: string) => Promise<{ success: boolean; error?: string }>;
+  onVaultSwitched: (callback: () => void) => () => void;
+
   // 安全参数
-  getSecurityInfo: () => Promise<{
-    iterations: number;
-    version: number;
-    securityLevel: 'low' | 'medium' | 'high';
-    needsUpgrade: boolean;
-    derivationTimeMs: number;
-  }>;
+  getSecurityInfo: () => Promise<SecurityInfo>;
   checkSecurityUpgrade: () => Promise<boolean>;
-  upgradeSecurityParams: (password: string, iterations?: number) => Promise<{ success: boolean; error?: string }>;
-  checkPasswordStrength: (password: string) => Promise<{
-    score: 0 | 1 | 2 | 3 | 4;
-    level: 'very-weak' | 'weak' | 'medium' | 'strong' | 'very-strong';
-    feedback: string[];
-    isAcceptable: boolean;
-  }>;
+  upgradeSecurityParams: (
+    password: string,
+    options?: { algorithm?: KdfAlgorithm; targetMs?: number }
+  ) => Promise<{ success: boolean; kdf?: KdfParams; error?: string }>;
 
   // 密码条目
-  createEntry: (entry: Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string>;
-  updateEntry: (entry: PasswordEntry) => Promise<void>;
+  createEntry: (entry: Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<{ success: boolean; id?: string; error?: string }>;
+  updateEntry: (entry: PasswordEntry) => Promise<{ success: boolean; error?: string }>;
   deleteEntry: (id: string) => Promise<void>;
   searchEntries: (query: string) => Promise<PasswordEntry[]>;
   listEntries: () => Promise<PasswordEntry[]>;
   getEntriesByCategory: (categoryId: string) => Promise<PasswordEntry[]>;
   getEntriesByTag: (tagId: string) => Promise<PasswordEntry[]>;
+  getWifiQR: (entryId: string) => Promise<{ success: boolean; qrCodeBase64?: string; error?: string }>;
+
+  // 历史版本
+  listEntryRevisions: (entryId: string) => Promise<EntryRevision[]>;
+  restoreEntryRevision: (revisionId: string) => Promise<{ success: boolean; entry?: PasswordEntry; error?: string }>;
+  getHistoryConfig: () => Promise<{ success: boolean; config?: HistoryConfig; error?: string }>;
+  setHistoryConfig: (config: Partial<HistoryConfig>) => Promise<{ success: boolean; config?: HistoryConfig; error?: string }>;
+
+  // 附件
+  addAttachments: (entryId: string) => Promise<{ success: boolean; attachments?: Attachment[]; error?: string }>;
+  listAttachments: (entryId: string) => Promise<Attachment[]>;
+  previewAttachment: (id: string) => Promise<{ success: boolean; preview?: AttachmentPreview; error?: string }>;
+  exportAttachment: (id: string) => Promise<{ success: boolean; filePath?: string; error?: string }>;
+  deleteAttachment: (id: string) => Promise<{ success: boolean; error?: string }>;
 
   // 批量操作
   batchMoveCategory: (ids: string[], categoryId: string | null) => Promise<BatchResult>;
@@ -145,6 +476,27 @@ export interface ElectronAPI {
   batchRemoveTags: (ids: string[], tagIds: string[]) => Promise<BatchResult>;
   batchDelete: (ids: string[]) => Promise<BatchResult>;
 
+  // 回收站
+  listTrash: () => Promise<PasswordEntry[]>;
+  restoreFromTrash: (id: string) => Promise<{ success: boolean; error?: string }>;
+  purgeFromTrash: (id: string) => Promise<{ success: boolean; error?: string }>;
+  emptyTrash: () => Promise<{ success: boolean; count?: number; error?: string }>;
+  getTrashConfig: () => Promise<{ success: boolean; config?: TrashConfig; error?: string }>;
+  setTrashConfig: (config: Partial<TrashConfig>) => Promise<{ success: boolean; config?: TrashConfig; error?: string }>;
+
+  // 安全审计
+  runSecurityAudit: () => Promise<{ success: boolean; report?: AuditReport; error?: string }>;
+  getAuditConfig: () => Promise<{ success: boolean; config?: AuditConfig; error?: string }>;
+  setAuditConfig: (config: Partial<AuditConfig>) => Promise<{ success: boolean; config?: AuditConfig; error?: string }>;
+
+  // 泄露密码检查
+  getBreachStatus: () => Promise<{ success: boolean; status?: BreachStatus; error?: string }>;
+  selectBreachFile: () => Promise<string | null>;
+  importBreachSource: (filePath: string, mode: BreachImportMode) => Promise<{ success: boolean; source?: BreachSource; error?: string }>;
+  removeBreachSource: () => Promise<{ success: boolean; error?: string }>;
+  checkPasswordBreach: (password: string) => Promise<{ success: boolean; breached?: boolean | null; error?: string }>;
+  onBreachProgress: (callback: (progress: BreachImportProgress) => void) => () => void;
+
   // 分类和标签
   createCategory: (category: Omit<Category, 'id'>) => Promise<{ success: boolean; id?: string; error?: string }>;
   listCategories: () => Promise<Category[]>;
@@ -155,9 +507,27 @@ export interface ElectronAPI {
   updateTag: (tag: Tag) => Promise<{ success: boolean; error?: string }>;
   deleteTag: (id: string) => Promise<{ success: boolean; error?: string }>;
 
+  // 密码规则
+  listPolicies: () => Promise<PasswordPolicy[]>;
+  createPolicy: (policy: Pick<PasswordPolicy, 'name' | 'rules' | 'domains'>) => Promise<{ success: boolean; id?: string; error?: string }>;
+  updatePolicy: (policy: Pick<PasswordPolicy, 'id' | 'name' | 'rules' | 'domains'>) => Promise<{ success: boolean; error?: string }>;
+  deletePolicy: (id: string) => Promise<{ success: boolean; error?: string }>;
+
   // 密码生成
   generatePassword: (config: PasswordConfig) => Promise<string>;
-  calculateStrength: (password: string) => Promise<{ score: number; level: string; feedback: string[] }>;
+  derivePassword: (secret: string, params: DerivationParams) => Promise<{ success: boolean; password?: string; error?: string }>;
+
+  // 条目两步验证
+  generateOtpCode: (otpauth: string) => Promise<{ success: boolean; code?: string; error?: string }>;
+  advanceOtpCounter: (id: string) => Promise<{ success: boolean; entry?: PasswordEntry; error?: string }>;
+
+  // 密码生成历史
+  listGeneratorHistory: () => Promise<GeneratedPassword[]>;
+  addGeneratorHistory: (password: string, context?: string) => Promise<{ success: boolean; error?: string }>;
+  deleteGeneratorHistory: (id: string) => Promise<{ success: boolean; error?: string }>;
+  clearGeneratorHistory: () => Promise<{ success: boolean; error?: string }>;
+  getGeneratorHistoryConfig: () => Promise<{ success: boolean; config?: GeneratorHistoryConfig; error?: string }>;
+  setGeneratorHistoryConfig: (config: Partial<GeneratorHistoryConfig>) => Promise<{ success: boolean; config?: GeneratorHistoryConfig; error?: string }>;
 
   // 导入导出
   downloadTemplate: () => Promise<{ success: boolean; error?: string }>;
@@ -165,6 +535,12 @@ export interface ElectronAPI {
   detectFormat: (filePath: string) => Promise<string>;
   executeImport: (entries: ImportEntry[]) => Promise<{ success: number; failed: number; categoriesCreated: number }>;
 
+  // Google 身份验证器迁移
+  scanAuthenticatorText: (text: string) => Promise<{ success: boolean; result?: AuthenticatorScanResult; error?: string }>;
+  scanAuthenticatorImage: (source: AuthenticatorImageSource, filePath?: string) => Promise<{ success: boolean; result?: AuthenticatorScanResult; error?: string }>;
+  importAuthenticatorItems: (items: AuthenticatorImportItem[]) => Promise<{ success: boolean; error?: string } & Partial<AuthenticatorImportResult>>;
+  exportAuthenticatorMigration: (entryIds?: string[]) => Promise<{ success: boolean; export?: AuthenticatorExport; error?: string }>;
+
   // 备份
   createBackup: (backupType?: string) => Promise<{ success: boolean; backup?: BackupInfo; error?: string }>;
   restoreBackup: (backupPath?: string) => Promise<{ success: boolean; error?: string }>;
@@ -7,17 +7,50 @@ import type {
   Category, 
   Tag, 
   PasswordConfig,
+  PasswordPolicy,
+  DerivationParams,
+  GeneratedPassword,
+  GeneratorHistoryConfig,
   ImportEntry,
   ImportError,
   ImportResult,
+  AuthenticatorImportItem,
+  AuthenticatorScanResult,
+  AuthenticatorImportResult,
+  AuthenticatorExport,
+  AuthenticatorImageSource,
   BackupInfo,
   TotpSetupData,
   ShareQRData,
-  BatchResult
+  BatchResult,
+  EntryRevision,
+  HistoryConfig,
+  Attachment,
+  AttachmentPreview,
+  TrashConfig,
+  VaultInfo,
+  VaultList,
+  UnlockGuardConfig,
+  UnlockJournalEntry,
+  UnlockSummary,
+  KdfAlgorithm,
+  KdfParams,
+  SecurityInfo,
+  RecoveryKeyStatus,
+  EmergencyKit,
+  AuditIssueType,
+  AuditIssue,
+  AuditEntryResult,
+  AuditReport,
+  AuditConfig,
+  BreachSource,
+  BreachStatus,
+  BreachImportMode,
+  BreachImportProgress
 } from '../types/electron';
 
 // 重新导出类型供外部使用
-export type { ImportEntry, ImportError, ImportResult, BackupInfo, TotpSetupData, ShareQRData, BatchResult };
+export type { ImportEntry, ImportError, ImportResult, BackupInfo, TotpSetupData, ShareQRData, BatchResult, EntryRevision, HistoryConfig, Attachment, AttachmentPreview, TrashConfig, VaultInfo, VaultList, UnlockGuardConfig, UnlockJournalEntry, UnlockSummary, KdfAlgorithm, KdfParams, SecurityInfo, RecoveryKeyStatus, EmergencyKit, AuditIssueType, AuditIssue, AuditEntryResult, AuditReport, AuditConfig, BreachSource, BreachStatus, BreachImportMode, BreachImportProgress };
 
 // 获取 electronAPI
 const api = () => {
@@ -32,18 +65,36 @@ export async function checkVaultInitialized(): Promise<boolean> {
   return api().isVaultInitialized();
 }
 
-export async function setupVault(password: string): Promise<void> {
-  const result = await api().setupVault(password);
+export async function setupVault(password: string, keyFilePath?: string): Promise<void> {
+  const result = await api().setupVault(password, keyFilePath);
   if (!result.success) {
     throw new Error(result.error || '设置失败');
   }
 }
 
-export async function unlockVault(password: string): Promise<void> {
-  const result = await api().unlockVault(password);
+/**
+ * 验证主密码，启用 TOTP 时返回 totp-required，需要再调用 verifyUnlockCode
+ */
+export async function unlockVault(password: string, keyFilePath?: string): Promise<'unlocked' | 'totp-required'> {
+  const result = await api().unlockVault(password, keyFilePath);
+  if (result.totpRequired) {
+    return 'totp-required';
+  }
   if (!result.success) {
     throw new Error(result.error || '解锁失败');
   }
+  return 'unlocked';
+}
+
+/**
+ * 解锁第二步：验证 TOTP 验证码或恢复码
+ * passwordRequired 表示验证已超时或错误次数过多，需要重新输入主密码
+ */
+export async function verifyUnlockCode(
+  code: string,
+  isRecoveryCode: boolean
+): Promise<{ success: boolean; passwordRequired?: boolean; error?: string }> {
+  return api().verifyUnlockCode(code, isRecoveryCode);
 }
 
 export async function lockVault(): Promise<void> {
@@ -77,22 +128,155 @@ export async function resetVault(): Promise<void> {
   }
 }
 
-// ========== 安全参数 ==========
-export interface SecurityInfo {
-  iterations: number;
-  version: number;
-  securityLevel: 'low' | 'medium' | 'high';
-  needsUpgrade: boolean;
-  derivationTimeMs: number;
+// ========== 密钥文件 ==========
+export async function isKeyFileRequired(): Promise<boolean> {
+  return api().isKeyFileRequired();
+}
+
+/**
+ * 生成新的密钥文件，返回保存路径，用户取消时返回 null
+ */
+export async function generateKeyFile(): Promise<string | null> {
+  const result = await api().generateKeyFile();
+  if (!result.success) {
+    if (result.error === '用户取消') return null;
+    throw new Error(result.error || '生成密钥文件失败');
+  }
+  return result.filePath || null;
+}
+
+/**
+ * 选择已有的密钥文件，用户取消时返回 null
+ */
+export async function selectKeyFile(): Promise<string | null> {
+  return api().selectKeyFile();
+}
+
+/**
+ * 设置、更换或移除（keyFilePath 为 null）密钥文件
+ */
+export async function setKeyFile(password: string, keyFilePath: string | null): Promise<void> {
+  const result = await api().setKeyFile(password, keyFilePath);
+  if (!result.success) {
+    throw new Error(result.error || '设置密钥文件失败');
+  }
+}
+
+// ========== 恢复密钥 ==========
+export async function getRecoveryKeyStatus(): Promise<RecoveryKeyStatus> {
+  return api().getRecoveryKeyStatus();
+}
+
+/**
+ * 生成恢复密钥（替换已有的），返回应急包内容
+ * @param options.shares 拆分的份数，默认不拆分
+ * @param options.threshold 还原所需的份数
+ */
+export async function createRecoveryKey(
+  password: string,
+  options?: { shares?: number; threshold?: number }
+): Promise<EmergencyKit> {
+  const result = await api().createRecoveryKey(password, options);
+  if (!result.success || !result.kit) {
+    throw new Error(result.error || '生成恢复密钥失败');
+  }
+  return result.kit;
+}
+
+export async function removeRecoveryKey(password: string): Promise<void> {
+  const result = await api().removeRecoveryKey(password);
+  if (!result.success) {
+    throw new Error(result.error || '移除恢复密钥失败');
+  }
+}
+
+/**
+ * 用恢复密钥或恢复份额解锁并设置新的主密码
+ */
+export async function recoverVault(codes: string[], newPassword: string): Promise<void> {
+  const result = await api().recoverVault(codes, newPassword);
+  if (!result.success) {
+    throw new Error(result.error || '恢复失败');
+  }
+}
+
+/**
+ * 保存应急包，返回保存路径，用户取消时返回 null
+ */
+export async function saveEmergencyKit(kit: EmergencyKit, format: 'html' | 'pdf'): Promise<string | null> {
+  const result = await api().saveEmergencyKit(kit, format);
+  if (!result.success) {
+    if (result.error === '用户取消') return null;
+    throw new Error(result.error || '保存应急包失败');
+  }
+  return result.filePath || null;
+}
+
+// ========== 解锁保护 ==========
+export async function getUnlockGuardConfig(): Promise<UnlockGuardConfig> {
+  const result = await api().getUnlockGuardConfig();
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '获取解锁保护设置失败');
+  }
+  return result.config;
+}
+
+export async function setUnlockGuardConfig(config: Partial<UnlockGuardConfig>): Promise<UnlockGuardConfig> {
+  const result = await api().setUnlockGuardConfig(config);
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '保存解锁保护设置失败');
+  }
+  return result.config;
+}
+
+export async function listUnlockJournal(): Promise<UnlockJournalEntry[]> {
+  return api().listUnlockJournal();
+}
+
+export async function getUnlockSummary(): Promise<UnlockSummary | null> {
+  return api().getUnlockSummary();
 }
 
-export interface PasswordStrengthResult {
-  score: 0 | 1 | 2 | 3 | 4;
-  level: 'very-weak' | 'weak' | 'medium' | 'strong' | 'very-strong';
-  feedback: string[];
-  isAcceptable: boolean;
+// ========== 多密码库 ==========
+export async function listVaults(): Promise<VaultList> {
+  return api().listVaults();
 }
 
+export async function createVault(name: string): Promise<VaultInfo> {
+  const result = await api().createVault(name);
+  if (!result.success || !result.vault) {
+    throw new Error(result.error || '创建密码库失败');
+  }
+  return result.vault;
+}
+
+export async function renameVault(id: string, name: string): Promise<VaultInfo> {
+  const result = await api().renameVault(id, name);
+  if (!result.success || !result.vault) {
+    throw new Error(result.error || '重命名失败');
+  }
+  return result.vault;
+}
+
+export async function removeVault(id: string): Promise<void> {
+  const result = await api().removeVault(id);
+  if (!result.success) {
+    throw new Error(result.error || '删除密码库失败');
+  }
+}
+
+export async function switchVault(id: string): Promise<void> {
+  const result = await api().switchVault(id);
+  if (!result.success) {
+    throw new Error(result.error || '切换密码库失败');
+  }
+}
+
+export function onVaultSwitched(callback: () => void): () => void {
+  return api().onVaultSwitched(callback);
+}
+
+// ========== 安全参数 ==========
 export async function getSecurityInfo(): Promise<SecurityInfo> {
   return api().getSecurityInfo();
 }
@@ -101,15 +285,15 @@ export async function checkSecurityUpgrade(): Promise<boolean> {
   return api().checkSecurityUpgrade();
 }
 
-export async function upgradeSecurityParams(password: string, iterations?: number): Promise<void> {
-  const result = await api().upgradeSecurityParams(password, iterations);
-  if (!result.success) {
+export async function upgradeSecurityParams(
+  password: string,
+  options?: { algorithm?: KdfAlgorithm; targetMs?: number }
+): Promise<KdfParams> {
+  const result = await api().upgradeSecurityParams(password, options);
+  if (!result.success || !result.kdf) {
     throw new Error(result.error || '升级失败');
   }
-}
-
-export async function checkPasswordStrength(password: string): Promise<PasswordStrengthResult> {
-  return api().checkPasswordStrength(password);
+  return result.kdf;
 }
 
 // ========== 密码条目 ==========
@@ -120,11 +304,18 @@ export async function listEntries(): Promise<PasswordEntry[]> {
 export async function createEntry(
   entry: Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt'>
 ): Promise<string> {
-  return api().createEntry(entry);
+  const result = await api().createEntry(entry);
+  if (!result.success || !result.id) {
+    throw new Error(result.error || '创建条目失败');
+  }
+  return result.id;
 }
 
 export async function updateEntry(entry: PasswordEntry): Promise<void> {
-  await api().updateEntry(entry);
+  const result = await api().updateEntry(entry);
+  if (!result.success) {
+    throw new Error(result.error || '更新条目失败');
+  }
 }
 
 export async function deleteEntry(id: string): Promise<void> {
@@ -143,6 +334,87 @@ export async function getEntriesByTag(tagId: string): Promise<PasswordEntry[]> {
   return api().getEntriesByTag(tagId);
 }
 
+export async function getWifiQR(entryId: string): Promise<string> {
+  const result = await api().getWifiQR(entryId);
+  if (!result.success || !result.qrCodeBase64) {
+    throw new Error(result.error || '生成二维码失败');
+  }
+  return result.qrCodeBase64;
+}
+
+// ========== 历史版本 ==========
+export async function listEntryRevisions(entryId: string): Promise<EntryRevision[]> {
+  return api().listEntryRevisions(entryId);
+}
+
+export async function restoreEntryRevision(revisionId: string): Promise<PasswordEntry> {
+  const result = await api().restoreEntryRevision(revisionId);
+  if (!result.success || !result.entry) {
+    throw new Error(result.error || '恢复历史版本失败');
+  }
+  return result.entry;
+}
+
+export async function getHistoryConfig(): Promise<HistoryConfig> {
+  const result = await api().getHistoryConfig();
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '获取历史版本设置失败');
+  }
+  return result.config;
+}
+
+export async function setHistoryConfig(config: Partial<HistoryConfig>): Promise<HistoryConfig> {
+  const result = await api().setHistoryConfig(config);
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '保存历史版本设置失败');
+  }
+  return result.config;
+}
+
+// ========== 附件 ==========
+/**
+ * 选择文件并添加为附件，用户取消时返回空数组
+ */
+export async function addAttachments(entryId: string): Promise<Attachment[]> {
+  const result = await api().addAttachments(entryId);
+  if (!result.success) {
+    if (result.error === '用户取消') return [];
+    throw new Error(result.error || '添加附件失败');
+  }
+  return result.attachments || [];
+}
+
+export async function listAttachments(entryId: string): Promise<Attachment[]> {
+  return api().listAttachments(entryId);
+}
+
+export async function previewAttachment(id: string): Promise<AttachmentPreview> {
+  const result = await api().previewAttachment(id);
+  if (!result.success || !result.preview) {
+    throw new Error(result.error || '预览附件失败');
+  }
+  return result.preview;
+}
+
+/**
+ * 导出附件，返回保存路径，用户取消时返回 null
+ */
+export async function exportAttachment(id: string): Promise<string | null> {
+  const result = await api().exportAttachment(id);
+  if (!result.success) {
+    if (result.error === '用户取消') return null;
+    throw new Error(result.error || '导出附件失败');
+  }
+  return result.filePath || null;
+}
+
+export async function deleteAttachment(id: string): Promise<void> {
+  const result = await api().deleteAttachment(id);
+  if (!result.success) {
+    throw new Error(result.error || '删除附件失败');
+  }
+}
+
 // ========== 批量操作 ==========
 export async function batchMoveCategory(ids: string[], categoryId: string | null): Promise<BatchResult> {
   return api().batchMoveCategory(ids, categoryId);
@@ -160,6 +432,120 @@ export async function batchDelete(ids: string[]): Promise<BatchResult> {
   return api().batchDelete(ids);
 }
 
+// ========== 回收站 ==========
+export async function listTrash(): Promise<PasswordEntry[]> {
+  return api().listTrash();
+}
+
+export async function restoreFromTrash(id: string): Promise<void> {
+  const result = await api().restoreFromTrash(id);
+  if (!result.success) {
+    throw new Error(result.error || '还原条目失败');
+  }
+}
+
+export async function purgeFromTrash(id: string): Promise<void> {
+  const result = await api().purgeFromTrash(id);
+  if (!result.success) {
+    throw new Error(result.error || '彻底删除失败');
+  }
+}
+
+/**
+ * 清空回收站，返回删除的条目数
+ */
+export async function emptyTrash(): Promise<number> {
+  const result = await api().emptyTrash();
+  if (!result.success) {
+    throw new Error(result.error || '清空回收站失败');
+  }
+  return result.count || 0;
+}
+
+export async function getTrashConfig(): Promise<TrashConfig> {
+  const result = await api().getTrashConfig();
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '获取回收站设置失败');
+  }
+  return result.config;
+}
+
+export async function setTrashConfig(config: Partial<TrashConfig>): Promise<TrashConfig> {
+  const result = await api().setTrashConfig(config);
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '保存回收站设置失败');
+  }
+  return result.config;
+}
+
+// ========== 安全审计 ==========
+export async function runSecurityAudit(): Promise<AuditReport> {
+  const result = await api().runSecurityAudit();
+  if (!result.success || !result.report) {
+    throw new Error(result.error || '安全审计失败');
+  }
+  return result.report;
+}
+
+export async function getAuditConfig(): Promise<AuditConfig> {
+  const result = await api().getAuditConfig();
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '获取审计设置失败');
+  }
+  return result.config;
+}
+
+export async function setAuditConfig(config: Partial<AuditConfig>): Promise<AuditConfig> {
+  const result = await api().setAuditConfig(config);
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '保存审计设置失败');
+  }
+  return result.config;
+}
+
+// ========== 泄露密码检查 ==========
+export async function getBreachStatus(): Promise<BreachStatus> {
+  const result = await api().getBreachStatus();
+  if (!result.success || !result.status) {
+    throw new Error(result.error || '获取泄露密码库状态失败');
+  }
+  return result.status;
+}
+
+export async function selectBreachFile(): Promise<string | null> {
+  return api().selectBreachFile();
+}
+
+export async function importBreachSource(filePath: string, mode: BreachImportMode): Promise<BreachSource> {
+  const result = await api().importBreachSource(filePath, mode);
+  if (!result.success || !result.source) {
+    throw new Error(result.error || '导入泄露密码库失败');
+  }
+  return result.source;
+}
+
+export async function removeBreachSource(): Promise<void> {
+  const result = await api().removeBreachSource();
+  if (!result.success) {
+    throw new Error(result.error || '移除泄露密码库失败');
+  }
+}
+
+/**
+ * 在本地泄露密码库中检查密码，未导入泄露密码库时返回 null
+ */
+export async function checkPasswordBreach(password: string): Promise<boolean | null> {
+  const result = await api().checkPasswordBreach(password);
+  if (!result.success) {
+    throw new Error(result.error || '检查泄露密码失败');
+  }
+  return result.breached ?? null;
+}
+
+export function onBreachProgress(callback: (progress: BreachImportProgress) => void): () => void {
+  return api().onBreachProgress(callback);
+}
+
 // ========== 分类 ==========
 export async function listCategories(): Promise<Category[]> {
   return api().listCategories();
@@ -214,13 +600,106 @@ export async function deleteTag(id: string): Promise<void> {
   }
 }
 
+// ========== 密码规则 ==========
+export async function listPolicies(): Promise<PasswordPolicy[]> {
+  return api().listPolicies();
+}
+
+export async function createPolicy(policy: Pick<PasswordPolicy, 'name' | 'rules' | 'domains'>): Promise<string> {
+  const result = await api().createPolicy(policy);
+  if (!result.success || !result.id) {
+    throw new Error(result.error || '创建规则失败');
+  }
+  return result.id;
+}
+
+export async function updatePolicy(policy: Pick<PasswordPolicy, 'id' | 'name' | 'rules' | 'domains'>): Promise<void> {
+  const result = await api().updatePolicy(policy);
+  if (!result.success) {
+    throw new Error(result.error || '更新规则失败');
+  }
+}
+
+export async function deletePolicy(id: string): Promise<void> {
+  const result = await api().deletePolicy(id);
+  if (!result.success) {
+    throw new Error(result.error || '删除规则失败');
+  }
+}
+
 // ========== 密码生成 ==========
 export async function generatePassword(config: PasswordConfig): Promise<string> {
   return api().generatePassword(config);
 }
 
-export async function calculateStrength(password: string): Promise<{ score: number; level: string; feedback: string[] }> {
-  return api().calculateStrength(password);
+export async function derivePassword(secret: string, params: DerivationParams): Promise<string> {
+  const result = await api().derivePassword(secret, params);
+  if (!result.success || result.password === undefined) {
+    throw new Error(result.error || '计算派生密码失败');
+  }
+  return result.password;
+}
+
+// ========== 条目两步验证 ==========
+export async function generateOtpCode(otpauth: string): Promise<string> {
+  const result = await api().generateOtpCode(otpauth);
+  if (!result.success || result.code === undefined) {
+    throw new Error(result.error || '计算验证码失败');
+  }
+  return result.code;
+}
+
+/**
+ * 推进 HOTP 计数器，不生成历史版本
+ */
+export async function advanceOtpCounter(id: string): Promise<PasswordEntry> {
+  const result = await api().advanceOtpCounter(id);
+  if (!result.success || !result.entry) {
+    throw new Error(result.error || '更新计数器失败');
+  }
+  return result.entry;
+}
+
+// ========== 密码生成历史 ==========
+export async function listGeneratorHistory(): Promise<GeneratedPassword[]> {
+  return api().listGeneratorHistory();
+}
+
+export async function addGeneratorHistory(password: string, context?: string): Promise<void> {
+  const result = await api().addGeneratorHistory(password, context);
+  if (!result.success) {
+    throw new Error(result.error || '记录生成历史失败');
+  }
+}
+
+export async function deleteGeneratorHistory(id: string): Promise<void> {
+  const result = await api().deleteGeneratorHistory(id);
+  if (!result.success) {
+    throw new Error(result.error || '删除记录失败');
+  }
+}
+
+export async function clearGeneratorHistory(): Promise<void> {
+  const result = await api().clearGeneratorHistory();
+  if (!result.success) {
+    throw new Error(result.error || '清空生成历史失败');
+  }
+}
+
+export async function getGeneratorHistoryConfig(): Promise<GeneratorHistoryConfig> {
+  const result = await api().getGeneratorHistoryConfig();
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '获取生成历史设置失败');
+  }
+  return result.config;
+}
+
+export async function setGeneratorHistoryConfig(config: Partial<GeneratorHistoryConfig>): Promise<GeneratorHistoryConfig> {
+  const result = await api().setGeneratorHistoryConfig(config);
+  if (!result.success || !result.config) {
+    throw new Error(result.error || '保存生成历史设置失败');
+  }
+  return result.config;
 }
 
 // ========== 导入导出 ==========
@@ -243,6 +722,39 @@ export async function executeImport(entries: ImportEntry[]): Promise<{ success:
   return api().executeImport(entries);
 }
 
+// ========== Google 身份验证器迁移 ==========
+export async function scanAuthenticatorText(text: string): Promise<AuthenticatorScanResult> {
+  const result = await api().scanAuthenticatorText(text);
+  if (!result.success || !result.result) {
+    throw new Error(result.error || '解析迁移链接失败');
+  }
+  return result.result;
+}
+
+export async function scanAuthenticatorImage(source: AuthenticatorImageSource, filePath?: string): Promise<AuthenticatorScanResult> {
+  const result = await api().scanAuthenticatorImage(source, filePath);
+  if (!result.success || !result.result) {
+    throw new Error(result.error || '识别二维码失败');
+  }
+  return result.result;
+}
+
+export async function importAuthenticatorItems(items: AuthenticatorImportItem[]): Promise<AuthenticatorImportResult> {
+  const result = await api().importAuthenticatorItems(items);
+  if (!result.success) {
+    throw new Error(result.error || '导入两步验证失败');
+  }
+  return { created: result.created ?? 0, attached: result.attached ?? 0, failed: result.failed ?? 0 };
+}
+
+export async function exportAuthenticatorMigration(entryIds?: string[]): Promise<AuthenticatorExport> {
+  const result = await api().exportAuthenticatorMigration(entryIds);
+  if (!result.success || !result.export) {
+    throw new Error(result.error || '导出迁移二维码失败');
+  }
+  return result.export;
+}
+
 // ========== 备份 ==========
 export async function createBackup(backupType: 'manual' | 'auto' = 'manual'): Promise<BackupInfo> {
   const result = await api().createBackup(backupType);
@@ -0,0 +1,11 @@
+/**
+ * 无状态派生密码的参数处理，与主进程、移动端共用 electron/main/generator/derivation
+ * 计算密码需要 PBKDF2，通过 api.derivePassword 在主进程中进行
+ */
+
+export {
+  DERIVATION_VERSION,
+  normalizeDerivationParams,
+  getDerivationProblems,
+  describeDerivation,
+} from '../../electron/main/generator/derivation';
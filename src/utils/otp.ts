@@ -0,0 +1,13 @@
+/**
+ * 条目两步验证的 otpauth URI 处理，与主进程、移动端共用 electron/main/totp/otp
+ * 计算验证码需要 HMAC，通过 api.generateOtpCode 在主进程中进行
+ */
+
+export {
+  parseOtpAuthUri,
+  formatOtpAuthUri,
+  normalizeOtpAuthUri,
+  getOtpRemainingSeconds,
+  describeOtp,
+} from '../../electron/main/totp/otp';
+export type { OtpParams } from '../../electron/main/totp/otp';
@@ -0,0 +1,10 @@
+/**
+ * 密码短语的默认配置和熵计算，与主进程、移动端共用 electron/main/generator/passphrase
+ */
+
+export {
+  DEFAULT_PASSPHRASE_CONFIG,
+  MIN_PASSPHRASE_WORDS,
+  MAX_PASSPHRASE_WORDS,
+  getPassphraseEntropy,
+} from '../../electron/main/generator/passphrase';
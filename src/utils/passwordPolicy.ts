@@ -0,0 +1,19 @@
+/**
+ * 网站密码规则的校验、检查和网址匹配，与主进程、移动端共用 electron/main/generator/policy
+ */
+
+export {
+  DEFAULT_POLICY_RULES,
+  DEFAULT_POLICY_SYMBOLS,
+  MAX_POLICY_LENGTH,
+  POLICY_CHAR_CLASSES,
+  POLICY_CLASS_LABELS,
+  POLICY_FIRST_CHAR_LABELS,
+  getPolicyProblems,
+  checkPasswordPolicy,
+  clampPolicyLength,
+  describePolicyRules,
+  normalizeDomain,
+  findPolicyForUrl,
+  resolveEntryPolicy,
+} from '../../electron/main/generator/policy';
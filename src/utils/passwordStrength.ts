@@ -0,0 +1,14 @@
+/**
+ * 密码强度估算，与主进程、移动端共用 electron/main/strength
+ * 纯计算，在渲染进程中直接调用，不经过 IPC
+ */
+
+export {
+  estimateStrength,
+  formatCrackTime,
+  getStrengthLabel,
+  getStrengthColor,
+  type PasswordStrength,
+  type StrengthLevel,
+  type CrackTimes,
+} from '../../electron/main/strength';
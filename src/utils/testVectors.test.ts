@@ -0,0 +1,56 @@
+// @vitest-environment node
+/**
+ * 派生密码和两步验证码的测试向量，用 Node 的 PBKDF2 和 HMAC 计算
+ * 主进程和移动端在首次使用时用同一组向量自检，这里确保向量本身正确
+ */
+
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  DERIVATION_TEST_VECTORS,
+  derivePassword,
+  verifyDerivationVectors,
+  type Pbkdf2Sha256,
+} from '../../electron/main/generator/derivation';
+import {
+  OTP_TEST_VECTORS,
+  generateOtp,
+  parseOtpAuthUri,
+  verifyOtpVectors,
+  type OtpHmac,
+} from '../../electron/main/totp/otp';
+
+const pbkdf2Sha256: Pbkdf2Sha256 = (password, salt, iterations, keyLength) =>
+  new Promise((resolve, reject) => {
+    crypto.pbkdf2(password, salt, iterations, keyLength, 'sha256', (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+const otpHmac: OtpHmac = (algorithm, key, message) =>
+  new Uint8Array(crypto.createHmac(algorithm.toLowerCase(), key).update(message).digest());
+
+describe('DERIVATION_TEST_VECTORS', () => {
+  it.each(DERIVATION_TEST_VECTORS.map((vector, index) => ({ index, ...vector })))(
+    '向量 $index：$params.site',
+    async ({ secret, params, password }) => {
+      expect(await derivePassword(secret, params, pbkdf2Sha256)).toBe(password);
+    },
+    30000
+  );
+
+  it('自检全部通过', async () => {
+    expect(await verifyDerivationVectors(pbkdf2Sha256)).toEqual([]);
+  }, 60000);
+});
+
+describe('OTP_TEST_VECTORS（RFC 4226 / RFC 6238）', () => {
+  it.each(OTP_TEST_VECTORS.map((vector, index) => ({ index, ...vector })))(
+    '向量 $index：$code',
+    ({ uri, time, code }) => {
+      expect(generateOtp(parseOtpAuthUri(uri), otpHmac, time)).toBe(code);
+    }
+  );
+
+  it('自检全部通过', () => {
+    expect(verifyOtpVectors(otpHmac)).toEqual([]);
+  });
+});